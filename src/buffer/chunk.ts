@@ -109,6 +109,18 @@ export class Chunk {
 		}
 	}
 
+	/**
+	 * A chunk over the same columns and selection. Applying a selection
+	 * to the view leaves this chunk unchanged.
+	 */
+	view(): Chunk {
+		const view = new Chunk(this.schema, this.columns, this.dictionary);
+		if (this.selection !== null) {
+			view.applySelection(this.selection, this.selectedCount);
+		}
+		return view;
+	}
+
 	/** Clear selection (all rows become valid again) */
 	clearSelection(): void {
 		this.selection = null;
@@ -5,6 +5,7 @@
  * - Fixed capacity with bounds checking
  * - Type-safe read/write operations
  * - Integration with selection vectors
+ * - Optional SharedArrayBuffer backing, to hand buffers between workers
  */
 
 import { DTYPE_ARRAY_CONSTRUCTORS, type DTypeKind } from "../types/dtypes.ts";
@@ -52,7 +53,20 @@ export type TypedArrayFor<K extends DTypeKind> = K extends DTypeKind.Int8
 													? Int32Array
 													: K extends DTypeKind.Timestamp
 														? BigInt64Array
-														: never;
+														: K extends DTypeKind.List
+															? Uint32Array
+															: never;
+
+/**
+ * Plain form of a column buffer for postMessage. Buffers allocated in
+ * shared memory keep sharing it instead of being copied.
+ */
+export interface SharedColumn {
+	kind: DTypeKind;
+	data: TypedArray;
+	nulls: Uint8Array | null;
+	length: number;
+}
 
 /**
  * A column buffer storing values of a specific dtype.
@@ -73,15 +87,29 @@ export class ColumnBuffer<K extends DTypeKind = DTypeKind> {
 	/** Null bitmap (bit i = 1 means index i is null) */
 	private nullBitmap: Uint8Array | null;
 
-	constructor(kind: K, capacity: number, nullable: boolean = false) {
+	constructor(
+		kind: K,
+		capacity: number,
+		nullable: boolean = false,
+		shared: boolean = false,
+	) {
 		this.kind = kind;
 		this.capacity = capacity;
 		this._length = 0;
 
 		const Constructor = DTYPE_ARRAY_CONSTRUCTORS[kind];
-		this.data = new Constructor(capacity) as TypedArrayFor<K>;
-
-		this.nullBitmap = nullable ? new Uint8Array(Math.ceil(capacity / 8)) : null;
+		const bitmapSize = Math.ceil(capacity / 8);
+		if (shared) {
+			const View = Constructor as new (buffer: SharedArrayBuffer) => TypedArray;
+			const bytes = capacity * Constructor.BYTES_PER_ELEMENT;
+			this.data = new View(new SharedArrayBuffer(bytes)) as TypedArrayFor<K>;
+			this.nullBitmap = nullable
+				? new Uint8Array(new SharedArrayBuffer(bitmapSize))
+				: null;
+		} else {
+			this.data = new Constructor(capacity) as TypedArrayFor<K>;
+			this.nullBitmap = nullable ? new Uint8Array(bitmapSize) : null;
+		}
 	}
 
 	/** Current number of valid elements */
@@ -221,6 +249,16 @@ export class ColumnBuffer<K extends DTypeKind = DTypeKind> {
 		return ErrorCode.None;
 	}
 
+	/** Plain form for postMessage (see columnBufferFromShared) */
+	toShared(): SharedColumn {
+		return {
+			kind: this.kind,
+			data: this.data,
+			nulls: this.nullBitmap,
+			length: this._length,
+		};
+	}
+
 	/** Recycle the buffer (clear efficiently) */
 	recycle(): void {
 		this._length = 0;
@@ -259,3 +297,21 @@ export function columnBufferFromArray<K extends DTypeKind>(
 	(buffer as unknown as { _length: number })._length = data.length;
 	return buffer;
 }
+
+/**
+ * Rebuild a column buffer from its plain form, reusing its arrays.
+ */
+export function columnBufferFromShared(shared: SharedColumn): ColumnBuffer {
+	const buffer = new ColumnBuffer(shared.kind, 0, false);
+	const target = buffer as unknown as {
+		data: TypedArray;
+		capacity: number;
+		_length: number;
+		nullBitmap: Uint8Array | null;
+	};
+	target.data = shared.data;
+	target.capacity = shared.data.length;
+	target._length = shared.length;
+	target.nullBitmap = shared.nulls;
+	return buffer;
+}
@@ -11,7 +11,9 @@ export {
 export {
 	ColumnBuffer,
 	columnBufferFromArray,
+	columnBufferFromShared,
 	createColumnBuffer,
+	type SharedColumn,
 	type TypedArray,
 	type TypedArrayFor,
 } from "./column-buffer.ts";
@@ -5,7 +5,7 @@
 
 import type { AggExpr, CountExpr, Expr } from "../expr/ast.ts";
 import { avg, col, count, max, min, sum } from "../expr/builders.ts";
-import { type AggSpec, aggregate, groupBy } from "../ops/index.ts";
+import type { AggSpec } from "../ops/index.ts";
 import { ErrorCode } from "../types/error.ts";
 import type { DataFrame } from "./core.ts";
 
@@ -66,17 +66,17 @@ export class RelationalGroupedDataset<T> {
 	agg<const Specs extends readonly TypedAggSpec[]>(
 		specs: Specs,
 	): DataFrame<BuildGroupByResult<T, typeof this.keys, Specs>> {
-		const result = groupBy(
-			this.df.currentSchema(),
-			this.keys,
-			specs as unknown as AggSpec[],
-		);
+		const result = this.df.withNode<
+			BuildGroupByResult<T, typeof this.keys, Specs>
+		>({
+			type: "groupBy",
+			keys: this.keys,
+			specs: specs as unknown as AggSpec[],
+		});
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`GroupBy error: ${result.error}`);
 		}
-		return this.df.withOperator(result.value) as DataFrame<
-			BuildGroupByResult<T, typeof this.keys, Specs>
-		>;
+		return result.value;
 	}
 
 	count(): DataFrame<
@@ -142,14 +142,14 @@ export function addAggMethods(df: typeof DataFrame.prototype) {
 	df.agg = function <const Specs extends readonly TypedAggSpec[]>(
 		specs: Specs,
 	): DataFrame<BuildAggResult<Specs>> {
-		const result = aggregate(
-			this.currentSchema(),
-			specs as unknown as AggSpec[],
-		);
+		const result = this.withNode<BuildAggResult<Specs>>({
+			type: "aggregate",
+			specs: specs as unknown as AggSpec[],
+		});
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`Agg error: ${result.error}`);
 		}
-		return this.withOperator(result.value) as DataFrame<BuildAggResult<Specs>>;
+		return result.value;
 	};
 
 	df.groupBy = function (
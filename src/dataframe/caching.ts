@@ -0,0 +1,40 @@
+/* CACHING METHODS
+/*-----------------------------------------------------
+/* Materialize a plan once and reuse its output
+/* ==================================================== */
+
+import { CachedSource, type StorageLevel } from "../io/index.ts";
+import { DataFrame } from "./core.ts";
+
+/**
+ * Cache of each frame persist() returned. Frames derived from it read the
+ * same source, but only the persisted frame can release it.
+ */
+const ownedCaches = new WeakMap<DataFrame, CachedSource>();
+
+export function addCachingMethods(df: typeof DataFrame.prototype) {
+	df.cache = function (): DataFrame {
+		return this.persist("memory");
+	};
+
+	df.persist = function (level: StorageLevel = "memory"): DataFrame {
+		const source = new CachedSource(
+			() => this.stream(),
+			this.currentSchema(),
+			this._dictionary,
+			level,
+		);
+		const persisted = new DataFrame(
+			source,
+			this.currentSchema(),
+			this._dictionary,
+		);
+		ownedCaches.set(persisted, source);
+		return persisted;
+	};
+
+	df.unpersist = function (): DataFrame {
+		ownedCaches.get(this)?.release();
+		return this;
+	};
+}
@@ -6,12 +6,21 @@
 import type { Chunk } from "../buffer/chunk.ts";
 import type { Dictionary } from "../buffer/dictionary.ts";
 import {
+	buildLogicalPlan,
 	type ComputedColumn,
+	instantiatePlan,
+	type LogicalPlan,
+	lowerPlan,
 	type Operator,
+	optimize,
+	type PhysicalPlan,
 	Pipeline,
 	type PipelineResult,
+	type PlanNode,
+	type PlanStep,
+	planStep,
 } from "../ops/index.ts";
-import { unwrap } from "../types/error.ts";
+import { ErrorCode, err, ok, type Result, unwrap } from "../types/error.ts";
 import { getColumnNames, type Schema } from "../types/schema.ts";
 
 /**
@@ -24,20 +33,21 @@ export class DataFrame<T = Record<string, unknown>> {
 	/** @internal */ source: Iterable<Chunk> | AsyncIterable<Chunk>;
 	/** @internal */ _schema: Schema;
 	/** @internal */ _dictionary: Dictionary | null;
-	/** @internal */ operators: Operator[] = [];
+	/** @internal Logical plan applied to the source */
+	plan: PlanStep[] = [];
 
 	/** @internal */
 	constructor(
 		source: Iterable<Chunk> | AsyncIterable<Chunk>,
 		schema: Schema,
 		dictionary: Dictionary | null,
-		operators?: Operator[],
+		plan?: PlanStep[],
 	) {
 		this.source = source;
 		this._schema = schema;
 		this._dictionary = dictionary;
-		if (operators) {
-			this.operators.push(...operators);
+		if (plan) {
+			this.plan.push(...plan);
 		}
 	}
 
@@ -87,23 +97,44 @@ export class DataFrame<T = Record<string, unknown>> {
   /* Private methods for DataFrame operations
   /* ==================================================== */
 
-	/** @internal Get current schema after all operators */
+	/** @internal Get current schema after all plan steps */
 	currentSchema(): Schema {
-		if (this.operators.length === 0) {
-			return this._schema;
-		}
-		const lastOp = this.operators[this.operators.length - 1];
-		// This should not happen due to length check above, but for type safety:
-		if (!lastOp) throw new Error("Invariant failed: Operator missing");
-		return lastOp.outputSchema;
+		return this.plan[this.plan.length - 1]?.outputSchema ?? this._schema;
+	}
+
+	/**
+	 * @internal Fresh physical operators for one execution of the plan.
+	 * Operators keep state while running, so they are never reused.
+	 */
+	get operators(): Operator[] {
+		return instantiatePlan(this.plan);
+	}
+
+	/** @internal Logical plan tree, as written */
+	logicalPlan(): LogicalPlan {
+		return buildLogicalPlan(this.source, this._schema, this.plan);
+	}
+
+	/**
+	 * @internal Source and operators to execute, lowered from the
+	 * optimized logical plan. Sources that can skip columns and rows are
+	 * scanned with the columns the plan reads and the filters that apply
+	 * to source rows.
+	 */
+	physicalPlan(): PhysicalPlan {
+		return lowerPlan(optimize(this.logicalPlan()));
 	}
 
-	/** @internal Add operator to chain */
-	withOperator<U = T>(op: Operator): DataFrame<U> {
-		return new DataFrame<U>(this.source, this._schema, this._dictionary, [
-			...this.operators,
-			op,
-		]);
+	/** @internal Add a plan node, checked against the current schema */
+	withNode<U = T>(node: PlanNode): Result<DataFrame<U>> {
+		const step = planStep(this.currentSchema(), node);
+		if (step.error !== ErrorCode.None) return err(step.error);
+		return ok(
+			new DataFrame<U>(this.source, this._schema, this._dictionary, [
+				...this.plan,
+				step.value,
+			]),
+		);
 	}
 
 	/* OPERATORS (Typed Definitions)
@@ -247,7 +278,7 @@ export class DataFrame<T = Record<string, unknown>> {
 
 	/** @internal Execute pipeline */
 	async collect(): Promise<DataFrame<T>> {
-		if (this.operators.length === 0) {
+		if (this.plan.length === 0) {
 			// If source is already materialized (array), return this
 			if (Array.isArray(this.source)) {
 				return this;
@@ -257,18 +288,34 @@ export class DataFrame<T = Record<string, unknown>> {
 			for await (const chunk of this.source) {
 				chunks.push(chunk);
 			}
-			return new DataFrame<T>(chunks, this._schema, this._dictionary);
+			// Cached chunks may carry their own dictionary (e.g. from GroupBy)
+			return new DataFrame<T>(
+				chunks,
+				this._schema,
+				chunks[0]?.dictionary ?? this._dictionary,
+			);
 		}
 
-		const pipeline = new Pipeline(this.operators);
+		const { source, operators } = this.physicalPlan();
+		if (operators.length === 0) {
+			// The optimizer removed every step (e.g. an always-true filter)
+			const chunks: Chunk[] = [];
+			for await (const chunk of source) chunks.push(chunk);
+			return new DataFrame<T>(
+				chunks,
+				this.currentSchema(),
+				chunks[0]?.dictionary ?? this._dictionary,
+			);
+		}
+		const pipeline = new Pipeline(operators);
 		let result: PipelineResult;
 
-		if (Symbol.asyncIterator in this.source) {
+		if (Symbol.asyncIterator in source) {
 			result = unwrap(
-				await pipeline.executeAsync(this.source as AsyncIterable<Chunk>),
+				await pipeline.executeAsync(source as AsyncIterable<Chunk>),
 			);
 		} else {
-			result = unwrap(pipeline.execute(this.source as Iterable<Chunk>));
+			result = unwrap(pipeline.execute(source as Iterable<Chunk>));
 		}
 
 		// Use dictionary from result chunks if available (e.g. from GroupBy)
@@ -286,4 +333,14 @@ export class DataFrame<T = Record<string, unknown>> {
 			[],
 		);
 	}
+
+	/** @internal Stream output chunks without materializing */
+	async *stream(): AsyncGenerator<Chunk> {
+		const { source, operators } = this.physicalPlan();
+		if (operators.length === 0) {
+			yield* source;
+			return;
+		}
+		yield* new Pipeline(operators).stream(source);
+	}
 }
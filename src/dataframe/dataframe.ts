@@ -8,6 +8,7 @@ export { DataFrame } from "./core.ts";
 
 import type { Chunk } from "../buffer/chunk.ts";
 import { addAggMethods } from "./aggregation.ts";
+import { addCachingMethods } from "./caching.ts";
 import { addCleaningMethods } from "./cleaning.ts";
 import { addConcatMethods } from "./concatenation.ts";
 import { DataFrame } from "./core.ts";
@@ -22,6 +23,7 @@ import { addProjectionMethods } from "./projection.ts";
 import { addSortingMethods } from "./sorting.ts";
 import { addStringMethods } from "./string-ops.ts";
 import { addTransformMethods } from "./transformation.ts";
+import { addWritingMethods } from "./writing.ts";
 
 /* ATTACH METHODS TO PROTOTYPE
 /*-----------------------------------------------------
@@ -41,6 +43,8 @@ addJoinMethods(DataFrame.prototype);
 addConcatMethods(DataFrame.prototype);
 addExecutionMethods(DataFrame.prototype);
 addInspectionMethods(DataFrame.prototype);
+addWritingMethods(DataFrame.prototype);
+addCachingMethods(DataFrame.prototype);
 
 /* HELPER FUNCTIONS
 /*-----------------------------------------------------
@@ -48,8 +52,16 @@ addInspectionMethods(DataFrame.prototype);
 /* ==================================================== */
 
 import { createDictionary } from "../buffer/dictionary.ts";
-import { type CsvOptions, type CsvSchemaSpec, CsvSource } from "../io/index.ts";
-import { unwrap } from "../types/error.ts";
+import {
+	type ByteSource,
+	type CsvOptions,
+	type CsvSchemaSpec,
+	CsvSource,
+	type NdjsonOptions,
+	type NdjsonSchemaSpec,
+	NdjsonSource,
+} from "../io/index.ts";
+import { type Result, unwrap } from "../types/error.ts";
 import { createSchema, type SchemaSpec } from "../types/schema.ts";
 
 /**
@@ -84,10 +96,11 @@ export function fromRecords<T = Record<string, unknown>>(
 
 /**
  * Create DataFrame from CSV string.
+ * The schema is inferred when not given (or when `inferSchema` is set).
  */
 export function fromCsvString<T = Record<string, unknown>>(
 	csvString: string,
-	schema: CsvSchemaSpec,
+	schema?: CsvSchemaSpec,
 	options?: CsvOptions,
 ): DataFrame<T> {
 	const source = unwrap(CsvSource.fromString(csvString, schema, options));
@@ -102,13 +115,25 @@ export function fromCsvString<T = Record<string, unknown>>(
 /**
  * Read CSV file and create DataFrame using true streaming.
  * Memory-bounded: processes file in chunks without loading all data.
+ * Besides a path, takes a byte stream (such as `Response.body`), a Blob
+ * (`Bun.file()`, `Bun.stdin`) or a buffer; streams can be read once.
+ * The schema is inferred from the first rows when not given; with
+ * `inferSchema` the given schema only overrides the named columns.
  */
 export async function readCsv<T = Record<string, unknown>>(
-	path: string,
-	schema: CsvSchemaSpec,
+	input: string | ByteSource,
+	schema?: CsvSchemaSpec,
 	options?: CsvOptions,
 ): Promise<DataFrame<T>> {
-	const source = unwrap(CsvSource.fromFile(path, schema, options));
+	let result: Result<CsvSource>;
+	if (typeof input !== "string") {
+		result = await CsvSource.fromStream(input, schema, options);
+	} else if (schema && !options?.inferSchema) {
+		result = CsvSource.fromFile(input, schema, options);
+	} else {
+		result = await CsvSource.inferFromFile(input, schema, options);
+	}
+	const source = unwrap(result);
 
 	// Return lazy DataFrame immediately
 	// source implements AsyncIterable, so it creates a new stream on iteration
@@ -120,15 +145,106 @@ export async function readCsv<T = Record<string, unknown>>(
 }
 
 /**
- * Read Parquet file and create DataFrame.
- * Note: Currently loads entirely into memory.
+ * Create DataFrame from an NDJSON string.
+ * The schema is inferred when not given.
+ */
+export function fromNdjsonString<T = Record<string, unknown>>(
+	content: string,
+	schema?: NdjsonSchemaSpec,
+	options?: NdjsonOptions,
+): DataFrame<T> {
+	const source = unwrap(NdjsonSource.fromString(content, schema, options));
+	const chunks = source.parseSync();
+	return DataFrame.fromChunks<T>(
+		chunks,
+		source.getSchema(),
+		source.getDictionary(),
+	);
+}
+
+/**
+ * Read NDJSON (JSON Lines) file and create DataFrame using streaming.
+ * The schema is inferred from the first lines when not given.
+ */
+export async function readNdjson<T = Record<string, unknown>>(
+	path: string,
+	schema?: NdjsonSchemaSpec,
+	options?: NdjsonOptions,
+): Promise<DataFrame<T>> {
+	const source = unwrap(await NdjsonSource.fromFile(path, schema, options));
+
+	return DataFrame.fromStream<T>(
+		source as unknown as AsyncIterable<Chunk>,
+		source.getSchema(),
+		source.getDictionary(),
+	);
+}
+
+/**
+ * Read Parquet file and create DataFrame using streaming.
+ * Row groups are decoded as the frame executes, one at a time.
+ * Also takes a byte stream, Blob or buffer, read into memory first.
  */
-import { readParquet as ioReadParquet } from "../io/index.ts";
+import {
+	type DatasetOptions,
+	readArrow as ioReadArrow,
+	readDataset as ioReadDataset,
+	readNative as ioReadNative,
+	readParquet as ioReadParquet,
+	readSqlite as ioReadSqlite,
+	type NativeReadOptions,
+	type ParquetReadOptions,
+	type SqliteReadOptions,
+} from "../io/index.ts";
 
 export async function readParquet<T = Record<string, unknown>>(
+	input: string | ByteSource,
+	options?: ParquetReadOptions,
+): Promise<DataFrame<T>> {
+	return ioReadParquet(input, options) as Promise<DataFrame<T>>;
+}
+
+/**
+ * Read a directory tree or glob of Parquet/CSV files as one DataFrame.
+ * Hive-style `key=value` directories become partition columns.
+ */
+export async function readDataset<T = Record<string, unknown>>(
+	pathOrGlob: string,
+	options?: DatasetOptions,
+): Promise<DataFrame<T>> {
+	return ioReadDataset(pathOrGlob, options) as Promise<DataFrame<T>>;
+}
+
+/**
+ * Read Arrow IPC file (file or stream format) and create DataFrame.
+ */
+export async function readArrow<T = Record<string, unknown>>(
 	path: string,
 ): Promise<DataFrame<T>> {
-	return ioReadParquet(path) as Promise<DataFrame<T>>;
+	return ioReadArrow(path) as Promise<DataFrame<T>>;
+}
+
+/**
+ * Read a .mornye file written by writeNative().
+ * The file is memory-mapped; columns are read in place.
+ */
+export async function readNative<T = Record<string, unknown>>(
+	path: string,
+	options?: NativeReadOptions,
+): Promise<DataFrame<T>> {
+	return ioReadNative(path, options) as Promise<DataFrame<T>>;
+}
+
+/**
+ * Run a query against a SQLite database and read the result.
+ * Column types follow the declared types of the result columns.
+ */
+export async function readSqlite<T = Record<string, unknown>>(
+	dbPath: string,
+	query: string,
+	options?: SqliteReadOptions,
+): Promise<DataFrame<T>> {
+	return ioReadSqlite(dbPath, query, options) as Promise<DataFrame<T>>;
 }
 
 /* EXPRESSION BUILDERS
@@ -5,6 +5,7 @@
 
 import type { Chunk } from "../buffer/chunk.ts";
 import { recycleChunk } from "../buffer/pool.ts";
+import { CachedSource } from "../io/index.ts";
 import { DTypeKind } from "../types/dtypes.ts";
 import type { DataFrame } from "./core.ts";
 
@@ -17,12 +18,14 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 	df.count = async function (): Promise<number> {
 		// If operators exist, we might need pipeline
 		// But for simple count on source, streaming is best
-		if (this.operators.length === 0) {
+		if (this.plan.length === 0) {
 			let total = 0;
+			// Cached buffers are shared with later actions
+			const recycle = !(this.source instanceof CachedSource);
 			if (Symbol.asyncIterator in this.source) {
 				for await (const chunk of this.source as AsyncIterable<Chunk>) {
 					total += chunk.rowCount;
-					recycleChunk(chunk);
+					if (recycle) recycleChunk(chunk);
 				}
 			} else {
 				for (const chunk of this.source as Iterable<Chunk>) {
@@ -76,6 +79,11 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 					} else if (dtype.kind === DTypeKind.String && dictionary?.getString) {
 						const dictIndex = chunk.getValue(c, r) as number;
 						row[colName] = dictionary.getString(dictIndex);
+					} else if (dtype.kind === DTypeKind.List && dictionary) {
+						const dictIndex = chunk.getValue(c, r) as number;
+						row[colName] = JSON.parse(
+							dictionary.getString(dictIndex) ?? "null",
+						);
 					} else {
 						// Direct value (for parquet or non-dictionary columns)
 						row[colName] = chunk.getValue(c, r);
@@ -95,7 +103,8 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 		const _dictionary = this._dictionary;
 
 		// Streaming fetch
-		if (this.operators.length === 0 && Symbol.asyncIterator in this.source) {
+		if (this.plan.length === 0 && Symbol.asyncIterator in this.source) {
+			const recycle = !(this.source instanceof CachedSource);
 			for await (const chunk of this.source as AsyncIterable<Chunk>) {
 				// Update dictionary if chunk has one (progressive update?)
 				// Schema is fixed for CsvSource. Dictionary is shared.
@@ -103,7 +112,7 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 				// Iterate rows
 				const need = maxRows - count;
 				if (need <= 0) {
-					recycleChunk(chunk);
+					if (recycle) recycleChunk(chunk);
 					break; // Stop streaming
 				}
 
@@ -112,6 +121,7 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 				// Better manual extraction to reuse logic?
 				// Re-using toArray logic for single chunk
 				const schema = this._schema;
+				const dictionary = chunk.dictionary ?? this._dictionary;
 				for (let r = 0; r < take; r++) {
 					const row: Record<string, unknown> = {};
 					for (let c = 0; c < schema.columnCount; c++) {
@@ -124,13 +134,18 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 							row[colName] = null;
 						} else if (
 							dtype.kind === DTypeKind.String &&
-							this._dictionary?.getString
+							dictionary?.getString
 						) {
 							const dictIndex = chunk.getValue(c, r) as number;
 							// Need dictionary. CsvSource shares dictionary.
 							// But chunk.dictionary might be null if no strings?
 							// CsvParser.dictionary is passed to Chunk.
-							row[colName] = this._dictionary.getString(dictIndex);
+							row[colName] = dictionary.getString(dictIndex);
+						} else if (dtype.kind === DTypeKind.List && dictionary) {
+							const dictIndex = chunk.getValue(c, r) as number;
+							row[colName] = JSON.parse(
+								dictionary.getString(dictIndex) ?? "null",
+							);
 						} else {
 							row[colName] = chunk.getValue(c, r);
 						}
@@ -139,7 +154,7 @@ export function addExecutionMethods(df: typeof DataFrame.prototype) {
 				}
 
 				count += take;
-				recycleChunk(chunk);
+				if (recycle) recycleChunk(chunk);
 				if (count >= maxRows) break;
 			}
 		} else {
@@ -10,13 +10,19 @@ export {
 	DataFrame,
 	div,
 	fromCsvString,
+	fromNdjsonString,
 	fromRecords,
 	lit,
 	max,
 	min,
 	mul,
+	readArrow,
 	readCsv,
+	readDataset,
+	readNative,
+	readNdjson,
 	readParquet,
+	readSqlite,
 	sub,
 	sum,
 } from "./dataframe.ts";
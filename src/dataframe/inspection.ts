@@ -3,6 +3,13 @@
 /* Tools for inspecting DataFrame schema and plan
 /* ==================================================== */
 
+import { CachedSource } from "../io/index.ts";
+import {
+	formatPlan,
+	isScanSource,
+	JoinSource,
+	optimize,
+} from "../ops/index.ts";
 import { formatSchema } from "../types/index.ts";
 import type { DataFrame } from "./core.ts";
 
@@ -12,17 +19,33 @@ export function addInspectionMethods(df: typeof DataFrame.prototype) {
 	};
 
 	df.explain = function (): string {
-		if (this.operators.length === 0) {
+		const { operators, scan } = this.physicalPlan();
+		const cached = this.source instanceof CachedSource ? this.source : null;
+		const joined = this.source instanceof JoinSource ? this.source : null;
+		if (
+			this.plan.length === 0 &&
+			scan === null &&
+			cached === null &&
+			joined === null
+		) {
 			return "DataFrame (Materialized)";
 		}
 
+		const logical = this.logicalPlan();
 		let plan = `DataFrame [${this.columnNames.join(", ")}]\n`;
+		plan += `Logical Plan:\n${formatPlan(logical)}\n`;
+		plan += `Optimized Plan:\n${formatPlan(optimize(logical))}\n`;
 		plan += "Execution Plan:\n";
 
-		for (let i = 0; i < this.operators.length; i++) {
-			const op = this.operators[i];
-			const prefix = i === this.operators.length - 1 ? "└─" : "├─";
-			plan += `${prefix} ${op?.name}\n`;
+		const steps = operators.map((op) => op.name);
+		if (scan !== null && isScanSource(this.source)) {
+			steps.unshift(this.source.describeScan?.(scan) ?? "Scan");
+		}
+		if (cached !== null) steps.unshift(cached.describe());
+		if (joined !== null) steps.unshift(joined.describe());
+		for (let i = 0; i < steps.length; i++) {
+			const prefix = i === steps.length - 1 ? "└─" : "├─";
+			plan += `${prefix} ${steps[i]}\n`;
 		}
 
 		return plan;
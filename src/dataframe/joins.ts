@@ -3,46 +3,61 @@
 /* Combine DataFrames by key columns
 /* ==================================================== */
 
-import { crossProduct, hashJoin, JoinType } from "../ops/index.ts";
+import { JoinSource, JoinType, joinSchema } from "../ops/index.ts";
 import { ErrorCode } from "../types/error.ts";
 import type { DataFrame } from "./core.ts";
 
 export function addJoinMethods(df: typeof DataFrame.prototype) {
-	// ... helper for generic hash join wrapper ...
-	const executeHashJoin = async (
+	// Joins are lazy: the result reads from a join of both plans
+	const planJoin = async (
 		// biome-ignore lint/suspicious/noExplicitAny: generic
 		left: DataFrame<any>,
 		// biome-ignore lint/suspicious/noExplicitAny: generic
 		right: DataFrame<any>,
 		leftOn: string,
 		rightOn: string,
-		joinType: JoinType,
+		joinType: JoinType | "cross",
 		suffix?: string,
 	) => {
-		const collectedLeft = await left.collect();
-		const collectedRight = await right.collect();
-
-		const result = hashJoin(
-			collectedLeft.source as import("../buffer/chunk.ts").Chunk[],
-			collectedLeft._schema,
-			collectedRight.source as import("../buffer/chunk.ts").Chunk[],
-			collectedRight._schema,
-			{ leftKey: leftOn, rightKey: rightOn, joinType, suffix },
+		const cross = joinType === "cross";
+		const schema = joinSchema(
+			left.currentSchema(),
+			right.currentSchema(),
+			{
+				leftKey: leftOn,
+				rightKey: rightOn,
+				joinType: cross ? undefined : joinType,
+				suffix,
+			},
+			cross,
 		);
-
-		if (result.error !== ErrorCode.None) {
-			throw new Error(`Join error (${joinType}): ${result.error}`);
+		if (schema.error !== ErrorCode.None) {
+			throw new Error(
+				cross
+					? `CrossJoin error: ${schema.error}`
+					: `Join error (${joinType}): ${schema.error}`,
+			);
 		}
 
-		return (left.constructor as typeof DataFrame).fromChunks(
-			result.value.chunks,
-			result.value.schema,
-			collectedLeft._dictionary,
+		const source = new JoinSource({
+			type: "join",
+			left: left.logicalPlan(),
+			right: right.logicalPlan(),
+			joinType,
+			leftKey: leftOn,
+			rightKey: rightOn,
+			suffix,
+			schema: schema.value,
+		});
+		return (left.constructor as typeof DataFrame).fromStream(
+			source,
+			schema.value,
+			left._dictionary,
 		);
 	};
 
 	df.innerJoin = function (other, leftOn, rightOn, suffix) {
-		return executeHashJoin(
+		return planJoin(
 			this,
 			other,
 			leftOn as string,
@@ -53,7 +68,7 @@ export function addJoinMethods(df: typeof DataFrame.prototype) {
 	};
 
 	df.leftJoin = function (other, leftOn, rightOn, suffix) {
-		return executeHashJoin(
+		return planJoin(
 			this,
 			other,
 			leftOn as string,
@@ -65,47 +80,16 @@ export function addJoinMethods(df: typeof DataFrame.prototype) {
 
 	df.semiJoin = function (other, on) {
 		const key = Array.isArray(on) ? on[0] : on;
-		return executeHashJoin(
-			this,
-			other,
-			key as string,
-			key as string,
-			JoinType.Semi,
-		);
+		return planJoin(this, other, key as string, key as string, JoinType.Semi);
 	};
 
 	df.antiJoin = function (other, on) {
 		const key = Array.isArray(on) ? on[0] : on;
-		return executeHashJoin(
-			this,
-			other,
-			key as string,
-			key as string,
-			JoinType.Anti,
-		);
+		return planJoin(this, other, key as string, key as string, JoinType.Anti);
 	};
 
-	df.crossJoin = async function (other, suffix) {
-		const collectedLeft = await this.collect();
-		const collectedRight = await other.collect();
-
-		const result = crossProduct(
-			collectedLeft.source as import("../buffer/chunk.ts").Chunk[],
-			collectedLeft._schema,
-			collectedRight.source as import("../buffer/chunk.ts").Chunk[],
-			collectedRight._schema,
-			suffix,
-		);
-
-		if (result.error !== ErrorCode.None) {
-			throw new Error(`CrossJoin error: ${result.error}`);
-		}
-
-		return (this.constructor as typeof DataFrame).fromChunks(
-			result.value.chunks,
-			result.value.schema,
-			collectedLeft._dictionary,
-		);
+	df.crossJoin = function (other, suffix) {
+		return planJoin(this, other, "", "", "cross", suffix);
 	};
 
 	df.join = function (other, leftOn, rightOn, how, suffix) {
@@ -3,12 +3,12 @@
 /* Limit and slice row counts
 /* ==================================================== */
 
-import { limit } from "../ops/index.ts";
+import { unwrap } from "../types/error.ts";
 import type { DataFrame } from "./core.ts";
 
 export function addLimitingMethods(df: typeof DataFrame.prototype) {
 	df.limit = function (count: number): DataFrame {
-		return this.withOperator(limit(this.currentSchema(), count));
+		return unwrap(this.withNode({ type: "limit", count, offset: 0 }));
 	};
 
 	df.head = function (count: number = 5): DataFrame {
@@ -16,6 +16,6 @@ export function addLimitingMethods(df: typeof DataFrame.prototype) {
 	};
 
 	df.slice = function (start: number, count: number): DataFrame {
-		return this.withOperator(limit(this.currentSchema(), count, start));
+		return unwrap(this.withNode({ type: "limit", count, offset: start }));
 	};
 }
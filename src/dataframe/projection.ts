@@ -3,17 +3,20 @@
 /* Select, drop, and rename column operations
 /* ==================================================== */
 
-import { type ProjectSpec, project, projectWithRename } from "../ops/index.ts";
+import type { ProjectSpec } from "../ops/index.ts";
 import { ErrorCode } from "../types/error.ts";
 import type { DataFrame } from "./core.ts";
 
 export function addProjectionMethods(df: typeof DataFrame.prototype) {
 	df.select = function (...columns: string[]): DataFrame {
-		const result = project(this.currentSchema(), columns);
+		const result = this.withNode({
+			type: "project",
+			specs: columns.map((source) => ({ source })),
+		});
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`Select error: ${result.error}`);
 		}
-		return this.withOperator(result.value);
+		return result.value;
 	};
 
 	df.drop = function (...columns: string[]): DataFrame {
@@ -26,10 +29,10 @@ export function addProjectionMethods(df: typeof DataFrame.prototype) {
 			source: name,
 			target: mapping[name] ?? name,
 		}));
-		const result = projectWithRename(this.currentSchema(), specs);
+		const result = this.withNode({ type: "project", specs });
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`Rename error: ${result.error}`);
 		}
-		return this.withOperator(result.value);
+		return result.value;
 	};
 }
@@ -5,18 +5,21 @@
 
 import type { Expr } from "../expr/ast.ts";
 import { ColumnRef } from "../expr/builders.ts";
-import { type ComputedColumn, transform } from "../ops/index.ts";
+import type { ComputedColumn } from "../ops/index.ts";
 import { ErrorCode } from "../types/error.ts";
 import type { DataFrame } from "./core.ts";
 
 export function addTransformMethods(df: typeof DataFrame.prototype) {
 	df.withColumn = function (name: string, expr: Expr | ColumnRef): DataFrame {
 		const e = expr instanceof ColumnRef ? expr.toExpr() : expr;
-		const result = transform(this.currentSchema(), [{ name, expr: e }]);
+		const result = this.withNode({
+			type: "transform",
+			columns: [{ name, expr: e }],
+		});
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`WithColumn error: ${result.error}`);
 		}
-		return this.withOperator(result.value);
+		return result.value;
 	};
 
 	df.withColumns = function (
@@ -32,17 +35,18 @@ export function addTransformMethods(df: typeof DataFrame.prototype) {
 			}));
 		}
 
-		const result = transform(this.currentSchema(), cols);
+		const result = this.withNode({ type: "transform", columns: cols });
 		if (result.error !== ErrorCode.None) {
 			throw new Error(`WithColumns error: ${result.error}`);
 		}
-		return this.withOperator(result.value);
+		return result.value;
 	};
 
-	df.explode = (_column: string): DataFrame => {
-		// TODO: Implement ExplodeOperator.
-		// For now, this is a placeholder that throws or returns identity/error
-		// Real implementation requires Array DType or JSON parsing + row replication
-		throw new Error("Explode not yet fully implemented for current DTypes");
+	df.explode = function (column: string): DataFrame {
+		const result = this.withNode({ type: "explode", column });
+		if (result.error !== ErrorCode.None) {
+			throw new Error(`Explode error: ${result.error}`);
+		}
+		return result.value;
 	};
 }
@@ -173,6 +173,44 @@ declare module "./core.ts" {
 		show(maxRows?: number): Promise<void>;
 		dtypes(): Record<string, DType>;
 
+		// Writing
+		writeParquet(
+			path: string,
+			options?: import("../io/index.ts").ParquetWriteOptions,
+		): Promise<void>;
+		writeArrow(
+			path: string,
+			options?: import("../io/index.ts").ArrowWriteOptions,
+		): Promise<void>;
+		writeCsv(
+			path: string,
+			options?: import("../io/index.ts").CsvWriteOptions,
+		): Promise<void>;
+		toCsvString(
+			options?: import("../io/index.ts").CsvWriteOptions,
+		): Promise<string>;
+		writeNdjson(
+			path: string,
+			options?: import("../io/index.ts").NdjsonWriteOptions,
+		): Promise<void>;
+		writePartitioned(
+			dir: string,
+			partitionBy: (keyof T & string) | (keyof T & string)[],
+			options?: import("../io/index.ts").PartitionedWriteOptions,
+		): Promise<void>;
+		writeSqlite(
+			dbPath: string,
+			table: string,
+			options?: import("../io/index.ts").SqliteWriteOptions,
+		): Promise<void>;
+
+		writeNative(path: string): Promise<void>;
+
+		// Caching
+		cache(): DataFrame<T>;
+		persist(level?: import("../io/index.ts").StorageLevel): DataFrame<T>;
+		unpersist(): DataFrame<T>;
+
 		// Inspection
 		printSchema(): void;
 		explain(): string;
@@ -0,0 +1,198 @@
+/* WRITING METHODS
+/*-----------------------------------------------------
+/* Stream DataFrame output to files
+/* ==================================================== */
+
+import { renameSync, rmSync } from "node:fs";
+import {
+	type ArrowWriteOptions,
+	ArrowWriter,
+	type CsvWriteOptions,
+	CsvWriter,
+	NativeWriter,
+	type NdjsonWriteOptions,
+	NdjsonWriter,
+	type ParquetWriteOptions,
+	ParquetWriter,
+	type PartitionedWriteOptions,
+	PartitionedWriter,
+	type SqliteWriteOptions,
+	SqliteWriter,
+} from "../io/index.ts";
+import type { DataFrame } from "./core.ts";
+
+/**
+ * Write through a temporary file next to `path` that replaces `path` only
+ * once `write` completes; a failure removes it.
+ */
+async function writeStaged(
+	path: string,
+	write: (sink: Bun.FileSink) => Promise<void>,
+): Promise<void> {
+	const tempPath = `${path}.${process.pid}.tmp`;
+	const sink = Bun.file(tempPath).writer();
+	try {
+		await write(sink);
+	} catch (error) {
+		await sink.end();
+		rmSync(tempPath, { force: true });
+		throw error;
+	}
+	await sink.end();
+	renameSync(tempPath, path);
+}
+
+export function addWritingMethods(df: typeof DataFrame.prototype) {
+	df.writeParquet = async function (
+		path: string,
+		options?: ParquetWriteOptions,
+	): Promise<void> {
+		const writer = new ParquetWriter(
+			path,
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		try {
+			for await (const chunk of this.stream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+	};
+
+	df.writeCsv = async function (
+		path: string,
+		options?: CsvWriteOptions,
+	): Promise<void> {
+		const writer = new CsvWriter(
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		await writeStaged(path, async (sink) => {
+			sink.write(writer.header());
+			for await (const chunk of this.stream()) {
+				sink.write(writer.encodeChunk(chunk));
+				await sink.flush();
+			}
+		});
+	};
+
+	df.toCsvString = async function (options?: CsvWriteOptions): Promise<string> {
+		const writer = new CsvWriter(
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		const parts: Uint8Array[] = [writer.header()];
+		for await (const chunk of this.stream()) {
+			parts.push(writer.encodeChunk(chunk));
+		}
+		return new TextDecoder().decode(Buffer.concat(parts));
+	};
+
+	df.writeNdjson = async function (
+		path: string,
+		options?: NdjsonWriteOptions,
+	): Promise<void> {
+		const writer = new NdjsonWriter(
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		await writeStaged(path, async (sink) => {
+			for await (const chunk of this.stream()) {
+				sink.write(writer.encodeChunk(chunk));
+				await sink.flush();
+			}
+		});
+	};
+
+	df.writePartitioned = async function (
+		dir: string,
+		partitionBy: string | string[],
+		options?: PartitionedWriteOptions,
+	): Promise<void> {
+		const writer = new PartitionedWriter(
+			dir,
+			this.currentSchema(),
+			this._dictionary,
+			Array.isArray(partitionBy) ? partitionBy : [partitionBy],
+			options,
+		);
+		try {
+			for await (const chunk of this.stream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+	};
+
+	df.writeSqlite = async function (
+		dbPath: string,
+		table: string,
+		options?: SqliteWriteOptions,
+	): Promise<void> {
+		const writer = new SqliteWriter(
+			dbPath,
+			table,
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		try {
+			for await (const chunk of this.stream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+	};
+
+	df.writeNative = async function (path: string): Promise<void> {
+		const writer = new NativeWriter(
+			path,
+			this.currentSchema(),
+			this._dictionary,
+		);
+		try {
+			for await (const chunk of this.stream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+	};
+
+	df.writeArrow = async function (
+		path: string,
+		options?: ArrowWriteOptions,
+	): Promise<void> {
+		const writer = new ArrowWriter(
+			path,
+			this.currentSchema(),
+			this._dictionary,
+			options,
+		);
+		try {
+			for await (const chunk of this.stream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+	};
+}
@@ -303,3 +303,49 @@ export function formatExpr(expr: Expr): string {
 			return `coalesce(${expr.exprs.map(formatExpr).join(", ")})`;
 	}
 }
+
+/**
+ * Collect the names of all columns referenced by an expression.
+ */
+export function exprColumns(
+	expr: Expr,
+	out: Set<string> = new Set(),
+): Set<string> {
+	switch (expr.type) {
+		case ExprType.Column:
+			out.add(expr.name);
+			break;
+		case ExprType.Literal:
+			break;
+		case ExprType.Eq:
+		case ExprType.Neq:
+		case ExprType.Lt:
+		case ExprType.Lte:
+		case ExprType.Gt:
+		case ExprType.Gte:
+		case ExprType.Add:
+		case ExprType.Sub:
+		case ExprType.Mul:
+		case ExprType.Div:
+		case ExprType.Mod:
+			exprColumns(expr.left, out);
+			exprColumns(expr.right, out);
+			break;
+		case ExprType.Between:
+			exprColumns(expr.expr, out);
+			exprColumns(expr.low, out);
+			exprColumns(expr.high, out);
+			break;
+		case ExprType.And:
+		case ExprType.Or:
+		case ExprType.Coalesce:
+			for (const e of expr.exprs) exprColumns(e, out);
+			break;
+		case ExprType.Count:
+			if (expr.expr) exprColumns(expr.expr, out);
+			break;
+		default:
+			exprColumns(expr.expr, out);
+	}
+	return out;
+}
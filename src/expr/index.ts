@@ -12,6 +12,7 @@ export {
 	type CountExpr,
 	type Expr,
 	ExprType,
+	exprColumns,
 	formatExpr,
 	isAggExpr,
 	isArithmeticExpr,
@@ -22,9 +22,15 @@ export {
 export {
 	DataFrame,
 	fromCsvString,
+	fromNdjsonString,
 	fromRecords,
+	readArrow,
 	readCsv,
+	readDataset,
+	readNative,
+	readNdjson,
 	readParquet,
+	readSqlite,
 } from "./dataframe/index.ts";
 // Re-export expressions
 export {
@@ -64,14 +70,54 @@ export {
 } from "./expr/index.ts";
 // Re-export I/O
 export {
+	ArrowReader,
+	type ArrowWriteOptions,
+	ArrowWriter,
+	type ByteSource,
+	CachedSource,
+	type CacheStats,
+	type Compression,
+	type CsvErrorMode,
 	type CsvOptions,
 	CsvParser,
+	type CsvRejectedRow,
 	type CsvSchemaSpec,
 	CsvSource,
+	type CsvWriteOptions,
+	CsvWriter,
+	compileDateFormat,
 	createCsvParser,
+	createNdjsonParser,
+	type DatasetFormat,
+	type DatasetOptions,
+	DatasetSource,
+	type DateFormat,
+	type DateParser,
+	detectCompression,
+	inferCsvSchema,
+	inferNdjsonSchema,
+	type NativeReadOptions,
+	NativeWriter,
+	type NdjsonOptions,
+	NdjsonParser,
+	type NdjsonSchemaSpec,
+	NdjsonSource,
+	type NdjsonWriteOptions,
+	NdjsonWriter,
 	ParquetReader,
+	type ParquetReadOptions,
+	type ParquetWriteOptions,
+	ParquetWriter,
+	type PartitionedWriteOptions,
+	PartitionedWriter,
 	readCsvFile,
 	readCsvString,
+	readNdjsonFile,
+	readNdjsonString,
+	type SqliteReadOptions,
+	type SqliteWriteOptions,
+	SqliteWriter,
+	type StorageLevel,
 } from "./io/index.ts";
 // Re-export operators
 export {
@@ -86,10 +132,12 @@ export {
 	// Concat
 	concatChunks,
 	createAggState,
+	defaultRules,
 	desc,
 	// Filter
 	FilterOperator,
 	filter,
+	formatPlan,
 	from,
 	GroupByOperator,
 	groupBy,
@@ -100,14 +148,18 @@ export {
 	JoinType,
 	// Limit
 	LimitOperator,
+	// Logical plan
+	type LogicalPlan,
 	leftJoin,
 	limit,
 	// Base
 	type Operator,
 	type OperatorResult,
+	type OptimizerRule,
 	opDone,
 	opEmpty,
 	opResult,
+	optimize,
 	PassthroughOperator,
 	// Pipeline
 	Pipeline,
@@ -0,0 +1,313 @@
+/**
+ * Minimal FlatBuffers support for Arrow IPC metadata.
+ *
+ * Reading walks tables through their vtables.
+ * Writing serializes a small node tree front-to-back: every table is
+ * followed by its children, so all offsets point forward as required.
+ */
+
+/* READING
+/*-----------------------------------------------------
+/* Table accessors over a DataView
+/* ==================================================== */
+
+/**
+ * View over a FlatBuffers table.
+ */
+export class FbTable {
+	readonly view: DataView;
+	readonly pos: number;
+	private readonly vtable: number;
+	private readonly vtableSize: number;
+
+	constructor(view: DataView, pos: number) {
+		this.view = view;
+		this.pos = pos;
+		this.vtable = pos - view.getInt32(pos, true);
+		this.vtableSize = view.getUint16(this.vtable, true);
+	}
+
+	/** Root table of a buffer */
+	static root(bytes: Uint8Array): FbTable {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		return new FbTable(view, view.getUint32(0, true));
+	}
+
+	/** Absolute position of a field, or 0 if absent */
+	private field(index: number): number {
+		const entry = 4 + index * 2;
+		if (entry >= this.vtableSize) return 0;
+		const offset = this.view.getUint16(this.vtable + entry, true);
+		return offset === 0 ? 0 : this.pos + offset;
+	}
+
+	bool(index: number, fallback: boolean = false): boolean {
+		const p = this.field(index);
+		return p === 0 ? fallback : this.view.getUint8(p) !== 0;
+	}
+
+	uint8(index: number, fallback: number = 0): number {
+		const p = this.field(index);
+		return p === 0 ? fallback : this.view.getUint8(p);
+	}
+
+	int16(index: number, fallback: number = 0): number {
+		const p = this.field(index);
+		return p === 0 ? fallback : this.view.getInt16(p, true);
+	}
+
+	int32(index: number, fallback: number = 0): number {
+		const p = this.field(index);
+		return p === 0 ? fallback : this.view.getInt32(p, true);
+	}
+
+	int64(index: number, fallback: bigint = 0n): bigint {
+		const p = this.field(index);
+		return p === 0 ? fallback : this.view.getBigInt64(p, true);
+	}
+
+	table(index: number): FbTable | null {
+		const p = this.field(index);
+		return p === 0
+			? null
+			: new FbTable(this.view, p + this.view.getUint32(p, true));
+	}
+
+	string(index: number): string | null {
+		const p = this.field(index);
+		if (p === 0) return null;
+		const start = p + this.view.getUint32(p, true);
+		const length = this.view.getUint32(start, true);
+		const bytes = new Uint8Array(
+			this.view.buffer,
+			this.view.byteOffset + start + 4,
+			length,
+		);
+		return new TextDecoder().decode(bytes);
+	}
+
+	/** Position and length of a vector field (position of first element) */
+	vector(index: number): { pos: number; length: number } {
+		const p = this.field(index);
+		if (p === 0) return { pos: 0, length: 0 };
+		const start = p + this.view.getUint32(p, true);
+		return { pos: start + 4, length: this.view.getUint32(start, true) };
+	}
+
+	/** Tables of a vector-of-tables field */
+	tables(index: number): FbTable[] {
+		const { pos, length } = this.vector(index);
+		const out: FbTable[] = [];
+		for (let i = 0; i < length; i++) {
+			const slot = pos + i * 4;
+			out.push(new FbTable(this.view, slot + this.view.getUint32(slot, true)));
+		}
+		return out;
+	}
+}
+
+/* WRITING
+/*-----------------------------------------------------
+/* Node tree serialized front-to-back
+/* ==================================================== */
+
+/** Inline table field */
+export type FbField =
+	| { type: "bool" | "uint8" | "int16" | "int32"; value: number }
+	| { type: "int64"; value: bigint }
+	| { type: "offset"; value: FbNode };
+
+/** Serializable object */
+export type FbNode =
+	| { kind: "table"; fields: (FbField | null)[] }
+	| { kind: "string"; value: string }
+	| { kind: "vector"; items: FbNode[] }
+	| { kind: "structs"; bytes: Uint8Array; count: number; align: number };
+
+export const fb = {
+	table: (...fields: (FbField | null)[]): FbNode => ({ kind: "table", fields }),
+	string: (value: string): FbNode => ({ kind: "string", value }),
+	vector: (items: FbNode[]): FbNode => ({ kind: "vector", items }),
+	structs: (bytes: Uint8Array, count: number, align: number): FbNode => ({
+		kind: "structs",
+		bytes,
+		count,
+		align,
+	}),
+	bool: (value: boolean): FbField => ({ type: "bool", value: value ? 1 : 0 }),
+	uint8: (value: number): FbField => ({ type: "uint8", value }),
+	int16: (value: number): FbField => ({ type: "int16", value }),
+	int32: (value: number): FbField => ({ type: "int32", value }),
+	int64: (value: bigint): FbField => ({ type: "int64", value }),
+	ref: (value: FbNode): FbField => ({ type: "offset", value }),
+};
+
+const FIELD_SIZES = {
+	bool: 1,
+	uint8: 1,
+	int16: 2,
+	int32: 4,
+	int64: 8,
+	offset: 4,
+};
+
+/**
+ * Serialize a node tree with `root` as the root table.
+ */
+export function encodeFlatBuffer(root: FbNode): Uint8Array {
+	const builder = new FbBuilder();
+	builder.u32(0);
+	builder.patch(0, builder.place(root));
+	return builder.bytes();
+}
+
+class FbBuilder {
+	private buffer = new Uint8Array(256);
+	private view = new DataView(this.buffer.buffer);
+	private pos = 0;
+
+	bytes(): Uint8Array {
+		return this.buffer.slice(0, this.pos);
+	}
+
+	u32(value: number): void {
+		this.ensure(4);
+		this.view.setUint32(this.pos, value, true);
+		this.pos += 4;
+	}
+
+	/** Store a forward uoffset at `slot` pointing to `target` */
+	patch(slot: number, target: number): void {
+		this.view.setUint32(slot, target - slot, true);
+	}
+
+	/** Emit a node and its children; returns the node's position */
+	place(node: FbNode): number {
+		switch (node.kind) {
+			case "string": {
+				const utf8 = new TextEncoder().encode(node.value);
+				this.align(4, 0);
+				const start = this.pos;
+				this.u32(utf8.length);
+				this.raw(utf8);
+				this.raw(new Uint8Array(1));
+				return start;
+			}
+			case "structs": {
+				// Elements must be aligned, the length prefix sits just before them
+				this.align(Math.max(node.align, 4), 4);
+				const start = this.pos;
+				this.u32(node.count);
+				this.raw(node.bytes);
+				return start;
+			}
+			case "vector": {
+				this.align(4, 0);
+				const start = this.pos;
+				this.u32(node.items.length);
+				const slots: number[] = [];
+				for (let i = 0; i < node.items.length; i++) {
+					slots.push(this.pos);
+					this.u32(0);
+				}
+				for (let i = 0; i < node.items.length; i++) {
+					this.patch(slots[i] ?? 0, this.place(node.items[i] as FbNode));
+				}
+				return start;
+			}
+			case "table":
+				return this.placeTable(node.fields);
+		}
+	}
+
+	private placeTable(fields: (FbField | null)[]): number {
+		let count = fields.length;
+		while (count > 0 && fields[count - 1] === null) count--;
+
+		// Inline layout: soffset first, then naturally aligned fields
+		const offsets: number[] = new Array(count).fill(0);
+		let size = 4;
+		for (let i = 0; i < count; i++) {
+			const field = fields[i];
+			if (!field) continue;
+			const width = FIELD_SIZES[field.type];
+			size = Math.ceil(size / width) * width;
+			offsets[i] = size;
+			size += width;
+		}
+		size = Math.ceil(size / 4) * 4;
+
+		// vtable
+		this.align(2, 0);
+		const vtable = this.pos;
+		this.ensure(4 + count * 2);
+		this.view.setUint16(this.pos, 4 + count * 2, true);
+		this.view.setUint16(this.pos + 2, size, true);
+		for (let i = 0; i < count; i++) {
+			this.view.setUint16(this.pos + 4 + i * 2, offsets[i] ?? 0, true);
+		}
+		this.pos += 4 + count * 2;
+
+		// table body, 8-aligned so int64 fields are aligned absolutely
+		this.align(8, 0);
+		const start = this.pos;
+		this.ensure(size);
+		this.buffer.fill(0, start, start + size);
+		this.view.setInt32(start, start - vtable, true);
+
+		const children: { slot: number; node: FbNode }[] = [];
+		for (let i = 0; i < count; i++) {
+			const field = fields[i];
+			if (!field) continue;
+			const at = start + (offsets[i] ?? 0);
+			switch (field.type) {
+				case "bool":
+				case "uint8":
+					this.view.setUint8(at, field.value);
+					break;
+				case "int16":
+					this.view.setInt16(at, field.value, true);
+					break;
+				case "int32":
+					this.view.setInt32(at, field.value, true);
+					break;
+				case "int64":
+					this.view.setBigInt64(at, field.value, true);
+					break;
+				case "offset":
+					children.push({ slot: at, node: field.value });
+					break;
+			}
+		}
+		this.pos = start + size;
+
+		for (const child of children) {
+			this.patch(child.slot, this.place(child.node));
+		}
+		return start;
+	}
+
+	private raw(bytes: Uint8Array): void {
+		this.ensure(bytes.length);
+		this.buffer.set(bytes, this.pos);
+		this.pos += bytes.length;
+	}
+
+	/** Pad with zeros until (pos + extra) is a multiple of `alignment` */
+	private align(alignment: number, extra: number): void {
+		const pad = (alignment - ((this.pos + extra) % alignment)) % alignment;
+		this.ensure(pad);
+		this.buffer.fill(0, this.pos, this.pos + pad);
+		this.pos += pad;
+	}
+
+	private ensure(n: number): void {
+		if (this.pos + n <= this.buffer.length) return;
+		let size = this.buffer.length * 2;
+		while (size < this.pos + n) size *= 2;
+		const next = new Uint8Array(size);
+		next.set(this.buffer.subarray(0, this.pos));
+		this.buffer = next;
+		this.view = new DataView(next.buffer);
+	}
+}
@@ -0,0 +1,87 @@
+/**
+ * Arrow IPC format constants.
+ * Values mirror Schema.fbs and Message.fbs from the Arrow specification.
+ */
+
+/** Magic bytes framing the file format */
+export const ARROW_MAGIC = new TextEncoder().encode("ARROW1");
+
+/** Continuation marker preceding each encapsulated message */
+export const CONTINUATION = 0xffffffff;
+
+/** MetadataVersion.V5 */
+export const METADATA_VERSION = 4;
+
+/** MessageHeader union */
+export enum MessageHeader {
+	NONE = 0,
+	Schema = 1,
+	DictionaryBatch = 2,
+	RecordBatch = 3,
+}
+
+/** Type union (subset used here) */
+export enum ArrowType {
+	NONE = 0,
+	Null = 1,
+	Int = 2,
+	FloatingPoint = 3,
+	Binary = 4,
+	Utf8 = 5,
+	Bool = 6,
+	Decimal = 7,
+	Date = 8,
+	Time = 9,
+	Timestamp = 10,
+	LargeUtf8 = 20,
+}
+
+export enum Precision {
+	HALF = 0,
+	SINGLE = 1,
+	DOUBLE = 2,
+}
+
+export enum DateUnit {
+	DAY = 0,
+	MILLISECOND = 1,
+}
+
+export enum TimeUnit {
+	SECOND = 0,
+	MILLISECOND = 1,
+	MICROSECOND = 2,
+	NANOSECOND = 3,
+}
+
+// Table field indices
+export const MessageField = {
+	version: 0,
+	headerType: 1,
+	header: 2,
+	bodyLength: 3,
+};
+export const SchemaField = { endianness: 0, fields: 1 };
+export const FieldField = {
+	name: 0,
+	nullable: 1,
+	typeType: 2,
+	type: 3,
+	dictionary: 4,
+	children: 5,
+};
+export const DictionaryEncodingField = { id: 0, indexType: 1, isOrdered: 2 };
+export const IntField = { bitWidth: 0, isSigned: 1 };
+export const RecordBatchField = {
+	length: 0,
+	nodes: 1,
+	buffers: 2,
+	compression: 3,
+};
+export const DictionaryBatchField = { id: 0, data: 1, isDelta: 2 };
+export const FooterField = {
+	version: 0,
+	schema: 1,
+	dictionaries: 2,
+	recordBatches: 3,
+};
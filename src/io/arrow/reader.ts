@@ -0,0 +1,601 @@
+/** biome-ignore-all lint/style/noNonNullAssertion: Protocol guarantees */
+/**
+ * Arrow IPC reader (file and stream formats).
+ *
+ * Messages are read sequentially from the file; each record batch becomes
+ * one Chunk. Dictionary batches are interned into a single shared
+ * Dictionary and dictionary indices are remapped onto it.
+ */
+
+import { Chunk } from "../../buffer/chunk.ts";
+import { ColumnBuffer } from "../../buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../../buffer/dictionary.ts";
+import { DataFrame } from "../../dataframe/core.ts";
+import { DType, DTypeKind } from "../../types/dtypes.ts";
+import { ErrorCode, getErrorMessage } from "../../types/error.ts";
+import { createSchema, type Schema } from "../../types/schema.ts";
+import { floorDiv } from "../date-format.ts";
+import { FbTable } from "./flatbuffers.ts";
+import {
+	ARROW_MAGIC,
+	ArrowType,
+	CONTINUATION,
+	DateUnit,
+	DictionaryBatchField,
+	DictionaryEncodingField,
+	FieldField,
+	FooterField,
+	IntField,
+	MessageField,
+	MessageHeader,
+	Precision,
+	RecordBatchField,
+	SchemaField,
+	TimeUnit,
+} from "./format.ts";
+
+/** How an Arrow field is decoded into a column */
+interface FieldLayout {
+	name: string;
+	dtype: DType;
+	arrowType: ArrowType;
+	/** Int bit width / signedness for Int and dictionary index types */
+	bitWidth: number;
+	signed: boolean;
+	/** Unit for Date/Timestamp */
+	unit: number;
+	/** Dictionary id when dictionary-encoded */
+	dictionaryId: bigint | null;
+}
+
+/** Cursor over the buffers of one record batch body */
+interface BatchCursor {
+	body: Uint8Array;
+	nodes: DataView;
+	buffers: DataView;
+	node: number;
+	buffer: number;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+export class ArrowReader {
+	private readonly file: Bun.BunFile;
+	private fields: FieldLayout[] | null = null;
+	private schema: Schema | null = null;
+	/** Byte offset of the first message after the schema (stream format) */
+	private bodyStart: number = 0;
+	/** Message offsets from the footer (file format) */
+	private blocks: { dictionaries: number[]; records: number[] } | null = null;
+
+	constructor(path: string) {
+		this.file = Bun.file(path);
+	}
+
+	/**
+	 * Read the schema. Files take it from the footer,
+	 * streams from the leading schema message.
+	 */
+	async readSchema(): Promise<Schema> {
+		if (this.schema) return this.schema;
+
+		const size = this.file.size;
+		const head = await this.readBytes(0, Math.min(8, size));
+		let schemaTable: FbTable;
+		if (startsWithMagic(head)) {
+			const tail = await this.readBytes(size - 10, size);
+			const footerLength = new DataView(tail.buffer).getInt32(0, true);
+			const footer = FbTable.root(
+				await this.readBytes(size - 10 - footerLength, size - 10),
+			);
+			const schema = footer.table(FooterField.schema);
+			if (!schema) throw new Error("Arrow file footer without schema");
+			schemaTable = schema;
+			this.blocks = {
+				dictionaries: blockOffsets(footer, FooterField.dictionaries),
+				records: blockOffsets(footer, FooterField.recordBatches),
+			};
+		} else {
+			const message = await this.readMessage(0);
+			if (!message || message.headerType !== MessageHeader.Schema) {
+				throw new Error("Arrow stream does not start with a schema");
+			}
+			schemaTable = message.header;
+			this.bodyStart = message.next;
+		}
+
+		this.fields = parseFields(schemaTable);
+		const spec: Record<string, DType> = {};
+		for (const field of this.fields) spec[field.name] = field.dtype;
+
+		const schema = createSchema(spec);
+		if (schema.error !== ErrorCode.None) {
+			throw new Error(`Arrow schema error: ${getErrorMessage(schema.error)}`);
+		}
+		this.schema = schema.value;
+		return this.schema;
+	}
+
+	/**
+	 * Read all record batches into a DataFrame.
+	 */
+	async read(): Promise<DataFrame> {
+		const schema = await this.readSchema();
+		const dictionary = createDictionary();
+		const chunks: Chunk[] = [];
+		for await (const chunk of this.createStream(dictionary)) {
+			chunks.push(chunk);
+		}
+		return DataFrame.fromChunks(chunks, schema, dictionary);
+	}
+
+	/**
+	 * Stream chunks - yields one chunk per record batch.
+	 */
+	async *stream(): AsyncGenerator<Chunk> {
+		await this.readSchema();
+		yield* this.createStream(createDictionary());
+	}
+
+	getSchema(): Schema {
+		if (!this.schema) throw new Error("Must call readSchema() first");
+		return this.schema;
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<Chunk> {
+		return this.stream();
+	}
+
+	private async *createStream(dictionary: Dictionary): AsyncGenerator<Chunk> {
+		// Arrow dictionary id -> (arrow index -> our DictIndex)
+		const mappings = new Map<bigint, number[]>();
+
+		if (this.blocks) {
+			// File format: all dictionaries precede the record batches
+			for (const offset of this.blocks.dictionaries) {
+				const message = await this.readMessage(offset);
+				if (message) this.decode(message, dictionary, mappings);
+			}
+			for (const offset of this.blocks.records) {
+				const message = await this.readMessage(offset);
+				const chunk = message && this.decode(message, dictionary, mappings);
+				if (chunk) yield chunk;
+			}
+			return;
+		}
+
+		let offset = this.bodyStart;
+		while (offset < this.file.size) {
+			const message = await this.readMessage(offset);
+			if (!message) break;
+			offset = message.next;
+			const chunk = this.decode(message, dictionary, mappings);
+			if (chunk) yield chunk;
+		}
+	}
+
+	/**
+	 * Apply a dictionary batch or decode a record batch into a chunk.
+	 */
+	private decode(
+		message: { headerType: MessageHeader; header: FbTable; body: Uint8Array },
+		dictionary: Dictionary,
+		mappings: Map<bigint, number[]>,
+	): Chunk | null {
+		if (message.headerType === MessageHeader.DictionaryBatch) {
+			const id = message.header.int64(DictionaryBatchField.id);
+			const batch = message.header.table(DictionaryBatchField.data)!;
+			const cursor = openBatch(batch, message.body);
+			const values = readUtf8Values(cursor, dictionary);
+			const existing = mappings.get(id);
+			if (existing && message.header.bool(DictionaryBatchField.isDelta)) {
+				for (const value of values) existing.push(value);
+			} else {
+				mappings.set(id, values);
+			}
+			return null;
+		}
+
+		if (message.headerType === MessageHeader.RecordBatch) {
+			const cursor = openBatch(message.header, message.body);
+			const length = Number(message.header.int64(RecordBatchField.length));
+			const columns = this.fields!.map((field) =>
+				readColumn(field, cursor, length, dictionary, mappings),
+			);
+			return new Chunk(this.schema!, columns, dictionary);
+		}
+		return null;
+	}
+
+	/**
+	 * Read one encapsulated message at `offset`, or null at end-of-stream.
+	 */
+	private async readMessage(offset: number): Promise<{
+		headerType: MessageHeader;
+		header: FbTable;
+		body: Uint8Array;
+		next: number;
+	} | null> {
+		const size = this.file.size;
+		if (offset + 4 > size) return null;
+		const prefix = await this.readBytes(offset, Math.min(offset + 8, size));
+		const view = new DataView(prefix.buffer);
+		let metaStart = offset + 4;
+		let metaLength = view.getInt32(0, true);
+		if (view.getUint32(0, true) === CONTINUATION) {
+			if (prefix.length < 8) return null;
+			metaStart = offset + 8;
+			metaLength = view.getInt32(4, true);
+		}
+		if (metaLength === 0) return null;
+
+		const meta = await this.readBytes(metaStart, metaStart + metaLength);
+		const message = FbTable.root(meta);
+		const header = message.table(MessageField.header);
+		if (!header) throw new Error("Arrow message without header");
+		const bodyLength = Number(message.int64(MessageField.bodyLength));
+		const bodyStart = metaStart + metaLength;
+		const body =
+			bodyLength > 0
+				? await this.readBytes(bodyStart, bodyStart + bodyLength)
+				: new Uint8Array(0);
+
+		return {
+			headerType: message.uint8(MessageField.headerType) as MessageHeader,
+			header,
+			body,
+			next: bodyStart + bodyLength,
+		};
+	}
+
+	private async readBytes(start: number, end: number): Promise<Uint8Array> {
+		return new Uint8Array(await this.file.slice(start, end).arrayBuffer());
+	}
+}
+
+/** Message offsets of a footer Block vector (24-byte structs) */
+function blockOffsets(footer: FbTable, index: number): number[] {
+	const { pos, length } = footer.vector(index);
+	const offsets: number[] = [];
+	for (let i = 0; i < length; i++) {
+		offsets.push(Number(footer.view.getBigInt64(pos + i * 24, true)));
+	}
+	return offsets;
+}
+
+function startsWithMagic(bytes: Uint8Array): boolean {
+	if (bytes.length < ARROW_MAGIC.length) return false;
+	for (let i = 0; i < ARROW_MAGIC.length; i++) {
+		if (bytes[i] !== ARROW_MAGIC[i]) return false;
+	}
+	return true;
+}
+
+/**
+ * Map Arrow schema fields onto column dtypes.
+ */
+function parseFields(schema: FbTable): FieldLayout[] {
+	return schema.tables(SchemaField.fields).map((field) => {
+		const name = field.string(FieldField.name) ?? "";
+		const nullable = field.bool(FieldField.nullable);
+		const arrowType = field.uint8(FieldField.typeType) as ArrowType;
+		const type = field.table(FieldField.type);
+		const encoding = field.table(FieldField.dictionary);
+		if (field.vector(FieldField.children).length > 0) {
+			throw new Error(`Nested Arrow field '${name}' is not supported`);
+		}
+
+		const layout: FieldLayout = {
+			name,
+			dtype: DType.string,
+			arrowType,
+			bitWidth: 0,
+			signed: true,
+			unit: 0,
+			dictionaryId: null,
+		};
+
+		let kind: DTypeKind;
+		switch (arrowType) {
+			case ArrowType.Int: {
+				layout.bitWidth = type!.int32(IntField.bitWidth);
+				layout.signed = type!.bool(IntField.isSigned);
+				kind = intKind(layout.bitWidth, layout.signed, name);
+				break;
+			}
+			case ArrowType.FloatingPoint: {
+				const precision = type!.int16(0);
+				if (precision === Precision.HALF) {
+					throw new Error(
+						`Half-precision Arrow field '${name}' is not supported`,
+					);
+				}
+				kind =
+					precision === Precision.SINGLE
+						? DTypeKind.Float32
+						: DTypeKind.Float64;
+				break;
+			}
+			case ArrowType.Bool:
+				kind = DTypeKind.Boolean;
+				break;
+			case ArrowType.Utf8:
+			case ArrowType.LargeUtf8:
+				kind = DTypeKind.String;
+				break;
+			case ArrowType.Date:
+				layout.unit = type!.int16(0, DateUnit.MILLISECOND);
+				kind = DTypeKind.Date;
+				break;
+			case ArrowType.Timestamp:
+				layout.unit = type!.int16(0);
+				kind = DTypeKind.Timestamp;
+				break;
+			default:
+				throw new Error(
+					`Arrow type ${ArrowType[arrowType] ?? arrowType} of field '${name}' is not supported`,
+				);
+		}
+
+		if (encoding) {
+			if (kind !== DTypeKind.String) {
+				throw new Error(
+					`Dictionary-encoded non-string Arrow field '${name}' is not supported`,
+				);
+			}
+			layout.dictionaryId = encoding.int64(DictionaryEncodingField.id);
+			const indexType = encoding.table(DictionaryEncodingField.indexType);
+			layout.bitWidth = indexType?.int32(IntField.bitWidth) ?? 32;
+			layout.signed = indexType?.bool(IntField.isSigned) ?? true;
+		}
+
+		const source = nullable ? DType.nullable : DType;
+		layout.dtype = dtypeOf(kind, source);
+		return layout;
+	});
+}
+
+function intKind(bitWidth: number, signed: boolean, name: string): DTypeKind {
+	switch (bitWidth) {
+		case 8:
+			return signed ? DTypeKind.Int8 : DTypeKind.UInt8;
+		case 16:
+			return signed ? DTypeKind.Int16 : DTypeKind.UInt16;
+		case 32:
+			return signed ? DTypeKind.Int32 : DTypeKind.UInt32;
+		case 64:
+			return signed ? DTypeKind.Int64 : DTypeKind.UInt64;
+		default:
+			throw new Error(
+				`Invalid Arrow int width ${bitWidth} for field '${name}'`,
+			);
+	}
+}
+
+function dtypeOf(kind: DTypeKind, source: typeof DType.nullable): DType {
+	switch (kind) {
+		case DTypeKind.Int8:
+			return source.int8;
+		case DTypeKind.Int16:
+			return source.int16;
+		case DTypeKind.Int32:
+			return source.int32;
+		case DTypeKind.Int64:
+			return source.int64;
+		case DTypeKind.UInt8:
+			return source.uint8;
+		case DTypeKind.UInt16:
+			return source.uint16;
+		case DTypeKind.UInt32:
+			return source.uint32;
+		case DTypeKind.UInt64:
+			return source.uint64;
+		case DTypeKind.Float32:
+			return source.float32;
+		case DTypeKind.Float64:
+			return source.float64;
+		case DTypeKind.Boolean:
+			return source.boolean;
+		case DTypeKind.Date:
+			return source.date;
+		case DTypeKind.Timestamp:
+			return source.timestamp;
+		default:
+			return source.string;
+	}
+}
+
+/* BODY DECODING
+/*-----------------------------------------------------
+/* Field nodes and buffers to ColumnBuffers
+/* ==================================================== */
+
+function openBatch(batch: FbTable, body: Uint8Array): BatchCursor {
+	if (batch.table(RecordBatchField.compression)) {
+		throw new Error("Compressed Arrow IPC bodies are not supported");
+	}
+	const nodes = batch.vector(RecordBatchField.nodes);
+	const buffers = batch.vector(RecordBatchField.buffers);
+	const view = batch.view;
+	return {
+		body,
+		nodes: new DataView(
+			view.buffer,
+			view.byteOffset + nodes.pos,
+			nodes.length * 16,
+		),
+		buffers: new DataView(
+			view.buffer,
+			view.byteOffset + buffers.pos,
+			buffers.length * 16,
+		),
+		node: 0,
+		buffer: 0,
+	};
+}
+
+function nextNode(cursor: BatchCursor): { length: number; nullCount: number } {
+	const at = cursor.node++ * 16;
+	return {
+		length: Number(cursor.nodes.getBigInt64(at, true)),
+		nullCount: Number(cursor.nodes.getBigInt64(at + 8, true)),
+	};
+}
+
+function nextBuffer(cursor: BatchCursor): Uint8Array {
+	const at = cursor.buffer++ * 16;
+	const offset = Number(cursor.buffers.getBigInt64(at, true));
+	const length = Number(cursor.buffers.getBigInt64(at + 8, true));
+	// Copy so typed array views over the buffer are aligned
+	return cursor.body.slice(offset, offset + length);
+}
+
+/**
+ * Read a Utf8 column (validity, offsets, data) and intern every value.
+ * Null entries map to index 0 and are masked by validity elsewhere.
+ */
+function readUtf8Values(
+	cursor: BatchCursor,
+	dictionary: Dictionary,
+	large: boolean = false,
+): number[] {
+	const { length } = nextNode(cursor);
+	nextBuffer(cursor); // validity
+	const offsetBytes = nextBuffer(cursor);
+	const data = nextBuffer(cursor);
+	const offsets = large
+		? new BigInt64Array(offsetBytes.buffer, 0, length + 1)
+		: new Int32Array(offsetBytes.buffer, 0, length + 1);
+
+	const indices: number[] = new Array(length);
+	for (let i = 0; i < length; i++) {
+		const start = Number(offsets[i]!);
+		const end = Number(offsets[i + 1]!);
+		indices[i] = dictionary.intern(data.subarray(start, end));
+	}
+	return indices;
+}
+
+function readColumn(
+	field: FieldLayout,
+	cursor: BatchCursor,
+	length: number,
+	dictionary: Dictionary,
+	mappings: Map<bigint, number[]>,
+): ColumnBuffer {
+	const kind = field.dtype.kind;
+	const column = new ColumnBuffer(
+		kind,
+		Math.max(length, 1),
+		field.dtype.nullable,
+	);
+
+	const nodeIndex = cursor.node;
+	const buffers = cursor.buffer;
+	const { nullCount } = nextNode(cursor);
+	const validity = nextBuffer(cursor);
+	const isValid = (i: number) =>
+		nullCount === 0 ||
+		validity.length === 0 ||
+		(validity[i >>> 3]! & (1 << (i & 7))) !== 0;
+
+	const out = column.data as unknown as (number | bigint)[];
+	if (field.dictionaryId !== null) {
+		const mapping = mappings.get(field.dictionaryId);
+		if (!mapping)
+			throw new Error(`Missing Arrow dictionary for '${field.name}'`);
+		const indices = intArray(nextBuffer(cursor), field.bitWidth, field.signed);
+		for (let i = 0; i < length; i++) {
+			out[i] = isValid(i) ? mapping[Number(indices[i]!)]! : 0;
+		}
+	} else if (kind === DTypeKind.String) {
+		// Re-read the node through the Utf8 helper
+		cursor.node = nodeIndex;
+		cursor.buffer = buffers;
+		const values = readUtf8Values(
+			cursor,
+			dictionary,
+			field.arrowType === ArrowType.LargeUtf8,
+		);
+		for (let i = 0; i < length; i++) out[i] = values[i]!;
+	} else if (kind === DTypeKind.Boolean) {
+		const bits = nextBuffer(cursor);
+		for (let i = 0; i < length; i++) {
+			out[i] = (bits[i >>> 3]! >>> (i & 7)) & 1;
+		}
+	} else if (kind === DTypeKind.Date) {
+		const data = nextBuffer(cursor);
+		if (field.unit === DateUnit.DAY) {
+			column.setFromTypedArray(new Int32Array(data.buffer, 0, length), length);
+		} else {
+			const ms = new BigInt64Array(data.buffer, 0, length);
+			for (let i = 0; i < length; i++) {
+				out[i] = Math.floor(Number(ms[i]!) / MS_PER_DAY);
+			}
+		}
+	} else if (kind === DTypeKind.Timestamp) {
+		const raw = new BigInt64Array(nextBuffer(cursor).buffer, 0, length);
+		for (let i = 0; i < length; i++) out[i] = toMillis(raw[i]!, field.unit);
+	} else {
+		const data = nextBuffer(cursor);
+		const Constructor = column.data.constructor as new (
+			buffer: ArrayBufferLike,
+			offset: number,
+			length: number,
+		) => Int32Array;
+		column.setFromTypedArray(new Constructor(data.buffer, 0, length), length);
+	}
+
+	column.setLength(length);
+	if (nullCount > 0 && validity.length > 0) {
+		for (let i = 0; i < length; i++) {
+			if (!isValid(i)) column.setNull(i, true);
+		}
+	}
+	return column;
+}
+
+function intArray(
+	bytes: Uint8Array,
+	bitWidth: number,
+	signed: boolean,
+): ArrayLike<number | bigint> {
+	const n = bytes.length / (bitWidth / 8);
+	switch (bitWidth) {
+		case 8:
+			return signed ? new Int8Array(bytes.buffer, 0, n) : bytes;
+		case 16:
+			return signed
+				? new Int16Array(bytes.buffer, 0, n)
+				: new Uint16Array(bytes.buffer, 0, n);
+		case 32:
+			return signed
+				? new Int32Array(bytes.buffer, 0, n)
+				: new Uint32Array(bytes.buffer, 0, n);
+		default:
+			return signed
+				? new BigInt64Array(bytes.buffer, 0, n)
+				: new BigUint64Array(bytes.buffer, 0, n);
+	}
+}
+
+function toMillis(value: bigint, unit: number): bigint {
+	switch (unit) {
+		case TimeUnit.SECOND:
+			return value * 1000n;
+		case TimeUnit.MICROSECOND:
+			return floorDiv(value, 1000n);
+		case TimeUnit.NANOSECOND:
+			return floorDiv(value, 1_000_000n);
+		default:
+			return value;
+	}
+}
+
+/**
+ * Read an Arrow IPC file (file or stream format) into a DataFrame.
+ */
+export async function readArrow(path: string): Promise<DataFrame> {
+	const reader = new ArrowReader(path);
+	return reader.read();
+}
@@ -0,0 +1,441 @@
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by row counts */
+/**
+ * Arrow IPC writer (file and stream formats).
+ *
+ * Each chunk becomes one record batch. String columns are written as
+ * dictionary-encoded Utf8 with int32 indices; every string column gets its
+ * own dictionary id carrying the strings referenced by the written rows,
+ * extended with delta batches as new strings appear.
+ */
+
+import type { Chunk } from "../../buffer/chunk.ts";
+import { createDictionary, type Dictionary } from "../../buffer/dictionary.ts";
+import { DTypeKind } from "../../types/dtypes.ts";
+import type { ColumnDef, Schema } from "../../types/schema.ts";
+import { encodeFlatBuffer, type FbNode, fb } from "./flatbuffers.ts";
+import {
+	ARROW_MAGIC,
+	ArrowType,
+	CONTINUATION,
+	DateUnit,
+	METADATA_VERSION,
+	MessageHeader,
+	Precision,
+	TimeUnit,
+} from "./format.ts";
+
+/** Arrow writing options */
+export interface ArrowWriteOptions {
+	/** IPC file format (Feather v2) or stream format (default: "file") */
+	format?: "file" | "stream";
+}
+
+/** Location of a message in the file, for the footer */
+interface Block {
+	offset: number;
+	metaDataLength: number;
+	bodyLength: number;
+}
+
+/** Buffers of one record batch before framing */
+interface BatchBody {
+	length: number;
+	nodes: { length: number; nullCount: number }[];
+	buffers: Uint8Array[];
+}
+
+/**
+ * Arrow IPC writer. Call write() for each chunk, then close().
+ */
+export class ArrowWriter {
+	private readonly sink: Bun.FileSink;
+	private readonly schema: Schema;
+	private readonly format: "file" | "stream";
+	private readonly schemaNode: FbNode;
+	private readonly dictionary: Dictionary | null;
+
+	/** Entries referenced by the written rows, in first-use order */
+	private readonly output: Dictionary = createDictionary();
+	/** Output index of each source index, -1 until first use */
+	private remap: Int32Array = new Int32Array(0);
+	private remapSource: Dictionary | null = null;
+
+	private offset: number = 0;
+	private dictionarySent: number = 0;
+	private readonly dictionaryBlocks: Block[] = [];
+	private readonly recordBlocks: Block[] = [];
+	private readonly stringColumns: number[];
+
+	constructor(
+		path: string,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: ArrowWriteOptions,
+	) {
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.format = options?.format ?? "file";
+		this.schemaNode = schemaTable(schema);
+		this.stringColumns = [];
+		for (let i = 0; i < schema.columns.length; i++) {
+			if (schema.columns[i]!.dtype.kind === DTypeKind.String) {
+				this.stringColumns.push(i);
+			}
+		}
+
+		this.sink = Bun.file(path).writer();
+		if (this.format === "file") {
+			const header = new Uint8Array(8);
+			header.set(ARROW_MAGIC);
+			this.emit(header);
+		}
+		this.writeMessage(MessageHeader.Schema, this.schemaNode, []);
+	}
+
+	/**
+	 * Write a chunk as one record batch, preceded by any new dictionary entries.
+	 */
+	async write(chunk: Chunk): Promise<void> {
+		const source = chunk.dictionary ?? this.dictionary;
+		const rowCount = chunk.rowCount;
+		const selection = chunk.getSelection();
+		const body: BatchBody = { length: rowCount, nodes: [], buffers: [] };
+
+		for (let c = 0; c < this.schema.columns.length; c++) {
+			const def = this.schema.columns[c]!;
+			const column = chunk.getColumn(c);
+			if (!column) throw new Error(`Missing column '${def.name}'`);
+
+			// Validity bitmap (bit set = valid), only when nulls are present
+			const validity = new Uint8Array(Math.ceil(rowCount / 8));
+			let nullCount = 0;
+			for (let r = 0; r < rowCount; r++) {
+				const phys = selection === null ? r : selection[r]!;
+				if (column.isNull(phys)) nullCount++;
+				else validity[r >>> 3]! |= 1 << (r & 7);
+			}
+			body.nodes.push({ length: rowCount, nullCount });
+			body.buffers.push(nullCount > 0 ? validity : new Uint8Array(0));
+
+			body.buffers.push(
+				encodeValues(def, column.data, selection, rowCount, (index, row) =>
+					column.isNull(row) ? 0 : this.intern(source, index),
+				),
+			);
+		}
+
+		this.writeDictionaryDeltas();
+		this.recordBlocks.push(
+			this.writeMessage(
+				MessageHeader.RecordBatch,
+				recordBatchTable(body),
+				body.buffers,
+			),
+		);
+		await this.sink.flush();
+	}
+
+	/**
+	 * Write the end-of-stream marker and, for files, the footer.
+	 */
+	async close(): Promise<void> {
+		this.writeDictionaryDeltas();
+
+		const eos = new Uint8Array(8);
+		new DataView(eos.buffer).setUint32(0, CONTINUATION, true);
+		this.emit(eos);
+
+		if (this.format === "file") {
+			const footer = encodeFlatBuffer(
+				fb.table(
+					fb.int16(METADATA_VERSION),
+					fb.ref(this.schemaNode),
+					fb.ref(blockVector(this.dictionaryBlocks)),
+					fb.ref(blockVector(this.recordBlocks)),
+				),
+			);
+			const tail = new Uint8Array(4 + ARROW_MAGIC.length);
+			new DataView(tail.buffer).setInt32(0, footer.length, true);
+			tail.set(ARROW_MAGIC, 4);
+			this.emit(footer);
+			this.emit(tail);
+		}
+		await this.sink.end();
+	}
+
+	/**
+	 * Close the underlying file without finishing it (after a failure).
+	 */
+	async abort(): Promise<void> {
+		await this.sink.end();
+	}
+
+	/**
+	 * Send dictionary entries interned since the last batch, once per string column.
+	 */
+	private writeDictionaryDeltas(): void {
+		const dictionary = this.output;
+		if (this.stringColumns.length === 0) return;
+		const size = dictionary.size;
+		const isDelta = this.dictionarySent > 0;
+		if (size === this.dictionarySent && isDelta) return;
+
+		const count = size - this.dictionarySent;
+		const offsets = new Int32Array(count + 1);
+		const values: Uint8Array[] = [];
+		let total = 0;
+		for (let i = 0; i < count; i++) {
+			const bytes = dictionary.getBytes(this.dictionarySent + i)!;
+			values.push(bytes);
+			total += bytes.length;
+			offsets[i + 1] = total;
+		}
+		const data = new Uint8Array(total);
+		let pos = 0;
+		for (const bytes of values) {
+			data.set(bytes, pos);
+			pos += bytes.length;
+		}
+
+		const body: BatchBody = {
+			length: count,
+			nodes: [{ length: count, nullCount: 0 }],
+			buffers: [new Uint8Array(0), new Uint8Array(offsets.buffer), data],
+		};
+		for (const column of this.stringColumns) {
+			const header = fb.table(
+				fb.int64(BigInt(column)),
+				fb.ref(recordBatchTable(body)),
+				fb.bool(isDelta),
+			);
+			this.dictionaryBlocks.push(
+				this.writeMessage(MessageHeader.DictionaryBatch, header, body.buffers),
+			);
+		}
+		this.dictionarySent = size;
+	}
+
+	/** Output dictionary index of a source dictionary index */
+	private intern(source: Dictionary | null, index: number): number {
+		if (source === null) throw new Error("String column without dictionary");
+		if (source !== this.remapSource) {
+			this.remapSource = source;
+			this.remap = new Int32Array(0);
+		}
+		if (index >= this.remap.length) {
+			const grown = new Int32Array(Math.max(source.size, index + 1)).fill(-1);
+			grown.set(this.remap);
+			this.remap = grown;
+		}
+		let mapped = this.remap[index]!;
+		if (mapped === -1) {
+			const bytes = source.getBytes(index);
+			if (bytes === undefined) {
+				throw new Error(`Dictionary index ${index} out of range`);
+			}
+			mapped = this.output.intern(bytes);
+			this.remap[index] = mapped;
+		}
+		return mapped;
+	}
+
+	/**
+	 * Frame and write one encapsulated message with its 8-byte aligned body.
+	 */
+	private writeMessage(
+		headerType: MessageHeader,
+		header: FbNode,
+		buffers: Uint8Array[],
+	): Block {
+		let bodyLength = 0;
+		for (const buffer of buffers) bodyLength += pad8(buffer.length);
+
+		const meta = encodeFlatBuffer(
+			fb.table(
+				fb.int16(METADATA_VERSION),
+				fb.uint8(headerType),
+				fb.ref(header),
+				fb.int64(BigInt(bodyLength)),
+			),
+		);
+		const metaLength = pad8(meta.length);
+		const prefix = new Uint8Array(8 + metaLength);
+		const view = new DataView(prefix.buffer);
+		view.setUint32(0, CONTINUATION, true);
+		view.setInt32(4, metaLength, true);
+		prefix.set(meta, 8);
+
+		const block = {
+			offset: this.offset,
+			metaDataLength: prefix.length,
+			bodyLength,
+		};
+		this.emit(prefix);
+		for (const buffer of buffers) {
+			this.emit(buffer);
+			const padding = pad8(buffer.length) - buffer.length;
+			if (padding > 0) this.emit(new Uint8Array(padding));
+		}
+		return block;
+	}
+
+	private emit(bytes: Uint8Array): void {
+		this.sink.write(bytes);
+		this.offset += bytes.length;
+	}
+}
+
+function pad8(n: number): number {
+	return Math.ceil(n / 8) * 8;
+}
+
+/**
+ * Pack selected values into the data buffer for a column.
+ */
+function encodeValues(
+	def: ColumnDef,
+	data: ArrayLike<number | bigint>,
+	selection: Uint32Array | null,
+	rowCount: number,
+	mapIndex: (index: number, row: number) => number,
+): Uint8Array {
+	const kind = def.dtype.kind;
+	if (kind === DTypeKind.Boolean) {
+		const bits = new Uint8Array(Math.ceil(rowCount / 8));
+		for (let r = 0; r < rowCount; r++) {
+			const phys = selection === null ? r : selection[r]!;
+			if (data[phys]) bits[r >>> 3]! |= 1 << (r & 7);
+		}
+		return bits;
+	}
+
+	const source = data as unknown as {
+		constructor: new (n: number) => ArrayLike<unknown>;
+	};
+	const out =
+		kind === DTypeKind.String
+			? new Int32Array(rowCount)
+			: (new source.constructor(rowCount) as unknown as Int32Array);
+	for (let r = 0; r < rowCount; r++) {
+		const phys = selection === null ? r : selection[r]!;
+		const value = data[phys]!;
+		(out as unknown as (number | bigint)[])[r] =
+			kind === DTypeKind.String ? mapIndex(value as number, phys) : value;
+	}
+	return new Uint8Array(out.buffer, out.byteOffset, out.byteLength);
+}
+
+/* METADATA TABLES
+/*-----------------------------------------------------
+/* FlatBuffers nodes for Schema, RecordBatch and Footer
+/* ==================================================== */
+
+function intType(bitWidth: number, signed: boolean): FbNode {
+	return fb.table(fb.int32(bitWidth), fb.bool(signed));
+}
+
+function fieldType(kind: DTypeKind): { type: ArrowType; node: FbNode } {
+	switch (kind) {
+		case DTypeKind.Int8:
+			return { type: ArrowType.Int, node: intType(8, true) };
+		case DTypeKind.Int16:
+			return { type: ArrowType.Int, node: intType(16, true) };
+		case DTypeKind.Int32:
+			return { type: ArrowType.Int, node: intType(32, true) };
+		case DTypeKind.Int64:
+			return { type: ArrowType.Int, node: intType(64, true) };
+		case DTypeKind.UInt8:
+			return { type: ArrowType.Int, node: intType(8, false) };
+		case DTypeKind.UInt16:
+			return { type: ArrowType.Int, node: intType(16, false) };
+		case DTypeKind.UInt32:
+			return { type: ArrowType.Int, node: intType(32, false) };
+		case DTypeKind.UInt64:
+			return { type: ArrowType.Int, node: intType(64, false) };
+		case DTypeKind.Float32:
+			return {
+				type: ArrowType.FloatingPoint,
+				node: fb.table(fb.int16(Precision.SINGLE)),
+			};
+		case DTypeKind.Float64:
+			return {
+				type: ArrowType.FloatingPoint,
+				node: fb.table(fb.int16(Precision.DOUBLE)),
+			};
+		case DTypeKind.Boolean:
+			return { type: ArrowType.Bool, node: fb.table() };
+		case DTypeKind.String:
+			return { type: ArrowType.Utf8, node: fb.table() };
+		case DTypeKind.Date:
+			return { type: ArrowType.Date, node: fb.table(fb.int16(DateUnit.DAY)) };
+		case DTypeKind.Timestamp:
+			return {
+				type: ArrowType.Timestamp,
+				node: fb.table(fb.int16(TimeUnit.MILLISECOND)),
+			};
+		case DTypeKind.List:
+			throw new Error("List columns are not supported by the Arrow writer");
+	}
+}
+
+function schemaTable(schema: Schema): FbNode {
+	const fields = schema.columns.map((def, i) => {
+		const { type, node } = fieldType(def.dtype.kind);
+		const dictionary =
+			def.dtype.kind === DTypeKind.String
+				? fb.ref(
+						fb.table(
+							fb.int64(BigInt(i)),
+							fb.ref(intType(32, true)),
+							fb.bool(false),
+						),
+					)
+				: null;
+		return fb.table(
+			fb.ref(fb.string(def.name)),
+			fb.bool(def.dtype.nullable),
+			fb.uint8(type),
+			fb.ref(node),
+			dictionary,
+			fb.ref(fb.vector([])),
+		);
+	});
+	// Endianness.Little is the default (0)
+	return fb.table(fb.int16(0), fb.ref(fb.vector(fields)));
+}
+
+function recordBatchTable(body: BatchBody): FbNode {
+	const nodes = new BigInt64Array(body.nodes.length * 2);
+	for (let i = 0; i < body.nodes.length; i++) {
+		nodes[i * 2] = BigInt(body.nodes[i]!.length);
+		nodes[i * 2 + 1] = BigInt(body.nodes[i]!.nullCount);
+	}
+
+	const buffers = new BigInt64Array(body.buffers.length * 2);
+	let offset = 0;
+	for (let i = 0; i < body.buffers.length; i++) {
+		const length = body.buffers[i]!.length;
+		buffers[i * 2] = BigInt(offset);
+		buffers[i * 2 + 1] = BigInt(length);
+		offset += pad8(length);
+	}
+
+	return fb.table(
+		fb.int64(BigInt(body.length)),
+		fb.ref(fb.structs(new Uint8Array(nodes.buffer), body.nodes.length, 8)),
+		fb.ref(fb.structs(new Uint8Array(buffers.buffer), body.buffers.length, 8)),
+	);
+}
+
+function blockVector(blocks: Block[]): FbNode {
+	// struct Block { offset: long; metaDataLength: int; (pad 4) bodyLength: long }
+	const bytes = new Uint8Array(blocks.length * 24);
+	const view = new DataView(bytes.buffer);
+	for (let i = 0; i < blocks.length; i++) {
+		const block = blocks[i]!;
+		view.setBigInt64(i * 24, BigInt(block.offset), true);
+		view.setInt32(i * 24 + 8, block.metaDataLength, true);
+		view.setBigInt64(i * 24 + 16, BigInt(block.bodyLength), true);
+	}
+	return fb.structs(bytes, blocks.length, 8);
+}
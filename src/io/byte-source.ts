@@ -0,0 +1,53 @@
+/**
+ * In-memory and streamed input for readers.
+ *
+ * Readers that take a path can also read a ReadableStream (such as a
+ * `Response.body`), a Blob (including `Bun.file()` and `Bun.stdin`) or
+ * raw bytes, without going through a temporary file.
+ */
+
+import { type Compression, decompressStream } from "./compression.ts";
+
+/** Input bytes: a stream, a Blob (`Bun.file()`, `Bun.stdin`) or a buffer */
+export type ByteSource =
+	| ReadableStream<Uint8Array>
+	| Blob
+	| ArrayBuffer
+	| Uint8Array;
+
+/**
+ * Whether the input can only be read once: streams, `Bun.stdin` (even
+ * when redirected from a file) and Blobs of unknown size such as pipes.
+ */
+export function isOneShot(input: ByteSource): boolean {
+	if (input instanceof ReadableStream || input === Bun.stdin) return true;
+	return input instanceof Blob && !Number.isFinite(input.size);
+}
+
+/**
+ * Open the input as a stream of decompressed bytes.
+ */
+export function openByteSource(
+	input: ByteSource,
+	compression?: Compression,
+): Promise<ReadableStream<Uint8Array>> {
+	return decompressStream(rawStream(input), compression);
+}
+
+/**
+ * The input as a Blob, reading streams to the end. Other Blobs are
+ * returned as is, so random access stays lazy.
+ */
+export async function toBlob(input: ByteSource): Promise<Blob> {
+	if (input instanceof Blob && !isOneShot(input)) return input;
+	if (input instanceof ArrayBuffer || input instanceof Uint8Array) {
+		return new Blob([input]);
+	}
+	return new Response(rawStream(input)).blob();
+}
+
+function rawStream(input: ByteSource): ReadableStream<Uint8Array> {
+	if (input instanceof ReadableStream) return input;
+	if (input instanceof Blob) return input.stream();
+	return new Blob([input]).stream();
+}
@@ -0,0 +1,206 @@
+/**
+ * Cached chunk source (DataFrame.cache() / persist()).
+ *
+ * The first iteration runs the upstream plan once and keeps its output:
+ * in memory as compacted chunks, or on disk as a .mornye spill file that
+ * is mapped back in. Every frame derived from the cached one shares this
+ * source, so later actions and branches replay the stored chunks instead
+ * of re-reading the original input.
+ */
+
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Chunk } from "../buffer/chunk.ts";
+import type { Dictionary } from "../buffer/dictionary.ts";
+import { unwrap } from "../types/error.ts";
+import type { Schema } from "../types/schema.ts";
+import { NativeWriter, readNative } from "./native.ts";
+
+/** Where cached chunks are kept */
+export type StorageLevel = "memory" | "disk";
+
+/** Cache accounting, as shown by explain() */
+export interface CacheStats {
+	level: StorageLevel;
+	/**
+	 * "pending" until the first action runs the plan, "cached" while the
+	 * chunks are kept and "released" after unpersist()
+	 */
+	state: "pending" | "cached" | "released";
+	chunks: number;
+	rows: number;
+	/** Bytes held in memory, or the spill file size */
+	bytes: number;
+	/** Actions served from the cache */
+	hits: number;
+	/** Spill file of the disk level */
+	path: string | null;
+}
+
+/** Spill files not yet released, removed when the process exits */
+const spillFiles = new Set<string>();
+let spillCount = 0;
+
+function removeSpillFiles(): void {
+	for (const path of spillFiles) rmSync(path, { force: true });
+}
+
+/**
+ * Chunk source that materializes an upstream plan on first use.
+ */
+export class CachedSource implements AsyncIterable<Chunk> {
+	private readonly upstream: () => AsyncIterable<Chunk>;
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly level: StorageLevel;
+
+	private chunks: Chunk[] | null = null;
+	private loading: Promise<Chunk[]> | null = null;
+	private released: boolean = false;
+	private rows: number = 0;
+	private bytes: number = 0;
+	private hits: number = 0;
+	private path: string | null = null;
+
+	constructor(
+		upstream: () => AsyncIterable<Chunk>,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		level: StorageLevel,
+	) {
+		this.upstream = upstream;
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.level = level;
+	}
+
+	/**
+	 * Yield the cached chunks, materializing them on the first call.
+	 * Each call gets fresh Chunk views, so operators that narrow a
+	 * chunk's selection do not affect the stored ones. After release(),
+	 * the upstream plan runs again on every call.
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<Chunk> {
+		if (this.released) {
+			yield* this.upstream();
+			return;
+		}
+		const cached = this.chunks !== null;
+		const chunks = await this.materialize();
+		if (cached) this.hits++;
+		for (const chunk of chunks) {
+			yield chunk.view();
+		}
+	}
+
+	/**
+	 * Drop the stored chunks and delete the spill file.
+	 */
+	release(): void {
+		this.released = true;
+		this.chunks = null;
+		// A disk load still in flight creates its spill file when it settles
+		this.loading?.then(
+			() => this.removeSpill(),
+			() => {},
+		);
+		this.loading = null;
+		this.removeSpill();
+	}
+
+	stats(): CacheStats {
+		return {
+			level: this.level,
+			state: this.released
+				? "released"
+				: this.chunks === null
+					? "pending"
+					: "cached",
+			chunks: this.chunks?.length ?? 0,
+			rows: this.rows,
+			bytes: this.bytes,
+			hits: this.hits,
+			path: this.path,
+		};
+	}
+
+	/** One-line description for explain() */
+	describe(): string {
+		const stats = this.stats();
+		if (stats.state !== "cached") {
+			return `Cache [${stats.level}, ${stats.state}]`;
+		}
+		return `Cache [${stats.level}, ${stats.chunks} chunks, ${stats.rows} rows, ${formatBytes(stats.bytes)}, ${stats.hits} hits]`;
+	}
+
+	private materialize(): Promise<Chunk[]> {
+		if (this.chunks !== null) return Promise.resolve(this.chunks);
+		this.loading ??= (
+			this.level === "memory" ? this.loadMemory() : this.loadDisk()
+		).then(
+			(chunks) => {
+				this.rows = chunks.reduce((n, c) => n + c.rowCount, 0);
+				// Released mid-load: serve this action, but keep nothing
+				if (!this.released) this.chunks = chunks;
+				return chunks;
+			},
+			(error) => {
+				// Let the next action retry instead of replaying the failure
+				this.loading = null;
+				this.bytes = 0;
+				throw error;
+			},
+		);
+		return this.loading;
+	}
+
+	private removeSpill(): void {
+		if (this.path === null) return;
+		rmSync(this.path, { force: true });
+		spillFiles.delete(this.path);
+	}
+
+	private async loadMemory(): Promise<Chunk[]> {
+		const chunks: Chunk[] = [];
+		for await (const chunk of this.upstream()) {
+			if (chunk.rowCount === 0) continue;
+			const compact = unwrap(chunk.materialize());
+			for (const column of compact.getColumns()) {
+				this.bytes += column.length * column.data.BYTES_PER_ELEMENT;
+				if (column.isNullable) this.bytes += Math.ceil(column.length / 8);
+			}
+			chunks.push(compact);
+		}
+		return chunks;
+	}
+
+	private async loadDisk(): Promise<Chunk[]> {
+		// Only processes that spill pay for the exit hook
+		if (spillCount === 0) process.on("exit", removeSpillFiles);
+		const path = join(
+			tmpdir(),
+			`mornye-cache-${process.pid}-${spillCount++}.mornye`,
+		);
+		const writer = new NativeWriter(path, this.schema, this.dictionary);
+		try {
+			for await (const chunk of this.upstream()) {
+				await writer.write(chunk);
+			}
+		} catch (error) {
+			await writer.abort();
+			throw error;
+		}
+		await writer.close();
+		this.path = path;
+		spillFiles.add(path);
+		this.bytes = Bun.file(path).size;
+		return (await readNative(path)).source as Chunk[];
+	}
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
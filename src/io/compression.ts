@@ -0,0 +1,83 @@
+/**
+ * Transparent decompression of text input files.
+ *
+ * Files and byte streams are piped through a DecompressionStream, so
+ * compressed input is decoded block by block like plain input.
+ */
+
+/** Compression of an input file; "auto" detects it from extension or magic bytes */
+export type Compression = "auto" | "none" | "gzip" | "zstd";
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+/**
+ * Resolve "auto" for a file: by extension first (.gz, .zst), then by the
+ * gzip/zstd magic bytes at the start of the file.
+ */
+export async function detectCompression(
+	path: string,
+	compression: Compression = "auto",
+): Promise<Exclude<Compression, "auto">> {
+	if (compression !== "auto") return compression;
+	const lower = path.toLowerCase();
+	if (lower.endsWith(".gz") || lower.endsWith(".gzip")) return "gzip";
+	if (lower.endsWith(".zst") || lower.endsWith(".zstd")) return "zstd";
+
+	return compressionOf(await Bun.file(path).slice(0, 4).bytes());
+}
+
+/**
+ * Open a file as a stream of decompressed bytes.
+ */
+export async function openFileStream(
+	path: string,
+	compression?: Compression,
+): Promise<ReadableStream<Uint8Array>> {
+	const resolved = await detectCompression(path, compression);
+	return decompressStream(Bun.file(path).stream(), resolved);
+}
+
+/**
+ * Decompress a byte stream. "auto" checks the magic bytes of its first
+ * block, which is then replayed.
+ */
+export async function decompressStream(
+	stream: ReadableStream<Uint8Array>,
+	compression: Compression = "auto",
+): Promise<ReadableStream<Uint8Array>> {
+	let input = stream;
+	let resolved = compression;
+	if (resolved === "auto") {
+		const reader = stream.getReader();
+		const first = await reader.read();
+		resolved = first.done ? "none" : compressionOf(first.value);
+		input = new ReadableStream<Uint8Array>({
+			start(controller) {
+				if (!first.done) controller.enqueue(first.value);
+			},
+			async pull(controller) {
+				const { done, value } = await reader.read();
+				if (done) controller.close();
+				else controller.enqueue(value);
+			},
+			cancel(reason) {
+				return reader.cancel(reason);
+			},
+		});
+	}
+	if (resolved === "none") return input;
+	// DecompressionStream is typed for ArrayBuffer-backed chunks only
+	const bytes = input as ReadableStream<Uint8Array<ArrayBuffer>>;
+	return bytes.pipeThrough(new DecompressionStream(resolved));
+}
+
+function compressionOf(head: Uint8Array): Exclude<Compression, "auto"> {
+	if (startsWith(head, GZIP_MAGIC)) return "gzip";
+	if (startsWith(head, ZSTD_MAGIC)) return "zstd";
+	return "none";
+}
+
+function startsWith(bytes: Uint8Array, magic: number[]): boolean {
+	return magic.every((byte, i) => bytes[i] === byte);
+}
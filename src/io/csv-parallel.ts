@@ -0,0 +1,410 @@
+/**
+ * Parallel CSV parsing with Bun Workers.
+ *
+ * The input is read into shared memory one window at a time, and each
+ * window is split after row endings that lie outside quoted fields; a
+ * row cut off at the end of a window starts the next one. Each byte range
+ * is parsed by a worker into ColumnBuffers backed by SharedArrayBuffer,
+ * so its chunks reach the calling thread without copying. String columns
+ * hold indices into the worker's dictionary; they are remapped into the
+ * shared Dictionary as the ranges arrive.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by length */
+
+import { Chunk } from "../buffer/chunk.ts";
+import {
+	columnBufferFromShared,
+	type SharedColumn,
+} from "../buffer/column-buffer.ts";
+import type { Dictionary } from "../buffer/dictionary.ts";
+import { DTypeKind } from "../types/dtypes.ts";
+import { ErrorCode } from "../types/error.ts";
+import { createSchema, type Schema, type SchemaSpec } from "../types/schema.ts";
+import {
+	type CsvOptions,
+	CsvParser,
+	type CsvRejectedRow,
+} from "./csv-parser.ts";
+
+/** Bytes read into shared memory at a time (more when one row is longer) */
+export const WINDOW_BYTES = 64 << 20;
+/** Smallest byte range handed to a worker */
+const MIN_RANGE_BYTES = 1 << 20;
+/** Ranges per worker, so fast workers pick up the slack of slow ones */
+const RANGES_PER_WORKER = 4;
+
+/** A byte range of complete rows */
+export interface CsvRange {
+	start: number;
+	end: number;
+	/** Rows before the range, counting the header and skipped rows */
+	rows: number;
+}
+
+/** Where splitting resumes in the next window */
+export interface SplitState {
+	/** Complete rows before the window */
+	rows: number;
+	/** Fields per row, -1 if unknown */
+	fields: number;
+}
+
+/** Work sent to a worker */
+export interface CsvTask {
+	index: number;
+	/** The window holding the range */
+	data: Uint8Array;
+	/** Offset of the window in the input */
+	base: number;
+	range: CsvRange;
+	/** Fields per row, -1 if unknown */
+	fields: number;
+	spec: SchemaSpec;
+	options: CsvOptions;
+}
+
+/** A parsed range sent back by a worker */
+export type CsvTaskResult =
+	| {
+			index: number;
+			chunks: SharedColumn[][];
+			/** The worker dictionary's strings, back to back */
+			strings: Uint8Array;
+			/** Start of each string in `strings`, plus the end */
+			stringOffsets: Uint32Array;
+			rowCount: number;
+			errorCount: number;
+			rejected: CsvRejectedRow[];
+	  }
+	| { index: number; error: string };
+
+/**
+ * Whether a read with these options runs on workers.
+ */
+export function isParallel(options: CsvOptions | undefined): boolean {
+	return (
+		(options?.workers ?? 1) > 1 && (options?.maxRows ?? Infinity) === Infinity
+	);
+}
+
+/**
+ * Split CSV bytes into ranges of about `size` bytes, each starting after
+ * a row ending outside quotes. The header and skipped rows are left out.
+ * Also returns the header's field count (-1 without a header).
+ *
+ * `from` continues the split of an earlier window. Unless the window is
+ * `final`, the rows end at `end` and the bytes after it start the next
+ * window, which continues from `rows`.
+ */
+export function splitRanges(
+	data: Uint8Array,
+	options: CsvOptions | undefined,
+	size: number,
+	from: SplitState = { rows: 0, fields: -1 },
+	final: boolean = true,
+): { ranges: CsvRange[]; fields: number; rows: number; end: number } {
+	const DELIMITER = (options?.delimiter ?? ",").charCodeAt(0);
+	const QUOTE = (options?.quote ?? '"').charCodeAt(0);
+	const hasHeader = options?.hasHeader ?? true;
+	const leading = (hasHeader ? 1 : 0) + (options?.skipRows ?? 0);
+
+	const ranges: CsvRange[] = [];
+	let fields = from.fields;
+	let rows = from.rows;
+	let rowFields = 1;
+	let rangeStart = rows >= leading ? 0 : -1;
+	let rangeRows = rows;
+	let rowEnd = 0;
+	let quoted = false;
+	let fieldStart = true;
+
+	const endRow = (next: number) => {
+		if (rows === 0 && hasHeader) fields = rowFields;
+		rows++;
+		rowFields = 1;
+		fieldStart = true;
+		rowEnd = next;
+		if (rows === leading) {
+			rangeStart = next;
+			rangeRows = rows;
+		} else if (rangeStart !== -1 && next - rangeStart >= size) {
+			ranges.push({ start: rangeStart, end: next, rows: rangeRows });
+			rangeStart = next;
+			rangeRows = rows;
+		}
+	};
+
+	const len = data.length;
+	for (let i = 0; i < len; i++) {
+		const c = data[i]!;
+		if (quoted) {
+			if (c === QUOTE) {
+				// A doubled quote stays inside the field
+				if (data[i + 1] === QUOTE) i++;
+				else quoted = false;
+			}
+			continue;
+		}
+		if (c === QUOTE && fieldStart) {
+			quoted = true;
+			fieldStart = false;
+		} else if (c === DELIMITER) {
+			rowFields++;
+			fieldStart = true;
+		} else if (c === 10) {
+			endRow(i + 1);
+		} else if (c === 13) {
+			// The LF of a CRLF may open the next window
+			if (i + 1 === len && !final) break;
+			if (data[i + 1] === 10) i++;
+			endRow(i + 1);
+		} else {
+			fieldStart = false;
+		}
+	}
+	const end = final ? len : rowEnd;
+	if (rangeStart !== -1 && rangeStart < end) {
+		ranges.push({ start: rangeStart, end, rows: rangeRows });
+	}
+	return { ranges, fields, rows, end };
+}
+
+/**
+ * Read the next window of a byte stream into shared memory: `carry`
+ * followed by at least one more block, up to about `size` bytes.
+ */
+async function readWindow(
+	blocks: AsyncIterator<Uint8Array>,
+	carry: Uint8Array,
+	size: number,
+): Promise<{ data: Uint8Array; final: boolean }> {
+	const parts: Uint8Array[] = [];
+	let length = carry.length;
+	let final = false;
+	while (parts.length === 0 || length < size) {
+		const { done, value } = await blocks.next();
+		if (done) {
+			final = true;
+			break;
+		}
+		parts.push(value);
+		length += value.length;
+	}
+	const data = new Uint8Array(new SharedArrayBuffer(length));
+	data.set(carry);
+	let offset = carry.length;
+	for (const part of parts) {
+		data.set(part, offset);
+		offset += part.length;
+	}
+	return { data, final };
+}
+
+/**
+ * Parse a CSV byte stream on workers, yielding chunks whose string
+ * columns index `parser`'s dictionary. Rows and rejected rows are
+ * recorded on `parser`. The stream is read `windowBytes` at a time; the
+ * next window is read once the one before it has been consumed.
+ */
+export async function* parseParallel(
+	stream: ReadableStream<Uint8Array>,
+	parser: CsvParser,
+	options: CsvOptions,
+	windowBytes: number = WINDOW_BYTES,
+): AsyncGenerator<Chunk> {
+	const workerCount = Math.max(1, options.workers ?? 1);
+	const schema = parser.getSchema();
+	const spec: SchemaSpec = {};
+	for (const column of schema.columns) spec[column.name] = column.dtype;
+	const taskOptions: CsvOptions = {
+		...options,
+		hasHeader: false,
+		skipRows: 0,
+		workers: 1,
+	};
+
+	const pending = new Map<number, PromiseWithResolvers<CsvTaskResult>>();
+	const queue: CsvTask[] = [];
+	const idle: Worker[] = [];
+	const workers: Worker[] = [];
+	let failure: Error | null = null;
+
+	const dispatch = (worker: Worker) => {
+		const task = queue.shift();
+		if (task === undefined) idle.push(worker);
+		else worker.postMessage(task);
+	};
+	const fail = (error: Error) => {
+		failure = error;
+		for (const { reject } of pending.values()) reject(error);
+	};
+	const submit = (task: CsvTask) => {
+		const result = Promise.withResolvers<CsvTaskResult>();
+		result.promise.catch(() => {});
+		pending.set(task.index, result);
+		if (failure !== null) {
+			result.reject(failure);
+			return;
+		}
+		queue.push(task);
+
+		const worker = idle.pop();
+		if (worker !== undefined) dispatch(worker);
+		else if (workers.length < workerCount) {
+			const spawned = new Worker(new URL("./csv-worker.ts", import.meta.url));
+			spawned.onmessage = (event: MessageEvent<CsvTaskResult>) => {
+				pending.get(event.data.index)?.resolve(event.data);
+				dispatch(spawned);
+			};
+			spawned.onerror = (event) => {
+				fail(new Error(`CSV worker failed: ${event.message}`));
+			};
+			workers.push(spawned);
+			dispatch(spawned);
+		}
+	};
+
+	// Yield the results of tasks before `limit`
+	const maxErrors = options.maxErrors ?? Infinity;
+	async function* drain(limit: number): AsyncGenerator<Chunk> {
+		while (true) {
+			const waiting: Promise<CsvTaskResult>[] = [];
+			for (const [index, { promise }] of pending) {
+				if (index >= limit) break;
+				waiting.push(promise);
+				if (options.preserveOrder !== false) break;
+			}
+			if (waiting.length === 0) return;
+			const result = await Promise.race(waiting);
+			pending.delete(result.index);
+			if ("error" in result) throw new Error(result.error);
+			yield* mergeResult(result, schema, parser, maxErrors);
+		}
+	}
+
+	const blocks = stream[Symbol.asyncIterator]();
+	let carry: Uint8Array = new Uint8Array(0);
+	let base = 0;
+	let state: SplitState = { rows: 0, fields: -1 };
+	let next = 0;
+	try {
+		while (true) {
+			const { data, final } = await readWindow(blocks, carry, windowBytes);
+			const size = Math.max(
+				MIN_RANGE_BYTES,
+				Math.ceil(data.length / (workerCount * RANGES_PER_WORKER)),
+			);
+			const split = splitRanges(data, options, size, state, final);
+			const first = next;
+			for (const range of split.ranges) {
+				submit({
+					index: next++,
+					data,
+					base,
+					range,
+					fields: split.fields,
+					spec,
+					options: taskOptions,
+				});
+			}
+			// Workers parse this window while the one before is consumed
+			yield* drain(first);
+			if (final) break;
+			carry = data.subarray(split.end);
+			base += split.end;
+			state = { rows: split.rows, fields: split.fields };
+		}
+		yield* drain(next);
+	} finally {
+		for (const worker of workers) worker.terminate();
+		await blocks.return?.();
+	}
+}
+
+/** Chunks of a parsed range, with strings moved to the parser's dictionary */
+function mergeResult(
+	result: Exclude<CsvTaskResult, { error: string }>,
+	schema: Schema,
+	parser: CsvParser,
+	maxErrors: number,
+): Chunk[] {
+	parser.recordProgress(result.rowCount, result.errorCount, result.rejected);
+	if (parser.getMetadata().errorCount > maxErrors) {
+		throw new Error(`CSV: more than ${maxErrors} bad rows`);
+	}
+
+	const dictionary = parser.getDictionary();
+	const remap = remapStrings(result.strings, result.stringOffsets, dictionary);
+	return result.chunks.map((columns) => {
+		const buffers = columns.map(columnBufferFromShared);
+		for (let c = 0; c < buffers.length; c++) {
+			if (schema.columns[c]!.dtype.kind !== DTypeKind.String) continue;
+			const values = buffers[c]!.data as Uint32Array;
+			for (let i = 0; i < buffers[c]!.length; i++) {
+				const value = values[i]!;
+				if (value < remap.length) values[i] = remap[value]!;
+			}
+		}
+		return new Chunk(schema, buffers, dictionary);
+	});
+}
+
+/** Intern a worker's strings, mapping its indices to `dictionary`'s */
+function remapStrings(
+	strings: Uint8Array,
+	offsets: Uint32Array,
+	dictionary: Dictionary,
+): Uint32Array {
+	const remap = new Uint32Array(offsets.length - 1);
+	for (let i = 0; i < remap.length; i++) {
+		remap[i] = dictionary.intern(
+			strings.subarray(offsets[i]!, offsets[i + 1]!),
+		);
+	}
+	return remap;
+}
+
+/**
+ * Parse one range (runs in the worker).
+ */
+export function parseRange(task: CsvTask): CsvTaskResult {
+	const schema = createSchema(task.spec);
+	if (schema.error !== ErrorCode.None) {
+		return { index: task.index, error: "Invalid CSV schema" };
+	}
+	const parser = new CsvParser(schema.value, task.options, true);
+	const { start, end, rows } = task.range;
+	parser.startAt(rows, task.base + start, task.fields);
+
+	const chunks = parser.parse(task.data.subarray(start, end));
+	const final = parser.finish();
+	if (final) chunks.push(final);
+
+	const dictionary = parser.getDictionary();
+	const stringOffsets = new Uint32Array(dictionary.size + 1);
+	for (let i = 0; i < dictionary.size; i++) {
+		stringOffsets[i + 1] =
+			stringOffsets[i]! + (dictionary.getBytes(i)?.length ?? 0);
+	}
+	const strings = new Uint8Array(stringOffsets[dictionary.size]!);
+	for (let i = 0; i < dictionary.size; i++) {
+		strings.set(dictionary.getBytes(i) ?? new Uint8Array(0), stringOffsets[i]!);
+	}
+
+	const metadata = parser.getMetadata();
+	return {
+		index: task.index,
+		chunks: chunks.map((chunk) => {
+			const columns: SharedColumn[] = [];
+			for (let c = 0; c < chunk.columnCount; c++) {
+				columns.push(chunk.getColumn(c)!.toShared());
+			}
+			return columns;
+		}),
+		strings,
+		stringOffsets,
+		rowCount: metadata.totalRowCount,
+		errorCount: metadata.errorCount,
+		rejected: [...parser.getRejected()],
+	};
+}
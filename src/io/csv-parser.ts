@@ -7,11 +7,29 @@
 /** biome-ignore-all lint/style/noNonNullAssertion: Guarantee no null*/
 
 import { Chunk } from "../buffer/chunk.ts";
-import type { ColumnBuffer } from "../buffer/column-buffer.ts";
-import { createDictionary, type Dictionary } from "../buffer/dictionary.ts";
+import { ColumnBuffer } from "../buffer/column-buffer.ts";
+import {
+	createDictionary,
+	type DictIndex,
+	type Dictionary,
+} from "../buffer/dictionary.ts";
 import { bufferPool } from "../buffer/pool.ts";
-import { type DType, DTypeKind } from "../types/dtypes.ts";
-import type { Schema } from "../types/schema.ts";
+import { DType, DTypeKind } from "../types/dtypes.ts";
+import {
+	ErrorCode,
+	err,
+	getErrorMessage,
+	type Result,
+} from "../types/error.ts";
+import { createSchema, type Schema } from "../types/schema.ts";
+import type { Compression } from "./compression.ts";
+import {
+	compileDateFormat,
+	type DateFormat,
+	type DateParser,
+	millisToDays,
+} from "./date-format.ts";
+import { Inferred, inferText, toDType, unify } from "./infer.ts";
 
 /** CSV parsing options */
 export interface CsvOptions {
@@ -29,8 +47,82 @@ export interface CsvOptions {
 	maxRows?: number;
 	/** Indices of columns to include. If undefined, all columns are included. */
 	projection?: number[];
+	/**
+	 * Infer column types from the data. A schema given alongside only
+	 * overrides the named columns. Implied when no schema is given.
+	 */
+	inferSchema?: boolean;
+	/** Rows sampled for schema inference (default: 1000) */
+	inferSchemaLength?: number;
+	/**
+	 * Field values read as missing besides the empty field, either for
+	 * every column or keyed by column name (e.g. ["NA", "NULL", "\\N"])
+	 */
+	nullValues?: string[] | Record<string, string[]>;
+	/**
+	 * Values read as true in boolean columns. Without falseValues, any
+	 * other value is false (default: values starting with 1, t or y).
+	 */
+	trueValues?: string[];
+	/**
+	 * Values read as false in boolean columns. Without trueValues, any
+	 * other value is true; with both, other values are missing.
+	 */
+	falseValues?: string[];
+	/** Decimal separator of float columns (default: ".") */
+	decimalSeparator?: string;
+	/**
+	 * Format of date columns, for every column or keyed by column name:
+	 * "iso" (default), "epoch_s", "epoch_ms" or a strftime-like pattern
+	 * such as "%d/%m/%Y"
+	 */
+	dateFormat?: DateFormat | Record<string, DateFormat>;
+	/** Format of timestamp columns, as for dateFormat */
+	timestampFormat?: DateFormat | Record<string, DateFormat>;
+	/**
+	 * What to do with a malformed row: "fail" throws with its line
+	 * (default), "skip" drops it and "collect" drops it but keeps it for
+	 * getRejected()
+	 */
+	onError?: CsvErrorMode;
+	/** Rows "skip"/"collect" may drop before the read fails (default: Infinity) */
+	maxErrors?: number;
+	/**
+	 * Compression of input files (default: "auto", from the .gz/.zst
+	 * extension or the file's magic bytes)
+	 */
+	compression?: Compression;
+	/**
+	 * Parse with this many Bun Workers (default: 1, parse on the calling
+	 * thread). Ignored by parseSync() and when maxRows is set. The input
+	 * is read in 64 MiB windows of shared memory (longer if a single row
+	 * is), so memory use stays at a few windows whatever the input's size.
+	 */
+	workers?: number;
+	/** Keep the input's chunk order when parsing with workers (default: true) */
+	preserveOrder?: boolean;
 }
 
+/** Handling of malformed rows */
+export type CsvErrorMode = "fail" | "skip" | "collect";
+
+/** A row dropped in "collect" mode */
+export interface CsvRejectedRow {
+	/** 1-based line of the row, counting the header */
+	line: number;
+	/** Byte offset of the row in the input */
+	offset: number;
+	/** Raw text of the row without its line ending */
+	text: string;
+	/** Why the row was rejected */
+	error: ErrorCode;
+	/** Column whose value failed to parse, null for row-level errors */
+	column: string | null;
+}
+
+/** Default number of rows sampled for schema inference */
+export const DEFAULT_INFER_SCHEMA_LENGTH = 1000;
+
 /** Parser state */
 export enum ParseState {
 	FieldStart,
@@ -46,12 +138,19 @@ const DEFAULT_OPTIONS = {
 	chunkSize: 16384,
 	skipRows: 0,
 	maxRows: Infinity,
+	decimalSeparator: ".",
 };
 
 type ResolvedCsvOptions = typeof DEFAULT_OPTIONS & {
 	projection?: number[];
+	trueValues?: string[];
+	falseValues?: string[];
+	onError: CsvErrorMode;
+	maxErrors: number;
 };
 
+const EMPTY = new Uint8Array(0);
+
 /**
  * CSV parser that produces chunks.
  */
@@ -60,6 +159,9 @@ export class CsvParser {
 	private readonly schema: Schema;
 	private readonly dictionary: Dictionary;
 	private readonly decoder = new TextDecoder();
+	private readonly encoder = new TextEncoder();
+	// Allocate column buffers in shared memory (parsing in a worker)
+	private readonly shared: boolean;
 
 	private state: ParseState = ParseState.FieldStart;
 	private rowCount: number = 0;
@@ -80,9 +182,29 @@ export class CsvParser {
 	// Mapping from CSV column index to Schema column index
 	private csvToSchema: Int32Array | null = null;
 
-	constructor(schema: Schema, options?: CsvOptions) {
+	// Extra missing-value tokens per schema column, as bytes and as text
+	private readonly nullTokens: Uint8Array[][];
+	private readonly nullTexts: string[][];
+	private readonly trueTokens: Uint8Array[] | null;
+	private readonly falseTokens: Uint8Array[] | null;
+
+	// Compiled dateFormat/timestampFormat per schema column
+	private readonly dateParsers: (DateParser | null)[];
+
+	// Bad-row handling: the current row's first error and where it started
+	private rowError: ErrorCode = ErrorCode.None;
+	private rowErrorColumn: string | null = null;
+	private rowStart: number = 0;
+	private rowPrefix: Uint8Array | null = null; // Row bytes from previous chunks (collect mode)
+	private offset: number = 0; // Input offset of the current data block
+	private expectedFields: number = -1; // Fields per row, -1 if unknown
+	private errorCount: number = 0;
+	private rejected: CsvRejectedRow[] = [];
+
+	constructor(schema: Schema, options?: CsvOptions, shared: boolean = false) {
 		this.schema = schema;
 		this.dictionary = createDictionary();
+		this.shared = shared;
 		this.options = {
 			delimiter: options?.delimiter ?? ",",
 			quote: options?.quote ?? '"',
@@ -90,8 +212,38 @@ export class CsvParser {
 			chunkSize: options?.chunkSize ?? 16384,
 			skipRows: options?.skipRows ?? 0,
 			maxRows: options?.maxRows ?? Infinity,
+			decimalSeparator: options?.decimalSeparator ?? ".",
 			projection: options?.projection,
+			trueValues: options?.trueValues,
+			falseValues: options?.falseValues,
+			onError: options?.onError ?? "fail",
+			maxErrors: options?.maxErrors ?? Infinity,
 		};
+		this.expectedFields = this.initialExpectedFields();
+
+		const encode = (values: string[]) =>
+			values.map((v) => this.encoder.encode(v));
+		this.nullTexts = schema.columns.map((c) => nullValuesFor(options, c.name));
+		this.nullTokens = this.nullTexts.map(encode);
+		this.trueTokens = options?.trueValues ? encode(options.trueValues) : null;
+		this.falseTokens = options?.falseValues
+			? encode(options.falseValues)
+			: null;
+		this.dateParsers = schema.columns.map((c) => {
+			let format: DateFormat | undefined;
+			if (c.dtype.kind === DTypeKind.Date) {
+				format = formatFor(options?.dateFormat, c.name);
+			} else if (c.dtype.kind === DTypeKind.Timestamp) {
+				format = formatFor(options?.timestampFormat, c.name);
+			} else {
+				return null;
+			}
+			const parser = compileDateFormat(format);
+			if (parser.error !== ErrorCode.None) {
+				throw new Error(`Invalid date format '${format}'`);
+			}
+			return parser.value;
+		});
 
 		this.skipRemaining = this.options.skipRows;
 		this.maxRemaining = this.options.maxRows;
@@ -128,10 +280,56 @@ export class CsvParser {
 		this.columns = null;
 		this.chunkRowCount = 0;
 		this.currentColumnIndex = 0;
+		this.rowError = ErrorCode.None;
+		this.rowErrorColumn = null;
+		this.rowStart = 0;
+		this.rowPrefix = null;
+		this.offset = 0;
+		this.expectedFields = this.initialExpectedFields();
+		this.errorCount = 0;
+		this.rejected = [];
+	}
+
+	getMetadata(): { totalRowCount: number; errorCount: number } {
+		return { totalRowCount: this.totalRowCount, errorCount: this.errorCount };
+	}
+
+	/**
+	 * Rows dropped so far in "collect" mode.
+	 */
+	getRejected(): readonly CsvRejectedRow[] {
+		return this.rejected;
+	}
+
+	/**
+	 * Continue a split input: the next data block starts at byte `offset`
+	 * after `rows` rows, and rows have `fields` fields (-1 if unknown).
+	 */
+	startAt(rows: number, offset: number, fields: number): void {
+		this.rowCount = rows;
+		this.offset = offset;
+		this.rowStart = offset;
+		this.expectedFields = fields;
+	}
+
+	/**
+	 * Count rows parsed and rejected by another parser over part of the
+	 * same input (parallel reads).
+	 */
+	recordProgress(
+		rowCount: number,
+		errorCount: number,
+		rejected: readonly CsvRejectedRow[],
+	): void {
+		this.totalRowCount += rowCount;
+		this.errorCount += errorCount;
+		this.rejected.push(...rejected);
 	}
 
-	getMetadata(): { totalRowCount: number } {
-		return { totalRowCount: this.totalRowCount };
+	// Known row width: learned from the header, or the schema without projection
+	private initialExpectedFields(): number {
+		if (this.options.hasHeader || this.options.projection) return -1;
+		return this.schema.columnCount;
 	}
 
 	getDictionary(): Dictionary {
@@ -169,6 +367,29 @@ export class CsvParser {
 		}
 	}
 
+	// Missing value: null, or the type default for non-nullable columns
+	private appendMissing(col: ColumnBuffer, dtype: DType) {
+		if (dtype.nullable) {
+			col.appendNull();
+		} else {
+			this.appendDefault(col, dtype);
+		}
+	}
+
+	// 1 or 0 from matching trueValues/falseValues, -1 if neither decides
+	private decideBoolean(isTrue: boolean, isFalse: boolean): number {
+		if (isTrue) return 1;
+		if (isFalse) return 0;
+		if (this.trueTokens && this.falseTokens) return -1;
+		return this.trueTokens ? 0 : 1;
+	}
+
+	// Float text with the configured decimal separator replaced by "."
+	private normalizeDecimal(text: string): string {
+		const separator = this.options.decimalSeparator;
+		return separator === "." ? text : text.replace(separator, ".");
+	}
+
 	parse(data: Uint8Array): Chunk[] {
 		const chunks: Chunk[] = [];
 		const len = data.length;
@@ -207,6 +428,8 @@ export class CsvParser {
 							const sIdx = this.csvToSchema[this.currentColumnIndex];
 							if (sIdx !== undefined && sIdx !== -1) {
 								this.finishField(data, i);
+							} else {
+								this.currentFieldPrefix = null;
 							}
 						} else {
 							this.finishField(data, i);
@@ -222,13 +445,15 @@ export class CsvParser {
 							const sIdx = this.csvToSchema[this.currentColumnIndex];
 							if (sIdx !== undefined && sIdx !== -1) {
 								this.finishField(data, i);
+							} else {
+								this.currentFieldPrefix = null;
 							}
 						} else {
 							this.finishField(data, i);
 						}
 
 						this.currentColumnIndex++;
-						this.finishRow(chunks);
+						this.finishRow(chunks, data, i, i + 1);
 						this.state = ParseState.FieldStart;
 						i++; // consume LF
 						break;
@@ -239,11 +464,14 @@ export class CsvParser {
 							const sIdx = this.csvToSchema[this.currentColumnIndex];
 							if (sIdx !== undefined && sIdx !== -1) {
 								this.finishField(data, i);
+							} else {
+								this.currentFieldPrefix = null;
 							}
 						} else {
 							this.finishField(data, i);
 						}
 
+						this.currentColumnIndex++;
 						this.state = ParseState.CR;
 						i++;
 						break;
@@ -273,11 +501,12 @@ export class CsvParser {
 						this.state = ParseState.FieldStart;
 					} else if (charCode === CR) {
 						this.finishField(data, i - 1);
+						this.currentColumnIndex++;
 						this.state = ParseState.CR;
 					} else if (charCode === LF) {
 						this.finishField(data, i - 1);
 						this.currentColumnIndex++;
-						this.finishRow(chunks);
+						this.finishRow(chunks, data, i, i + 1);
 						this.state = ParseState.FieldStart;
 					} else {
 						this.state = ParseState.Field;
@@ -286,10 +515,10 @@ export class CsvParser {
 
 				case ParseState.CR:
 					if (charCode === LF) {
-						this.finishRow(chunks);
+						this.finishRow(chunks, data, i - 1, i + 1);
 						this.state = ParseState.FieldStart;
 					} else {
-						this.finishRow(chunks);
+						this.finishRow(chunks, data, i - 1, i);
 						this.state = ParseState.FieldStart;
 						// Don't consume this char, re-evaluate
 						i--;
@@ -321,39 +550,70 @@ export class CsvParser {
 			this.fieldStart = 0;
 		}
 
+		// Keep the bytes of an unfinished row for its raw text
+		if (this.options.onError === "collect") {
+			const start = Math.max(0, this.rowStart - this.offset);
+			if (start < len) {
+				const tail = data.subarray(start);
+				this.rowPrefix = this.rowPrefix
+					? concat(this.rowPrefix, tail)
+					: tail.slice();
+			}
+		}
+		this.offset += len;
+
 		return chunks;
 	}
 
 	finish(): Chunk | null {
 		const chunks: Chunk[] = [];
 
-		if (this.currentFieldPrefix !== null || this.columns !== null) {
-			if (this.currentFieldPrefix !== null) {
-				let val = this.decoder.decode(this.currentFieldPrefix).trim();
-				if (this.state === ParseState.QuoteInQuotedField) {
-					if (val.endsWith(this.options.quote)) {
-						val = val.slice(0, -1);
-					}
-					if (val.includes(this.options.quote + this.options.quote)) {
-						val = val.replaceAll(
-							this.options.quote + this.options.quote,
-							this.options.quote,
-						);
-					}
-				} else if (this.state === ParseState.QuotedField) {
-					if (val.includes(this.options.quote + this.options.quote)) {
-						val = val.replaceAll(
-							this.options.quote + this.options.quote,
-							this.options.quote,
-						);
-					}
+		if (this.currentFieldPrefix !== null) {
+			let val = this.decoder.decode(this.currentFieldPrefix).trim();
+			if (this.state === ParseState.QuoteInQuotedField) {
+				if (val.endsWith(this.options.quote)) {
+					val = val.slice(0, -1);
 				}
+				if (val.includes(this.options.quote + this.options.quote)) {
+					val = val.replaceAll(
+						this.options.quote + this.options.quote,
+						this.options.quote,
+					);
+				}
+			} else if (this.state === ParseState.QuotedField) {
+				this.rowFailure(ErrorCode.UnterminatedQuote, this.rowCount + 1);
+				if (val.includes(this.options.quote + this.options.quote)) {
+					val = val.replaceAll(
+						this.options.quote + this.options.quote,
+						this.options.quote,
+					);
+				}
+			}
 
-				this.pushValueString(val);
-				this.currentFieldPrefix = null;
-				this.currentColumnIndex++;
+			this.pushValueString(val);
+			this.currentFieldPrefix = null;
+			this.currentColumnIndex++;
+			this.finishRow(chunks, EMPTY, 0, 0);
+		} else if (this.state === ParseState.CR) {
+			this.finishRow(chunks, EMPTY, 0, 0);
+		} else if (this.currentColumnIndex > 0) {
+			// Last row ends with an empty field and no line ending
+			this.pushValueString("");
+			this.currentColumnIndex++;
+			this.finishRow(chunks, EMPTY, 0, 0);
+		}
+		this.state = ParseState.FieldStart;
+
+		if (this.columns !== null) {
+			if (this.chunkRowCount > 0) {
+				chunks.push(new Chunk(this.schema, this.columns, this.dictionary));
+			} else {
+				for (const col of this.columns) {
+					bufferPool.release(col);
+				}
 			}
-			this.finishRow(chunks, true);
+			this.columns = null;
+			this.chunkRowCount = 0;
 		}
 
 		if (chunks.length > 0) {
@@ -364,7 +624,10 @@ export class CsvParser {
 
 	private finishField(data: Uint8Array, end: number): void {
 		this.ensureColumns();
-		if (this.shouldSkip()) return;
+		if (this.shouldSkip()) {
+			this.currentFieldPrefix = null;
+			return;
+		}
 
 		let schemaIdx = -1;
 		if (this.csvToSchema) {
@@ -377,7 +640,10 @@ export class CsvParser {
 			}
 		}
 
-		if (schemaIdx === -1) return;
+		if (schemaIdx === -1) {
+			this.currentFieldPrefix = null;
+			return;
+		}
 
 		if (
 			this.currentFieldPrefix === null &&
@@ -388,7 +654,7 @@ export class CsvParser {
 			const col = this.columns?.[schemaIdx];
 			if (!col) return;
 			const dtype = this.schema.columns[schemaIdx]!.dtype;
-			this.appendValueSlice(col, data, this.fieldStart, end, dtype);
+			this.appendValueSlice(col, data, this.fieldStart, end, dtype, schemaIdx);
 			return;
 		}
 
@@ -422,51 +688,90 @@ export class CsvParser {
 			const col = this.columns[schemaIdx];
 			if (col) {
 				const dtype = this.schema.columns[schemaIdx]!.dtype;
-				this.appendValueString(col, val, dtype);
+				this.appendValueString(col, val, dtype, schemaIdx);
 			}
 		}
 	}
 
-	private finishRow(chunks: Chunk[], force: boolean = false): void {
-		if (!force) {
-			if (this.rowCount === 0 && this.options.hasHeader) {
-				this.rowCount++;
-				this.currentColumnIndex = 0;
-				return;
-			}
-
-			if (this.skipRemaining > 0) {
-				this.skipRemaining--;
-				this.rowCount++;
-				this.currentColumnIndex = 0;
-				return;
-			}
+	/**
+	 * End the current row. `end` and `next` index into `data`: where the
+	 * row's line ending starts and where the next row starts.
+	 */
+	private finishRow(
+		chunks: Chunk[],
+		data: Uint8Array,
+		end: number,
+		next: number,
+	): void {
+		const fields = this.currentColumnIndex;
+		const rowStart = this.rowStart;
+		const rowEnd = this.offset + end;
+		const rowError = this.rowError;
+		const errorColumn = this.rowErrorColumn;
+		const prefix = this.rowPrefix;
+		this.currentColumnIndex = 0;
+		this.rowStart = this.offset + next;
+		this.rowError = ErrorCode.None;
+		this.rowErrorColumn = null;
+		this.rowPrefix = null;
 
-			if (this.maxRemaining <= 0) return;
+		if (this.rowCount === 0 && this.options.hasHeader) {
+			this.rowCount++;
+			this.expectedFields = fields;
+			return;
+		}
 
-			this.maxRemaining--;
+		if (this.skipRemaining > 0) {
+			this.skipRemaining--;
 			this.rowCount++;
-			this.totalRowCount++;
-			this.chunkRowCount++;
+			return;
+		}
+
+		if (this.maxRemaining <= 0) return;
+		this.rowCount++;
+
+		// Blank line
+		if (rowEnd <= rowStart) {
+			this.rollbackRow();
+			return;
 		}
 
-		if (this.columns && this.currentColumnIndex < this.schema.columnCount) {
-			for (let i = this.currentColumnIndex; i < this.schema.columnCount; i++) {
+		let code = rowError;
+		if (
+			code === ErrorCode.None &&
+			this.expectedFields !== -1 &&
+			fields > this.expectedFields
+		) {
+			code = ErrorCode.TooManyColumns;
+			this.rowFailure(code, this.rowCount);
+		}
+		if (code !== ErrorCode.None) {
+			this.rollbackRow();
+			this.reject({
+				line: this.rowCount,
+				offset: rowStart,
+				text: this.rowText(data, prefix, rowStart, rowEnd),
+				error: code,
+				column: errorColumn,
+			});
+			return;
+		}
+
+		this.maxRemaining--;
+		this.totalRowCount++;
+		this.chunkRowCount++;
+
+		// Short rows: missing trailing fields are missing values
+		if (this.columns && fields < this.schema.columnCount) {
+			for (let i = fields; i < this.schema.columnCount; i++) {
 				const col = this.columns[i];
 				if (col) {
-					const dtype = this.schema.columns[i]!.dtype;
-					if (dtype.nullable) {
-						col.appendNull();
-					} else {
-						this.appendDefault(col, dtype);
-					}
+					this.appendMissing(col, this.schema.columns[i]!.dtype);
 				}
 			}
 		}
 
-		this.currentColumnIndex = 0;
-
-		if (this.chunkRowCount >= this.options.chunkSize || force) {
+		if (this.chunkRowCount >= this.options.chunkSize) {
 			if (this.columns) {
 				const chunk = new Chunk(this.schema, this.columns, this.dictionary);
 				chunks.push(chunk);
@@ -476,6 +781,70 @@ export class CsvParser {
 		}
 	}
 
+	// Drop the values already appended for the current row
+	private rollbackRow(): void {
+		if (!this.columns) return;
+		for (const col of this.columns) {
+			for (let i = this.chunkRowCount; i < col.length; i++) {
+				col.setNull(i, false);
+			}
+			col.setLength(this.chunkRowCount);
+		}
+	}
+
+	// Count a dropped row, keeping it in "collect" mode
+	private reject(row: CsvRejectedRow): void {
+		this.errorCount++;
+		if (this.errorCount > this.options.maxErrors) {
+			throw new Error(
+				`CSV line ${row.line}: ${getErrorMessage(row.error)}; more than ${this.options.maxErrors} bad rows`,
+			);
+		}
+		if (this.options.onError === "collect") {
+			this.rejected.push(row);
+		}
+	}
+
+	// Raw text of a row; `prefix` holds its bytes from earlier data blocks
+	private rowText(
+		data: Uint8Array,
+		prefix: Uint8Array | null,
+		start: number,
+		end: number,
+	): string {
+		if (this.options.onError !== "collect") return "";
+		const from = Math.max(0, start - this.offset);
+		const to = Math.max(from, end - this.offset);
+		const bytes = data.subarray(from, to);
+		const text = this.decoder.decode(prefix ? concat(prefix, bytes) : bytes);
+		return text.endsWith("\r") ? text.slice(0, -1) : text;
+	}
+
+	// A malformed row: throws in "fail" mode, otherwise marks the row rejected
+	private rowFailure(code: ErrorCode, line: number): void {
+		if (this.options.onError === "fail") {
+			throw new Error(`CSV line ${line}: ${getErrorMessage(code)}`);
+		}
+		if (this.rowError === ErrorCode.None) {
+			this.rowError = code;
+		}
+	}
+
+	// A field that cannot be parsed: throws in "fail" mode, otherwise
+	// marks the row rejected. The caller appends a placeholder value.
+	private fieldFailure(code: ErrorCode, column: number, value: string): void {
+		const name = this.schema.columns[column]!.name;
+		if (this.options.onError === "fail") {
+			throw new Error(
+				`CSV line ${this.rowCount + 1}: ${getErrorMessage(code)} in column '${name}' (${JSON.stringify(value)})`,
+			);
+		}
+		if (this.rowError === ErrorCode.None) {
+			this.rowError = code;
+			this.rowErrorColumn = name;
+		}
+	}
+
 	private pushValueString(value: string): void {
 		this.ensureColumns();
 		if (this.shouldSkip()) return;
@@ -495,7 +864,7 @@ export class CsvParser {
 			const col = this.columns[schemaIdx];
 			if (col) {
 				const dtype = this.schema.columns[schemaIdx]!.dtype;
-				this.appendValueString(col, value, dtype);
+				this.appendValueString(col, value, dtype, schemaIdx);
 			}
 		}
 	}
@@ -513,11 +882,18 @@ export class CsvParser {
 			this.columns = new Array(this.schema.columnCount);
 			for (let i = 0; i < this.schema.columnCount; i++) {
 				const colDef = this.schema.columns[i]!;
-				this.columns[i] = bufferPool.acquire(
-					colDef.dtype.kind,
-					this.options.chunkSize,
-					colDef.dtype.nullable,
-				);
+				this.columns[i] = this.shared
+					? new ColumnBuffer(
+							colDef.dtype.kind,
+							this.options.chunkSize,
+							colDef.dtype.nullable,
+							true,
+						)
+					: bufferPool.acquire(
+							colDef.dtype.kind,
+							this.options.chunkSize,
+							colDef.dtype.nullable,
+						);
 			}
 			this.chunkRowCount = 0;
 		}
@@ -537,6 +913,7 @@ export class CsvParser {
 		start: number,
 		end: number,
 		dtype: DType,
+		column: number,
 	): void {
 		// Trim whitespace by adjusting indices
 		let s = start;
@@ -553,11 +930,13 @@ export class CsvParser {
 		}
 
 		if (s >= e) {
-			if (dtype.nullable) {
-				col.appendNull();
-			} else {
-				this.appendDefault(col, dtype);
-			}
+			this.appendMissing(col, dtype);
+			return;
+		}
+
+		const nullTokens = this.nullTokens[column]!;
+		if (nullTokens.length > 0 && matchesAny(data, s, e, nullTokens)) {
+			this.appendMissing(col, dtype);
 			return;
 		}
 
@@ -604,13 +983,20 @@ export class CsvParser {
 				}
 
 				const intVal = hasDigits ? sign * val : NaN;
-				if (Number.isNaN(intVal)) col.appendNull();
-				else col.append(intVal as never);
+				if (Number.isNaN(intVal)) {
+					this.fieldFailure(
+						ErrorCode.InvalidNumber,
+						column,
+						this.decoder.decode(data.subarray(s, e)),
+					);
+					col.appendNull();
+				} else col.append(intVal as never);
 				break;
 			}
 			case DTypeKind.Float64:
 			case DTypeKind.Float32: {
 				// INLINE parseFloatFromBytes
+				const DECIMAL = this.options.decimalSeparator.charCodeAt(0);
 				let idx = s;
 				let f = NaN;
 
@@ -636,8 +1022,7 @@ export class CsvParser {
 							val = val * 10 + (c - 48);
 							hasDigits = true;
 							idx++;
-						} else if (c === 46) {
-							// '.'
+						} else if (c === DECIMAL) {
 							idx++;
 							break;
 						} else {
@@ -672,9 +1057,11 @@ export class CsvParser {
 				if (Number.isNaN(f)) {
 					// Fallback to string decode for scientific notation
 					const str = this.decoder.decode(data.subarray(s, e));
-					const f2 = parseFloat(str);
-					if (Number.isNaN(f2)) col.appendNull();
-					else col.append(f2 as never);
+					const f2 = parseFloat(this.normalizeDecimal(str));
+					if (Number.isNaN(f2)) {
+						this.fieldFailure(ErrorCode.InvalidNumber, column, str);
+						col.appendNull();
+					} else col.append(f2 as never);
 				} else {
 					col.append(f as never);
 				}
@@ -686,17 +1073,29 @@ export class CsvParser {
 				break;
 			}
 			case DTypeKind.Int64:
-			case DTypeKind.UInt64:
+			case DTypeKind.UInt64: {
 				// BigInt handles whitespace but we already trimmed.
 				// Still need to decode to string for BigInt constructor
+				const str = this.decoder.decode(data.subarray(s, e));
 				try {
-					const str = this.decoder.decode(data.subarray(s, e));
 					col.append(BigInt(str) as never);
 				} catch {
-					col.append(0n as never);
+					this.fieldFailure(ErrorCode.InvalidNumber, column, str);
+					col.appendNull();
 				}
 				break;
+			}
 			case DTypeKind.Boolean: {
+				if (this.trueTokens || this.falseTokens) {
+					const b = this.decideBoolean(
+						this.trueTokens !== null && matchesAny(data, s, e, this.trueTokens),
+						this.falseTokens !== null &&
+							matchesAny(data, s, e, this.falseTokens),
+					);
+					if (b === -1) this.appendMissing(col, dtype);
+					else col.append(b as never);
+					break;
+				}
 				const c = data[s]!;
 				let b = false;
 				if (c === 49)
@@ -707,25 +1106,46 @@ export class CsvParser {
 				col.append((b ? 1 : 0) as never);
 				break;
 			}
-			case DTypeKind.Timestamp: {
-				try {
-					const str = this.decoder.decode(data.subarray(s, e));
-					const ts = BigInt(Date.parse(str));
-					col.append(ts);
-				} catch {
-					col.append(0n);
-				}
+			case DTypeKind.Timestamp:
+			case DTypeKind.Date:
+				this.appendTemporal(col, data, s, e, dtype, column);
 				break;
-			}
 			default:
 				col.appendNull();
 		}
 	}
 
+	// Dates and timestamps through the column's compiled format
+	private appendTemporal(
+		col: ColumnBuffer,
+		data: Uint8Array,
+		start: number,
+		end: number,
+		dtype: DType,
+		column: number,
+	): void {
+		const millis = this.dateParsers[column]!(data, start, end);
+		if (Number.isNaN(millis)) {
+			this.fieldFailure(
+				ErrorCode.InvalidDate,
+				column,
+				this.decoder.decode(data.subarray(start, end)),
+			);
+			col.appendNull();
+			return;
+		}
+		if (dtype.kind === DTypeKind.Date) {
+			col.append(millisToDays(millis) as never);
+		} else {
+			col.append(BigInt(millis) as never);
+		}
+	}
+
 	private appendValueString(
 		col: ColumnBuffer,
 		value: string,
 		dtype: DType,
+		column: number,
 	): void {
 		const trimmed = value.trim();
 
@@ -733,6 +1153,15 @@ export class CsvParser {
 			col.appendNull();
 			return;
 		}
+		if (this.nullTexts[column]!.includes(trimmed)) {
+			this.appendMissing(col, dtype);
+			return;
+		}
+		if (dtype.kind === DTypeKind.Date || dtype.kind === DTypeKind.Timestamp) {
+			const bytes = this.encoder.encode(trimmed);
+			this.appendTemporal(col, bytes, 0, bytes.length, dtype, column);
+			return;
+		}
 
 		try {
 			switch (dtype.kind) {
@@ -746,18 +1175,32 @@ export class CsvParser {
 				case DTypeKind.UInt16:
 				case DTypeKind.UInt8: {
 					const i = parseInt(trimmed, 10);
-					if (Number.isNaN(i)) col.appendNull();
-					else col.append(i as never);
+					if (Number.isNaN(i)) {
+						this.fieldFailure(ErrorCode.InvalidNumber, column, trimmed);
+						col.appendNull();
+					} else col.append(i as never);
 					break;
 				}
 				case DTypeKind.Float64:
 				case DTypeKind.Float32: {
-					const f = parseFloat(trimmed);
-					if (Number.isNaN(f)) col.appendNull();
-					else col.append(f as never);
+					const f = parseFloat(this.normalizeDecimal(trimmed));
+					if (Number.isNaN(f)) {
+						this.fieldFailure(ErrorCode.InvalidNumber, column, trimmed);
+						col.appendNull();
+					} else col.append(f as never);
 					break;
 				}
 				case DTypeKind.Boolean: {
+					const { trueValues, falseValues } = this.options;
+					if (trueValues || falseValues) {
+						const b = this.decideBoolean(
+							trueValues?.includes(trimmed) ?? false,
+							falseValues?.includes(trimmed) ?? false,
+						);
+						if (b === -1) this.appendMissing(col, dtype);
+						else col.append(b as never);
+						break;
+					}
 					const b =
 						trimmed.toLowerCase() === "true" ||
 						trimmed === "1" ||
@@ -769,20 +1212,61 @@ export class CsvParser {
 				case DTypeKind.UInt64:
 					col.append(BigInt(trimmed) as never);
 					break;
-				case DTypeKind.Timestamp: {
-					const ts = BigInt(Date.parse(trimmed));
-					col.append(ts);
-					break;
-				}
 				default:
 					col.appendNull();
 			}
 		} catch {
+			// BigInt rejected the text
+			this.fieldFailure(ErrorCode.InvalidNumber, column, trimmed);
 			col.appendNull();
 		}
 	}
 }
 
+/** Missing-value tokens of a column besides the empty field */
+function nullValuesFor(
+	options: CsvOptions | undefined,
+	name: string,
+): string[] {
+	const nullValues = options?.nullValues;
+	if (!nullValues) return [];
+	if (Array.isArray(nullValues)) return nullValues;
+	return nullValues[name] ?? [];
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const out = new Uint8Array(a.length + b.length);
+	out.set(a);
+	out.set(b, a.length);
+	return out;
+}
+
+/** Date format of a column from a global or per-column option */
+function formatFor(
+	option: DateFormat | Record<string, DateFormat> | undefined,
+	name: string,
+): DateFormat | undefined {
+	if (option === undefined || typeof option === "string") return option;
+	return option[name];
+}
+
+/** Whether bytes [start, end) equal one of the tokens */
+function matchesAny(
+	data: Uint8Array,
+	start: number,
+	end: number,
+	tokens: Uint8Array[],
+): boolean {
+	const length = end - start;
+	for (const token of tokens) {
+		if (token.length !== length) continue;
+		let i = 0;
+		while (i < length && data[start + i] === token[i]) i++;
+		if (i === length) return true;
+	}
+	return false;
+}
+
 export function parseIntFromBytes(
 	data: Uint8Array,
 	start: number,
@@ -878,6 +1362,128 @@ export function parseFloatFromBytes(
 	return hasDigits ? sign * val : NaN;
 }
 
+/**
+ * Infer a schema from the first rows of a CSV sample.
+ *
+ * The sample is split into string fields by a CsvParser and each column
+ * gets the narrowest type holding all its values. A column is nullable if
+ * any sampled row leaves it empty. Columns named in `overrides` keep the
+ * given type. The sample should end on a row boundary.
+ */
+export function inferCsvSchema(
+	sample: Uint8Array,
+	options?: CsvOptions,
+	overrides?: Record<string, DType>,
+): Result<Schema> {
+	const hasHeader = options?.hasHeader ?? true;
+	const skipRows = options?.skipRows ?? 0;
+	const limit = options?.inferSchemaLength ?? DEFAULT_INFER_SCHEMA_LENGTH;
+	const delimiter = options?.delimiter ?? ",";
+	const quote = options?.quote ?? '"';
+
+	const width = countFields(
+		sample,
+		delimiter.charCodeAt(0),
+		quote.charCodeAt(0),
+	);
+	if (width === 0) return err(ErrorCode.EmptyInput);
+
+	// Read every field as a nullable string, header row included
+	const textSpec: Record<string, DType> = {};
+	for (let i = 0; i < width; i++) textSpec[`c${i}`] = DType.nullable.string;
+	const textSchema = createSchema(textSpec);
+	if (textSchema.error !== ErrorCode.None) return err(textSchema.error);
+	const parser = new CsvParser(textSchema.value, {
+		delimiter,
+		quote,
+		hasHeader: false,
+		maxRows: (hasHeader ? 1 : 0) + skipRows + limit,
+		// A sample cut inside a quoted field ends in an unterminated quote
+		onError: "skip",
+	});
+	const chunks = parser.parse(sample);
+	const final = parser.finish();
+	if (final) chunks.push(final);
+
+	const dictionary = parser.getDictionary();
+	const rows: (string | null)[][] = [];
+	for (const chunk of chunks) {
+		for (let r = 0; r < chunk.rowCount; r++) {
+			const row: (string | null)[] = [];
+			for (let c = 0; c < width; c++) {
+				row.push(
+					chunk.isNull(c, r)
+						? null
+						: (dictionary.getString(chunk.getValue(c, r) as DictIndex) ?? null),
+				);
+			}
+			rows.push(row);
+		}
+	}
+
+	const header = hasHeader ? rows.shift() : undefined;
+	const data = rows
+		.slice(skipRows)
+		// Blank lines parse as rows with every field missing
+		.filter((row) => row.some((value) => value !== null));
+
+	const spec: Record<string, DType> = {};
+	for (let c = 0; c < width; c++) {
+		const name = header?.[c] || `column_${c + 1}`;
+		const nullValues = nullValuesFor(options, name);
+		let type = Inferred.Null;
+		let nullable = false;
+		for (const row of data) {
+			const value = row[c] ?? null;
+			if (value === null || nullValues.includes(value)) nullable = true;
+			else type = unify(type, inferField(value, options));
+		}
+		spec[name] = toDType(type, nullable || type === Inferred.Null);
+	}
+
+	for (const [name, dtype] of Object.entries(overrides ?? {})) {
+		if (!(name in spec)) return err(ErrorCode.UnknownColumn);
+		spec[name] = dtype;
+	}
+	return createSchema(spec);
+}
+
+/** Inferred type of a sampled field under the boolean/decimal options */
+function inferField(value: string, options: CsvOptions | undefined): Inferred {
+	if (options?.trueValues?.includes(value)) return Inferred.Boolean;
+	if (options?.falseValues?.includes(value)) return Inferred.Boolean;
+	const separator = options?.decimalSeparator ?? ".";
+	return inferText(separator === "." ? value : value.replace(separator, "."));
+}
+
+/** Fields in the widest record of a sample, honouring quotes */
+function countFields(
+	data: Uint8Array,
+	delimiter: number,
+	quote: number,
+): number {
+	let max = 0;
+	let fields = 0;
+	let inQuotes = false;
+	let empty = true;
+	for (let i = 0; i < data.length; i++) {
+		const c = data[i]!;
+		if (c === quote) {
+			inQuotes = !inQuotes;
+		} else if (!inQuotes && c === delimiter) {
+			fields++;
+		} else if (!inQuotes && (c === 10 || c === 13)) {
+			if (!empty) max = Math.max(max, fields + 1);
+			fields = 0;
+			empty = true;
+			continue;
+		}
+		empty = false;
+	}
+	if (!empty) max = Math.max(max, fields + 1);
+	return max;
+}
+
 export function createCsvParser(
 	schema: Schema,
 	options?: CsvOptions,
@@ -1,40 +1,53 @@
 /**
- * CSV source for reading CSV files.
+ * CSV source for reading CSV files, strings and byte streams.
  *
  * Provides both streaming (async iterator) and collect modes.
  */
 /** biome-ignore-all lint/style/noNonNullAssertion: It imposible to be null */
 
-import type { Chunk } from "../buffer/chunk.ts";
-import type { Dictionary } from "../buffer/dictionary.ts";
-import type { DType } from "../types/dtypes.ts";
-import { ErrorCode, err, ok, type Result } from "../types/error.ts";
+import { Chunk } from "../buffer/chunk.ts";
+import { ColumnBuffer } from "../buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../buffer/dictionary.ts";
+import { DataFrame } from "../dataframe/core.ts";
+import { DType } from "../types/dtypes.ts";
+import { ErrorCode, err, ok, type Result, unwrap } from "../types/error.ts";
 import { createSchema, type Schema } from "../types/schema.ts";
+import { type ByteSource, isOneShot, openByteSource } from "./byte-source.ts";
+import { openFileStream } from "./compression.ts";
+import { isParallel, parseParallel } from "./csv-parallel.ts";
 import {
 	type CsvOptions,
 	type CsvParser,
+	type CsvRejectedRow,
 	createCsvParser,
+	DEFAULT_INFER_SCHEMA_LENGTH,
+	inferCsvSchema,
 } from "./csv-parser.ts";
 
 /** Schema specification for CSV reading */
 export type CsvSchemaSpec = Record<string, DType>;
 
 /**
- * CSV source that reads from a file or string.
+ * CSV source that reads from a file, string or byte source.
  */
 export class CsvSource {
 	private readonly parser: CsvParser;
-	private readonly source: string | Bun.BlobPart;
+	private readonly source: string | ByteSource;
 	private readonly isFile: boolean;
+	private readonly options: CsvOptions | undefined;
+	/** Whether a one-shot byte source has been read */
+	private consumed = false;
 
 	private constructor(
-		source: string | Bun.BlobPart,
+		source: string | ByteSource,
 		parser: CsvParser,
 		isFile: boolean,
+		options?: CsvOptions,
 	) {
 		this.source = source;
 		this.parser = parser;
 		this.isFile = isFile;
+		this.options = options;
 	}
 
 	/**
@@ -45,44 +58,106 @@ export class CsvSource {
 		schemaSpec: CsvSchemaSpec,
 		options?: CsvOptions,
 	): Result<CsvSource> {
-		// If projection is present, we must subset the schema spec
-		// because CsvParser will map projected columns to 0, 1, 2...
-		// and the DataFrame schema must match that.
-		let effectiveSpec = schemaSpec;
-		if (options?.projection && options.projection.length > 0) {
-			const keys = Object.keys(schemaSpec);
-			const newSpec: CsvSchemaSpec = {};
-			for (let i = 0; i < options.projection.length; i++) {
-				const idx: number = options.projection[i]!;
-				if (idx !== undefined && idx < keys.length) {
-					const key = keys[idx];
-					const spec = schemaSpec[key ?? ""];
-					if (key && spec) {
-						newSpec[key] = spec;
-					}
-				}
-			}
-			effectiveSpec = newSpec;
+		return CsvSource.create(path, schemaSpec, options, true);
+	}
+
+	/**
+	 * Create a CSV source from a file path, inferring the schema from the
+	 * first rows of the file. Columns in `overrides` keep the given type.
+	 */
+	static async inferFromFile(
+		path: string,
+		overrides?: CsvSchemaSpec,
+		options?: CsvOptions,
+	): Promise<Result<CsvSource>> {
+		const file = Bun.file(path);
+		if (!(await file.exists())) {
+			return err(ErrorCode.FileNotFound);
 		}
 
-		const schemaResult = createSchema(effectiveSpec);
+		const { sample, replay } = await sampleRows(
+			await openFileStream(path, options?.compression),
+			sampleLength(options),
+		);
+		await replay.cancel();
+		const schemaResult = inferCsvSchema(sample, options, overrides);
 		if (schemaResult.error !== ErrorCode.None) {
 			return err(schemaResult.error);
 		}
-
-		const parser = createCsvParser(schemaResult.value, options);
-		return ok(new CsvSource(path, parser, true));
+		return CsvSource.create(path, specOf(schemaResult.value), options, true);
 	}
 
 	/**
 	 * Create a CSV source from a string.
+	 * Without a schema (or with `inferSchema`), one is inferred from the
+	 * first rows and the given schema only overrides the named columns.
 	 */
 	static fromString(
 		content: string,
-		schemaSpec: CsvSchemaSpec,
+		schemaSpec?: CsvSchemaSpec,
 		options?: CsvOptions,
+	): Result<CsvSource> {
+		let spec = schemaSpec;
+		if (!spec || options?.inferSchema) {
+			const sample = new TextEncoder().encode(content);
+			const schemaResult = inferCsvSchema(sample, options, schemaSpec);
+			if (schemaResult.error !== ErrorCode.None) {
+				return err(schemaResult.error);
+			}
+			spec = specOf(schemaResult.value);
+		}
+		return CsvSource.create(content, spec, options, false);
+	}
+
+	/**
+	 * Create a CSV source from a byte stream (such as `Response.body`), a
+	 * Blob (`Bun.file()`, `Bun.stdin`) or a buffer. Without a schema (or
+	 * with `inferSchema`), one is inferred from the first rows. Streams and
+	 * stdin can only be read once.
+	 */
+	static async fromStream(
+		input: ByteSource,
+		schemaSpec?: CsvSchemaSpec,
+		options?: CsvOptions,
+	): Promise<Result<CsvSource>> {
+		if (schemaSpec && !options?.inferSchema) {
+			return CsvSource.create(input, schemaSpec, options, false);
+		}
+
+		const { sample, replay } = await sampleRows(
+			await openByteSource(input, options?.compression),
+			sampleLength(options),
+		);
+		const schemaResult = inferCsvSchema(sample, options, schemaSpec);
+		if (schemaResult.error !== ErrorCode.None || !isOneShot(input)) {
+			await replay.cancel();
+		}
+		if (schemaResult.error !== ErrorCode.None) {
+			return err(schemaResult.error);
+		}
+		const spec = specOf(schemaResult.value);
+		if (!isOneShot(input)) {
+			return CsvSource.create(input, spec, options, false);
+		}
+		// The sampled rows were consumed: read on from the replay, which is
+		// already decompressed
+		return CsvSource.create(
+			replay,
+			spec,
+			{ ...options, compression: "none" },
+			false,
+		);
+	}
+
+	private static create(
+		source: string | ByteSource,
+		schemaSpec: CsvSchemaSpec,
+		options: CsvOptions | undefined,
+		isFile: boolean,
 	): Result<CsvSource> {
 		// If projection is present, we must subset the schema spec
+		// because CsvParser will map projected columns to 0, 1, 2...
+		// and the DataFrame schema must match that.
 		let effectiveSpec = schemaSpec;
 		if (options?.projection && options.projection.length > 0) {
 			const keys = Object.keys(schemaSpec);
@@ -106,7 +181,7 @@ export class CsvSource {
 		}
 
 		const parser = createCsvParser(schemaResult.value, options);
-		return ok(new CsvSource(content, parser, false));
+		return ok(new CsvSource(source, parser, isFile, options));
 	}
 
 	/**
@@ -117,19 +192,28 @@ export class CsvSource {
 	}
 
 	/**
-	 * Get the schema used for parsing (reflects projection if any).
+	 * Get the schema used for parsing (given or inferred, reflects
+	 * projection if any). Available before the stream starts.
 	 */
 	getSchema(): Schema {
 		return this.parser.getSchema();
 	}
 
+	/**
+	 * Rows dropped by `onError: "collect"` during the last read, with
+	 * their line, byte offset, raw text, ErrorCode and failing column.
+	 */
+	getRejected(): DataFrame {
+		return rejectedFrame(this.parser.getRejected());
+	}
+
 	/**
 	 * Parse string content synchronously (for string sources only).
 	 */
 	parseSync(): Chunk[] {
-		if (this.isFile) {
+		if (typeof this.source !== "string" || this.isFile) {
 			throw new Error(
-				"parseSync() only works for string sources, use collectChunks() for files",
+				"parseSync() only works for string sources, use collectChunks() for files and streams",
 			);
 		}
 
@@ -150,10 +234,18 @@ export class CsvSource {
 		const chunks: Chunk[] = [];
 
 		try {
-			if (this.isFile) {
-				const file = Bun.file(this.source as string);
-				const buffer = await file.arrayBuffer();
-				chunks.push(...this.parser.parse(new Uint8Array(buffer)));
+			if (isParallel(this.options)) {
+				for await (const chunk of this.stream()) {
+					chunks.push(chunk);
+				}
+				return ok(chunks);
+			}
+
+			if (typeof this.source !== "string" || this.isFile) {
+				const stream = await this.open();
+				for await (const block of stream) {
+					chunks.push(...this.parser.parse(block));
+				}
 			} else {
 				const encoder = new TextEncoder();
 				const bytes = encoder.encode(this.source as string);
@@ -182,10 +274,16 @@ export class CsvSource {
 	 */
 	async *stream(_: number = 512 * 1024): AsyncGenerator<Chunk> {
 		this.parser.reset();
-		if (this.isFile) {
-			const file = Bun.file(this.source as string);
-			const stream = file.stream();
-			// Use raw reader
+		if (isParallel(this.options)) {
+			// Parse ranges of the input on workers, one window at a time
+			const stream =
+				typeof this.source !== "string" || this.isFile
+					? await this.open()
+					: new Blob([this.source]).stream();
+			yield* parseParallel(stream, this.parser, this.options ?? {});
+		} else if (typeof this.source !== "string" || this.isFile) {
+			// Compressed input is decompressed block by block
+			const stream = await this.open();
 			const reader = stream.getReader();
 
 			try {
@@ -205,7 +303,8 @@ export class CsvSource {
 					yield final;
 				}
 			} finally {
-				reader.releaseLock();
+				// Also stops reading when the consumer ends early
+				await reader.cancel();
 			}
 		} else {
 			// For string source, encode to Uint8Array once
@@ -222,6 +321,133 @@ export class CsvSource {
 			}
 		}
 	}
+
+	/** Decompressed bytes of a file or byte source */
+	private async open(): Promise<ReadableStream<Uint8Array>> {
+		const compression = this.options?.compression;
+		if (typeof this.source === "string") {
+			return openFileStream(this.source, compression);
+		}
+		if (isOneShot(this.source)) {
+			if (this.consumed) {
+				throw new Error("A CSV stream source can only be read once");
+			}
+			this.consumed = true;
+		}
+		return openByteSource(this.source, compression);
+	}
+}
+
+/** DataFrame of rejected rows */
+function rejectedFrame(rows: readonly CsvRejectedRow[]): DataFrame {
+	const schema = unwrap(
+		createSchema({
+			line: DType.int32,
+			offset: DType.int64,
+			text: DType.string,
+			error: DType.int32,
+			column: DType.nullable.string,
+		}),
+	);
+	const dictionary = createDictionary();
+	if (rows.length === 0) return DataFrame.empty(schema, dictionary);
+
+	const line = new ColumnBuffer(DType.int32.kind, rows.length, false);
+	const offset = new ColumnBuffer(DType.int64.kind, rows.length, false);
+	const text = new ColumnBuffer(DType.string.kind, rows.length, false);
+	const error = new ColumnBuffer(DType.int32.kind, rows.length, false);
+	const column = new ColumnBuffer(DType.string.kind, rows.length, true);
+	for (const row of rows) {
+		line.append(row.line);
+		offset.append(BigInt(row.offset));
+		text.append(dictionary.internString(row.text));
+		error.append(row.error);
+		if (row.column === null) column.appendNull();
+		else column.append(dictionary.internString(row.column));
+	}
+	const chunk = new Chunk(
+		schema,
+		[line, offset, text, error, column],
+		dictionary,
+	);
+	return DataFrame.fromChunks([chunk], schema, dictionary);
+}
+
+/** Schema spec of a schema, in column order */
+function specOf(schema: Schema): CsvSchemaSpec {
+	const spec: CsvSchemaSpec = {};
+	for (const column of schema.columns) {
+		spec[column.name] = column.dtype;
+	}
+	return spec;
+}
+
+/** Lines to sample for inference, counting the header and skipped rows */
+function sampleLength(options: CsvOptions | undefined): number {
+	return (
+		((options?.hasHeader ?? true) ? 1 : 0) +
+		(options?.skipRows ?? 0) +
+		(options?.inferSchemaLength ?? DEFAULT_INFER_SCHEMA_LENGTH)
+	);
+}
+
+/**
+ * Read the start of a byte stream up to `rows` complete lines (or the end
+ * of the stream), cut after the last full line. `replay` streams the
+ * whole input again, sampled blocks first; cancel it when not needed.
+ */
+async function sampleRows(
+	stream: ReadableStream<Uint8Array>,
+	rows: number,
+): Promise<{ sample: Uint8Array; replay: ReadableStream<Uint8Array> }> {
+	const reader = stream.getReader();
+	const parts: Uint8Array[] = [];
+	let length = 0;
+	let newlines = 0;
+	let done = false;
+
+	try {
+		while (newlines < rows) {
+			const result = await reader.read();
+			if (result.done) {
+				done = true;
+				break;
+			}
+			const value = result.value;
+			parts.push(value);
+			length += value.length;
+			for (let i = value.indexOf(10); i !== -1; i = value.indexOf(10, i + 1)) {
+				newlines++;
+			}
+		}
+	} catch (e) {
+		await reader.cancel();
+		throw e;
+	}
+
+	const replay = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const part of parts) controller.enqueue(part);
+			if (done) controller.close();
+		},
+		async pull(controller) {
+			const result = await reader.read();
+			if (result.done) controller.close();
+			else controller.enqueue(result.value);
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+
+	const sample = new Uint8Array(length);
+	let offset = 0;
+	for (const part of parts) {
+		sample.set(part, offset);
+		offset += part.length;
+	}
+	if (done) return { sample, replay };
+	return { sample: sample.subarray(0, sample.lastIndexOf(10) + 1), replay };
 }
 
 /**
@@ -240,7 +466,7 @@ export function readCsvFile(
  */
 export function readCsvString(
 	content: string,
-	schema: CsvSchemaSpec,
+	schema?: CsvSchemaSpec,
 	options?: CsvOptions,
 ): Result<CsvSource> {
 	return CsvSource.fromString(content, schema, options);
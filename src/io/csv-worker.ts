@@ -0,0 +1,19 @@
+/**
+ * Worker entry point for parallel CSV parsing (see csv-parallel.ts).
+ * Each message is one byte range to parse.
+ */
+
+import { type CsvTask, parseRange } from "./csv-parallel.ts";
+
+declare const self: Worker;
+
+self.onmessage = (event: MessageEvent<CsvTask>) => {
+	try {
+		self.postMessage(parseRange(event.data));
+	} catch (e) {
+		self.postMessage({
+			index: event.data.index,
+			error: e instanceof Error ? e.message : String(e),
+		});
+	}
+};
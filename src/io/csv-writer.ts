@@ -0,0 +1,223 @@
+/**
+ * CSV writer.
+ *
+ * Encodes chunks to CSV bytes one chunk at a time.
+ * String columns are copied straight from dictionary bytes.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by row counts */
+
+import type { Chunk } from "../buffer/chunk.ts";
+import type { Dictionary } from "../buffer/dictionary.ts";
+import { DTypeKind } from "../types/dtypes.ts";
+import type { Schema } from "../types/schema.ts";
+import type { CsvOptions } from "./csv-parser.ts";
+
+/** CSV writing options */
+export interface CsvWriteOptions
+	extends Pick<CsvOptions, "delimiter" | "quote" | "hasHeader"> {
+	/** Text written for null values (default: empty string) */
+	nullValue?: string;
+	/**
+	 * When to quote fields (default: "necessary").
+	 * - necessary: fields containing delimiter, quote, CR or LF
+	 * - always: every non-null field
+	 * - never: no quoting at all
+	 */
+	quoteStyle?: "necessary" | "always" | "never";
+	/** Line terminator (default: "\n") */
+	lineTerminator?: string;
+	/** Date output: ISO "YYYY-MM-DD" or days since epoch (default: "iso") */
+	dateFormat?: "iso" | "epoch";
+	/** Timestamp output: ISO 8601 or milliseconds since epoch (default: "iso") */
+	timestampFormat?: "iso" | "epoch";
+}
+
+const MS_PER_DAY = 86_400_000;
+const CR = 13;
+const LF = 10;
+
+/**
+ * Encodes chunks of a fixed schema to CSV.
+ */
+export class CsvWriter {
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly encoder = new TextEncoder();
+
+	private readonly delimiter: Uint8Array;
+	private readonly quote: Uint8Array;
+	private readonly delimiterByte: number;
+	private readonly quoteByte: number;
+	private readonly nullValue: Uint8Array;
+	private readonly lineTerminator: Uint8Array;
+	private readonly quoteStyle: "necessary" | "always" | "never";
+	private readonly hasHeader: boolean;
+	private readonly dateFormat: "iso" | "epoch";
+	private readonly timestampFormat: "iso" | "epoch";
+
+	private out: Uint8Array = new Uint8Array(64 * 1024);
+	private pos: number = 0;
+
+	constructor(
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: CsvWriteOptions,
+	) {
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.delimiter = this.encoder.encode(options?.delimiter ?? ",");
+		this.quote = this.encoder.encode(options?.quote ?? '"');
+		this.delimiterByte = this.delimiter[0] ?? 44;
+		this.quoteByte = this.quote[0] ?? 34;
+		this.nullValue = this.encoder.encode(options?.nullValue ?? "");
+		this.lineTerminator = this.encoder.encode(options?.lineTerminator ?? "\n");
+		this.quoteStyle = options?.quoteStyle ?? "necessary";
+		this.hasHeader = options?.hasHeader ?? true;
+		this.dateFormat = options?.dateFormat ?? "iso";
+		this.timestampFormat = options?.timestampFormat ?? "iso";
+	}
+
+	/**
+	 * Header row bytes, or an empty array when hasHeader is false.
+	 */
+	header(): Uint8Array {
+		if (!this.hasHeader) return new Uint8Array(0);
+		this.pos = 0;
+		const columns = this.schema.columns;
+		for (let c = 0; c < columns.length; c++) {
+			if (c > 0) this.writeBytes(this.delimiter);
+			this.writeField(this.encoder.encode(columns[c]!.name));
+		}
+		this.writeBytes(this.lineTerminator);
+		return this.out.slice(0, this.pos);
+	}
+
+	/**
+	 * Encode all selected rows of a chunk.
+	 * Returns a fresh array the caller may hold on to.
+	 */
+	encodeChunk(chunk: Chunk): Uint8Array {
+		this.pos = 0;
+		const dictionary = chunk.dictionary ?? this.dictionary;
+		const columns = chunk.getColumns();
+		const kinds = this.schema.columns.map((c) => c.dtype.kind);
+		const selection = chunk.getSelection();
+		const rowCount = chunk.rowCount;
+
+		for (let r = 0; r < rowCount; r++) {
+			const row = selection === null ? r : selection[r]!;
+			for (let c = 0; c < kinds.length; c++) {
+				if (c > 0) this.writeBytes(this.delimiter);
+
+				const column = columns[c]!;
+				if (column.isNull(row)) {
+					this.writeBytes(this.nullValue);
+					continue;
+				}
+
+				const value = column.data[row]!;
+				const kind = kinds[c]!;
+				if (kind === DTypeKind.String || kind === DTypeKind.List) {
+					const bytes = dictionary?.getBytes(value as number);
+					this.writeField(bytes ?? this.nullValue);
+				} else {
+					this.writeText(this.formatValue(kind, value));
+				}
+			}
+			this.writeBytes(this.lineTerminator);
+		}
+
+		return this.out.slice(0, this.pos);
+	}
+
+	private formatValue(kind: DTypeKind, value: number | bigint): string {
+		switch (kind) {
+			case DTypeKind.Boolean:
+				return value ? "true" : "false";
+			case DTypeKind.Date:
+				return this.dateFormat === "epoch"
+					? String(value)
+					: new Date(Number(value) * MS_PER_DAY).toISOString().slice(0, 10);
+			case DTypeKind.Timestamp:
+				return this.timestampFormat === "epoch"
+					? String(value)
+					: new Date(Number(value)).toISOString();
+			default:
+				return String(value);
+		}
+	}
+
+	/**
+	 * Write a formatted scalar. Numbers and dates are ASCII,
+	 * so they only need quoting for unusual delimiters.
+	 */
+	private writeText(text: string): void {
+		const quoted =
+			this.quoteStyle === "always" ||
+			(this.quoteStyle === "necessary" &&
+				text.includes(String.fromCharCode(this.delimiterByte)));
+
+		this.ensure(text.length + 2);
+		if (quoted) this.out[this.pos++] = this.quoteByte;
+		for (let i = 0; i < text.length; i++) {
+			this.out[this.pos++] = text.charCodeAt(i);
+		}
+		if (quoted) this.out[this.pos++] = this.quoteByte;
+	}
+
+	/**
+	 * Write raw field bytes, quoting and doubling quotes as required.
+	 */
+	private writeField(bytes: Uint8Array): void {
+		if (this.quoteStyle === "never") {
+			this.writeBytes(bytes);
+			return;
+		}
+
+		let quotes = 0;
+		let special = this.quoteStyle === "always";
+		for (let i = 0; i < bytes.length; i++) {
+			const b = bytes[i]!;
+			if (b === this.quoteByte) {
+				quotes++;
+				special = true;
+			} else if (b === this.delimiterByte || b === CR || b === LF) {
+				special = true;
+			}
+		}
+
+		if (!special) {
+			this.writeBytes(bytes);
+			return;
+		}
+
+		this.ensure(bytes.length + quotes + 2);
+		this.out[this.pos++] = this.quoteByte;
+		if (quotes === 0) {
+			this.out.set(bytes, this.pos);
+			this.pos += bytes.length;
+		} else {
+			for (let i = 0; i < bytes.length; i++) {
+				const b = bytes[i]!;
+				if (b === this.quoteByte) this.out[this.pos++] = b;
+				this.out[this.pos++] = b;
+			}
+		}
+		this.out[this.pos++] = this.quoteByte;
+	}
+
+	private writeBytes(bytes: Uint8Array): void {
+		this.ensure(bytes.length);
+		this.out.set(bytes, this.pos);
+		this.pos += bytes.length;
+	}
+
+	private ensure(n: number): void {
+		if (this.pos + n <= this.out.length) return;
+		let size = this.out.length * 2;
+		while (size < this.pos + n) size *= 2;
+		const next = new Uint8Array(size);
+		next.set(this.out.subarray(0, this.pos));
+		this.out = next;
+	}
+}
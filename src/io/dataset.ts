@@ -0,0 +1,490 @@
+/**
+ * Multi-file datasets.
+ *
+ * A dataset is every matching file under a directory, or every file
+ * matched by a glob. Hive-style `key=value` directories become typed
+ * partition columns. File schemas are unified by column name: columns
+ * missing from a file read as null, numeric columns widen to a common type.
+ *
+ * Partition filters are decided from the path alone, so files in pruned
+ * partitions are never opened while scanning.
+ */
+
+import { statSync } from "node:fs";
+import { join, relative } from "node:path";
+import { Chunk } from "../buffer/chunk.ts";
+import { ColumnBuffer } from "../buffer/column-buffer.ts";
+import {
+	createDictionary,
+	type DictIndex,
+	type Dictionary,
+} from "../buffer/dictionary.ts";
+import { DataFrame } from "../dataframe/core.ts";
+import type { Expr } from "../expr/ast.ts";
+import type { ScanOptions, ScanSource } from "../ops/logical.ts";
+import { DType, DTypeKind, toNullable } from "../types/dtypes.ts";
+import { unwrap } from "../types/error.ts";
+import { createSchema, type Schema, selectColumns } from "../types/schema.ts";
+import type { CsvOptions } from "./csv-parser.ts";
+import { type CsvSchemaSpec, CsvSource } from "./csv-source.ts";
+import { ParquetReader } from "./parquet/reader.ts";
+import { type ColumnStatistics, mayMatch } from "./parquet/statistics.ts";
+
+/** File formats a dataset can be made of */
+export type DatasetFormat = "parquet" | "csv";
+
+export interface DatasetOptions {
+	/**
+	 * File format (default: from the files' extensions, else parquet).
+	 * Directories holding both formats need it.
+	 */
+	format?: DatasetFormat;
+	/** Column types of every CSV file, required for CSV datasets */
+	schema?: CsvSchemaSpec;
+	/** Options passed to each CSV file */
+	csv?: CsvOptions;
+	/** Parse `key=value` directories into columns (default: true) */
+	partitioning?: boolean;
+}
+
+/** Value Hive writes for null partition values */
+const HIVE_NULL = "__HIVE_DEFAULT_PARTITION__";
+
+const EXTENSIONS: Record<DatasetFormat, string[]> = {
+	parquet: ["parquet"],
+	csv: ["csv", "csv.gz", "csv.zst"],
+};
+
+const INT_PATTERN = /^-?\d+$/;
+const FLOAT_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const encoder = new TextEncoder();
+
+/** One file of a dataset and the partition values from its path */
+interface DatasetFile {
+	path: string;
+	partitions: Map<string, string | null>;
+	/** Schema of the file's own columns */
+	schema: Schema;
+	/** Open reader, kept from schema discovery */
+	reader: ParquetReader | null;
+}
+
+/**
+ * Files of a dataset streamed as one source.
+ */
+export class DatasetSource implements ScanSource {
+	private readonly files: DatasetFile[];
+	private readonly options: DatasetOptions;
+	private readonly schema: Schema;
+	private readonly partitionTypes: Map<string, DType>;
+	private readonly dictionary: Dictionary = createDictionary();
+
+	private constructor(
+		files: DatasetFile[],
+		options: DatasetOptions,
+		schema: Schema,
+		partitionTypes: Map<string, DType>,
+	) {
+		this.files = files;
+		this.options = options;
+		this.schema = schema;
+		this.partitionTypes = partitionTypes;
+	}
+
+	/**
+	 * Discover the files of a dataset and unify their schemas.
+	 * Parquet footers are read here; CSV files use the given schema.
+	 */
+	static async open(
+		pathOrGlob: string,
+		options: DatasetOptions = {},
+	): Promise<DatasetSource> {
+		const { base, paths } = await listFiles(pathOrGlob, options.format);
+		const format = options.format ?? detectFormat(pathOrGlob, paths);
+		const partitioning = options.partitioning ?? true;
+
+		const files: DatasetFile[] = [];
+		for (const path of paths) {
+			const partitions = partitioning
+				? parsePartitions(relative(base, path))
+				: new Map<string, string | null>();
+			if (format === "parquet") {
+				const reader = new ParquetReader(path);
+				await reader.readMetadata();
+				files.push({ path, partitions, schema: reader.getSchema(), reader });
+			} else {
+				if (!options.schema) {
+					throw new Error("CSV datasets need a schema");
+				}
+				const schema = unwrap(createSchema(options.schema));
+				files.push({ path, partitions, schema, reader: null });
+			}
+		}
+
+		const spec = unifySchemas(files.map((f) => f.schema));
+		const partitionTypes = inferPartitionTypes(files);
+		for (const [name, dtype] of partitionTypes) {
+			if (name in spec) {
+				throw new Error(`Partition column '${name}' also exists in files`);
+			}
+			spec[name] = dtype;
+		}
+
+		return new DatasetSource(
+			files,
+			options,
+			unwrap(createSchema(spec)),
+			partitionTypes,
+		);
+	}
+
+	getSchema(): Schema {
+		return this.schema;
+	}
+
+	getDictionary(): Dictionary {
+		return this.dictionary;
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<Chunk> {
+		return this.scan({});
+	}
+
+	/**
+	 * Stream the requested columns of every file whose partition values
+	 * may satisfy the filters. Filters are also passed on to each file.
+	 */
+	async *scan(options: ScanOptions): AsyncGenerator<Chunk> {
+		const names = options.columns ?? this.schema.columns.map((c) => c.name);
+		const schema = unwrap(selectColumns(this.schema, [...names]));
+		const filters = options.filters ?? [];
+
+		for (const file of this.files) {
+			if (!this.mayMatch(file, filters)) continue;
+			for await (const chunk of this.scanFile(file, schema, filters)) {
+				yield this.conform(chunk, file, schema);
+			}
+		}
+	}
+
+	/** Describe a scan for explain() */
+	describeScan(options: ScanOptions): string {
+		const columns = options.columns;
+		const filters = options.filters ?? [];
+		const total = this.files.length;
+		const kept = this.files.filter((f) => this.mayMatch(f, filters)).length;
+		return (
+			`DatasetScan [${columns ? columns.join(", ") : "*"}]` +
+			` files: ${kept}/${total} (${total - kept} pruned)`
+		);
+	}
+
+	/**
+	 * Whether any row of a file can satisfy every filter, judged from its
+	 * partition values as single-value statistics.
+	 */
+	private mayMatch(file: DatasetFile, filters: readonly Expr[]): boolean {
+		const lookup = (name: string): ColumnStatistics | undefined => {
+			const dtype = this.partitionTypes.get(name);
+			if (!dtype) return undefined;
+			const value = partitionValue(file.partitions.get(name) ?? null, dtype);
+			if (value === null) return { nullCount: 1n, numRows: 1n };
+			const stat = typeof value === "string" ? encoder.encode(value) : value;
+			return { min: stat, max: stat, nullCount: 0n, numRows: 1n };
+		};
+		return filters.every((expr) => mayMatch(expr, lookup));
+	}
+
+	private scanFile(
+		file: DatasetFile,
+		schema: Schema,
+		filters: readonly Expr[],
+	): AsyncIterable<Chunk> {
+		const own = new Set(file.schema.columns.map((c) => c.name));
+		const columns = schema.columns
+			.map((c) => c.name)
+			.filter((name) => own.has(name));
+
+		if (file.reader) {
+			// Chunks take their row count from the first column, so keep one
+			const first = file.schema.columns[0]?.name;
+			if (columns.length === 0 && first !== undefined) columns.push(first);
+			return file.reader.scan({ columns, filters });
+		}
+		return unwrap(
+			CsvSource.fromFile(
+				file.path,
+				this.options.schema ?? {},
+				this.options.csv,
+			),
+		);
+	}
+
+	/**
+	 * Rebuild a file chunk in the dataset schema: widen numeric columns,
+	 * re-intern strings into the dataset dictionary, fill missing columns
+	 * with nulls and add partition values.
+	 */
+	private conform(chunk: Chunk, file: DatasetFile, schema: Schema): Chunk {
+		const rowCount = chunk.rowCount;
+		const columns: ColumnBuffer[] = [];
+
+		for (const def of schema.columns) {
+			const out = new ColumnBuffer(def.dtype.kind, rowCount, true);
+			const partition = this.partitionTypes.get(def.name);
+			const index = chunk.schema.columnMap.get(def.name);
+
+			if (partition) {
+				const raw = file.partitions.get(def.name) ?? null;
+				const value = partitionValue(raw, partition);
+				const stored =
+					typeof value === "string"
+						? this.dictionary.internString(value)
+						: value;
+				for (let r = 0; r < rowCount; r++) {
+					if (stored === null) out.appendNull();
+					else out.append(stored);
+				}
+			} else if (index === undefined) {
+				for (let r = 0; r < rowCount; r++) out.appendNull();
+			} else {
+				const from = chunk.schema.columns[index]?.dtype.kind;
+				for (let r = 0; r < rowCount; r++) {
+					if (chunk.isNull(index, r)) {
+						out.appendNull();
+						continue;
+					}
+					const value = chunk.getValue(index, r) as number | bigint;
+					if (from === DTypeKind.String || from === DTypeKind.List) {
+						const text = chunk.dictionary?.getString(value as DictIndex);
+						out.append(this.dictionary.internString(text ?? ""));
+					} else {
+						out.append(widen(value, def.dtype.kind) as never);
+					}
+				}
+			}
+			columns.push(out);
+		}
+
+		return new Chunk(schema, columns, this.dictionary);
+	}
+}
+
+/**
+ * Files matched by a glob, or every file of the format under a directory,
+ * in path order. Hidden files and names starting with `_` are skipped.
+ */
+async function listFiles(
+	pathOrGlob: string,
+	format: DatasetFormat | undefined,
+): Promise<{ base: string; paths: string[] }> {
+	let base: string;
+	let pattern: string;
+	if (/[*?[{]/.test(pathOrGlob)) {
+		const parts = pathOrGlob.split("/");
+		const firstGlob = parts.findIndex((part) => /[*?[{]/.test(part));
+		base = parts.slice(0, firstGlob).join("/") || ".";
+		pattern = parts.slice(firstGlob).join("/");
+	} else if (statSync(pathOrGlob, { throwIfNoEntry: false })?.isDirectory()) {
+		base = pathOrGlob;
+		const extensions = format
+			? EXTENSIONS[format]
+			: Object.values(EXTENSIONS).flat();
+		pattern = `**/*.{${extensions.join(",")}}`;
+	} else {
+		return { base: ".", paths: [pathOrGlob] };
+	}
+
+	const paths: string[] = [];
+	const glob = new Bun.Glob(pattern);
+	for await (const path of glob.scan({ cwd: base, onlyFiles: true })) {
+		const name = path.split("/").pop() ?? "";
+		if (name.startsWith("_") || name.startsWith(".")) continue;
+		paths.push(join(base, path));
+	}
+	if (paths.length === 0) {
+		throw new Error(`No dataset files found at '${pathOrGlob}'`);
+	}
+	return { base, paths: paths.sort() };
+}
+
+function formatOf(path: string): DatasetFormat {
+	return /\.csv(\.gz|\.zst)?$/.test(path) ? "csv" : "parquet";
+}
+
+/** Format shared by every file of a dataset */
+function detectFormat(
+	pathOrGlob: string,
+	paths: readonly string[],
+): DatasetFormat {
+	const formats = new Set(paths.map(formatOf));
+	if (formats.size > 1) {
+		throw new Error(
+			`Dataset '${pathOrGlob}' mixes CSV and Parquet files; pass a format`,
+		);
+	}
+	return formats.values().next().value ?? "parquet";
+}
+
+/**
+ * Partition values from the `key=value` directories of a relative path.
+ */
+export function parsePartitions(path: string): Map<string, string | null> {
+	const partitions = new Map<string, string | null>();
+	const dirs = path.split("/").slice(0, -1);
+	for (const dir of dirs) {
+		const eq = dir.indexOf("=");
+		if (eq <= 0) continue;
+		const value = decodeURIComponent(dir.slice(eq + 1));
+		partitions.set(dir.slice(0, eq), value === HIVE_NULL ? null : value);
+	}
+	return partitions;
+}
+
+/**
+ * Partition column types: int32 when every value is a 32-bit integer,
+ * float64 when every value is numeric, string otherwise.
+ * Columns missing from some paths, or holding nulls, are nullable.
+ */
+function inferPartitionTypes(
+	files: readonly DatasetFile[],
+): Map<string, DType> {
+	const values = new Map<string, (string | null)[]>();
+	for (const file of files) {
+		for (const [key, value] of file.partitions) {
+			const list = values.get(key) ?? [];
+			list.push(value);
+			values.set(key, list);
+		}
+	}
+
+	const types = new Map<string, DType>();
+	for (const [key, list] of values) {
+		const present = list.filter((v): v is string => v !== null);
+		let dtype: DType = DType.string as DType;
+		if (present.length > 0 && present.every(isInt32)) {
+			dtype = DType.int32 as DType;
+		} else if (
+			present.length > 0 &&
+			present.every((v) => FLOAT_PATTERN.test(v))
+		) {
+			dtype = DType.float64 as DType;
+		}
+		const nullable = list.length < files.length || present.length < list.length;
+		types.set(key, nullable ? toNullable(dtype) : dtype);
+	}
+	return types;
+}
+
+function isInt32(value: string): boolean {
+	if (!INT_PATTERN.test(value)) return false;
+	const n = Number(value);
+	return n >= -2147483648 && n <= 2147483647;
+}
+
+function partitionValue(
+	raw: string | null,
+	dtype: DType,
+): number | string | null {
+	if (raw === null) return null;
+	return dtype.kind === DTypeKind.String ? raw : Number(raw);
+}
+
+/**
+ * Column types by name across files. Columns missing from some files are
+ * nullable; differing numeric types widen, other differences are errors.
+ */
+function unifySchemas(schemas: readonly Schema[]): Record<string, DType> {
+	const spec: Record<string, DType> = {};
+	const seen = new Map<string, number>();
+	for (const schema of schemas) {
+		for (const { name, dtype } of schema.columns) {
+			const current = spec[name];
+			if (current === undefined) {
+				spec[name] = dtype;
+			} else {
+				const unified = unifyDTypes(current, dtype);
+				if (unified === null) {
+					throw new Error(
+						`Column '${name}' has incompatible types across files`,
+					);
+				}
+				spec[name] = unified;
+			}
+			seen.set(name, (seen.get(name) ?? 0) + 1);
+		}
+	}
+	for (const [name, count] of seen) {
+		const dtype = spec[name];
+		if (dtype && count < schemas.length) spec[name] = toNullable(dtype);
+	}
+	return spec;
+}
+
+const INT32_KINDS = new Set([
+	DTypeKind.Int8,
+	DTypeKind.Int16,
+	DTypeKind.Int32,
+	DTypeKind.UInt8,
+	DTypeKind.UInt16,
+]);
+const FLOAT_KINDS = new Set([DTypeKind.Float32, DTypeKind.Float64]);
+
+function unifyDTypes(a: DType, b: DType): DType | null {
+	let unified: DType;
+	if (a.kind === b.kind) {
+		unified = a;
+	} else if (INT32_KINDS.has(a.kind) && INT32_KINDS.has(b.kind)) {
+		unified = DType.int32 as DType;
+	} else if (isInteger(a.kind) && isInteger(b.kind)) {
+		unified = DType.int64 as DType;
+	} else if (isNumeric(a.kind) && isNumeric(b.kind)) {
+		unified = DType.float64 as DType;
+	} else {
+		return null;
+	}
+	return a.nullable || b.nullable ? toNullable(unified) : unified;
+}
+
+function isInteger(kind: DTypeKind): boolean {
+	return (
+		INT32_KINDS.has(kind) ||
+		kind === DTypeKind.UInt32 ||
+		kind === DTypeKind.Int64 ||
+		kind === DTypeKind.UInt64
+	);
+}
+
+function isNumeric(kind: DTypeKind): boolean {
+	return isInteger(kind) || FLOAT_KINDS.has(kind);
+}
+
+/** Convert a value to the representation of a widened column */
+function widen(value: number | bigint, kind: DTypeKind): number | bigint {
+	switch (kind) {
+		case DTypeKind.Int64:
+		case DTypeKind.UInt64:
+		case DTypeKind.Timestamp:
+			return typeof value === "bigint" ? value : BigInt(value);
+		case DTypeKind.Float32:
+		case DTypeKind.Float64:
+			return Number(value);
+		default:
+			return value;
+	}
+}
+
+/**
+ * Open a directory tree or glob of files as one lazy DataFrame.
+ */
+export async function readDataset(
+	pathOrGlob: string,
+	options?: DatasetOptions,
+): Promise<DataFrame> {
+	const source = await DatasetSource.open(pathOrGlob, options);
+	return DataFrame.fromStream(
+		source,
+		source.getSchema(),
+		source.getDictionary(),
+	);
+}
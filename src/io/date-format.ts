@@ -0,0 +1,362 @@
+/**
+ * Date and timestamp parsing for text readers, plus the unit conversions
+ * binary readers share.
+ *
+ * A format is compiled once into a parser that reads field bytes
+ * directly and returns epoch milliseconds (NaN when the field does not
+ * match). Supported formats:
+ * - "iso": ISO-8601 dates and date-times, with optional fraction and zone
+ * - "epoch_s" / "epoch_ms": seconds or milliseconds since the epoch
+ * - strftime-like patterns: %Y %y %m %d %e %H %M %S %f %z %b %F %T %%
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by end */
+
+import { ErrorCode, err, ok, type Result } from "../types/error.ts";
+
+/** Date/timestamp text format: "iso", "epoch_s", "epoch_ms" or a pattern */
+export type DateFormat = "iso" | "epoch_s" | "epoch_ms" | (string & {});
+
+/** Parses bytes [start, end) into epoch milliseconds, NaN if invalid */
+export type DateParser = (
+	data: Uint8Array,
+	start: number,
+	end: number,
+) => number;
+
+/** Reads one pattern element at `pos`; returns the new position or -1 */
+type Step = (data: Uint8Array, pos: number, end: number) => number;
+
+const MS_PER_DAY = 86_400_000;
+const MONTHS = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+/** Fields of the value being parsed (parsing is synchronous) */
+const parts = {
+	year: 1970,
+	month: 1,
+	day: 1,
+	hour: 0,
+	minute: 0,
+	second: 0,
+	millis: 0,
+	offset: 0,
+};
+
+/** Value of the digits read by the last readDigits call */
+let digitValue = 0;
+/** Number of digits read by the last readDigits call */
+let digitCount = 0;
+
+/**
+ * Compile a date format into a byte parser.
+ * Fails with InvalidDate for unknown pattern directives.
+ */
+export function compileDateFormat(
+	format: DateFormat = "iso",
+): Result<DateParser> {
+	switch (format) {
+		case "iso":
+			return ok(parseIso);
+		case "epoch_s":
+			return ok((data, start, end) => parseEpoch(data, start, end, 1000));
+		case "epoch_ms":
+			return ok((data, start, end) => parseEpoch(data, start, end, 1));
+	}
+
+	const steps: Step[] = [];
+	const pattern = format
+		.replaceAll("%F", "%Y-%m-%d")
+		.replaceAll("%T", "%H:%M:%S");
+	const encoder = new TextEncoder();
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i]!;
+		if (ch !== "%") {
+			for (const byte of encoder.encode(ch)) steps.push(literal(byte));
+			continue;
+		}
+		const step = directive(pattern[++i]);
+		if (step === null) return err(ErrorCode.InvalidDate);
+		steps.push(step);
+	}
+
+	return ok((data, start, end) => {
+		resetParts();
+		let pos = start;
+		for (const step of steps) {
+			pos = step(data, pos, end);
+			if (pos === -1) return Number.NaN;
+		}
+		return pos === end ? toMillis() : Number.NaN;
+	});
+}
+
+/** Whole days since the epoch for epoch milliseconds */
+export function millisToDays(millis: number): number {
+	return Math.floor(millis / MS_PER_DAY);
+}
+
+/**
+ * Convert a count of finer units to a coarser one, rounding down: bigint
+ * division truncates, which would move instants before the epoch forward.
+ */
+export function floorDiv(value: bigint, divisor: bigint): bigint {
+	const quotient = value / divisor;
+	return value % divisor < 0n ? quotient - 1n : quotient;
+}
+
+function directive(code: string | undefined): Step | null {
+	switch (code) {
+		case "Y":
+			return numberStep(4, 4, (v) => {
+				parts.year = v;
+			});
+		case "y":
+			return numberStep(2, 2, (v) => {
+				parts.year = v < 69 ? 2000 + v : 1900 + v;
+			});
+		case "m":
+			return numberStep(1, 2, (v) => {
+				parts.month = v;
+			});
+		case "d":
+		case "e":
+			return numberStep(1, 2, (v) => {
+				parts.day = v;
+			});
+		case "H":
+			return numberStep(1, 2, (v) => {
+				parts.hour = v;
+			});
+		case "M":
+			return numberStep(1, 2, (v) => {
+				parts.minute = v;
+			});
+		case "S":
+			return numberStep(1, 2, (v) => {
+				parts.second = v;
+			});
+		case "f":
+			return readFraction;
+		case "z":
+			return readZone;
+		case "b":
+			return readMonthName;
+		case "%":
+			return literal(37);
+		default:
+			return null;
+	}
+}
+
+function literal(byte: number): Step {
+	return (data, pos, end) => (pos < end && data[pos] === byte ? pos + 1 : -1);
+}
+
+function numberStep(
+	min: number,
+	max: number,
+	set: (value: number) => void,
+): Step {
+	return (data, pos, end) => {
+		const next = readDigits(data, pos, end, min, max);
+		if (next !== -1) set(digitValue);
+		return next;
+	};
+}
+
+function readDigits(
+	data: Uint8Array,
+	pos: number,
+	end: number,
+	min: number,
+	max: number,
+): number {
+	let value = 0;
+	let count = 0;
+	while (count < max && pos < end) {
+		const c = data[pos]!;
+		if (c < 48 || c > 57) break;
+		value = value * 10 + (c - 48);
+		pos++;
+		count++;
+	}
+	if (count < min) return -1;
+	digitValue = value;
+	digitCount = count;
+	return pos;
+}
+
+/** Fractional seconds, 1 to 9 digits, kept to the millisecond */
+function readFraction(data: Uint8Array, pos: number, end: number): number {
+	const next = readDigits(data, pos, end, 1, 9);
+	if (next === -1) return -1;
+	parts.millis = Math.floor(digitValue * 10 ** (3 - digitCount));
+	return next;
+}
+
+/** "Z" or a ±HH[:MM] / ±HHMM offset */
+function readZone(data: Uint8Array, pos: number, end: number): number {
+	if (pos >= end) return -1;
+	const c = data[pos]!;
+	if (c === 90 || c === 122) {
+		parts.offset = 0;
+		return pos + 1;
+	}
+	if (c !== 43 && c !== 45) return -1;
+	const sign = c === 45 ? -1 : 1;
+	pos = readDigits(data, pos + 1, end, 2, 2);
+	if (pos === -1) return -1;
+	const hours = digitValue;
+	let minutes = 0;
+	if (pos < end && data[pos] === 58) pos++;
+	if (pos < end) {
+		pos = readDigits(data, pos, end, 2, 2);
+		if (pos === -1) return -1;
+		minutes = digitValue;
+	}
+	parts.offset = sign * (hours * 60 + minutes);
+	return pos;
+}
+
+/** Three-letter English month name, any case */
+function readMonthName(data: Uint8Array, pos: number, end: number): number {
+	if (pos + 3 > end) return -1;
+	for (let m = 0; m < MONTHS.length; m++) {
+		const name = MONTHS[m]!;
+		let i = 0;
+		while (i < 3 && (data[pos + i]! | 32) === name.charCodeAt(i)) i++;
+		if (i === 3) {
+			parts.month = m + 1;
+			return pos + 3;
+		}
+	}
+	return -1;
+}
+
+/**
+ * ISO-8601: YYYY-MM-DD, optionally followed by T or space, HH:MM[:SS[.f]]
+ * and a zone.
+ */
+function parseIso(data: Uint8Array, start: number, end: number): number {
+	resetParts();
+	let pos = readDigits(data, start, end, 4, 4);
+	if (pos === -1 || data[pos] !== 45) return Number.NaN;
+	parts.year = digitValue;
+	pos = readDigits(data, pos + 1, end, 2, 2);
+	if (pos === -1 || data[pos] !== 45) return Number.NaN;
+	parts.month = digitValue;
+	pos = readDigits(data, pos + 1, end, 2, 2);
+	if (pos === -1) return Number.NaN;
+	parts.day = digitValue;
+	if (pos === end) return toMillis();
+
+	const sep = data[pos];
+	if (sep !== 84 && sep !== 116 && sep !== 32) return Number.NaN;
+	pos = readDigits(data, pos + 1, end, 2, 2);
+	if (pos === -1 || data[pos] !== 58) return Number.NaN;
+	parts.hour = digitValue;
+	pos = readDigits(data, pos + 1, end, 2, 2);
+	if (pos === -1) return Number.NaN;
+	parts.minute = digitValue;
+	if (pos < end && data[pos] === 58) {
+		pos = readDigits(data, pos + 1, end, 2, 2);
+		if (pos === -1) return Number.NaN;
+		parts.second = digitValue;
+		if (pos < end && (data[pos] === 46 || data[pos] === 44)) {
+			pos = readFraction(data, pos + 1, end);
+			if (pos === -1) return Number.NaN;
+		}
+	}
+	if (pos < end) pos = readZone(data, pos, end);
+	return pos === end ? toMillis() : Number.NaN;
+}
+
+/** Optionally signed integer with an optional fraction, times `scale` ms */
+function parseEpoch(
+	data: Uint8Array,
+	start: number,
+	end: number,
+	scale: number,
+): number {
+	let pos = start;
+	let sign = 1;
+	if (pos < end && (data[pos] === 45 || data[pos] === 43)) {
+		if (data[pos] === 45) sign = -1;
+		pos++;
+	}
+	let value = 0;
+	let digits = 0;
+	while (pos < end && data[pos]! >= 48 && data[pos]! <= 57) {
+		value = value * 10 + (data[pos]! - 48);
+		pos++;
+		digits++;
+	}
+	if (digits === 0) return Number.NaN;
+	if (pos < end && data[pos] === 46) {
+		let fraction = 0.1;
+		pos++;
+		while (pos < end && data[pos]! >= 48 && data[pos]! <= 57) {
+			value += (data[pos]! - 48) * fraction;
+			fraction /= 10;
+			pos++;
+		}
+	}
+	if (pos !== end) return Number.NaN;
+	return Math.floor(sign * value * scale);
+}
+
+function resetParts(): void {
+	parts.year = 1970;
+	parts.month = 1;
+	parts.day = 1;
+	parts.hour = 0;
+	parts.minute = 0;
+	parts.second = 0;
+	parts.millis = 0;
+	parts.offset = 0;
+}
+
+/** Validate the parsed fields and convert them to epoch milliseconds */
+function toMillis(): number {
+	const { year, month, day, hour, minute, second, millis, offset } = parts;
+	if (month < 1 || month > 12) return Number.NaN;
+	if (day < 1 || day > daysInMonth(year, month)) return Number.NaN;
+	if (hour > 23 || minute > 59 || second > 59) return Number.NaN;
+	const days = daysFromCivil(year, month, day);
+	return (
+		days * MS_PER_DAY +
+		((hour * 60 + minute - offset) * 60 + second) * 1000 +
+		millis
+	);
+}
+
+function daysInMonth(year: number, month: number): number {
+	if (month === 2) {
+		const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+		return leap ? 29 : 28;
+	}
+	return month === 4 || month === 6 || month === 9 || month === 11 ? 30 : 31;
+}
+
+/** Days since 1970-01-01 of a proleptic Gregorian date */
+function daysFromCivil(year: number, month: number, day: number): number {
+	const y = month <= 2 ? year - 1 : year;
+	const era = Math.floor(y / 400);
+	const yoe = y - era * 400;
+	const doy =
+		Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) + day - 1;
+	const doe = yoe * 365 + Math.floor(yoe / 4) - Math.floor(yoe / 100) + doy;
+	return era * 146097 + doe - 719468;
+}
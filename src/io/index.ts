@@ -2,12 +2,23 @@
  * Public exports for the io module.
  */
 
+export { ArrowReader, readArrow } from "./arrow/reader.ts";
+export { type ArrowWriteOptions, ArrowWriter } from "./arrow/writer.ts";
+export type { ByteSource } from "./byte-source.ts";
 export {
+	CachedSource,
+	type CacheStats,
+	type StorageLevel,
+} from "./cached-source.ts";
+export { type Compression, detectCompression } from "./compression.ts";
+export {
+	type CsvErrorMode,
 	type CsvOptions,
 	CsvParser,
+	type CsvRejectedRow,
 	createCsvParser,
+	inferCsvSchema,
 } from "./csv-parser.ts";
-
 export {
 	type CsvSchemaSpec,
 	CsvSource,
@@ -15,7 +26,52 @@ export {
 	readCsvString,
 } from "./csv-source.ts";
 
+export { type CsvWriteOptions, CsvWriter } from "./csv-writer.ts";
+export {
+	type DatasetFormat,
+	type DatasetOptions,
+	DatasetSource,
+	readDataset,
+} from "./dataset.ts";
+export {
+	compileDateFormat,
+	type DateFormat,
+	type DateParser,
+} from "./date-format.ts";
+export {
+	type NativeReadOptions,
+	NativeWriter,
+	readNative,
+} from "./native.ts";
+export {
+	createNdjsonParser,
+	inferNdjsonSchema,
+	type NdjsonOptions,
+	NdjsonParser,
+} from "./ndjson-parser.ts";
+export {
+	type NdjsonSchemaSpec,
+	NdjsonSource,
+	readNdjsonFile,
+	readNdjsonString,
+} from "./ndjson-source.ts";
+export { type NdjsonWriteOptions, NdjsonWriter } from "./ndjson-writer.ts";
 export {
 	ParquetReader,
+	type ParquetReadOptions,
 	readParquet,
 } from "./parquet/reader.ts";
+export {
+	type ParquetWriteOptions,
+	ParquetWriter,
+} from "./parquet/writer.ts";
+export {
+	type PartitionedWriteOptions,
+	PartitionedWriter,
+} from "./partitioned-writer.ts";
+export {
+	readSqlite,
+	type SqliteReadOptions,
+	type SqliteWriteOptions,
+	SqliteWriter,
+} from "./sqlite.ts";
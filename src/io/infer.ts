@@ -0,0 +1,107 @@
+/**
+ * Type lattice shared by the text readers' schema inference.
+ *
+ * Each sampled value maps to an `Inferred` type; values of one column
+ * are unified into the narrowest type that holds them all.
+ */
+
+import { DType } from "../types/dtypes.ts";
+import { unwrap } from "../types/error.ts";
+import { compileDateFormat } from "./date-format.ts";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP =
+	/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const parseIso = unwrap(compileDateFormat("iso"));
+const encoder = new TextEncoder();
+
+const INTEGER = /^[+-]?\d+$/;
+const FLOAT = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/** Type lattice used during inference, narrowest first */
+export enum Inferred {
+	Null,
+	Boolean,
+	Int32,
+	Int64,
+	Float64,
+	Date,
+	Timestamp,
+	String,
+}
+
+/**
+ * Infer the type of an untyped text field (CSV).
+ * Empty text is null; "true"/"false" in any case is boolean.
+ */
+export function inferText(text: string): Inferred {
+	if (text === "") return Inferred.Null;
+	if (INTEGER.test(text)) {
+		const n = Number(text);
+		if (n >= INT32_MIN && n <= INT32_MAX) return Inferred.Int32;
+		const big = BigInt(text);
+		return big >= INT64_MIN && big <= INT64_MAX
+			? Inferred.Int64
+			: Inferred.Float64;
+	}
+	if (FLOAT.test(text)) return Inferred.Float64;
+	const lower = text.toLowerCase();
+	if (lower === "true" || lower === "false") return Inferred.Boolean;
+	return inferIso(text);
+}
+
+/**
+ * Date or Timestamp for ISO-8601 text the readers parse, String otherwise.
+ * The shape alone is not enough: "2024-02-30" has it but no calendar day.
+ */
+export function inferIso(text: string): Inferred {
+	const type = ISO_DATE.test(text)
+		? Inferred.Date
+		: ISO_TIMESTAMP.test(text)
+			? Inferred.Timestamp
+			: Inferred.String;
+	if (type === Inferred.String) return type;
+	const bytes = encoder.encode(text);
+	return Number.isNaN(parseIso(bytes, 0, bytes.length))
+		? Inferred.String
+		: type;
+}
+
+/** Narrowest type holding values of both types */
+export function unify(a: Inferred, b: Inferred): Inferred {
+	if (a === b || b === Inferred.Null) return a;
+	if (a === Inferred.Null) return b;
+	const numeric = (t: Inferred) =>
+		t === Inferred.Int32 || t === Inferred.Int64 || t === Inferred.Float64;
+	if (numeric(a) && numeric(b)) return Math.max(a, b);
+	const temporal = (t: Inferred) =>
+		t === Inferred.Date || t === Inferred.Timestamp;
+	if (temporal(a) && temporal(b)) return Inferred.Timestamp;
+	return Inferred.String;
+}
+
+/** DType for an inferred type; all-null columns become strings */
+export function toDType(type: Inferred, nullable: boolean): DType {
+	const source = nullable ? DType.nullable : DType;
+	switch (type) {
+		case Inferred.Boolean:
+			return source.boolean;
+		case Inferred.Int32:
+			return source.int32;
+		case Inferred.Int64:
+			return source.int64;
+		case Inferred.Float64:
+			return source.float64;
+		case Inferred.Date:
+			return source.date;
+		case Inferred.Timestamp:
+			return source.timestamp;
+		default:
+			return source.string;
+	}
+}
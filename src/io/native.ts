@@ -0,0 +1,329 @@
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by row counts */
+/**
+ * Native chunk format (.mornye files).
+ *
+ * Column buffers are stored as they sit in memory, so a file is read back
+ * by mapping it and viewing each column's section in place: no parsing
+ * and no copying beyond the dictionary. Layout:
+ *
+ *   "MORNYE01"
+ *   per chunk, per column: values, then the null bitmap if nullable
+ *   dictionary: uint32 string offsets (count + 1), then UTF-8 bytes
+ *   metadata (JSON): schema, section offsets and row counts
+ *   uint32 metadata length, "MORNYE01"
+ *
+ * Sections start on 8-byte boundaries so they can back any TypedArray.
+ * Values are in the platform's byte order (little-endian everywhere Bun
+ * runs). String and List columns index the file's dictionary, which
+ * holds only the entries the written rows reference.
+ */
+
+import { renameSync, rmSync } from "node:fs";
+import { Chunk } from "../buffer/chunk.ts";
+import {
+	columnBufferFromShared,
+	type TypedArray,
+} from "../buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../buffer/dictionary.ts";
+import { DataFrame } from "../dataframe/core.ts";
+import {
+	DTYPE_ARRAY_CONSTRUCTORS,
+	type DType,
+	DTypeKind,
+} from "../types/dtypes.ts";
+import { ErrorCode, getErrorMessage } from "../types/error.ts";
+import { createSchema, type Schema, type SchemaSpec } from "../types/schema.ts";
+
+/** Native reading options */
+export interface NativeReadOptions {
+	/**
+	 * Map the file into memory instead of reading it (default: true).
+	 * The file must not be truncated while a mapped DataFrame is in use.
+	 */
+	mmap?: boolean;
+}
+
+/** Location of one column's sections */
+interface NativeColumn {
+	data: number;
+	nulls: number | null;
+}
+
+/** File metadata, stored as JSON before the trailer */
+interface NativeMetadata {
+	version: number;
+	columns: { name: string; dtype: DType }[];
+	chunks: { rows: number; columns: NativeColumn[] }[];
+	dictionary: { offset: number; count: number } | null;
+}
+
+const MAGIC = new TextEncoder().encode("MORNYE01");
+const VERSION = 1;
+const TRAILER_SIZE = 4 + MAGIC.length;
+
+/**
+ * Native format writer. Chunks are written to a temporary file next to
+ * `path`, which replaces `path` on close(); a mapped earlier version of
+ * the file stays readable.
+ */
+export class NativeWriter {
+	private readonly path: string;
+	private readonly tempPath: string;
+	private readonly sink: Bun.FileSink;
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly chunks: NativeMetadata["chunks"] = [];
+	private offset: number = 0;
+
+	/** Entries referenced by the written rows, in first-use order */
+	private readonly output: Dictionary = createDictionary();
+	/** Output index of each source index, -1 until first use */
+	private remap: Int32Array = new Int32Array(0);
+	private remapSource: Dictionary | null = null;
+
+	constructor(path: string, schema: Schema, dictionary: Dictionary | null) {
+		this.path = path;
+		this.tempPath = `${path}.${process.pid}.tmp`;
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.sink = Bun.file(this.tempPath).writer();
+		this.emit(MAGIC);
+	}
+
+	/**
+	 * Write the selected rows of a chunk.
+	 */
+	async write(chunk: Chunk): Promise<void> {
+		const rows = chunk.rowCount;
+		if (rows === 0) return;
+		const source = chunk.dictionary ?? this.dictionary;
+		const selection = chunk.getSelection();
+		const columns: NativeColumn[] = [];
+
+		for (let c = 0; c < this.schema.columns.length; c++) {
+			const def = this.schema.columns[c]!;
+			const column = chunk.getColumn(c);
+			if (!column) throw new Error(`Missing column '${def.name}'`);
+			const indexed =
+				def.dtype.kind === DTypeKind.String ||
+				def.dtype.kind === DTypeKind.List;
+
+			let values = column.data.subarray(0, rows) as TypedArray;
+			if (selection !== null || indexed) {
+				const Constructor = DTYPE_ARRAY_CONSTRUCTORS[def.dtype.kind];
+				const copy = new Constructor(rows) as TypedArray;
+				for (let r = 0; r < rows; r++) {
+					const row = selection === null ? r : selection[r]!;
+					if (!indexed) copy[r] = column.data[row]!;
+					else if (!column.isNull(row)) {
+						copy[r] = this.intern(source, column.data[row] as number);
+					}
+				}
+				values = copy;
+			}
+
+			const data = this.align();
+			this.emit(
+				new Uint8Array(values.buffer, values.byteOffset, values.byteLength),
+			);
+
+			let nulls: number | null = null;
+			if (def.dtype.nullable) {
+				const bitmap = new Uint8Array(Math.ceil(rows / 8));
+				for (let r = 0; r < rows; r++) {
+					const row = selection === null ? r : selection[r]!;
+					if (column.isNull(row)) bitmap[r >>> 3]! |= 1 << (r & 7);
+				}
+				nulls = this.align();
+				this.emit(bitmap);
+			}
+			columns.push({ data, nulls });
+		}
+
+		this.chunks.push({ rows, columns });
+		await this.sink.flush();
+	}
+
+	/**
+	 * Write the dictionary and metadata, then move the file into place.
+	 */
+	async close(): Promise<void> {
+		let dictionary: NativeMetadata["dictionary"] = null;
+		if (this.output.size > 0) {
+			const count = this.output.size;
+			const offsets = new Uint32Array(count + 1);
+			for (let i = 0; i < count; i++) {
+				offsets[i + 1] = offsets[i]! + this.output.getBytes(i)!.length;
+			}
+			dictionary = { offset: this.align(), count };
+			this.emit(new Uint8Array(offsets.buffer));
+			for (let i = 0; i < count; i++) this.emit(this.output.getBytes(i)!);
+		}
+
+		const metadata: NativeMetadata = {
+			version: VERSION,
+			columns: this.schema.columns.map((c) => ({
+				name: c.name,
+				dtype: c.dtype,
+			})),
+			chunks: this.chunks,
+			dictionary,
+		};
+		const json = new TextEncoder().encode(JSON.stringify(metadata));
+		const trailer = new Uint8Array(TRAILER_SIZE);
+		new DataView(trailer.buffer).setUint32(0, json.length, true);
+		trailer.set(MAGIC, 4);
+		this.emit(json);
+		this.emit(trailer);
+		await this.sink.end();
+		renameSync(this.tempPath, this.path);
+	}
+
+	/**
+	 * Discard the partly written file (after a failure).
+	 */
+	async abort(): Promise<void> {
+		await this.sink.end();
+		rmSync(this.tempPath, { force: true });
+	}
+
+	/** Output dictionary index of a source dictionary index */
+	private intern(source: Dictionary | null, index: number): number {
+		if (source === null) throw new Error("String column without dictionary");
+		if (source !== this.remapSource) {
+			this.remapSource = source;
+			this.remap = new Int32Array(0);
+		}
+		if (index >= this.remap.length) {
+			const grown = new Int32Array(Math.max(source.size, index + 1)).fill(-1);
+			grown.set(this.remap);
+			this.remap = grown;
+		}
+		let mapped = this.remap[index]!;
+		if (mapped === -1) {
+			const bytes = source.getBytes(index);
+			if (bytes === undefined) {
+				throw new Error(`Dictionary index ${index} out of range`);
+			}
+			mapped = this.output.intern(bytes);
+			this.remap[index] = mapped;
+		}
+		return mapped;
+	}
+
+	/** Pad to the next 8-byte boundary, returning the new offset */
+	private align(): number {
+		const padding = (8 - (this.offset % 8)) % 8;
+		if (padding > 0) this.emit(new Uint8Array(padding));
+		return this.offset;
+	}
+
+	private emit(bytes: Uint8Array): void {
+		this.sink.write(bytes);
+		this.offset += bytes.length;
+	}
+}
+
+/**
+ * Read a .mornye file. Column buffers are views into the mapped file
+ * (mapped copy-on-write, so changes never reach the file).
+ */
+export async function readNative(
+	path: string,
+	options?: NativeReadOptions,
+): Promise<DataFrame> {
+	const file = Bun.file(path);
+	if (!(await file.exists())) {
+		throw new Error(`Native file not found: ${path}`);
+	}
+	const bytes =
+		(options?.mmap ?? true)
+			? Bun.mmap(path, { shared: false })
+			: new Uint8Array(await file.arrayBuffer());
+
+	const metadata = readMetadata(bytes, path);
+	const spec: SchemaSpec = {};
+	for (const column of metadata.columns) spec[column.name] = column.dtype;
+	const schema = createSchema(spec);
+	if (schema.error !== ErrorCode.None) {
+		throw new Error(`Native schema error: ${getErrorMessage(schema.error)}`);
+	}
+
+	const dictionary = readDictionary(bytes, metadata);
+	const chunks = metadata.chunks.map((chunk) => {
+		const columns = metadata.columns.map((def, c) => {
+			const { data, nulls } = chunk.columns[c]!;
+			const View = DTYPE_ARRAY_CONSTRUCTORS[def.dtype.kind] as unknown as new (
+				buffer: ArrayBuffer,
+				byteOffset: number,
+				length: number,
+			) => TypedArray;
+			return columnBufferFromShared({
+				kind: def.dtype.kind,
+				data: new View(bytes.buffer, bytes.byteOffset + data, chunk.rows),
+				nulls:
+					nulls === null
+						? null
+						: bytes.subarray(nulls, nulls + Math.ceil(chunk.rows / 8)),
+				length: chunk.rows,
+			});
+		});
+		return new Chunk(schema.value, columns, dictionary);
+	});
+
+	return chunks.length === 0
+		? DataFrame.empty(schema.value, dictionary)
+		: DataFrame.fromChunks(chunks, schema.value, dictionary);
+}
+
+function readMetadata(bytes: Uint8Array, path: string): NativeMetadata {
+	const size = bytes.length;
+	if (
+		size < MAGIC.length + TRAILER_SIZE ||
+		!hasMagic(bytes, 0) ||
+		!hasMagic(bytes, size - MAGIC.length)
+	) {
+		throw new Error(`Not a mornye file: ${path}`);
+	}
+	const view = new DataView(bytes.buffer, bytes.byteOffset, size);
+	const length = view.getUint32(size - TRAILER_SIZE, true);
+	const start = size - TRAILER_SIZE - length;
+	const metadata = JSON.parse(
+		new TextDecoder().decode(bytes.subarray(start, size - TRAILER_SIZE)),
+	) as NativeMetadata;
+	if (metadata.version !== VERSION) {
+		throw new Error(`Unsupported mornye file version ${metadata.version}`);
+	}
+	return metadata;
+}
+
+/** Intern the file's strings; their order gives back the stored indices */
+function readDictionary(
+	bytes: Uint8Array,
+	metadata: NativeMetadata,
+): Dictionary {
+	const dictionary = createDictionary();
+	if (metadata.dictionary === null) return dictionary;
+
+	const { offset, count } = metadata.dictionary;
+	const offsets = new Uint32Array(
+		bytes.buffer,
+		bytes.byteOffset + offset,
+		count + 1,
+	);
+	const start = offset + offsets.byteLength;
+	for (let i = 0; i < count; i++) {
+		const index = dictionary.intern(
+			bytes.subarray(start + offsets[i]!, start + offsets[i + 1]!),
+		);
+		if (index !== i) throw new Error("Corrupt mornye dictionary");
+	}
+	return dictionary;
+}
+
+function hasMagic(bytes: Uint8Array, at: number): boolean {
+	for (let i = 0; i < MAGIC.length; i++) {
+		if (bytes[at + i] !== MAGIC[i]) return false;
+	}
+	return true;
+}
@@ -0,0 +1,367 @@
+/**
+ * NDJSON (JSON Lines) parser.
+ *
+ * Splits the byte stream on newlines, parses each line as a JSON object
+ * and appends values into column buffers. Strings are dictionary-interned.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by schema */
+
+import { Chunk } from "../buffer/chunk.ts";
+import type { ColumnBuffer } from "../buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../buffer/dictionary.ts";
+import { bufferPool } from "../buffer/pool.ts";
+import { type DType, DTypeKind } from "../types/dtypes.ts";
+import {
+	ErrorCode,
+	err,
+	getErrorMessage,
+	type Result,
+	unwrap,
+} from "../types/error.ts";
+import { createSchema, type Schema } from "../types/schema.ts";
+import { compileDateFormat, millisToDays } from "./date-format.ts";
+import { Inferred, inferIso, toDType, unify } from "./infer.ts";
+
+/** NDJSON parsing options */
+export interface NdjsonOptions {
+	/** Maximum rows per chunk (default: 16384) */
+	chunkSize?: number;
+	/** Lines sampled for schema inference (default: 1000) */
+	inferSchemaLength?: number;
+}
+
+/** Default number of lines sampled for schema inference */
+export const DEFAULT_INFER_SCHEMA_LENGTH = 1000;
+
+const LF = 10;
+const CR = 13;
+
+/** Same ISO parser as the CSV path: validates the calendar, no offset means UTC */
+const parseIso = unwrap(compileDateFormat("iso"));
+const encoder = new TextEncoder();
+
+/** Epoch milliseconds of an ISO date or datetime string, NaN when invalid */
+function parseIsoString(text: string): number {
+	const bytes = encoder.encode(text);
+	return parseIso(bytes, 0, bytes.length);
+}
+
+/**
+ * Streaming NDJSON parser that produces chunks.
+ */
+export class NdjsonParser {
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary;
+	private readonly chunkSize: number;
+	private readonly decoder = new TextDecoder();
+
+	private columns: ColumnBuffer[] | null = null;
+	private chunkRowCount: number = 0;
+	private lineNumber: number = 0;
+	private remainder: Uint8Array | null = null;
+
+	constructor(schema: Schema, options?: NdjsonOptions) {
+		this.schema = schema;
+		this.dictionary = createDictionary();
+		this.chunkSize = options?.chunkSize ?? 16384;
+		if (this.chunkSize <= 0) throw new Error("Invalid chunk size");
+	}
+
+	getDictionary(): Dictionary {
+		return this.dictionary;
+	}
+
+	getSchema(): Schema {
+		return this.schema;
+	}
+
+	reset(): void {
+		if (this.columns) {
+			for (const col of this.columns) {
+				bufferPool.release(col);
+			}
+		}
+		this.columns = null;
+		this.chunkRowCount = 0;
+		this.lineNumber = 0;
+		this.remainder = null;
+	}
+
+	/**
+	 * Parse a block of bytes. A trailing partial line is kept for the next call.
+	 * Throws on malformed JSON or values that cannot be coerced,
+	 * with the 1-based line number in the message.
+	 */
+	parse(data: Uint8Array): Chunk[] {
+		const chunks: Chunk[] = [];
+		let bytes = data;
+		if (this.remainder !== null) {
+			bytes = new Uint8Array(this.remainder.length + data.length);
+			bytes.set(this.remainder);
+			bytes.set(data, this.remainder.length);
+			this.remainder = null;
+		}
+
+		let start = 0;
+		let i = bytes.indexOf(LF);
+		while (i !== -1) {
+			this.parseLine(bytes, start, i, chunks);
+			start = i + 1;
+			i = bytes.indexOf(LF, start);
+		}
+
+		if (start < bytes.length) {
+			this.remainder = bytes.slice(start);
+		}
+		return chunks;
+	}
+
+	/**
+	 * Flush the final line and any buffered rows.
+	 */
+	finish(): Chunk | null {
+		const chunks: Chunk[] = [];
+		if (this.remainder !== null) {
+			const last = this.remainder;
+			this.remainder = null;
+			this.parseLine(last, 0, last.length, chunks);
+		}
+		if (chunks.length > 0) return chunks[0]!;
+
+		if (this.columns === null || this.chunkRowCount === 0) return null;
+		const chunk = new Chunk(this.schema, this.columns, this.dictionary);
+		this.columns = null;
+		this.chunkRowCount = 0;
+		return chunk;
+	}
+
+	private parseLine(
+		bytes: Uint8Array,
+		start: number,
+		end: number,
+		chunks: Chunk[],
+	): void {
+		this.lineNumber++;
+		if (end > start && bytes[end - 1] === CR) end--;
+		if (isBlank(bytes, start, end)) return;
+
+		let record: unknown;
+		try {
+			record = JSON.parse(this.decoder.decode(bytes.subarray(start, end)));
+		} catch {
+			this.fail(ErrorCode.MalformedData);
+		}
+		if (
+			record === null ||
+			typeof record !== "object" ||
+			Array.isArray(record)
+		) {
+			this.fail(ErrorCode.MalformedData);
+		}
+
+		this.ensureColumns();
+		const columns = this.columns!;
+		const defs = this.schema.columns;
+		const values = record as Record<string, unknown>;
+		for (let c = 0; c < defs.length; c++) {
+			const def = defs[c]!;
+			const code = this.appendValue(columns[c]!, def.dtype, values[def.name]);
+			if (code !== ErrorCode.None) {
+				this.fail(code, def.name);
+			}
+		}
+
+		this.chunkRowCount++;
+		if (this.chunkRowCount >= this.chunkSize) {
+			chunks.push(new Chunk(this.schema, columns, this.dictionary));
+			this.columns = null;
+			this.chunkRowCount = 0;
+		}
+	}
+
+	private appendValue(
+		col: ColumnBuffer,
+		dtype: DType,
+		value: unknown,
+	): ErrorCode {
+		if (value === null || value === undefined) {
+			if (!dtype.nullable) return ErrorCode.TypeMismatch;
+			return col.appendNull();
+		}
+
+		switch (dtype.kind) {
+			case DTypeKind.String:
+				return col.append(
+					this.dictionary.internString(
+						typeof value === "string" ? value : JSON.stringify(value),
+					) as never,
+				);
+			case DTypeKind.Boolean:
+				if (typeof value !== "boolean") return ErrorCode.InvalidBoolean;
+				return col.append((value ? 1 : 0) as never);
+			case DTypeKind.Int64:
+			case DTypeKind.UInt64: {
+				const n = toBigInt(value);
+				if (n === null) return ErrorCode.InvalidNumber;
+				return col.append(n as never);
+			}
+			case DTypeKind.Float32:
+			case DTypeKind.Float64: {
+				const n = toNumber(value);
+				if (n === null) return ErrorCode.InvalidNumber;
+				return col.append(n as never);
+			}
+			case DTypeKind.Date: {
+				const days =
+					typeof value === "string"
+						? millisToDays(parseIsoString(value))
+						: toNumber(value);
+				if (days === null || !Number.isInteger(days)) {
+					return ErrorCode.InvalidDate;
+				}
+				return col.append(days as never);
+			}
+			case DTypeKind.Timestamp: {
+				const ms =
+					typeof value === "string" ? parseIsoString(value) : toNumber(value);
+				if (ms === null || !Number.isInteger(ms)) return ErrorCode.InvalidDate;
+				return col.append(BigInt(ms) as never);
+			}
+			default: {
+				// Remaining kinds are 8-32 bit integers
+				const n = toNumber(value);
+				if (n === null || !Number.isInteger(n)) return ErrorCode.InvalidNumber;
+				// Typed arrays wrap out-of-range values; read back to detect it
+				const code = col.append(n as never);
+				if (col.data[col.length - 1] !== n) return ErrorCode.CastOverflow;
+				return code;
+			}
+		}
+	}
+
+	private ensureColumns(): void {
+		if (this.columns !== null) return;
+		this.columns = this.schema.columns.map((def) =>
+			bufferPool.acquire(def.dtype.kind, this.chunkSize, def.dtype.nullable),
+		);
+	}
+
+	private fail(code: ErrorCode, column?: string): never {
+		const where = column === undefined ? "" : ` in column '${column}'`;
+		throw new Error(
+			`NDJSON line ${this.lineNumber}: ${getErrorMessage(code)}${where}`,
+		);
+	}
+}
+
+function isBlank(bytes: Uint8Array, start: number, end: number): boolean {
+	for (let i = start; i < end; i++) {
+		const b = bytes[i]!;
+		if (b !== 32 && b !== 9) return false;
+	}
+	return true;
+}
+
+function toNumber(value: unknown): number | null {
+	if (typeof value === "number") return value;
+	if (typeof value === "string" && value.trim() !== "") {
+		const n = Number(value);
+		return Number.isNaN(n) ? null : n;
+	}
+	return null;
+}
+
+function toBigInt(value: unknown): bigint | null {
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? BigInt(value) : null;
+	}
+	if (typeof value === "string") {
+		try {
+			return BigInt(value.trim());
+		} catch {
+			return null;
+		}
+	}
+	return null;
+}
+
+/** Infer the type of a parsed JSON value */
+function inferValue(value: unknown): Inferred {
+	if (value === null || value === undefined) return Inferred.Null;
+	switch (typeof value) {
+		case "boolean":
+			return Inferred.Boolean;
+		case "number":
+			if (!Number.isInteger(value)) return Inferred.Float64;
+			return value >= -2147483648 && value <= 2147483647
+				? Inferred.Int32
+				: Inferred.Int64;
+		case "string":
+			return inferIso(value);
+		default:
+			return Inferred.String;
+	}
+}
+
+/**
+ * Infer a schema from sample lines.
+ * Columns appear in first-seen key order. A column is nullable if any
+ * sampled line has null for it or omits the key.
+ */
+export function inferNdjsonSchema(lines: string[]): Result<Schema> {
+	const types = new Map<string, Inferred>();
+	const nullable = new Set<string>();
+	let rows = 0;
+
+	for (const line of lines) {
+		if (line.trim() === "") continue;
+		let record: unknown;
+		try {
+			record = JSON.parse(line);
+		} catch {
+			return err(ErrorCode.MalformedData);
+		}
+		if (
+			record === null ||
+			typeof record !== "object" ||
+			Array.isArray(record)
+		) {
+			return err(ErrorCode.MalformedData);
+		}
+
+		const values = record as Record<string, unknown>;
+		for (const name of types.keys()) {
+			if (!(name in values)) nullable.add(name);
+		}
+		for (const [name, value] of Object.entries(values)) {
+			const type = inferValue(value);
+			const previous = types.get(name);
+			if (previous === undefined) {
+				types.set(name, type);
+				if (rows > 0) nullable.add(name);
+			} else {
+				types.set(name, unify(previous, type));
+			}
+			if (type === Inferred.Null) nullable.add(name);
+		}
+		rows++;
+	}
+
+	if (rows === 0) return err(ErrorCode.EmptyInput);
+
+	const spec: Record<string, DType> = {};
+	for (const [name, type] of types) {
+		spec[name] = toDType(type, nullable.has(name));
+	}
+	return createSchema(spec);
+}
+
+/**
+ * Create an NDJSON parser with the given schema.
+ */
+export function createNdjsonParser(
+	schema: Schema,
+	options?: NdjsonOptions,
+): NdjsonParser {
+	return new NdjsonParser(schema, options);
+}
@@ -0,0 +1,207 @@
+/**
+ * NDJSON source for reading JSON Lines files.
+ *
+ * Same streaming model as CsvSource: the byte stream is parsed
+ * into chunks without loading the whole file.
+ */
+
+import type { Chunk } from "../buffer/chunk.ts";
+import type { Dictionary } from "../buffer/dictionary.ts";
+import type { DType } from "../types/dtypes.ts";
+import { ErrorCode, err, ok, type Result } from "../types/error.ts";
+import { createSchema, type Schema } from "../types/schema.ts";
+import {
+	createNdjsonParser,
+	DEFAULT_INFER_SCHEMA_LENGTH,
+	inferNdjsonSchema,
+	type NdjsonOptions,
+	type NdjsonParser,
+} from "./ndjson-parser.ts";
+
+/** Schema specification for NDJSON reading */
+export type NdjsonSchemaSpec = Record<string, DType>;
+
+/**
+ * NDJSON source that reads from a file or string.
+ */
+export class NdjsonSource {
+	private readonly parser: NdjsonParser;
+	private readonly source: string;
+	private readonly isFile: boolean;
+
+	private constructor(source: string, parser: NdjsonParser, isFile: boolean) {
+		this.source = source;
+		this.parser = parser;
+		this.isFile = isFile;
+	}
+
+	/**
+	 * Create an NDJSON source from a file path.
+	 * Without a schema, one is inferred from the first lines of the file.
+	 */
+	static async fromFile(
+		path: string,
+		schemaSpec?: NdjsonSchemaSpec,
+		options?: NdjsonOptions,
+	): Promise<Result<NdjsonSource>> {
+		const file = Bun.file(path);
+		if (!(await file.exists())) {
+			return err(ErrorCode.FileNotFound);
+		}
+
+		let schemaResult: Result<Schema>;
+		if (schemaSpec) {
+			schemaResult = createSchema(schemaSpec);
+		} else {
+			const lines = await sampleLines(
+				file.stream(),
+				options?.inferSchemaLength ?? DEFAULT_INFER_SCHEMA_LENGTH,
+			);
+			schemaResult = inferNdjsonSchema(lines);
+		}
+		if (schemaResult.error !== ErrorCode.None) {
+			return err(schemaResult.error);
+		}
+
+		const parser = createNdjsonParser(schemaResult.value, options);
+		return ok(new NdjsonSource(path, parser, true));
+	}
+
+	/**
+	 * Create an NDJSON source from a string.
+	 */
+	static fromString(
+		content: string,
+		schemaSpec?: NdjsonSchemaSpec,
+		options?: NdjsonOptions,
+	): Result<NdjsonSource> {
+		let schemaResult: Result<Schema>;
+		if (schemaSpec) {
+			schemaResult = createSchema(schemaSpec);
+		} else {
+			const limit = options?.inferSchemaLength ?? DEFAULT_INFER_SCHEMA_LENGTH;
+			schemaResult = inferNdjsonSchema(content.split("\n", limit));
+		}
+		if (schemaResult.error !== ErrorCode.None) {
+			return err(schemaResult.error);
+		}
+
+		const parser = createNdjsonParser(schemaResult.value, options);
+		return ok(new NdjsonSource(content, parser, false));
+	}
+
+	/**
+	 * Get the dictionary for string values.
+	 */
+	getDictionary(): Dictionary {
+		return this.parser.getDictionary();
+	}
+
+	/**
+	 * Get the schema used for parsing (given or inferred).
+	 */
+	getSchema(): Schema {
+		return this.parser.getSchema();
+	}
+
+	/**
+	 * Parse string content synchronously (for string sources only).
+	 */
+	parseSync(): Chunk[] {
+		if (this.isFile) {
+			throw new Error("parseSync() only works for string sources");
+		}
+
+		this.parser.reset();
+		const chunks = this.parser.parse(new TextEncoder().encode(this.source));
+		const final = this.parser.finish();
+		if (final) {
+			chunks.push(final);
+		}
+		return chunks;
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<Chunk> {
+		return this.stream();
+	}
+
+	/**
+	 * Stream chunks (async iterator).
+	 */
+	async *stream(): AsyncGenerator<Chunk> {
+		this.parser.reset();
+		if (!this.isFile) {
+			yield* this.parseSync();
+			return;
+		}
+
+		const reader = Bun.file(this.source).stream().getReader();
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+
+				for (const chunk of this.parser.parse(value)) {
+					yield chunk;
+				}
+			}
+
+			const final = this.parser.finish();
+			if (final) {
+				yield final;
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	}
+}
+
+/**
+ * Read up to `limit` complete lines from the start of a byte stream.
+ */
+async function sampleLines(
+	stream: ReadableStream<Uint8Array>,
+	limit: number,
+): Promise<string[]> {
+	const decoder = new TextDecoder();
+	const reader = stream.getReader();
+	let text = "";
+	let newlines = 0;
+
+	try {
+		while (newlines < limit) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			text += decoder.decode(value, { stream: true });
+			for (let i = value.indexOf(10); i !== -1; i = value.indexOf(10, i + 1)) {
+				newlines++;
+			}
+		}
+	} finally {
+		await reader.cancel();
+	}
+
+	return text.split("\n").slice(0, limit);
+}
+
+/**
+ * Convenience function to read NDJSON from a file.
+ */
+export function readNdjsonFile(
+	path: string,
+	schema?: NdjsonSchemaSpec,
+	options?: NdjsonOptions,
+): Promise<Result<NdjsonSource>> {
+	return NdjsonSource.fromFile(path, schema, options);
+}
+
+/**
+ * Convenience function to read NDJSON from a string.
+ */
+export function readNdjsonString(
+	content: string,
+	schema?: NdjsonSchemaSpec,
+	options?: NdjsonOptions,
+): Result<NdjsonSource> {
+	return NdjsonSource.fromString(content, schema, options);
+}
@@ -0,0 +1,112 @@
+/**
+ * NDJSON writer.
+ *
+ * Encodes chunks as one JSON object per line.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by row counts */
+
+import type { Chunk } from "../buffer/chunk.ts";
+import type { Dictionary } from "../buffer/dictionary.ts";
+import { DTypeKind } from "../types/dtypes.ts";
+import type { Schema } from "../types/schema.ts";
+
+/** NDJSON writing options */
+export interface NdjsonWriteOptions {
+	/** Date output: ISO "YYYY-MM-DD" or days since epoch (default: "iso") */
+	dateFormat?: "iso" | "epoch";
+	/** Timestamp output: ISO 8601 or milliseconds since epoch (default: "iso") */
+	timestampFormat?: "iso" | "epoch";
+}
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Encodes chunks of a fixed schema to NDJSON.
+ */
+export class NdjsonWriter {
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly encoder = new TextEncoder();
+	private readonly keys: string[];
+	private readonly dateFormat: "iso" | "epoch";
+	private readonly timestampFormat: "iso" | "epoch";
+
+	constructor(
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: NdjsonWriteOptions,
+	) {
+		this.schema = schema;
+		this.dictionary = dictionary;
+		// Pre-serialized `"name":` prefixes
+		this.keys = schema.columns.map((c) => `${JSON.stringify(c.name)}:`);
+		this.dateFormat = options?.dateFormat ?? "iso";
+		this.timestampFormat = options?.timestampFormat ?? "iso";
+	}
+
+	/**
+	 * Encode all selected rows of a chunk, one line per row.
+	 */
+	encodeChunk(chunk: Chunk): Uint8Array {
+		const dictionary = chunk.dictionary ?? this.dictionary;
+		const columns = chunk.getColumns();
+		const kinds = this.schema.columns.map((c) => c.dtype.kind);
+		const selection = chunk.getSelection();
+		const rowCount = chunk.rowCount;
+		const lines: string[] = new Array(rowCount);
+
+		for (let r = 0; r < rowCount; r++) {
+			const row = selection === null ? r : selection[r]!;
+			let line = "{";
+			for (let c = 0; c < kinds.length; c++) {
+				if (c > 0) line += ",";
+				line += this.keys[c]!;
+
+				const column = columns[c]!;
+				if (column.isNull(row)) {
+					line += "null";
+					continue;
+				}
+
+				const value = column.data[row]!;
+				switch (kinds[c]) {
+					case DTypeKind.String:
+						line += JSON.stringify(
+							dictionary?.getString(value as number) ?? null,
+						);
+						break;
+					case DTypeKind.List:
+						// Lists are stored as JSON text already
+						line += dictionary?.getString(value as number) ?? "null";
+						break;
+					case DTypeKind.Boolean:
+						line += value ? "true" : "false";
+						break;
+					case DTypeKind.Int64:
+					case DTypeKind.UInt64:
+						// Emit exact integers; JSON numbers have no bigint form
+						line += String(value);
+						break;
+					case DTypeKind.Date:
+						line +=
+							this.dateFormat === "epoch"
+								? String(value)
+								: `"${new Date(Number(value) * MS_PER_DAY).toISOString().slice(0, 10)}"`;
+						break;
+					case DTypeKind.Timestamp:
+						line +=
+							this.timestampFormat === "epoch"
+								? String(value)
+								: `"${new Date(Number(value)).toISOString()}"`;
+						break;
+					default:
+						// NaN and Infinity have no JSON representation
+						line += Number.isFinite(value) ? String(value) : "null";
+				}
+			}
+			lines[r] = `${line}}\n`;
+		}
+
+		return this.encoder.encode(lines.join(""));
+	}
+}
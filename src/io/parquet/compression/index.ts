@@ -0,0 +1,100 @@
+/**
+ * Compression codec registry.
+ *
+ * Maps Parquet CompressionCodec values to page decompressors and
+ * compressors. Codecs without an entry fail with an explicit error
+ * instead of being read as uncompressed bytes.
+ */
+
+import { brotliDecompressSync } from "node:zlib";
+import { CompressionCodec } from "../types.ts";
+import { lz4BlockUncompress, lz4HadoopUncompress } from "./lz4.ts";
+import { snappyCompress, snappyUncompress } from "./snappy.ts";
+
+/** Decompress a page given its known uncompressed size */
+export type Decompressor = (
+	input: Uint8Array,
+	uncompressedSize: number,
+) => Uint8Array;
+
+/** Compress a page */
+export type Compressor = (input: Uint8Array) => Uint8Array;
+
+// Page buffers are never shared, the casts below only narrow the buffer type
+const DECOMPRESSORS: Partial<Record<CompressionCodec, Decompressor>> = {
+	[CompressionCodec.UNCOMPRESSED]: (input) => input,
+	[CompressionCodec.SNAPPY]: (input, size) => {
+		const output = new Uint8Array(size);
+		snappyUncompress(input, output);
+		return output;
+	},
+	[CompressionCodec.GZIP]: (input) =>
+		Bun.gunzipSync(input as Uint8Array<ArrayBuffer>),
+	[CompressionCodec.BROTLI]: (input) => brotliDecompressSync(input),
+	[CompressionCodec.LZ4]: (input, size) => {
+		const output = new Uint8Array(size);
+		lz4HadoopUncompress(input, output);
+		return output;
+	},
+	[CompressionCodec.ZSTD]: (input) =>
+		Bun.zstdDecompressSync(input as Uint8Array<ArrayBuffer>),
+	[CompressionCodec.LZ4_RAW]: (input, size) => {
+		const output = new Uint8Array(size);
+		if (lz4BlockUncompress(input, output) !== size) {
+			throw new Error("premature end of lz4 input");
+		}
+		return output;
+	},
+};
+
+const COMPRESSORS: Partial<Record<CompressionCodec, Compressor>> = {
+	[CompressionCodec.UNCOMPRESSED]: (input) => input,
+	[CompressionCodec.SNAPPY]: snappyCompress,
+	[CompressionCodec.GZIP]: (input) =>
+		Bun.gzipSync(input as Uint8Array<ArrayBuffer>),
+	[CompressionCodec.ZSTD]: (input) =>
+		Bun.zstdCompressSync(input as Uint8Array<ArrayBuffer>),
+};
+
+function codecName(codec: CompressionCodec): string {
+	return CompressionCodec[codec] ?? `codec ${codec}`;
+}
+
+/**
+ * Decompress a page. Throws for codecs without a decompressor.
+ */
+export function decompress(
+	codec: CompressionCodec,
+	input: Uint8Array,
+	uncompressedSize: number,
+): Uint8Array {
+	const decompressor = DECOMPRESSORS[codec];
+	if (!decompressor) {
+		throw new Error(
+			`Unsupported Parquet compression codec: ${codecName(codec)}`,
+		);
+	}
+	const output = decompressor(input, uncompressedSize);
+	if (output.length !== uncompressedSize) {
+		throw new Error(
+			`${codecName(codec)} page decompressed to ${output.length} bytes, expected ${uncompressedSize}`,
+		);
+	}
+	return output;
+}
+
+/**
+ * Compress a page. Throws for codecs without a compressor.
+ */
+export function compress(
+	codec: CompressionCodec,
+	input: Uint8Array,
+): Uint8Array {
+	const compressor = COMPRESSORS[codec];
+	if (!compressor) {
+		throw new Error(
+			`Unsupported Parquet compression codec for writing: ${codecName(codec)}`,
+		);
+	}
+	return compressor(input);
+}
@@ -0,0 +1,116 @@
+/** biome-ignore-all lint/style/noNonNullAssertion: Bounds checked by the decoder */
+
+/**
+ * Decompress a raw LZ4 block (no frame header), as used by LZ4_RAW.
+ *
+ * @param {Uint8Array} input compressed block
+ * @param {Uint8Array} output output buffer sized to the uncompressed length
+ * @returns {number} bytes written
+ */
+export function lz4BlockUncompress(
+	input: Uint8Array,
+	output: Uint8Array,
+): number {
+	let pos = 0;
+	let outPos = 0;
+
+	while (pos < input.length) {
+		const token = input[pos++]!;
+
+		// Literals
+		let literals = token >>> 4;
+		if (literals === 15) {
+			let b = 255;
+			while (b === 255) {
+				if (pos >= input.length)
+					throw new Error("lz4 error literal length overrun");
+				b = input[pos++]!;
+				literals += b;
+			}
+		}
+		if (pos + literals > input.length || outPos + literals > output.length) {
+			throw new Error("lz4 error literal exceeds buffer");
+		}
+		output.set(input.subarray(pos, pos + literals), outPos);
+		pos += literals;
+		outPos += literals;
+
+		// Last sequence has literals only
+		if (pos >= input.length) break;
+
+		if (pos + 2 > input.length) throw new Error("lz4 error truncated offset");
+		const offset = input[pos]! | (input[pos + 1]! << 8);
+		pos += 2;
+		if (offset === 0 || offset > outPos) {
+			throw new Error(`invalid lz4 offset ${offset} at ${outPos}`);
+		}
+
+		let length = (token & 0x0f) + 4;
+		if ((token & 0x0f) === 15) {
+			let b = 255;
+			while (b === 255) {
+				if (pos >= input.length)
+					throw new Error("lz4 error match length overrun");
+				b = input[pos++]!;
+				length += b;
+			}
+		}
+		if (outPos + length > output.length) {
+			throw new Error("lz4 error match exceeds buffer");
+		}
+
+		const start = outPos - offset;
+		if (offset >= length) {
+			output.copyWithin(outPos, start, start + length);
+		} else {
+			// Overlapping copy repeats the last `offset` bytes
+			for (let i = 0; i < length; i++) {
+				output[outPos + i] = output[start + i]!;
+			}
+		}
+		outPos += length;
+	}
+
+	return outPos;
+}
+
+/**
+ * Decompress the deprecated LZ4 codec.
+ * Writers used either the Hadoop framing (big-endian uncompressed and
+ * compressed sizes before each block) or a bare block; try framing first.
+ *
+ * @param {Uint8Array} input compressed data
+ * @param {Uint8Array} output output buffer sized to the uncompressed length
+ */
+export function lz4HadoopUncompress(
+	input: Uint8Array,
+	output: Uint8Array,
+): void {
+	const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+	let pos = 0;
+	let outPos = 0;
+	try {
+		while (pos + 8 <= input.length) {
+			const rawSize = view.getUint32(pos, false);
+			const blockSize = view.getUint32(pos + 4, false);
+			pos += 8;
+			if (pos + blockSize > input.length || outPos + rawSize > output.length) {
+				throw new Error("not hadoop framed");
+			}
+			const written = lz4BlockUncompress(
+				input.subarray(pos, pos + blockSize),
+				output.subarray(outPos, outPos + rawSize),
+			);
+			if (written !== rawSize) throw new Error("not hadoop framed");
+			pos += blockSize;
+			outPos += rawSize;
+		}
+		if (pos === input.length && outPos === output.length) return;
+	} catch {
+		// fall through to bare block
+	}
+
+	if (lz4BlockUncompress(input, output) !== output.length) {
+		throw new Error("premature end of lz4 input");
+	}
+}
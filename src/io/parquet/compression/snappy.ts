@@ -135,3 +135,165 @@ export function snappyUncompress(input: Uint8Array, output: Uint8Array) {
 
 	if (outPos !== outputLength) throw new Error("premature end of input");
 }
+
+const BLOCK_LOG = 16;
+const BLOCK_SIZE = 1 << BLOCK_LOG;
+const HASH_TABLE_BITS = 14;
+const HASH_TABLE_SIZE = 1 << HASH_TABLE_BITS;
+
+/**
+ * Compress data with snappy.
+ * Greedy hash-table matcher over 64KB blocks, same format as the decoder above.
+ *
+ * @param {Uint8Array} input uncompressed data
+ * @returns {Uint8Array} compressed data
+ */
+export function snappyCompress(input: Uint8Array): Uint8Array {
+	const output = new Uint8Array(
+		32 + input.length + Math.ceil(input.length / 6),
+	);
+	const table = new Int32Array(HASH_TABLE_SIZE);
+
+	// preamble: uncompressed length as varint
+	let outPos = 0;
+	let n = input.length;
+	while (n > 0x7f) {
+		output[outPos++] = (n & 0x7f) | 0x80;
+		n >>>= 7;
+	}
+	output[outPos++] = n;
+
+	let pos = 0;
+	while (pos < input.length) {
+		const blockEnd = Math.min(pos + BLOCK_SIZE, input.length);
+		outPos = compressBlock(input, pos, blockEnd, output, outPos, table);
+		pos = blockEnd;
+	}
+
+	return output.subarray(0, outPos);
+}
+
+function load32(array: Uint8Array, pos: number): number {
+	return (
+		array[pos]! |
+		(array[pos + 1]! << 8) |
+		(array[pos + 2]! << 16) |
+		(array[pos + 3]! << 24)
+	);
+}
+
+function hashFunc(key: number): number {
+	return Math.imul(key, 0x1e35a7bd) >>> (32 - HASH_TABLE_BITS);
+}
+
+function compressBlock(
+	input: Uint8Array,
+	start: number,
+	end: number,
+	output: Uint8Array,
+	outPos: number,
+	table: Int32Array,
+): number {
+	table.fill(-1);
+	let pos = start;
+	let nextEmit = start;
+
+	// Need at least 4 bytes to hash
+	const limit = end - 4;
+	while (pos <= limit) {
+		const key = load32(input, pos);
+		const h = hashFunc(key);
+		const candidate = table[h]!;
+		table[h] = pos;
+
+		if (candidate >= start && load32(input, candidate) === key) {
+			outPos = emitLiteral(input, nextEmit, pos, output, outPos);
+
+			let len = 4;
+			while (pos + len < end && input[candidate + len] === input[pos + len]) {
+				len++;
+			}
+			outPos = emitCopy(pos - candidate, len, output, outPos);
+			pos += len;
+			nextEmit = pos;
+		} else {
+			pos++;
+		}
+	}
+
+	return emitLiteral(input, nextEmit, end, output, outPos);
+}
+
+function emitLiteral(
+	input: Uint8Array,
+	from: number,
+	to: number,
+	output: Uint8Array,
+	outPos: number,
+): number {
+	const len = to - from;
+	if (len === 0) return outPos;
+
+	const n = len - 1;
+	if (n < 60) {
+		output[outPos++] = n << 2;
+	} else if (n < 0x100) {
+		output[outPos++] = 60 << 2;
+		output[outPos++] = n;
+	} else if (n < 0x10000) {
+		output[outPos++] = 61 << 2;
+		output[outPos++] = n & 0xff;
+		output[outPos++] = n >>> 8;
+	} else if (n < 0x1000000) {
+		output[outPos++] = 62 << 2;
+		output[outPos++] = n & 0xff;
+		output[outPos++] = (n >>> 8) & 0xff;
+		output[outPos++] = n >>> 16;
+	} else {
+		output[outPos++] = 63 << 2;
+		output[outPos++] = n & 0xff;
+		output[outPos++] = (n >>> 8) & 0xff;
+		output[outPos++] = (n >>> 16) & 0xff;
+		output[outPos++] = n >>> 24;
+	}
+
+	output.set(input.subarray(from, to), outPos);
+	return outPos + len;
+}
+
+function emitCopy(
+	offset: number,
+	len: number,
+	output: Uint8Array,
+	outPos: number,
+): number {
+	// Copies are at most 64 bytes; keep the remainder >= 4
+	while (len >= 68) {
+		outPos = emitCopyUpTo64(offset, 64, output, outPos);
+		len -= 64;
+	}
+	if (len > 64) {
+		outPos = emitCopyUpTo64(offset, 60, output, outPos);
+		len -= 60;
+	}
+	return emitCopyUpTo64(offset, len, output, outPos);
+}
+
+function emitCopyUpTo64(
+	offset: number,
+	len: number,
+	output: Uint8Array,
+	outPos: number,
+): number {
+	if (len < 12 && offset < 2048) {
+		// Copy with 1-byte offset
+		output[outPos++] = 1 | ((len - 4) << 2) | ((offset >>> 8) << 5);
+		output[outPos++] = offset & 0xff;
+	} else {
+		// Copy with 2-byte offset
+		output[outPos++] = 2 | ((len - 1) << 2);
+		output[outPos++] = offset & 0xff;
+		output[outPos++] = offset >>> 8;
+	}
+	return outPos;
+}
@@ -3,6 +3,14 @@
  * Ported from hyparquet's convert.js with TypeScript types
  */
 
+import {
+	int96ToMillis,
+	isDecimal,
+	timestampToMillis,
+	timestampUnit,
+} from "./logical.ts";
+import type { SchemaElement } from "./types.ts";
+
 const decoder = new TextDecoder();
 
 /**
@@ -34,54 +42,6 @@ export function bytesToString(
 	return bytes && decoder.decode(bytes);
 }
 
-/**
- * Convert days since epoch to Date.
- */
-export function daysToDate(days: number): Date {
-	return new Date(days * 86400000);
-}
-
-/**
- * Convert milliseconds since epoch to Date.
- */
-export function millisToDate(millis: number | bigint): Date {
-	return new Date(Number(millis));
-}
-
-/**
- * Convert microseconds since epoch to Date.
- */
-export function microsToDate(micros: bigint): Date {
-	return new Date(Number(micros / 1000n));
-}
-
-/**
- * Convert nanoseconds since epoch to Date.
- */
-export function nanosToDate(nanos: bigint): Date {
-	return new Date(Number(nanos / 1000000n));
-}
-
-/**
- * Convert INT96 (days in high 32-bit, nanos in low 64-bit) to Date.
- */
-export function int96ToDate(value: bigint): Date {
-	const days = (value >> 64n) - 2440588n; // Julian to Unix epoch
-	const nano = value & 0xffffffffffffffffn;
-	const nanos = days * 86400000000000n + nano;
-	return nanosToDate(nanos);
-}
-
-export interface SchemaElement {
-	type?: number;
-	type_length?: number;
-	converted_type?: number;
-	scale?: number;
-	precision?: number;
-	repetition_type?: number;
-	name: string;
-}
-
 // Converted type constants (from parquet thrift spec)
 const CONVERTED_TYPE = {
 	UTF8: 0,
@@ -141,12 +101,15 @@ export function convertColumn(
 	element: SchemaElement,
 	options: { utf8?: boolean; keepBytes?: boolean } = {},
 ): unknown[] {
-	const { type, converted_type: ctype, scale } = element;
+	const { type, converted_type: ctype } = element;
 	const { utf8 = true, keepBytes = false } = options;
 
 	// DECIMAL
-	if (ctype === CONVERTED_TYPE.DECIMAL) {
-		const factor = 10 ** -(scale || 0);
+	if (isDecimal(element)) {
+		const logical = element.logical_type;
+		const scale =
+			logical?.type === "DECIMAL" ? logical.scale : (element.scale ?? 0);
+		const factor = 10 ** -scale;
 		return Array.from(data).map((v) => {
 			if (v instanceof Uint8Array) {
 				return parseDecimal(v) * factor;
@@ -155,24 +118,15 @@ export function convertColumn(
 		});
 	}
 
-	// INT96 (timestamp)
+	// INT96 legacy timestamps: milliseconds since epoch
 	if (type === PARQUET_TYPE.INT96) {
-		return Array.from(data).map((v) => int96ToDate(v as bigint));
-	}
-
-	// DATE
-	if (ctype === CONVERTED_TYPE.DATE) {
-		return Array.from(data).map((v) => daysToDate(v as number));
-	}
-
-	// TIMESTAMP_MILLIS
-	if (ctype === CONVERTED_TYPE.TIMESTAMP_MILLIS) {
-		return Array.from(data).map((v) => millisToDate(v as number | bigint));
+		return Array.from(data).map((v) => int96ToMillis(v as bigint));
 	}
 
-	// TIMESTAMP_MICROS
-	if (ctype === CONVERTED_TYPE.TIMESTAMP_MICROS) {
-		return Array.from(data).map((v) => microsToDate(v as bigint));
+	// TIMESTAMP: normalize to milliseconds since epoch
+	const unit = timestampUnit(element);
+	if (unit !== null && unit !== "MILLIS") {
+		return Array.from(data).map((v) => timestampToMillis(v as bigint, unit));
 	}
 
 	// UTF8 / BYTE_ARRAY - keep as bytes for interning if requested
@@ -0,0 +1,154 @@
+/**
+ * DELTA_BINARY_PACKED, DELTA_LENGTH_BYTE_ARRAY and DELTA_BYTE_ARRAY decoding
+ * Ported from hyparquet's delta.js with TypeScript types
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by count */
+
+import { type DataReader, readVarInt } from "./rle.ts";
+
+/**
+ * Read a zigzag-encoded variable-length integer as bigint.
+ */
+function readZigZagBigInt(reader: DataReader): bigint {
+	let result = 0n;
+	let shift = 0n;
+	while (true) {
+		const byte = reader.view.getUint8(reader.offset++);
+		result |= BigInt(byte & 0x7f) << shift;
+		if (!(byte & 0x80)) break;
+		shift += 7n;
+	}
+	return (result >> 1n) ^ -(result & 1n);
+}
+
+/**
+ * Decode DELTA_BINARY_PACKED integers.
+ * Int32 output wraps modulo 2^32, matching writers that compute deltas
+ * with overflowing arithmetic.
+ */
+export function readDeltaBinaryPacked(
+	reader: DataReader,
+	count: number,
+	output: Int32Array | BigInt64Array,
+): void {
+	const int32 = output instanceof Int32Array;
+	const blockSize = readVarInt(reader);
+	const miniblocksPerBlock = readVarInt(reader);
+	readVarInt(reader); // total value count, bounded by page header instead
+	let value = readZigZagBigInt(reader);
+	if (count === 0) return;
+
+	let outputIndex = 0;
+	output[outputIndex++] = int32 ? Number(BigInt.asIntN(32, value)) : value;
+
+	const valuesPerMiniblock = blockSize / miniblocksPerBlock;
+	const bitWidths = new Uint8Array(miniblocksPerBlock);
+
+	while (outputIndex < count) {
+		// new block
+		const minDelta = readZigZagBigInt(reader);
+		for (let i = 0; i < miniblocksPerBlock; i++) {
+			bitWidths[i] = reader.view.getUint8(reader.offset++);
+		}
+
+		for (let i = 0; i < miniblocksPerBlock && outputIndex < count; i++) {
+			// new miniblock
+			const width = BigInt(bitWidths[i]!);
+			if (width === 0n) {
+				for (let j = 0; j < valuesPerMiniblock && outputIndex < count; j++) {
+					value = BigInt.asIntN(64, value + minDelta);
+					output[outputIndex++] = int32
+						? Number(BigInt.asIntN(32, value))
+						: value;
+				}
+				continue;
+			}
+
+			let bitpackPos = 0n;
+			let remaining = valuesPerMiniblock;
+			const mask = (1n << width) - 1n;
+			while (remaining > 0 && outputIndex < count) {
+				let bits =
+					(BigInt(reader.view.getUint8(reader.offset)) >> bitpackPos) & mask;
+				bitpackPos += width;
+				while (bitpackPos >= 8n) {
+					bitpackPos -= 8n;
+					reader.offset++;
+					if (bitpackPos) {
+						bits |=
+							(BigInt(reader.view.getUint8(reader.offset)) <<
+								(width - bitpackPos)) &
+							mask;
+					}
+				}
+				value = BigInt.asIntN(64, value + minDelta + bits);
+				output[outputIndex++] = int32
+					? Number(BigInt.asIntN(32, value))
+					: value;
+				remaining--;
+			}
+			if (remaining > 0) {
+				// skip padding of a partially used miniblock
+				reader.offset += Math.ceil(
+					(remaining * Number(width) + Number(bitpackPos)) / 8,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Decode DELTA_LENGTH_BYTE_ARRAY values.
+ * Output entries are views into the page buffer.
+ */
+export function readDeltaLengthByteArray(
+	reader: DataReader,
+	count: number,
+	output: Uint8Array[],
+): void {
+	const lengths = new Int32Array(count);
+	readDeltaBinaryPacked(reader, count, lengths);
+	for (let i = 0; i < count; i++) {
+		const length = lengths[i]!;
+		output[i] = new Uint8Array(
+			reader.view.buffer,
+			reader.view.byteOffset + reader.offset,
+			length,
+		);
+		reader.offset += length;
+	}
+}
+
+/**
+ * Decode DELTA_BYTE_ARRAY (incremental / front-coded) values.
+ */
+export function readDeltaByteArray(
+	reader: DataReader,
+	count: number,
+	output: Uint8Array[],
+): void {
+	const prefixLengths = new Int32Array(count);
+	readDeltaBinaryPacked(reader, count, prefixLengths);
+	const suffixLengths = new Int32Array(count);
+	readDeltaBinaryPacked(reader, count, suffixLengths);
+
+	for (let i = 0; i < count; i++) {
+		const prefix = prefixLengths[i]!;
+		const suffixLength = suffixLengths[i]!;
+		const suffix = new Uint8Array(
+			reader.view.buffer,
+			reader.view.byteOffset + reader.offset,
+			suffixLength,
+		);
+		if (prefix > 0) {
+			// share the leading bytes of the previous value
+			const value = new Uint8Array(prefix + suffixLength);
+			value.set(output[i - 1]!.subarray(0, prefix));
+			value.set(suffix, prefix);
+			output[i] = value;
+		} else {
+			output[i] = suffix;
+		}
+		reader.offset += suffixLength;
+	}
+}
@@ -132,3 +132,99 @@ function readBitPacked(
 
 	return seen;
 }
+
+/**
+ * Encode values with the run-length encoded/bit-packed hybrid encoding.
+ *
+ * Runs of 8 or more equal values become RLE runs, everything else is
+ * bit-packed in groups of 8. No length prefix is written.
+ */
+export function writeRleBitPackedHybrid(
+	values: ArrayLike<number>,
+	width: number,
+): Uint8Array {
+	const out: number[] = [];
+	const count = values.length;
+	let i = 0;
+
+	while (i < count) {
+		const run = runLength(values, i);
+		if (run >= 8) {
+			writeVarIntTo(out, run << 1);
+			writeRle(out, values[i] ?? 0, width);
+			i += run;
+			continue;
+		}
+
+		// Collect groups of 8 until the next long run starts
+		const start = i;
+		while (i < count && (i === start || runLength(values, i) < 8)) {
+			i = Math.min(i + 8, count);
+		}
+		writeVarIntTo(out, (Math.ceil((i - start) / 8) << 1) | 1);
+		writeBitPacked(out, values, start, i, width);
+	}
+
+	return new Uint8Array(out);
+}
+
+/**
+ * Count how many times the value at `start` repeats.
+ */
+function runLength(values: ArrayLike<number>, start: number): number {
+	const value = values[start];
+	let end = start + 1;
+	while (end < values.length && values[end] === value) end++;
+	return end - start;
+}
+
+/**
+ * Write a ULEB128 variable-length integer.
+ */
+function writeVarIntTo(out: number[], value: number): void {
+	let v = value >>> 0;
+	while (v > 0x7f) {
+		out.push((v & 0x7f) | 0x80);
+		v >>>= 7;
+	}
+	out.push(v);
+}
+
+/**
+ * Write a single RLE value using the minimum bytes for bitWidth.
+ */
+function writeRle(out: number[], value: number, bitWidth: number): void {
+	const width = (bitWidth + 7) >> 3;
+	for (let i = 0; i < width; i++) {
+		out.push((value >>> (i << 3)) & 0xff);
+	}
+}
+
+/**
+ * Bit-pack values[start, end), padding the last group of 8 with zeros.
+ */
+function writeBitPacked(
+	out: number[],
+	values: ArrayLike<number>,
+	start: number,
+	end: number,
+	bitWidth: number,
+): void {
+	const padded = Math.ceil((end - start) / 8) * 8;
+	let buffer = 0;
+	let bits = 0;
+	for (let i = 0; i < padded; i++) {
+		const value = start + i < end ? (values[start + i] ?? 0) : 0;
+		// Feed bit by bit so widths above 24 don't overflow the accumulator
+		for (let b = 0; b < bitWidth; b++) {
+			buffer |= ((value >>> b) & 1) << bits;
+			bits++;
+			if (bits === 8) {
+				out.push(buffer);
+				buffer = 0;
+				bits = 0;
+			}
+		}
+	}
+	if (bits > 0) out.push(buffer);
+}
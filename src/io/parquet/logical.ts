@@ -0,0 +1,158 @@
+/**
+ * Mapping of Parquet column types onto DTypes.
+ *
+ * The logical type wins over the legacy converted type, which wins over
+ * the physical type. Values are read in their physical representation and
+ * normalized by convertColumn: timestamps become milliseconds since epoch,
+ * dates stay days since epoch.
+ */
+
+import { DType } from "../../types/dtypes.ts";
+import { floorDiv } from "../date-format.ts";
+import {
+	ConvertedType,
+	type SchemaElement,
+	type TimeUnit,
+	Type,
+} from "./types.ts";
+
+/** Julian day number of 1970-01-01 */
+const UNIX_EPOCH_JULIAN_DAY = 2440588n;
+const MILLIS_PER_DAY = 86400000n;
+const NANOS_PER_MILLI = 1000000n;
+
+/** Divisor from each timestamp unit to milliseconds */
+const MILLIS_DIVISOR: Record<TimeUnit, bigint> = {
+	MILLIS: 1n,
+	MICROS: 1000n,
+	NANOS: 1000000n,
+};
+
+/**
+ * DType of a leaf column.
+ */
+export function columnDType(element: SchemaElement): DType {
+	const logical = element.logical_type;
+	switch (logical?.type) {
+		case "DATE":
+			return DType.date as DType;
+		case "TIMESTAMP":
+			return DType.timestamp as DType;
+		case "INTEGER":
+			return integerDType(logical.bitWidth, logical.isSigned);
+		case "DECIMAL":
+			return DType.float64 as DType;
+	}
+
+	switch (element.converted_type) {
+		case ConvertedType.DATE:
+			return DType.date as DType;
+		case ConvertedType.TIMESTAMP_MILLIS:
+		case ConvertedType.TIMESTAMP_MICROS:
+			return DType.timestamp as DType;
+		case ConvertedType.UINT_8:
+			return DType.uint8 as DType;
+		case ConvertedType.UINT_16:
+			return DType.uint16 as DType;
+		case ConvertedType.UINT_32:
+			return DType.uint32 as DType;
+		case ConvertedType.UINT_64:
+			return DType.uint64 as DType;
+		case ConvertedType.INT_8:
+			return DType.int8 as DType;
+		case ConvertedType.INT_16:
+			return DType.int16 as DType;
+		case ConvertedType.DECIMAL:
+			return DType.float64 as DType;
+	}
+
+	switch (element.type) {
+		case Type.INT32:
+			return DType.int32 as DType;
+		case Type.INT64:
+			return DType.int64 as DType;
+		case Type.INT96:
+			return DType.timestamp as DType;
+		case Type.FLOAT:
+			return DType.float32 as DType;
+		case Type.DOUBLE:
+			return DType.float64 as DType;
+		case Type.BOOLEAN:
+			return DType.boolean as DType;
+		default:
+			return DType.string as DType;
+	}
+}
+
+function integerDType(bitWidth: number, signed: boolean): DType {
+	switch (bitWidth) {
+		case 8:
+			return (signed ? DType.int8 : DType.uint8) as DType;
+		case 16:
+			return (signed ? DType.int16 : DType.uint16) as DType;
+		case 32:
+			return (signed ? DType.int32 : DType.uint32) as DType;
+		default:
+			return (signed ? DType.int64 : DType.uint64) as DType;
+	}
+}
+
+/**
+ * Whether a column is DECIMAL, by logical or converted type.
+ */
+export function isDecimal(element: SchemaElement): boolean {
+	return (
+		element.logical_type?.type === "DECIMAL" ||
+		element.converted_type === ConvertedType.DECIMAL
+	);
+}
+
+/**
+ * Whether integer values of a column compare as unsigned.
+ */
+export function isUnsigned(element: SchemaElement): boolean {
+	const logical = element.logical_type;
+	if (logical?.type === "INTEGER") return !logical.isSigned;
+	switch (element.converted_type) {
+		case ConvertedType.UINT_8:
+		case ConvertedType.UINT_16:
+		case ConvertedType.UINT_32:
+		case ConvertedType.UINT_64:
+			return true;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Unit of an INT64 timestamp column, or null for other columns.
+ * INT96 timestamps have their own layout, see int96ToMillis.
+ */
+export function timestampUnit(element: SchemaElement): TimeUnit | null {
+	const logical = element.logical_type;
+	if (logical?.type === "TIMESTAMP") return logical.unit;
+	switch (element.converted_type) {
+		case ConvertedType.TIMESTAMP_MILLIS:
+			return "MILLIS";
+		case ConvertedType.TIMESTAMP_MICROS:
+			return "MICROS";
+	}
+	return null;
+}
+
+/**
+ * Convert a timestamp in `unit` to milliseconds since epoch.
+ */
+export function timestampToMillis(value: bigint, unit: TimeUnit): bigint {
+	return floorDiv(value, MILLIS_DIVISOR[unit]);
+}
+
+/**
+ * Convert a legacy INT96 timestamp to milliseconds since epoch.
+ * Layout: nanoseconds of the day in the low 8 bytes, Julian day in the high 4.
+ */
+export function int96ToMillis(value: bigint): bigint {
+	const days = (value >> 64n) - UNIX_EPOCH_JULIAN_DAY;
+	const nanos = value & 0xffffffffffffffffn;
+	return days * MILLIS_PER_DAY + nanos / NANOS_PER_MILLI;
+}
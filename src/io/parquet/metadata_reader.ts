@@ -7,11 +7,33 @@ import type {
 	Encoding,
 	FieldRepetitionType,
 	FileMetaData,
+	LogicalType,
 	RowGroup,
 	SchemaElement,
+	Statistics,
+	TimeUnit,
 	Type,
 } from "./types.ts";
 
+/** LogicalType members without parameters, by union field id */
+const LOGICAL_TYPE_NAMES: Record<
+	number,
+	Exclude<
+		LogicalType["type"],
+		"DATE" | "TIME" | "TIMESTAMP" | "INTEGER" | "DECIMAL"
+	>
+> = {
+	1: "STRING",
+	2: "MAP",
+	3: "LIST",
+	4: "ENUM",
+	11: "UNKNOWN",
+	12: "JSON",
+	13: "BSON",
+	14: "UUID",
+	15: "FLOAT16",
+};
+
 export class ThriftMetadataReader {
 	reader: CompactProtocolReader;
 
@@ -82,6 +104,7 @@ export class ThriftMetadataReader {
 	// 7: scale (i32)
 	// 8: precision (i32)
 	// 9: field_id (i32)
+	// 10: logicalType (LogicalType)
 	private readSchemaElement(): SchemaElement {
 		const elem: SchemaElement = { name: "" };
 		this.reader.readStructBegin();
@@ -117,6 +140,9 @@ export class ThriftMetadataReader {
 				case 9:
 					elem.field_id = this.reader.readI32();
 					break;
+				case 10:
+					elem.logical_type = this.readLogicalType();
+					break;
 				default:
 					this.reader.skip(field.type);
 			}
@@ -125,6 +151,121 @@ export class ThriftMetadataReader {
 		return elem;
 	}
 
+	// LogicalType (union, one field set)
+	// 1: STRING, 2: MAP, 3: LIST, 4: ENUM, 5: DECIMAL, 6: DATE, 7: TIME,
+	// 8: TIMESTAMP, 10: INTEGER, 11: UNKNOWN, 12: JSON, 13: BSON, 14: UUID,
+	// 15: FLOAT16
+	private readLogicalType(): LogicalType | undefined {
+		let logical: LogicalType | undefined;
+		this.reader.readStructBegin();
+		while (true) {
+			const field = this.reader.readFieldBegin();
+			if (field.type === TType.STOP) break;
+
+			if (field.type !== TType.STRUCT) {
+				this.reader.skip(field.type);
+				continue;
+			}
+			switch (field.id) {
+				case 5: {
+					const f = this.readFields();
+					logical = {
+						type: "DECIMAL",
+						scale: (f.get(1) as number | undefined) ?? 0,
+						precision: (f.get(2) as number | undefined) ?? 0,
+					};
+					break;
+				}
+				case 6:
+					this.reader.skip(field.type);
+					logical = { type: "DATE" };
+					break;
+				case 7:
+				case 8:
+					logical = {
+						type: field.id === 7 ? "TIME" : "TIMESTAMP",
+						...this.readTimeType(),
+					};
+					break;
+				case 10: {
+					const f = this.readFields();
+					logical = {
+						type: "INTEGER",
+						bitWidth: (f.get(1) as number | undefined) ?? 32,
+						isSigned: (f.get(2) as boolean | undefined) ?? true,
+					};
+					break;
+				}
+				default: {
+					this.reader.skip(field.type);
+					const name = LOGICAL_TYPE_NAMES[field.id];
+					if (name) logical = { type: name };
+				}
+			}
+		}
+		this.reader.readStructEnd();
+		return logical;
+	}
+
+	// TimeType / TimestampType
+	// 1: isAdjustedToUTC (bool)
+	// 2: unit (TimeUnit union: 1 MILLIS, 2 MICROS, 3 NANOS)
+	private readTimeType(): { isAdjustedToUTC: boolean; unit: TimeUnit } {
+		let isAdjustedToUTC = false;
+		let unit: TimeUnit = "MILLIS";
+		this.reader.readStructBegin();
+		while (true) {
+			const field = this.reader.readFieldBegin();
+			if (field.type === TType.STOP) break;
+
+			if (field.id === 1) {
+				isAdjustedToUTC = field.type === TType.BOOLEAN_TRUE;
+			} else if (field.id === 2 && field.type === TType.STRUCT) {
+				this.reader.readStructBegin();
+				while (true) {
+					const member = this.reader.readFieldBegin();
+					if (member.type === TType.STOP) break;
+					if (member.id === 2) unit = "MICROS";
+					else if (member.id === 3) unit = "NANOS";
+					this.reader.skip(member.type);
+				}
+				this.reader.readStructEnd();
+			} else {
+				this.reader.skip(field.type);
+			}
+		}
+		this.reader.readStructEnd();
+		return { isAdjustedToUTC, unit };
+	}
+
+	/** Read a struct of scalar fields into a map keyed by field id */
+	private readFields(): Map<number, number | boolean> {
+		const fields = new Map<number, number | boolean>();
+		this.reader.readStructBegin();
+		while (true) {
+			const field = this.reader.readFieldBegin();
+			if (field.type === TType.STOP) break;
+
+			switch (field.type) {
+				case TType.BOOLEAN_TRUE:
+				case TType.BOOLEAN_FALSE:
+					fields.set(field.id, field.type === TType.BOOLEAN_TRUE);
+					break;
+				case TType.BYTE:
+					fields.set(field.id, (this.reader.readByte() << 24) >> 24);
+					break;
+				case TType.I16:
+				case TType.I32:
+					fields.set(field.id, this.reader.readI32());
+					break;
+				default:
+					this.reader.skip(field.type);
+			}
+		}
+		this.reader.readStructEnd();
+		return fields;
+	}
+
 	private readRowGroupList(): RowGroup[] {
 		const { size } = this.reader.readListBegin();
 		const list: RowGroup[] = [];
@@ -214,6 +355,7 @@ export class ThriftMetadataReader {
 	// 9: data_page_offset (i64)
 	// 10: index_page_offset (i64)
 	// 11: dictionary_page_offset (i64)
+	// 12: statistics (Statistics)
 	private readColumnMetaData(): ColumnMetaData {
 		const md: Partial<ColumnMetaData> = {
 			path_in_schema: [],
@@ -252,6 +394,9 @@ export class ThriftMetadataReader {
 				case 11:
 					md.dictionary_page_offset = this.reader.readI64();
 					break;
+				case 12:
+					md.statistics = this.readStatistics();
+					break;
 				default:
 					this.reader.skip(field.type);
 			}
@@ -260,6 +405,47 @@ export class ThriftMetadataReader {
 		return md as ColumnMetaData;
 	}
 
+	// Statistics
+	// 1: max (binary, deprecated)
+	// 2: min (binary, deprecated)
+	// 3: null_count (i64)
+	// 4: distinct_count (i64)
+	// 5: max_value (binary)
+	// 6: min_value (binary)
+	private readStatistics(): Statistics {
+		const stats: Statistics = {};
+		this.reader.readStructBegin();
+		while (true) {
+			const field = this.reader.readFieldBegin();
+			if (field.type === TType.STOP) break;
+
+			switch (field.id) {
+				case 1:
+					stats.max = this.reader.readBinary();
+					break;
+				case 2:
+					stats.min = this.reader.readBinary();
+					break;
+				case 3:
+					stats.null_count = this.reader.readI64();
+					break;
+				case 4:
+					stats.distinct_count = this.reader.readI64();
+					break;
+				case 5:
+					stats.max_value = this.reader.readBinary();
+					break;
+				case 6:
+					stats.min_value = this.reader.readBinary();
+					break;
+				default:
+					this.reader.skip(field.type);
+			}
+		}
+		this.reader.readStructEnd();
+		return stats;
+	}
+
 	private readEncodingList(): Encoding[] {
 		const { size } = this.reader.readListBegin();
 		const list: Encoding[] = [];
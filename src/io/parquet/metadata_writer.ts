@@ -0,0 +1,274 @@
+import { TType } from "./thrift_reader.ts";
+import { CompactProtocolWriter } from "./thrift_writer.ts";
+import type {
+	ColumnChunk,
+	ColumnMetaData,
+	FileMetaData,
+	LogicalType,
+	PageHeader,
+	RowGroup,
+	SchemaElement,
+	Statistics,
+	TimeUnit,
+} from "./types.ts";
+
+/**
+ * Serializes Parquet metadata structures with the Thrift compact protocol.
+ * Field ids mirror ThriftMetadataReader.
+ */
+/** LogicalType union field ids */
+const LOGICAL_TYPE_IDS: Record<LogicalType["type"], number> = {
+	STRING: 1,
+	MAP: 2,
+	LIST: 3,
+	ENUM: 4,
+	DECIMAL: 5,
+	DATE: 6,
+	TIME: 7,
+	TIMESTAMP: 8,
+	INTEGER: 10,
+	UNKNOWN: 11,
+	JSON: 12,
+	BSON: 13,
+	UUID: 14,
+	FLOAT16: 15,
+};
+
+/** TimeUnit union field ids */
+const TIME_UNIT_IDS: Record<TimeUnit, number> = {
+	MILLIS: 1,
+	MICROS: 2,
+	NANOS: 3,
+};
+
+export class ThriftMetadataWriter {
+	writer: CompactProtocolWriter;
+
+	constructor() {
+		this.writer = new CompactProtocolWriter();
+	}
+
+	toBytes(): Uint8Array {
+		return this.writer.toBytes();
+	}
+
+	// FileMetaData
+	// 1: version (i32)
+	// 2: schema (list<SchemaElement>)
+	// 3: num_rows (i64)
+	// 4: row_groups (list<RowGroup>)
+	// 6: created_by (string)
+	writeFileMetaData(meta: FileMetaData): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		w.writeI32Field(1, meta.version);
+
+		w.writeFieldBegin(2, TType.LIST);
+		w.writeListBegin(TType.STRUCT, meta.schema.length);
+		for (const elem of meta.schema) {
+			this.writeSchemaElement(elem);
+		}
+
+		w.writeI64Field(3, meta.num_rows);
+
+		w.writeFieldBegin(4, TType.LIST);
+		w.writeListBegin(TType.STRUCT, meta.row_groups.length);
+		for (const rg of meta.row_groups) {
+			this.writeRowGroup(rg);
+		}
+
+		if (meta.created_by !== undefined) {
+			w.writeStringField(6, meta.created_by);
+		}
+		w.writeStructEnd();
+	}
+
+	// PageHeader
+	// 1: type (PageType)
+	// 2: uncompressed_page_size (i32)
+	// 3: compressed_page_size (i32)
+	// 5: data_page_header (DataPageHeader)
+	// 7: dictionary_page_header (DictionaryPageHeader)
+	writePageHeader(header: PageHeader): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		w.writeI32Field(1, header.type ?? 0);
+		w.writeI32Field(2, header.uncompressed_page_size ?? 0);
+		w.writeI32Field(3, header.compressed_page_size ?? 0);
+
+		const data = header.data_page_header;
+		if (data) {
+			w.writeFieldBegin(5, TType.STRUCT);
+			w.writeStructBegin();
+			w.writeI32Field(1, data.num_values ?? 0);
+			w.writeI32Field(2, data.encoding ?? 0);
+			w.writeI32Field(3, data.definition_level_encoding ?? 0);
+			w.writeI32Field(4, data.repetition_level_encoding ?? 0);
+			w.writeStructEnd();
+		}
+
+		const dict = header.dictionary_page_header;
+		if (dict) {
+			w.writeFieldBegin(7, TType.STRUCT);
+			w.writeStructBegin();
+			w.writeI32Field(1, dict.num_values ?? 0);
+			w.writeI32Field(2, dict.encoding ?? 0);
+			w.writeStructEnd();
+		}
+
+		const v2 = header.data_page_header_v2;
+		if (v2) {
+			w.writeFieldBegin(8, TType.STRUCT);
+			w.writeStructBegin();
+			w.writeI32Field(1, v2.num_values ?? 0);
+			w.writeI32Field(2, v2.num_nulls ?? 0);
+			w.writeI32Field(3, v2.num_rows ?? 0);
+			w.writeI32Field(4, v2.encoding ?? 0);
+			w.writeI32Field(5, v2.definition_levels_byte_length ?? 0);
+			w.writeI32Field(6, v2.repetition_levels_byte_length ?? 0);
+			w.writeBoolField(7, v2.is_compressed ?? true);
+			w.writeStructEnd();
+		}
+		w.writeStructEnd();
+	}
+
+	// SchemaElement
+	// 1: type, 2: type_length, 3: repetition_type, 4: name,
+	// 5: num_children, 6: converted_type, 7: scale, 8: precision,
+	// 10: logicalType
+	private writeSchemaElement(elem: SchemaElement): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		if (elem.type !== undefined) w.writeI32Field(1, elem.type);
+		if (elem.type_length !== undefined) w.writeI32Field(2, elem.type_length);
+		if (elem.repetition_type !== undefined) {
+			w.writeI32Field(3, elem.repetition_type);
+		}
+		w.writeStringField(4, elem.name);
+		if (elem.num_children !== undefined) {
+			w.writeI32Field(5, elem.num_children);
+		}
+		if (elem.converted_type !== undefined) {
+			w.writeI32Field(6, elem.converted_type);
+		}
+		if (elem.scale !== undefined) w.writeI32Field(7, elem.scale);
+		if (elem.precision !== undefined) w.writeI32Field(8, elem.precision);
+		if (elem.logical_type !== undefined) {
+			w.writeFieldBegin(10, TType.STRUCT);
+			this.writeLogicalType(elem.logical_type);
+		}
+		w.writeStructEnd();
+	}
+
+	// LogicalType union: the member's field id selects the type
+	private writeLogicalType(logical: LogicalType): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		w.writeFieldBegin(LOGICAL_TYPE_IDS[logical.type], TType.STRUCT);
+		w.writeStructBegin();
+		switch (logical.type) {
+			case "DECIMAL":
+				w.writeI32Field(1, logical.scale);
+				w.writeI32Field(2, logical.precision);
+				break;
+			case "TIME":
+			case "TIMESTAMP":
+				w.writeBoolField(1, logical.isAdjustedToUTC);
+				w.writeFieldBegin(2, TType.STRUCT);
+				w.writeStructBegin();
+				w.writeFieldBegin(TIME_UNIT_IDS[logical.unit], TType.STRUCT);
+				w.writeStructBegin();
+				w.writeStructEnd();
+				w.writeStructEnd();
+				break;
+			case "INTEGER":
+				w.writeByteField(1, logical.bitWidth);
+				w.writeBoolField(2, logical.isSigned);
+				break;
+		}
+		w.writeStructEnd();
+		w.writeStructEnd();
+	}
+
+	// RowGroup
+	// 1: columns (list<ColumnChunk>)
+	// 2: total_byte_size (i64)
+	// 3: num_rows (i64)
+	private writeRowGroup(rg: RowGroup): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		w.writeFieldBegin(1, TType.LIST);
+		w.writeListBegin(TType.STRUCT, rg.columns.length);
+		for (const cc of rg.columns) {
+			this.writeColumnChunk(cc);
+		}
+		w.writeI64Field(2, rg.total_byte_size);
+		w.writeI64Field(3, rg.num_rows);
+		w.writeStructEnd();
+	}
+
+	// ColumnChunk
+	// 1: file_path (string)
+	// 2: file_offset (i64)
+	// 3: meta_data (ColumnMetaData)
+	private writeColumnChunk(cc: ColumnChunk): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		if (cc.file_path !== undefined) w.writeStringField(1, cc.file_path);
+		w.writeI64Field(2, cc.file_offset);
+		if (cc.meta_data) {
+			w.writeFieldBegin(3, TType.STRUCT);
+			this.writeColumnMetaData(cc.meta_data);
+		}
+		w.writeStructEnd();
+	}
+
+	// ColumnMetaData
+	// 1: type, 2: encodings, 3: path_in_schema, 4: codec, 5: num_values,
+	// 6: total_uncompressed_size, 7: total_compressed_size,
+	// 9: data_page_offset, 11: dictionary_page_offset, 12: statistics
+	private writeColumnMetaData(md: ColumnMetaData): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		w.writeI32Field(1, md.type);
+
+		w.writeFieldBegin(2, TType.LIST);
+		w.writeListBegin(TType.I32, md.encodings.length);
+		for (const enc of md.encodings) w.writeI32(enc);
+
+		w.writeFieldBegin(3, TType.LIST);
+		w.writeListBegin(TType.BINARY, md.path_in_schema.length);
+		for (const part of md.path_in_schema) w.writeString(part);
+
+		w.writeI32Field(4, md.codec);
+		w.writeI64Field(5, md.num_values);
+		w.writeI64Field(6, md.total_uncompressed_size);
+		w.writeI64Field(7, md.total_compressed_size);
+		w.writeI64Field(9, md.data_page_offset);
+		if (md.dictionary_page_offset !== undefined) {
+			w.writeI64Field(11, md.dictionary_page_offset);
+		}
+		if (md.statistics) {
+			w.writeFieldBegin(12, TType.STRUCT);
+			this.writeStatistics(md.statistics);
+		}
+		w.writeStructEnd();
+	}
+
+	// Statistics
+	// 1: max, 2: min (deprecated), 3: null_count (i64), 4: distinct_count (i64)
+	// 5: max_value (binary), 6: min_value (binary)
+	private writeStatistics(stats: Statistics): void {
+		const w = this.writer;
+		w.writeStructBegin();
+		if (stats.max !== undefined) w.writeBinaryField(1, stats.max);
+		if (stats.min !== undefined) w.writeBinaryField(2, stats.min);
+		if (stats.null_count !== undefined) w.writeI64Field(3, stats.null_count);
+		if (stats.distinct_count !== undefined) {
+			w.writeI64Field(4, stats.distinct_count);
+		}
+		if (stats.max_value !== undefined) w.writeBinaryField(5, stats.max_value);
+		if (stats.min_value !== undefined) w.writeBinaryField(6, stats.min_value);
+		w.writeStructEnd();
+	}
+}
@@ -0,0 +1,370 @@
+/**
+ * Nested Parquet schemas.
+ *
+ * The flat schema list is rebuilt into a tree and mapped onto columns:
+ * - primitive fields are one column each
+ * - STRUCT groups flatten into dotted columns ("user.address.city")
+ * - LIST and MAP groups, and bare repeated fields, become List columns
+ *
+ * List values are assembled from repetition and definition levels
+ * (Dremel record assembly) into plain JS values. Structs inside lists
+ * become objects, maps become lists of { key, value } objects.
+ */
+
+import { DType, listOf, toNullable } from "../../types/dtypes.ts";
+import { columnDType } from "./logical.ts";
+import {
+	ConvertedType,
+	FieldRepetitionType,
+	type SchemaElement,
+} from "./types.ts";
+
+/** Leaf of the schema tree, stored as one column chunk per row group */
+export interface LeafColumn {
+	/** Position among leaves, i.e. in RowGroup.columns */
+	index: number;
+	element: SchemaElement;
+	/** Definition level of a non-null value */
+	maxDef: number;
+	maxRep: number;
+}
+
+/** Column exposed by the reader */
+export interface ParquetColumn {
+	name: string;
+	dtype: DType;
+	/** Leaves the column is read from, in file order */
+	leaves: LeafColumn[];
+	/** Value shape of List columns, null for primitive columns */
+	shape: ValueShape | null;
+}
+
+/** Shape of a nested value */
+export type ValueShape =
+	| { kind: "leaf"; leaf: LeafColumn }
+	| {
+			kind: "list";
+			/** Definition level of the list itself; one more means an element */
+			def: number;
+			/** Repetition level of the list's elements */
+			depth: number;
+			element: ValueShape;
+	  }
+	| { kind: "struct"; def: number; fields: [string, ValueShape][] };
+
+/** Decoded levels and non-null values of one leaf column chunk */
+export interface LeafLevels {
+	values: unknown[];
+	def: number[];
+	rep: number[];
+}
+
+interface SchemaNode {
+	element: SchemaElement;
+	children: SchemaNode[];
+	def: number;
+	rep: number;
+	leaf: LeafColumn | null;
+}
+
+/**
+ * Columns of a file schema, in file order.
+ */
+export function schemaColumns(
+	schema: readonly SchemaElement[],
+): ParquetColumn[] {
+	const root = buildTree(schema);
+	const columns: ParquetColumn[] = [];
+	for (const child of root.children) collectColumns(child, "", columns);
+	return columns;
+}
+
+function buildTree(schema: readonly SchemaElement[]): SchemaNode {
+	let position = 0;
+	let leafIndex = 0;
+
+	const build = (parent: SchemaNode | null): SchemaNode => {
+		const element = schema[position++];
+		if (!element) throw new Error("Truncated Parquet schema");
+
+		const repetition = element.repetition_type;
+		const node: SchemaNode = {
+			element,
+			children: [],
+			def:
+				(parent?.def ?? 0) +
+				(parent && repetition !== FieldRepetitionType.REQUIRED ? 1 : 0),
+			rep:
+				(parent?.rep ?? 0) +
+				(repetition === FieldRepetitionType.REPEATED ? 1 : 0),
+			leaf: null,
+		};
+
+		const childCount = element.num_children ?? 0;
+		if (parent !== null && childCount === 0) {
+			node.leaf = {
+				index: leafIndex++,
+				element,
+				maxDef: node.def,
+				maxRep: node.rep,
+			};
+		}
+		for (let i = 0; i < childCount; i++) node.children.push(build(node));
+		return node;
+	};
+
+	return build(null);
+}
+
+function collectColumns(
+	node: SchemaNode,
+	prefix: string,
+	out: ParquetColumn[],
+): void {
+	const name = prefix + node.element.name;
+	if (isList(node)) {
+		const shape = listShape(node);
+		out.push({
+			name,
+			dtype: shapeDType(shape),
+			leaves: leavesOf(node),
+			shape,
+		});
+	} else if (node.leaf) {
+		out.push({
+			name,
+			dtype: columnDType(node.element),
+			leaves: [node.leaf],
+			shape: null,
+		});
+	} else {
+		for (const child of node.children) collectColumns(child, `${name}.`, out);
+	}
+}
+
+function isList(node: SchemaNode): boolean {
+	const { element } = node;
+	if (element.repetition_type === FieldRepetitionType.REPEATED) return true;
+	const logical = element.logical_type?.type;
+	return (
+		logical === "LIST" ||
+		logical === "MAP" ||
+		element.converted_type === ConvertedType.LIST ||
+		element.converted_type === ConvertedType.MAP ||
+		element.converted_type === ConvertedType.MAP_KEY_VALUE
+	);
+}
+
+/**
+ * Shape of a LIST/MAP group or bare repeated field, following the
+ * backward-compatibility rules of the Parquet LIST specification.
+ */
+function listShape(node: SchemaNode): ValueShape {
+	// Bare repeated field: a required list of itself
+	if (node.element.repetition_type === FieldRepetitionType.REPEATED) {
+		return {
+			kind: "list",
+			def: node.def - 1,
+			depth: node.rep,
+			element: elementShape(node),
+		};
+	}
+
+	const repeated = node.children[0];
+	if (
+		node.children.length !== 1 ||
+		repeated?.element.repetition_type !== FieldRepetitionType.REPEATED
+	) {
+		throw new Error(
+			`Unsupported Parquet list layout for column '${node.element.name}'`,
+		);
+	}
+
+	// A repeated group with one field wraps the element, unless it uses a
+	// legacy name marking the group itself as the element
+	const isMap =
+		node.element.logical_type?.type === "MAP" ||
+		node.element.converted_type === ConvertedType.MAP ||
+		node.element.converted_type === ConvertedType.MAP_KEY_VALUE;
+	const name = repeated.element.name;
+	const wrapsElement =
+		!isMap &&
+		repeated.children.length === 1 &&
+		name !== "array" &&
+		!name.endsWith("_tuple");
+
+	return {
+		kind: "list",
+		def: node.def,
+		depth: repeated.rep,
+		element: wrapsElement
+			? valueShape(repeated.children[0] as SchemaNode)
+			: elementShape(repeated),
+	};
+}
+
+/** Shape of a field nested inside a list */
+function valueShape(node: SchemaNode): ValueShape {
+	if (isList(node)) return listShape(node);
+	return elementShape(node);
+}
+
+/** Shape of a node ignoring its own repetition */
+function elementShape(node: SchemaNode): ValueShape {
+	if (node.leaf) return { kind: "leaf", leaf: node.leaf };
+	return {
+		kind: "struct",
+		def: node.def,
+		fields: node.children.map((child) => [
+			child.element.name,
+			valueShape(child),
+		]),
+	};
+}
+
+function leavesOf(node: SchemaNode): LeafColumn[] {
+	if (node.leaf) return [node.leaf];
+	return node.children.flatMap(leavesOf);
+}
+
+function shapeDType(shape: ValueShape): DType {
+	switch (shape.kind) {
+		case "leaf":
+			return toNullable(columnDType(shape.leaf.element));
+		case "list":
+			return listOf(shapeDType(shape.element));
+		case "struct":
+			return DType.nullable.string as DType;
+	}
+}
+
+/* ASSEMBLY
+/*-----------------------------------------------------
+/* Rebuild values from repetition and definition levels
+/* ==================================================== */
+
+type PathStep =
+	| { kind: "leaf"; maxDef: number }
+	| { kind: "list"; def: number; depth: number }
+	| { kind: "struct"; def: number; field: string };
+
+/**
+ * Assemble one row group of a List column; one value per row.
+ * Each leaf is assembled along its own path, then leaves are merged
+ * so struct fields end up in the same objects.
+ */
+export function assembleList(
+	shape: ValueShape,
+	levels: ReadonlyMap<number, LeafLevels>,
+	numRows: number,
+): unknown[] {
+	let rows: unknown[] | null = null;
+	for (const [leaf, path] of leafPaths(shape, [])) {
+		const data = levels.get(leaf.index);
+		if (!data) throw new Error(`Missing levels for leaf column ${leaf.index}`);
+		const assembled = assembleLeaf(path, data);
+		if (assembled.length !== numRows) {
+			throw new Error(
+				`Nested column has ${assembled.length} rows, expected ${numRows}`,
+			);
+		}
+		rows =
+			rows === null ? assembled : (mergeValues(rows, assembled) as unknown[]);
+	}
+	return rows ?? new Array(numRows).fill(null);
+}
+
+function leafPaths(
+	shape: ValueShape,
+	prefix: PathStep[],
+): [LeafColumn, PathStep[]][] {
+	switch (shape.kind) {
+		case "leaf":
+			return [
+				[shape.leaf, [...prefix, { kind: "leaf", maxDef: shape.leaf.maxDef }]],
+			];
+		case "list":
+			return leafPaths(shape.element, [
+				...prefix,
+				{ kind: "list", def: shape.def, depth: shape.depth },
+			]);
+		case "struct":
+			return shape.fields.flatMap(([field, child]) =>
+				leafPaths(child, [
+					...prefix,
+					{ kind: "struct", def: shape.def, field },
+				]),
+			);
+	}
+}
+
+function assembleLeaf(path: readonly PathStep[], data: LeafLevels): unknown[] {
+	const rows: unknown[] = [];
+	// Open list at each repetition depth, and where it sits on the path
+	const open: unknown[][] = [];
+	const listAt: number[] = [];
+	path.forEach((step, p) => {
+		if (step.kind === "list") listAt[step.depth] = p;
+	});
+
+	let def = 0;
+	let valueIndex = 0;
+	const build = (p: number): unknown => {
+		const step = path[p] as PathStep;
+		switch (step.kind) {
+			case "leaf":
+				return def === step.maxDef ? data.values[valueIndex++] : null;
+			case "struct":
+				return def < step.def ? null : { [step.field]: build(p + 1) };
+			case "list": {
+				if (def < step.def) return null;
+				const list: unknown[] = [];
+				open[step.depth] = list;
+				if (def > step.def) list.push(build(p + 1));
+				return list;
+			}
+		}
+	};
+
+	for (let i = 0; i < data.def.length; i++) {
+		def = data.def[i] as number;
+		const rep = data.rep[i] ?? 0;
+		if (rep === 0) {
+			rows.push(build(0));
+		} else {
+			const list = open[rep];
+			if (!list) throw new Error("Invalid repetition level in nested column");
+			list.push(build((listAt[rep] as number) + 1));
+		}
+	}
+	return rows;
+}
+
+function mergeValues(target: unknown, source: unknown): unknown {
+	if (Array.isArray(target) && Array.isArray(source)) {
+		for (let i = 0; i < target.length; i++) {
+			target[i] = mergeValues(target[i], source[i]);
+		}
+	} else if (isObject(target) && isObject(source)) {
+		for (const [key, value] of Object.entries(source)) {
+			target[key] = key in target ? mergeValues(target[key], value) : value;
+		}
+	}
+	return target;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON text of an assembled value. 64-bit integers become numbers when
+ * exact and strings otherwise.
+ */
+export function toJson(value: unknown): string {
+	return JSON.stringify(value, (_key, v) => {
+		if (typeof v !== "bigint") return v;
+		const n = Number(v);
+		return Number.isSafeInteger(n) ? n : v.toString();
+	});
+}
@@ -85,7 +85,7 @@ function readPlainInt64(reader: DataReader, count: number): BigInt64Array {
 function readPlainInt96(reader: DataReader, count: number): bigint[] {
 	const values = new Array(count);
 	for (let i = 0; i < count; i++) {
-		const low = reader.view.getBigInt64(reader.offset + i * 12, true);
+		const low = reader.view.getBigUint64(reader.offset + i * 12, true);
 		const high = reader.view.getInt32(reader.offset + i * 12 + 8, true);
 		values[i] = (BigInt(high) << 64n) | low;
 	}
@@ -164,3 +164,68 @@ function align(reader: DataReader, size: number): ArrayBuffer {
 	);
 	return aligned;
 }
+
+/** Values accepted by writePlain, by physical type */
+export type PlainValues =
+	| ArrayLike<number>
+	| Int32Array
+	| BigInt64Array
+	| Float32Array
+	| Float64Array
+	| Uint8Array[];
+
+/**
+ * Encode values of the given type with PLAIN encoding.
+ */
+export function writePlain(type: string, values: PlainValues): Uint8Array {
+	switch (type) {
+		case "BOOLEAN":
+			return writePlainBoolean(values as ArrayLike<number>);
+		case "INT32":
+			return typedBytes(values as Int32Array);
+		case "INT64":
+			return typedBytes(values as BigInt64Array);
+		case "FLOAT":
+			return typedBytes(values as Float32Array);
+		case "DOUBLE":
+			return typedBytes(values as Float64Array);
+		case "BYTE_ARRAY":
+			return writePlainByteArray(values as Uint8Array[]);
+		default:
+			throw new Error(`parquet unhandled write type: ${type}`);
+	}
+}
+
+function writePlainBoolean(values: ArrayLike<number>): Uint8Array {
+	const out = new Uint8Array(Math.ceil(values.length / 8));
+	for (let i = 0; i < values.length; i++) {
+		if (values[i]) out[i >> 3] = (out[i >> 3] ?? 0) | (1 << (i & 7));
+	}
+	return out;
+}
+
+function writePlainByteArray(values: Uint8Array[]): Uint8Array {
+	let size = 0;
+	for (const v of values) size += 4 + v.length;
+
+	const out = new Uint8Array(size);
+	const view = new DataView(out.buffer);
+	let offset = 0;
+	for (const v of values) {
+		view.setUint32(offset, v.length, true);
+		out.set(v, offset + 4);
+		offset += 4 + v.length;
+	}
+	return out;
+}
+
+function typedBytes(
+	values: Int32Array | BigInt64Array | Float32Array | Float64Array,
+): Uint8Array {
+	return new Uint8Array(
+		values.buffer.slice(
+			values.byteOffset,
+			values.byteOffset + values.byteLength,
+		) as ArrayBuffer,
+	);
+}
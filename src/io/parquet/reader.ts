@@ -4,46 +4,54 @@ import { Chunk } from "../../buffer/chunk.ts";
 import { ColumnBuffer } from "../../buffer/column-buffer.ts";
 import { createDictionary, type Dictionary } from "../../buffer/dictionary.ts";
 import { DataFrame } from "../../dataframe/core.ts";
-import { DType } from "../../types/dtypes.ts";
+import type { Expr } from "../../expr/ast.ts";
+import type { ScanOptions, ScanSource } from "../../ops/logical.ts";
+import { type DType, DTypeKind } from "../../types/dtypes.ts";
+import { unwrap } from "../../types/error.ts";
 import { createSchema, type Schema } from "../../types/schema.ts";
-import { snappyUncompress } from "./compression/snappy.ts";
+import { type ByteSource, toBlob } from "../byte-source.ts";
+import { decompress } from "./compression/index.ts";
 import { convertColumn, dereferDictionary } from "./convert.ts";
+import {
+	readDeltaBinaryPacked,
+	readDeltaByteArray,
+	readDeltaLengthByteArray,
+} from "./encoding/delta.ts";
 import {
 	bitWidth,
 	type DataReader,
 	readRleBitPackedHybrid,
 	readVarInt,
 } from "./encoding/rle.ts";
+import { columnDType } from "./logical.ts";
 import { ThriftMetadataReader } from "./metadata_reader.ts";
+import {
+	assembleList,
+	type LeafColumn,
+	type LeafLevels,
+	type ParquetColumn,
+	schemaColumns,
+	toJson,
+} from "./nested.ts";
 import { readPlain } from "./plain.ts";
-import type { ColumnChunk, FileMetaData, SchemaElement } from "./types.ts";
-import { CompressionCodec, ConvertedType, Type } from "./types.ts";
+import { decodeStatistics, mayMatch } from "./statistics.ts";
+import type {
+	DataPageHeader,
+	DataPageHeaderV2,
+	DictionaryPageHeader,
+	FileMetaData,
+	PageHeader,
+	RowGroup,
+} from "./types.ts";
+import { CompressionCodec, Type } from "./types.ts";
+
+const textDecoder = new TextDecoder();
 
 interface BunFile {
 	size: number;
 	slice(start: number, end: number): Blob;
 }
 
-interface DataPageHeader {
-	num_values?: number;
-	encoding?: number;
-	definition_level_encoding?: number;
-	repetition_level_encoding?: number;
-}
-
-interface DictionaryPageHeader {
-	num_values?: number;
-	encoding?: number;
-}
-
-interface PageHeader {
-	type?: number;
-	uncompressed_page_size?: number;
-	compressed_page_size?: number;
-	data_page_header?: DataPageHeader;
-	dictionary_page_header?: DictionaryPageHeader;
-}
-
 // Page type constants
 const PAGE_TYPE = {
 	DATA_PAGE: 0,
@@ -76,12 +84,46 @@ const TYPE_NAMES: Record<number, string> = {
 	[Type.FIXED_LEN_BYTE_ARRAY]: "FIXED_LEN_BYTE_ARRAY",
 };
 
-export class ParquetReader {
+/** Parquet reading options */
+export interface ParquetReadOptions {
+	/** Columns to read, in any order (default: all). Others are never fetched */
+	columns?: readonly string[];
+}
+
+export class ParquetReader implements ScanSource {
 	private file: BunFile;
 	private meta: FileMetaData | null = null;
+	private readonly columns: readonly string[] | null;
+	/** Shared by every stream so string indices stay comparable */
+	private readonly dictionary: Dictionary = createDictionary();
+	private fileColumnsCache: {
+		meta: FileMetaData;
+		columns: ParquetColumn[];
+	} | null = null;
 
-	constructor(path: string) {
-		this.file = Bun.file(path);
+	/**
+	 * Read a file by path, or a Blob of known size (such as `Bun.file()`
+	 * or bytes already in memory) with the same lazy range reads.
+	 */
+	constructor(input: string | Blob, options?: ParquetReadOptions) {
+		// Blobs have slice(), though Bun's global Blob type leaves it out
+		this.file =
+			typeof input === "string"
+				? Bun.file(input)
+				: (input as unknown as BunFile);
+		this.columns = options?.columns ?? null;
+	}
+
+	/**
+	 * Read from a byte stream (such as `Response.body`), `Bun.stdin`, a
+	 * Blob or a buffer. Parquet needs random access, so streams are read
+	 * into memory first.
+	 */
+	static async fromStream(
+		input: ByteSource,
+		options?: ParquetReadOptions,
+	): Promise<ParquetReader> {
+		return new ParquetReader(await toBlob(input), options);
 	}
 
 	async readMetadata(): Promise<FileMetaData> {
@@ -109,40 +151,67 @@ export class ParquetReader {
 
 	async read(): Promise<DataFrame> {
 		const meta = await this.readMetadata();
-		const schema = this.convertSchema(meta);
-		const dictionary = createDictionary();
+		const columns = this.selectColumns(meta, this.columns);
+		const schema = this.convertSchema(columns);
 
 		// Collect all chunks for reusable DataFrame
 		const chunks: Chunk[] = [];
+		const rowGroups = meta.row_groups.map((_, i) => i);
 		for await (const chunk of this.createStream(
 			meta,
-			schema.value!,
-			dictionary,
+			schema,
+			columns,
+			rowGroups,
 		)) {
 			chunks.push(chunk);
 		}
 
-		return DataFrame.fromChunks(chunks, schema.value!, dictionary);
+		return DataFrame.fromChunks(chunks, schema, this.dictionary);
 	}
 
 	/**
 	 * Stream chunks - yields one chunk per row group for memory efficiency
 	 */
 	async *stream(): AsyncGenerator<Chunk> {
+		yield* this.scan({});
+	}
+
+	/**
+	 * Stream the requested columns, in file order, skipping row groups
+	 * whose statistics rule out every filter match.
+	 * Byte ranges of other column chunks and skipped row groups are never read.
+	 */
+	async *scan(options: ScanOptions): AsyncGenerator<Chunk> {
 		const meta = await this.readMetadata();
-		const schema = this.convertSchema(meta);
-		const dictionary = createDictionary();
+		const columns = this.selectColumns(meta, options.columns ?? this.columns);
+		const schema = this.convertSchema(columns);
+		const rowGroups = this.selectRowGroups(meta, options.filters ?? []);
 
-		yield* this.createStream(meta, schema.value!, dictionary);
+		yield* this.createStream(meta, schema, columns, rowGroups);
+	}
+
+	/**
+	 * Describe a scan for explain(). Row-group pruning is only reported
+	 * once metadata has been read.
+	 */
+	describeScan(options: ScanOptions): string {
+		const columns = options.columns ?? this.columns;
+		let line = `ParquetScan [${columns ? columns.join(", ") : "*"}]`;
+		if (this.meta) {
+			const total = this.meta.row_groups.length;
+			const kept = this.selectRowGroups(this.meta, options.filters ?? []);
+			line += ` row groups: ${kept.length}/${total} (${total - kept.length} pruned)`;
+		}
+		return line;
 	}
 
 	getSchema(): Schema {
 		if (!this.meta) throw new Error("Must call readMetadata() first");
-		return this.convertSchema(this.meta).value!;
+		return this.convertSchema(this.selectColumns(this.meta, this.columns));
 	}
 
 	getDictionary(): Dictionary {
-		return createDictionary(); // New dictionary per call for streaming
+		return this.dictionary;
 	}
 
 	/**
@@ -151,79 +220,133 @@ export class ParquetReader {
 	private async *createStream(
 		meta: FileMetaData,
 		schema: Schema,
-		dictionary: Dictionary,
+		columns: readonly ParquetColumn[],
+		rowGroups: readonly number[],
 	): AsyncGenerator<Chunk> {
-		for (const rg of meta.row_groups) {
+		for (const r of rowGroups) {
+			const rg = meta.row_groups[r]!;
 			const chunkCols: ColumnBuffer[] = [];
 			const numRows = Number(rg.num_rows);
 
-			for (let i = 0; i < rg.columns.length; i++) {
-				const colChunk = rg.columns[i];
-				if (!colChunk) continue;
-
-				const schemaElement = meta.schema[i + 1]; // +1 to skip root
-				if (!schemaElement) throw new Error("Schema mismatch");
-
-				const colData = await this.readColumn(
-					colChunk,
-					numRows,
-					schemaElement,
-					dictionary,
+			for (const column of columns) {
+				chunkCols.push(
+					column.shape === null
+						? await this.readColumn(rg, column.leaves[0]!, numRows)
+						: await this.readNestedColumn(rg, column, numRows),
 				);
-				chunkCols.push(colData);
 			}
 
-			yield new Chunk(schema, chunkCols, dictionary);
+			yield new Chunk(schema, chunkCols, this.dictionary);
 		}
 	}
 
-	[Symbol.asyncIterator](): AsyncIterator<Chunk> {
-		return this.stream();
+	/**
+	 * Indices of row groups that may contain rows matching every filter.
+	 */
+	private selectRowGroups(
+		meta: FileMetaData,
+		filters: readonly Expr[],
+	): number[] {
+		const kept: number[] = [];
+		const byName = new Map(this.fileColumns(meta).map((c) => [c.name, c]));
+		for (let r = 0; r < meta.row_groups.length; r++) {
+			const rg = meta.row_groups[r]!;
+			const lookup = (name: string) => {
+				const column = byName.get(name);
+				// List columns have no comparable statistics
+				if (!column || column.shape !== null) return undefined;
+				const leaf = column.leaves[0]!;
+				const chunk = rg.columns[leaf.index];
+				if (!chunk) return undefined;
+				return decodeStatistics(chunk, leaf.element, rg.num_rows);
+			};
+			if (filters.every((expr) => mayMatch(expr, lookup))) kept.push(r);
+		}
+		return kept;
 	}
 
-	private convertSchema(meta: FileMetaData): { value?: Schema } {
-		const cols: { name: string; dtype: DType }[] = [];
-		for (let i = 1; i < meta.schema.length; i++) {
-			const elem = meta.schema[i];
-			let dtype: DType = DType.string;
-
-			if (elem?.type !== undefined) {
-				switch (elem.type) {
-					case Type.INT32:
-						dtype = DType.int32 as DType;
-						break;
-					case Type.INT64:
-						dtype = DType.int64 as DType;
-						break;
-					case Type.FLOAT:
-						dtype = DType.float32 as DType;
-						break;
-					case Type.DOUBLE:
-						dtype = DType.float64 as DType;
-						break;
-					case Type.BOOLEAN:
-						dtype = DType.boolean as DType;
-						break;
-				}
-			}
+	/**
+	 * Columns of the file, flattening structs into dotted names.
+	 */
+	private fileColumns(meta: FileMetaData): ParquetColumn[] {
+		if (this.fileColumnsCache?.meta !== meta) {
+			this.fileColumnsCache = { meta, columns: schemaColumns(meta.schema) };
+		}
+		return this.fileColumnsCache.columns;
+	}
 
-			cols.push({ name: elem?.name || "unknown", dtype });
+	/**
+	 * Columns for the requested names, in file order.
+	 */
+	private selectColumns(
+		meta: FileMetaData,
+		names: readonly string[] | null,
+	): ParquetColumn[] {
+		const columns = this.fileColumns(meta);
+		if (names === null) return columns;
+
+		const known = new Set(columns.map((c) => c.name));
+		for (const name of names) {
+			if (!known.has(name)) {
+				throw new Error(`Column '${name}' not found in Parquet file`);
+			}
 		}
+		const wanted = new Set(names);
+		return columns.filter((c) => wanted.has(c.name));
+	}
 
+	[Symbol.asyncIterator](): AsyncIterator<Chunk> {
+		return this.stream();
+	}
+
+	private convertSchema(columns: readonly ParquetColumn[]): Schema {
 		const schemaSpec: Record<string, DType> = {};
-		for (const c of cols) {
+		for (const c of columns) {
 			schemaSpec[c.name] = c.dtype;
 		}
-		return createSchema(schemaSpec);
+		return unwrap(createSchema(schemaSpec));
 	}
 
+	/**
+	 * Read a List column from its leaves and assemble one value per row.
+	 * Values are interned as JSON text in the shared dictionary.
+	 */
+	private async readNestedColumn(
+		rg: RowGroup,
+		column: ParquetColumn,
+		numRows: number,
+	): Promise<ColumnBuffer> {
+		const levels = new Map<number, LeafLevels>();
+		for (const leaf of column.leaves) {
+			const data: LeafLevels = { values: [], def: [], rep: [] };
+			await this.readColumn(rg, leaf, numRows, data);
+			levels.set(leaf.index, data);
+		}
+
+		const values = assembleList(column.shape!, levels, numRows);
+		const colBuf = new ColumnBuffer(DTypeKind.List, numRows, true);
+		for (const value of values) {
+			if (value === null) colBuf.appendNull();
+			else colBuf.append(this.dictionary.internString(toJson(value)));
+		}
+		return colBuf;
+	}
+
+	/**
+	 * Read one leaf column chunk. Flat leaves are decoded into a column;
+	 * with `levels`, values and levels are collected for assembly instead.
+	 */
 	private async readColumn(
-		chunk: ColumnChunk,
+		rg: RowGroup,
+		leaf: LeafColumn,
 		numRows: number,
-		schemaElement: SchemaElement,
-		sharedDictionary: Dictionary,
+		levels?: LeafLevels,
 	): Promise<ColumnBuffer> {
+		const chunk = rg.columns[leaf.index];
+		if (!chunk) throw new Error("Schema mismatch");
 		if (!chunk.meta_data) throw new Error("Missing Column MetaData");
+		const schemaElement = leaf.element;
+		const sharedDictionary = this.dictionary;
 
 		// Calculate start offset (dictionary page comes first if present)
 		let start = Number(chunk.meta_data.data_page_offset);
@@ -241,36 +364,11 @@ export class ParquetReader {
 
 		// Determine DType for output
 		const type = chunk.meta_data.type;
-		let dtype: DType = DType.string;
-		const isStringColumn =
-			(type === Type.BYTE_ARRAY || type === Type.FIXED_LEN_BYTE_ARRAY) &&
-			schemaElement.converted_type !== ConvertedType.DECIMAL;
-
-		switch (type) {
-			case Type.INT32:
-				dtype = DType.int32 as DType;
-				break;
-			case Type.INT64:
-				dtype = DType.int64 as DType;
-				break;
-			case Type.FLOAT:
-				dtype = DType.float32 as DType;
-				break;
-			case Type.DOUBLE:
-				dtype = DType.float64 as DType;
-				break;
-			case Type.FIXED_LEN_BYTE_ARRAY:
-				if (schemaElement.converted_type === ConvertedType.DECIMAL) {
-					dtype = DType.float64 as DType; // Convert decimals to float64
-				}
-				break;
-		}
+		const dtype = columnDType(schemaElement);
+		// Nested leaves keep decoded strings for assembly
+		const isStringColumn = dtype.kind === DTypeKind.String && !levels;
 
-		const colBuf = new ColumnBuffer(
-			dtype.kind || DType.string.kind,
-			numRows,
-			true,
-		);
+		const colBuf = new ColumnBuffer(dtype.kind, numRows, true);
 
 		let offset = 0;
 		let valuesRead = 0;
@@ -279,7 +377,8 @@ export class ParquetReader {
 		// Local to Global dictionary mapping (if dictionary page exists)
 		let dictionaryMapping: Uint32Array | null = null;
 
-		while (offset < data.length && valuesRead < numRows) {
+		// Repeated leaves hold more level entries than rows: read every page
+		while (offset < data.length && (levels || valuesRead < numRows)) {
 			const { header, headerLen } = this.readPageHeader(data, offset);
 			offset += headerLen;
 
@@ -291,14 +390,22 @@ export class ParquetReader {
 			const uncompressedSize =
 				header.uncompressed_page_size ?? header.compressed_page_size ?? 0;
 
-			let pageData = data.subarray(offset, offset + compressedSize);
+			let pageData: Uint8Array = data.subarray(offset, offset + compressedSize);
 			offset += compressedSize;
 
-			// Decompress if needed
-			if (chunk.meta_data.codec === CompressionCodec.SNAPPY) {
-				const decomp = new Uint8Array(uncompressedSize);
-				snappyUncompress(pageData, decomp);
-				pageData = decomp;
+			if (header.type === PAGE_TYPE.DATA_PAGE_V2) {
+				pageData = decompressPageV2(
+					header.data_page_header_v2!,
+					chunk.meta_data.codec,
+					pageData,
+					uncompressedSize,
+				);
+			} else {
+				pageData = decompress(
+					chunk.meta_data.codec,
+					pageData,
+					uncompressedSize,
+				);
 			}
 
 			// Create DataReader for page
@@ -341,26 +448,52 @@ export class ParquetReader {
 				}
 				// Store raw values for non-string dictionary columns (uncommon but supported)
 				dictionary = dictValues;
-			} else if (header.type === PAGE_TYPE.DATA_PAGE) {
-				const numValues = header.data_page_header!.num_values;
+			} else if (
+				header.type === PAGE_TYPE.DATA_PAGE ||
+				header.type === PAGE_TYPE.DATA_PAGE_V2
+			) {
+				const isV2 = header.type === PAGE_TYPE.DATA_PAGE_V2;
+				const pageHeader = isV2
+					? header.data_page_header_v2!
+					: header.data_page_header!;
+				const numValues = pageHeader.num_values;
 				if (numValues === undefined) {
 					throw new Error("Data page missing num_values");
 				}
-				const encoding = header.data_page_header!.encoding;
+				const encoding = pageHeader.encoding;
 
 				let numActualValues = numValues;
 				let definitionLevels: number[] | null = null;
+				let repetitionLevels: number[] | null = null;
+				const { maxDef, maxRep } = leaf;
+
+				// v2 levels are stored uncompressed with explicit lengths, no prefix
+				const v2 = header.data_page_header_v2!;
+				if (maxRep > 0) {
+					repetitionLevels = new Array(numValues);
+					readRleBitPackedHybrid(
+						reader,
+						bitWidth(maxRep),
+						repetitionLevels,
+						isV2 ? (v2.repetition_levels_byte_length ?? 0) : undefined,
+					);
+				} else if (isV2) {
+					reader.offset += v2.repetition_levels_byte_length ?? 0;
+				}
 
-				// OPTIONAL fields
-				if (schemaElement.repetition_type === 1) {
-					const maxDefLevel = 1;
-					const defBitWidth = bitWidth(maxDefLevel);
+				// OPTIONAL fields, or REQUIRED fields below optional groups
+				if (maxDef > 0) {
 					definitionLevels = new Array(numValues);
-					readRleBitPackedHybrid(reader, defBitWidth, definitionLevels);
+					readRleBitPackedHybrid(
+						reader,
+						bitWidth(maxDef),
+						definitionLevels,
+						isV2 ? (v2.definition_levels_byte_length ?? 0) : undefined,
+					);
 
 					let nonNulls = 0;
 					for (let i = 0; i < numValues; i++) {
-						if (definitionLevels[i] === maxDefLevel) nonNulls++;
+						if (definitionLevels[i] === maxDef) nonNulls++;
 					}
 					numActualValues = nonNulls;
 				}
@@ -403,7 +536,7 @@ export class ParquetReader {
 						} else {
 							let valIdx = 0;
 							for (let i = 0; i < numValues; i++) {
-								if (definitionLevels[i] === 1) {
+								if (definitionLevels[i] === maxDef) {
 									colBuf.append(
 										dictionaryMapping![indices[valIdx++]!]! as never,
 									);
@@ -429,6 +562,26 @@ export class ParquetReader {
 						}
 						decodedValues = dereferDictionary(indices, dictionary);
 					}
+				} else if (encoding === ENCODING.DELTA_BINARY_PACKED) {
+					const ints =
+						type === Type.INT64
+							? new BigInt64Array(numActualValues)
+							: new Int32Array(numActualValues);
+					readDeltaBinaryPacked(reader, numActualValues, ints);
+					decodedValues = convertColumn(ints as any, schemaElement, {});
+				} else if (
+					encoding === ENCODING.DELTA_LENGTH_BYTE_ARRAY ||
+					encoding === ENCODING.DELTA_BYTE_ARRAY
+				) {
+					const bytes: Uint8Array[] = new Array(numActualValues);
+					if (encoding === ENCODING.DELTA_BYTE_ARRAY) {
+						readDeltaByteArray(reader, numActualValues, bytes);
+					} else {
+						readDeltaLengthByteArray(reader, numActualValues, bytes);
+					}
+					decodedValues = convertColumn(bytes, schemaElement, {
+						keepBytes: isStringColumn,
+					});
 				} else if (encoding === ENCODING.RLE && type === Type.BOOLEAN) {
 					// BOOLEAN RLE
 					const boolValues = new Array(numActualValues);
@@ -448,6 +601,23 @@ export class ParquetReader {
 					});
 				}
 
+				// Nested leaves: collect values and levels for assembly
+				if (levels) {
+					const values = decodedValues as ArrayLike<unknown>;
+					for (let i = 0; i < numActualValues; i++) {
+						const value = values[i];
+						levels.values.push(
+							value instanceof Uint8Array ? textDecoder.decode(value) : value,
+						);
+					}
+					for (let i = 0; i < numValues; i++) {
+						levels.def.push(definitionLevels?.[i] ?? maxDef);
+						levels.rep.push(repetitionLevels?.[i] ?? 0);
+					}
+					valuesRead += numValues;
+					continue;
+				}
+
 				// Process decodedValues if not already handled (null)
 				if (decodedValues) {
 					if (!definitionLevels) {
@@ -482,7 +652,7 @@ export class ParquetReader {
 						// With nulls
 						let valIdx = 0;
 						for (let i = 0; i < numValues; i++) {
-							if (definitionLevels[i] === 1) {
+							if (definitionLevels[i] === maxDef) {
 								const val = (decodedValues as any)[valIdx++];
 								if (isStringColumn) {
 									let idx: number;
@@ -560,6 +730,10 @@ export class ParquetReader {
 						header.dictionary_page_header!,
 					);
 					break;
+				case 8: // DataPageHeaderV2
+					header.data_page_header_v2 = {};
+					this.readDataPageHeaderV2Struct(reader, header.data_page_header_v2);
+					break;
 				default:
 					skipThriftField(reader, ftype);
 			}
@@ -602,6 +776,50 @@ export class ParquetReader {
 		}
 	}
 
+	private readDataPageHeaderV2Struct(
+		reader: DataReader,
+		out: DataPageHeaderV2,
+	): void {
+		let lastFieldId = 0;
+		while (true) {
+			const byte = reader.view.getUint8(reader.offset++);
+			if (byte === 0) break;
+
+			const delta = (byte & 0xf0) >> 4;
+			const ftype = byte & 0x0f;
+			const fieldId =
+				delta === 0 ? readZigZagVarInt(reader) : lastFieldId + delta;
+			lastFieldId = fieldId;
+
+			switch (fieldId) {
+				case 1:
+					out.num_values = readZigZagVarInt(reader);
+					break;
+				case 2:
+					out.num_nulls = readZigZagVarInt(reader);
+					break;
+				case 3:
+					out.num_rows = readZigZagVarInt(reader);
+					break;
+				case 4:
+					out.encoding = readZigZagVarInt(reader);
+					break;
+				case 5:
+					out.definition_levels_byte_length = readZigZagVarInt(reader);
+					break;
+				case 6:
+					out.repetition_levels_byte_length = readZigZagVarInt(reader);
+					break;
+				case 7:
+					// compact protocol stores booleans in the field type
+					out.is_compressed = ftype === 1;
+					break;
+				default:
+					skipThriftField(reader, ftype);
+			}
+		}
+	}
+
 	private readDictionaryPageHeaderStruct(
 		reader: DataReader,
 		out: DictionaryPageHeader,
@@ -631,6 +849,38 @@ export class ParquetReader {
 	}
 }
 
+/**
+ * Decompress a v2 data page. Repetition and definition levels precede the
+ * values and are never compressed; only the values section goes through
+ * the codec, and only when is_compressed is set.
+ */
+function decompressPageV2(
+	header: DataPageHeaderV2,
+	codec: CompressionCodec,
+	page: Uint8Array,
+	uncompressedSize: number,
+): Uint8Array {
+	const levelsLength =
+		(header.repetition_levels_byte_length ?? 0) +
+		(header.definition_levels_byte_length ?? 0);
+	if (
+		header.is_compressed === false ||
+		codec === CompressionCodec.UNCOMPRESSED
+	) {
+		return page;
+	}
+
+	const values = decompress(
+		codec,
+		page.subarray(levelsLength),
+		uncompressedSize - levelsLength,
+	);
+	const out = new Uint8Array(uncompressedSize);
+	out.set(page.subarray(0, levelsLength));
+	out.set(values, levelsLength);
+	return out;
+}
+
 function readZigZagVarInt(reader: DataReader): number {
 	const n = readVarInt(reader);
 	return (n >>> 1) ^ -(n & 1);
@@ -707,7 +957,23 @@ function readVarBigInt(reader: DataReader): bigint {
 	}
 }
 
-export async function readParquet(path: string): Promise<DataFrame> {
-	const reader = new ParquetReader(path);
-	return reader.read();
+/**
+ * Open a Parquet file as a lazy DataFrame.
+ * Only the footer is read here; row groups are decoded one at a time as
+ * the frame is executed, all interning into the reader's dictionary.
+ */
+export async function readParquet(
+	input: string | ByteSource,
+	options?: ParquetReadOptions,
+): Promise<DataFrame> {
+	const reader =
+		typeof input === "string"
+			? new ParquetReader(input, options)
+			: await ParquetReader.fromStream(input, options);
+	await reader.readMetadata();
+	return DataFrame.fromStream(
+		reader,
+		reader.getSchema(),
+		reader.getDictionary(),
+	);
 }
@@ -0,0 +1,264 @@
+/**
+ * Row-group pruning with column chunk statistics.
+ *
+ * Filter expressions are evaluated against min/max/null_count. The answer
+ * is conservative: a row group is only skipped when no row in it can
+ * satisfy the predicate. Anything that cannot be decided keeps the group.
+ */
+
+import { type Expr, ExprType } from "../../expr/ast.ts";
+import {
+	isDecimal,
+	isUnsigned,
+	timestampToMillis,
+	timestampUnit,
+} from "./logical.ts";
+import type { ColumnChunk, SchemaElement, Statistics } from "./types.ts";
+import { Type } from "./types.ts";
+
+/** Decoded statistic value; byte arrays compare as unsigned bytes */
+type StatValue = number | bigint | Uint8Array;
+
+/** Decoded statistics of one column chunk */
+export interface ColumnStatistics {
+	min?: StatValue;
+	max?: StatValue;
+	nullCount?: bigint;
+	numRows: bigint;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Decode the statistics of a column chunk into comparable values.
+ */
+export function decodeStatistics(
+	chunk: ColumnChunk,
+	element: SchemaElement,
+	numRows: bigint,
+): ColumnStatistics {
+	const out: ColumnStatistics = { numRows };
+	const stats = chunk.meta_data?.statistics;
+	if (!stats) return out;
+
+	out.nullCount = stats.null_count;
+	const type = chunk.meta_data?.type;
+	// INT96 statistics have no defined sort order
+	if (type === undefined || type === Type.INT96 || isDecimal(element)) {
+		return out;
+	}
+
+	const [minBytes, maxBytes] = statBounds(stats, type);
+	const unsigned = isUnsigned(element);
+	const unit = timestampUnit(element);
+	const decode = (bytes: Uint8Array): StatValue | undefined => {
+		const value = decodeValue(type, bytes, unsigned);
+		// Timestamps are stored in milliseconds, compare in the same unit
+		return unit !== null && typeof value === "bigint"
+			? timestampToMillis(value, unit)
+			: value;
+	};
+	if (minBytes) out.min = decode(minBytes);
+	if (maxBytes) out.max = decode(maxBytes);
+	return out;
+}
+
+/**
+ * Prefer min_value/max_value. The deprecated min/max used signed byte
+ * order for binary columns, so they are only trusted for other types.
+ */
+function statBounds(
+	stats: Statistics,
+	type: Type,
+): [Uint8Array | undefined, Uint8Array | undefined] {
+	if (stats.min_value !== undefined || stats.max_value !== undefined) {
+		return [stats.min_value, stats.max_value];
+	}
+	if (type === Type.BYTE_ARRAY || type === Type.FIXED_LEN_BYTE_ARRAY) {
+		return [undefined, undefined];
+	}
+	return [stats.min, stats.max];
+}
+
+function decodeValue(
+	type: Type,
+	bytes: Uint8Array,
+	unsigned: boolean,
+): StatValue | undefined {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	switch (type) {
+		case Type.BOOLEAN:
+			return bytes.length >= 1 ? bytes[0] : undefined;
+		case Type.INT32:
+			if (bytes.length < 4) return undefined;
+			return unsigned ? view.getUint32(0, true) : view.getInt32(0, true);
+		case Type.INT64:
+			if (bytes.length < 8) return undefined;
+			return unsigned ? view.getBigUint64(0, true) : view.getBigInt64(0, true);
+		case Type.FLOAT:
+			return bytes.length >= 4 ? view.getFloat32(0, true) : undefined;
+		case Type.DOUBLE:
+			return bytes.length >= 8 ? view.getFloat64(0, true) : undefined;
+		case Type.BYTE_ARRAY:
+		case Type.FIXED_LEN_BYTE_ARRAY:
+			return bytes;
+		default:
+			return undefined;
+	}
+}
+
+/** Statistics lookup by column name */
+export type StatisticsLookup = (column: string) => ColumnStatistics | undefined;
+
+/**
+ * Whether any row of a row group can satisfy `expr`.
+ */
+export function mayMatch(expr: Expr, stats: StatisticsLookup): boolean {
+	switch (expr.type) {
+		case ExprType.And:
+			return expr.exprs.every((e) => mayMatch(e, stats));
+		case ExprType.Or:
+			return expr.exprs.some((e) => mayMatch(e, stats));
+		case ExprType.Eq:
+		case ExprType.Neq:
+		case ExprType.Lt:
+		case ExprType.Lte:
+		case ExprType.Gt:
+		case ExprType.Gte:
+			return comparisonMayMatch(expr.type, expr.left, expr.right, stats);
+		case ExprType.Between: {
+			const low = comparisonMayMatch(ExprType.Gte, expr.expr, expr.low, stats);
+			return (
+				low && comparisonMayMatch(ExprType.Lte, expr.expr, expr.high, stats)
+			);
+		}
+		case ExprType.IsNull: {
+			const column = columnStats(expr.expr, stats);
+			return column?.nullCount === undefined || column.nullCount > 0n;
+		}
+		case ExprType.IsNotNull: {
+			const column = columnStats(expr.expr, stats);
+			return column?.nullCount === undefined || !allNull(column);
+		}
+		default:
+			return true;
+	}
+}
+
+type ComparisonType =
+	| ExprType.Eq
+	| ExprType.Neq
+	| ExprType.Lt
+	| ExprType.Lte
+	| ExprType.Gt
+	| ExprType.Gte;
+
+/** Mirror a comparison so the column is on the left: lit < col => col > lit */
+const FLIPPED: Record<ComparisonType, ComparisonType> = {
+	[ExprType.Eq]: ExprType.Eq,
+	[ExprType.Neq]: ExprType.Neq,
+	[ExprType.Lt]: ExprType.Gt,
+	[ExprType.Lte]: ExprType.Gte,
+	[ExprType.Gt]: ExprType.Lt,
+	[ExprType.Gte]: ExprType.Lte,
+};
+
+function comparisonMayMatch(
+	op: ComparisonType,
+	left: Expr,
+	right: Expr,
+	stats: StatisticsLookup,
+): boolean {
+	if (left.type === ExprType.Literal && right.type === ExprType.Column) {
+		return comparisonMayMatch(FLIPPED[op], right, left, stats);
+	}
+	if (left.type !== ExprType.Column || right.type !== ExprType.Literal) {
+		return true;
+	}
+
+	const column = stats(left.name);
+	if (!column) return true;
+	// Comparisons never match null
+	if (allNull(column)) return false;
+
+	const value = literalValue(right.value);
+	if (value === undefined) return true;
+	const { min, max } = column;
+	const vsMin = min === undefined ? null : compare(value, min);
+	const vsMax = max === undefined ? null : compare(value, max);
+
+	switch (op) {
+		case ExprType.Eq:
+			return !((vsMin !== null && vsMin < 0) || (vsMax !== null && vsMax > 0));
+		case ExprType.Neq:
+			// Only skip when every non-null value equals the literal
+			return !(vsMin === 0 && vsMax === 0);
+		case ExprType.Lt:
+			return vsMin === null || vsMin > 0;
+		case ExprType.Lte:
+			return vsMin === null || vsMin >= 0;
+		case ExprType.Gt:
+			return vsMax === null || vsMax < 0;
+		case ExprType.Gte:
+			return vsMax === null || vsMax <= 0;
+	}
+}
+
+function columnStats(
+	expr: Expr,
+	stats: StatisticsLookup,
+): ColumnStatistics | undefined {
+	return expr.type === ExprType.Column ? stats(expr.name) : undefined;
+}
+
+function allNull(column: ColumnStatistics): boolean {
+	return column.nullCount !== undefined && column.nullCount >= column.numRows;
+}
+
+function literalValue(value: unknown): StatValue | undefined {
+	switch (typeof value) {
+		case "number":
+			return Number.isNaN(value) ? undefined : value;
+		case "bigint":
+			return value;
+		case "boolean":
+			return value ? 1 : 0;
+		case "string":
+			return encoder.encode(value);
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Compare two statistic values; null when they are not comparable.
+ */
+function compare(a: StatValue, b: StatValue): number | null {
+	if (a instanceof Uint8Array || b instanceof Uint8Array) {
+		if (!(a instanceof Uint8Array && b instanceof Uint8Array)) return null;
+		return compareBytes(a, b);
+	}
+	if (typeof a === "bigint" && typeof b === "bigint") {
+		return a < b ? -1 : a > b ? 1 : 0;
+	}
+	if (typeof a === "number" && typeof b === "number") {
+		return a < b ? -1 : a > b ? 1 : 0;
+	}
+	// Mixed number/bigint: compare exactly via the integer part
+	const n = (typeof a === "number" ? a : b) as number;
+	const big = (typeof a === "bigint" ? a : b) as bigint;
+	if (!Number.isFinite(n)) return (n > 0 ? 1 : -1) * (a === n ? 1 : -1);
+	const floor = BigInt(Math.floor(n));
+	let cmp = floor < big ? -1 : floor > big ? 1 : n > Math.floor(n) ? 1 : 0;
+	if (a !== n) cmp = -cmp;
+	return cmp;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		const diff = (a[i] as number) - (b[i] as number);
+		if (diff !== 0) return diff < 0 ? -1 : 1;
+	}
+	return a.length === b.length ? 0 : a.length < b.length ? -1 : 1;
+}
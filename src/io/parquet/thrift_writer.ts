@@ -0,0 +1,187 @@
+import { TType } from "./thrift_reader.ts";
+
+export class BinaryWriter {
+	private buffer: Uint8Array;
+	private view: DataView;
+	private offset: number;
+
+	constructor(initialCapacity: number = 1024) {
+		this.buffer = new Uint8Array(initialCapacity);
+		this.view = new DataView(this.buffer.buffer);
+		this.offset = 0;
+	}
+
+	getPos() {
+		return this.offset;
+	}
+
+	/** View over the bytes written so far */
+	toBytes(): Uint8Array {
+		return this.buffer.subarray(0, this.offset);
+	}
+
+	writeByte(value: number): void {
+		this.ensure(1);
+		this.buffer[this.offset++] = value & 0xff;
+	}
+
+	writeBytes(bytes: Uint8Array): void {
+		this.ensure(bytes.length);
+		this.buffer.set(bytes, this.offset);
+		this.offset += bytes.length;
+	}
+
+	writeInt32(value: number): void {
+		this.ensure(4);
+		this.view.setInt32(this.offset, value, true);
+		this.offset += 4;
+	}
+
+	writeUint32(value: number): void {
+		this.ensure(4);
+		this.view.setUint32(this.offset, value, true);
+		this.offset += 4;
+	}
+
+	writeFloat64(value: number): void {
+		this.ensure(8);
+		this.view.setFloat64(this.offset, value, true);
+		this.offset += 8;
+	}
+
+	// Thrift VarInts
+	writeVarInt(value: number): void {
+		let v = value >>> 0;
+		while (v > 0x7f) {
+			this.writeByte((v & 0x7f) | 0x80);
+			v >>>= 7;
+		}
+		this.writeByte(v);
+	}
+
+	writeVarBigInt(value: bigint): void {
+		let v = BigInt.asUintN(64, value);
+		while (v > 0x7fn) {
+			this.writeByte(Number(v & 0x7fn) | 0x80);
+			v >>= 7n;
+		}
+		this.writeByte(Number(v));
+	}
+
+	writeZigZagVarInt(value: number): void {
+		this.writeVarInt((value << 1) ^ (value >> 31));
+	}
+
+	writeZigZagVarBigInt(value: bigint): void {
+		const v = BigInt.asIntN(64, value);
+		this.writeVarBigInt((v << 1n) ^ (v >> 63n));
+	}
+
+	private ensure(n: number): void {
+		if (this.offset + n <= this.buffer.length) return;
+		let size = this.buffer.length * 2;
+		while (size < this.offset + n) size *= 2;
+		const next = new Uint8Array(size);
+		next.set(this.buffer.subarray(0, this.offset));
+		this.buffer = next;
+		this.view = new DataView(next.buffer);
+	}
+}
+
+export class CompactProtocolWriter {
+	writer: BinaryWriter;
+	lastFieldId: number = 0;
+	fieldIdStack: number[] = [];
+
+	constructor(writer: BinaryWriter = new BinaryWriter()) {
+		this.writer = writer;
+	}
+
+	toBytes(): Uint8Array {
+		return this.writer.toBytes();
+	}
+
+	writeStructBegin() {
+		this.fieldIdStack.push(this.lastFieldId);
+		this.lastFieldId = 0;
+	}
+
+	writeStructEnd() {
+		this.writer.writeByte(TType.STOP);
+		this.lastFieldId = this.fieldIdStack.pop() || 0;
+	}
+
+	writeFieldBegin(id: number, type: number) {
+		const delta = id - this.lastFieldId;
+		if (delta > 0 && delta <= 15) {
+			this.writer.writeByte((delta << 4) | type);
+		} else {
+			// Explicit field id follows the type byte
+			this.writer.writeByte(type);
+			this.writer.writeZigZagVarInt(id);
+		}
+		this.lastFieldId = id;
+	}
+
+	// Field helpers: header + value in one call
+	writeI32Field(id: number, value: number) {
+		this.writeFieldBegin(id, TType.I32);
+		this.writeI32(value);
+	}
+
+	writeI64Field(id: number, value: bigint) {
+		this.writeFieldBegin(id, TType.I64);
+		this.writeI64(value);
+	}
+
+	writeBoolField(id: number, value: boolean) {
+		// In compact proto, field bools are encoded in the header type
+		this.writeFieldBegin(id, value ? TType.BOOLEAN_TRUE : TType.BOOLEAN_FALSE);
+	}
+
+	writeByteField(id: number, value: number) {
+		this.writeFieldBegin(id, TType.BYTE);
+		this.writer.writeByte(value & 0xff);
+	}
+
+	writeStringField(id: number, value: string) {
+		this.writeFieldBegin(id, TType.BINARY);
+		this.writeString(value);
+	}
+
+	writeBinaryField(id: number, value: Uint8Array) {
+		this.writeFieldBegin(id, TType.BINARY);
+		this.writeBinary(value);
+	}
+
+	writeI32(value: number) {
+		this.writer.writeZigZagVarInt(value);
+	}
+
+	writeI64(value: bigint) {
+		this.writer.writeZigZagVarBigInt(value);
+	}
+
+	writeDouble(value: number) {
+		this.writer.writeFloat64(value);
+	}
+
+	writeString(value: string) {
+		this.writeBinary(new TextEncoder().encode(value));
+	}
+
+	writeBinary(value: Uint8Array) {
+		this.writer.writeVarInt(value.length);
+		this.writer.writeBytes(value);
+	}
+
+	// List/Set
+	writeListBegin(elemType: number, size: number) {
+		if (size < 15) {
+			this.writer.writeByte((size << 4) | elemType);
+		} else {
+			this.writer.writeByte(0xf0 | elemType);
+			this.writer.writeVarInt(size);
+		}
+	}
+}
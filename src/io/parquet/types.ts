@@ -48,6 +48,17 @@ export enum Encoding {
 	PLAIN_DICTIONARY = 2,
 	RLE = 3,
 	BIT_PACKED = 4,
+	DELTA_BINARY_PACKED = 5,
+	DELTA_LENGTH_BYTE_ARRAY = 6,
+	DELTA_BYTE_ARRAY = 7,
+	RLE_DICTIONARY = 8,
+}
+
+export enum PageType {
+	DATA_PAGE = 0,
+	INDEX_PAGE = 1,
+	DICTIONARY_PAGE = 2,
+	DATA_PAGE_V2 = 3,
 }
 
 export enum CompressionCodec {
@@ -58,9 +69,44 @@ export enum CompressionCodec {
 	BROTLI = 4,
 	LZ4 = 5,
 	ZSTD = 6,
+	LZ4_RAW = 7,
 }
 
+/** TimeUnit union of TIME and TIMESTAMP logical types */
+export type TimeUnit = "MILLIS" | "MICROS" | "NANOS";
+
+/**
+ * LogicalType union. Supersedes ConvertedType in newer writers; only the
+ * parameters that change how values are read are kept.
+ */
+export type LogicalType =
+	| { type: "DATE" }
+	| { type: "TIME" | "TIMESTAMP"; isAdjustedToUTC: boolean; unit: TimeUnit }
+	| { type: "INTEGER"; bitWidth: number; isSigned: boolean }
+	| { type: "DECIMAL"; scale: number; precision: number }
+	| {
+			type:
+				| "STRING"
+				| "MAP"
+				| "LIST"
+				| "ENUM"
+				| "UNKNOWN"
+				| "JSON"
+				| "BSON"
+				| "UUID"
+				| "FLOAT16";
+	  };
+
 // Structs
+export interface Statistics {
+	max?: Uint8Array;
+	min?: Uint8Array;
+	null_count?: bigint;
+	distinct_count?: bigint;
+	max_value?: Uint8Array;
+	min_value?: Uint8Array;
+}
+
 export interface SchemaElement {
 	type?: Type;
 	type_length?: number;
@@ -71,6 +117,7 @@ export interface SchemaElement {
 	scale?: number;
 	precision?: number;
 	field_id?: number;
+	logical_type?: LogicalType;
 }
 
 export interface ColumnMetaData {
@@ -85,6 +132,39 @@ export interface ColumnMetaData {
 	data_page_offset: bigint;
 	index_page_offset?: bigint;
 	dictionary_page_offset?: bigint;
+	statistics?: Statistics;
+}
+
+export interface DataPageHeader {
+	num_values?: number;
+	encoding?: number;
+	definition_level_encoding?: number;
+	repetition_level_encoding?: number;
+}
+
+export interface DataPageHeaderV2 {
+	num_values?: number;
+	num_nulls?: number;
+	num_rows?: number;
+	encoding?: number;
+	definition_levels_byte_length?: number;
+	repetition_levels_byte_length?: number;
+	/** Whether the values section is compressed (default: true) */
+	is_compressed?: boolean;
+}
+
+export interface DictionaryPageHeader {
+	num_values?: number;
+	encoding?: number;
+}
+
+export interface PageHeader {
+	type?: number;
+	uncompressed_page_size?: number;
+	compressed_page_size?: number;
+	data_page_header?: DataPageHeader;
+	dictionary_page_header?: DictionaryPageHeader;
+	data_page_header_v2?: DataPageHeaderV2;
 }
 
 export interface ColumnChunk {
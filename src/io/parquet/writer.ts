@@ -0,0 +1,665 @@
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by row counts */
+/**
+ * Parquet writer.
+ *
+ * Streams chunks into row groups. Each column chunk is written as an
+ * optional dictionary page followed by a single v1 or v2 data page.
+ * Supports PLAIN and RLE_DICTIONARY encodings, Snappy/GZIP/ZSTD compression
+ * and min/max/null_count statistics.
+ */
+
+import { renameSync, rmSync } from "node:fs";
+import type { Chunk } from "../../buffer/chunk.ts";
+import type { TypedArray } from "../../buffer/column-buffer.ts";
+import type { Dictionary } from "../../buffer/dictionary.ts";
+import { DTYPE_ARRAY_CONSTRUCTORS, DTypeKind } from "../../types/dtypes.ts";
+import type { ColumnDef, Schema } from "../../types/schema.ts";
+import { compress } from "./compression/index.ts";
+import { bitWidth, writeRleBitPackedHybrid } from "./encoding/rle.ts";
+import { ThriftMetadataWriter } from "./metadata_writer.ts";
+import { type PlainValues, writePlain } from "./plain.ts";
+import {
+	type ColumnChunk,
+	CompressionCodec,
+	ConvertedType,
+	Encoding,
+	FieldRepetitionType,
+	type PageHeader,
+	PageType,
+	type RowGroup,
+	type SchemaElement,
+	type Statistics,
+	Type,
+} from "./types.ts";
+
+/** Page compression codecs supported for writing */
+export type ParquetCompression = "uncompressed" | "snappy" | "gzip" | "zstd";
+
+const WRITE_CODECS: Record<ParquetCompression, CompressionCodec> = {
+	uncompressed: CompressionCodec.UNCOMPRESSED,
+	snappy: CompressionCodec.SNAPPY,
+	gzip: CompressionCodec.GZIP,
+	zstd: CompressionCodec.ZSTD,
+};
+
+/** Parquet writing options */
+export interface ParquetWriteOptions {
+	/** Maximum rows per row group (default: 65536) */
+	rowGroupSize?: number;
+	/** Page compression (default: "snappy") */
+	compression?: ParquetCompression;
+	/** Dictionary-encode columns with RLE_DICTIONARY (default: true) */
+	dictionary?: boolean;
+	/** Write min/max/null_count column statistics (default: true) */
+	statistics?: boolean;
+	/** Data page header version (default: "1.0") */
+	dataPageVersion?: "1.0" | "2.0";
+}
+
+const MAGIC = new TextEncoder().encode("PAR1");
+
+/** Columns with more distinct values than this fall back to PLAIN */
+const MAX_DICTIONARY_SIZE = 65536;
+
+/** Physical type and converted type for each DType */
+const PHYSICAL_TYPES: Record<
+	DTypeKind,
+	{ type: Type; name: string; converted?: ConvertedType }
+> = {
+	[DTypeKind.Int8]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.INT_8,
+	},
+	[DTypeKind.Int16]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.INT_16,
+	},
+	[DTypeKind.Int32]: { type: Type.INT32, name: "INT32" },
+	[DTypeKind.Int64]: { type: Type.INT64, name: "INT64" },
+	[DTypeKind.UInt8]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.UINT_8,
+	},
+	[DTypeKind.UInt16]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.UINT_16,
+	},
+	[DTypeKind.UInt32]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.UINT_32,
+	},
+	[DTypeKind.UInt64]: {
+		type: Type.INT64,
+		name: "INT64",
+		converted: ConvertedType.UINT_64,
+	},
+	[DTypeKind.Float32]: { type: Type.FLOAT, name: "FLOAT" },
+	[DTypeKind.Float64]: { type: Type.DOUBLE, name: "DOUBLE" },
+	[DTypeKind.Boolean]: { type: Type.BOOLEAN, name: "BOOLEAN" },
+	[DTypeKind.String]: {
+		type: Type.BYTE_ARRAY,
+		name: "BYTE_ARRAY",
+		converted: ConvertedType.UTF8,
+	},
+	[DTypeKind.Date]: {
+		type: Type.INT32,
+		name: "INT32",
+		converted: ConvertedType.DATE,
+	},
+	[DTypeKind.Timestamp]: {
+		type: Type.INT64,
+		name: "INT64",
+		converted: ConvertedType.TIMESTAMP_MILLIS,
+	},
+	[DTypeKind.List]: {
+		type: Type.BYTE_ARRAY,
+		name: "BYTE_ARRAY",
+		converted: ConvertedType.JSON,
+	},
+};
+
+/** Kinds holding dictionary indices, written as their byte strings */
+function isDictionaryKind(kind: DTypeKind): boolean {
+	return kind === DTypeKind.String || kind === DTypeKind.List;
+}
+
+/**
+ * Parquet file writer. Call write() for each chunk, then close().
+ * Output goes to a temporary file next to `path`, moved into place on close().
+ */
+export class ParquetWriter {
+	private readonly path: string;
+	private readonly tempPath: string;
+	private readonly sink: Bun.FileSink;
+	private readonly schema: Schema;
+	private readonly options: Required<ParquetWriteOptions>;
+	private readonly builders: ColumnChunkBuilder[];
+	private dictionary: Dictionary | null;
+
+	private offset: number = 0;
+	private rowsInGroup: number = 0;
+	private totalRows: number = 0;
+	private readonly rowGroups: RowGroup[] = [];
+
+	constructor(
+		path: string,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: ParquetWriteOptions,
+	) {
+		this.path = path;
+		this.tempPath = `${path}.${process.pid}.tmp`;
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.options = {
+			rowGroupSize: options?.rowGroupSize ?? 65536,
+			compression: options?.compression ?? "snappy",
+			dictionary: options?.dictionary ?? true,
+			statistics: options?.statistics ?? true,
+			dataPageVersion: options?.dataPageVersion ?? "1.0",
+		};
+		if (this.options.rowGroupSize <= 0) {
+			throw new Error("Invalid row group size");
+		}
+
+		this.builders = schema.columns.map(
+			(def) => new ColumnChunkBuilder(def, this.options.rowGroupSize),
+		);
+
+		this.sink = Bun.file(this.tempPath).writer();
+		this.emit(MAGIC);
+	}
+
+	/**
+	 * Append a chunk. Flushes a row group whenever rowGroupSize is reached.
+	 */
+	async write(chunk: Chunk): Promise<void> {
+		const dict = chunk.dictionary ?? this.dictionary;
+		if (this.dictionary === null) this.dictionary = dict;
+
+		const rowCount = chunk.rowCount;
+		let row = 0;
+		while (row < rowCount) {
+			const take = Math.min(
+				rowCount - row,
+				this.options.rowGroupSize - this.rowsInGroup,
+			);
+			for (let c = 0; c < this.builders.length; c++) {
+				this.builders[c]!.append(
+					chunk,
+					c,
+					row,
+					row + take,
+					dict,
+					this.dictionary,
+				);
+			}
+			row += take;
+			this.rowsInGroup += take;
+
+			if (this.rowsInGroup >= this.options.rowGroupSize) {
+				await this.flushRowGroup();
+			}
+		}
+	}
+
+	/**
+	 * Flush the last row group, write the footer and move the file into place.
+	 */
+	async close(): Promise<void> {
+		if (this.rowsInGroup > 0) {
+			await this.flushRowGroup();
+		}
+
+		const metaWriter = new ThriftMetadataWriter();
+		metaWriter.writeFileMetaData({
+			version: 1,
+			schema: this.buildSchemaElements(),
+			num_rows: BigInt(this.totalRows),
+			row_groups: this.rowGroups,
+			created_by: "mornye",
+		});
+		const footer = metaWriter.toBytes();
+
+		const tail = new Uint8Array(8);
+		new DataView(tail.buffer).setUint32(0, footer.length, true);
+		tail.set(MAGIC, 4);
+
+		this.emit(footer);
+		this.emit(tail);
+		await this.sink.end();
+		renameSync(this.tempPath, this.path);
+	}
+
+	/**
+	 * Discard the partly written file (after a failure).
+	 */
+	async abort(): Promise<void> {
+		await this.sink.end();
+		rmSync(this.tempPath, { force: true });
+	}
+
+	private emit(bytes: Uint8Array): void {
+		this.sink.write(bytes);
+		this.offset += bytes.length;
+	}
+
+	private async flushRowGroup(): Promise<void> {
+		const columns: ColumnChunk[] = [];
+		let totalByteSize = 0n;
+
+		for (const builder of this.builders) {
+			const encoded = builder.encode(
+				this.offset,
+				this.dictionary,
+				this.options,
+			);
+			for (const part of encoded.parts) {
+				this.emit(part);
+			}
+			columns.push(encoded.chunk);
+			totalByteSize += encoded.chunk.meta_data!.total_uncompressed_size;
+			builder.reset();
+		}
+
+		this.rowGroups.push({
+			columns,
+			total_byte_size: totalByteSize,
+			num_rows: BigInt(this.rowsInGroup),
+		});
+		this.totalRows += this.rowsInGroup;
+		this.rowsInGroup = 0;
+		await this.sink.flush();
+	}
+
+	private buildSchemaElements(): SchemaElement[] {
+		const elements: SchemaElement[] = [
+			{ name: "schema", num_children: this.schema.columnCount },
+		];
+		for (const def of this.schema.columns) {
+			const physical = PHYSICAL_TYPES[def.dtype.kind];
+			elements.push({
+				name: def.name,
+				type: physical.type,
+				repetition_type: def.dtype.nullable
+					? FieldRepetitionType.OPTIONAL
+					: FieldRepetitionType.REQUIRED,
+				converted_type: physical.converted,
+			});
+		}
+		return elements;
+	}
+}
+
+/**
+ * Buffers one column's values for the current row group.
+ * Non-null values are packed densely; nulls live in definition levels.
+ */
+class ColumnChunkBuilder {
+	private readonly def: ColumnDef;
+	private readonly values: TypedArray;
+	private readonly defLevels: Uint8Array | null;
+	private rowCount: number = 0;
+	private valueCount: number = 0;
+
+	constructor(def: ColumnDef, capacity: number) {
+		this.def = def;
+		const Constructor = DTYPE_ARRAY_CONSTRUCTORS[def.dtype.kind];
+		this.values = new Constructor(capacity);
+		this.defLevels = def.dtype.nullable ? new Uint8Array(capacity) : null;
+	}
+
+	append(
+		chunk: Chunk,
+		columnIndex: number,
+		from: number,
+		to: number,
+		chunkDictionary: Dictionary | null,
+		targetDictionary: Dictionary | null,
+	): void {
+		const column = chunk.getColumn(columnIndex);
+		if (!column) throw new Error(`Missing column '${this.def.name}'`);
+
+		const selection = chunk.getSelection();
+		const data = column.data as TypedArray;
+		const reintern =
+			isDictionaryKind(this.def.dtype.kind) &&
+			chunkDictionary !== null &&
+			targetDictionary !== null &&
+			chunkDictionary !== targetDictionary;
+
+		for (let r = from; r < to; r++) {
+			const phys = selection === null ? r : selection[r]!;
+			if (column.isNull(phys)) {
+				if (this.defLevels === null) {
+					throw new Error(
+						`Column '${this.def.name}' is not nullable but contains nulls`,
+					);
+				}
+				this.defLevels[this.rowCount++] = 0;
+				continue;
+			}
+
+			let value = data[phys]!;
+			if (reintern) {
+				value = targetDictionary!.intern(
+					chunkDictionary!.getBytes(value as number)!,
+				);
+			}
+			(this.values as TypedArray)[this.valueCount++] = value as never;
+			if (this.defLevels !== null) this.defLevels[this.rowCount] = 1;
+			this.rowCount++;
+		}
+	}
+
+	reset(): void {
+		this.rowCount = 0;
+		this.valueCount = 0;
+	}
+
+	/**
+	 * Encode buffered values as a column chunk starting at fileOffset.
+	 */
+	encode(
+		fileOffset: number,
+		dictionary: Dictionary | null,
+		options: Required<ParquetWriteOptions>,
+	): { parts: Uint8Array[]; chunk: ColumnChunk } {
+		const kind = this.def.dtype.kind;
+		const physical = PHYSICAL_TYPES[kind];
+		const values = this.values.subarray(0, this.valueCount);
+		const codec = WRITE_CODECS[options.compression];
+
+		const parts: Uint8Array[] = [];
+		const encodings: Encoding[] = [];
+		let uncompressedSize = 0;
+		let compressedSize = 0;
+		let dictionaryPageOffset: number | undefined;
+
+		const addPage = (
+			page: { header: Uint8Array; body: Uint8Array },
+			rawLength: number,
+		) => {
+			parts.push(page.header, page.body);
+			uncompressedSize += page.header.length + rawLength;
+			compressedSize += page.header.length + page.body.length;
+		};
+
+		// Values section of the data page
+		let valueBytes: Uint8Array;
+		let dataEncoding = Encoding.PLAIN;
+
+		const dict =
+			options.dictionary && kind !== DTypeKind.Boolean
+				? buildLocalDictionary(values)
+				: null;
+
+		if (dict !== null && dict.distinct.length <= MAX_DICTIONARY_SIZE) {
+			const dictBody = writePlain(
+				physical.name,
+				toPhysical(kind, dict.distinct, dictionary),
+			);
+			dictionaryPageOffset = fileOffset;
+			addPage(
+				compressPage(
+					{
+						type: PageType.DICTIONARY_PAGE,
+						dictionary_page_header: {
+							num_values: dict.distinct.length,
+							encoding: Encoding.PLAIN,
+						},
+					},
+					dictBody,
+					codec,
+				),
+				dictBody.length,
+			);
+
+			const indexWidth = Math.max(1, bitWidth(dict.distinct.length - 1));
+			const indices = writeRleBitPackedHybrid(dict.indices, indexWidth);
+			valueBytes = new Uint8Array(1 + indices.length);
+			valueBytes[0] = indexWidth;
+			valueBytes.set(indices, 1);
+			dataEncoding = Encoding.RLE_DICTIONARY;
+			encodings.push(Encoding.PLAIN);
+		} else {
+			valueBytes = writePlain(
+				physical.name,
+				toPhysical(kind, values, dictionary),
+			);
+		}
+
+		const levels =
+			this.defLevels === null
+				? new Uint8Array(0)
+				: writeRleBitPackedHybrid(this.defLevels.subarray(0, this.rowCount), 1);
+
+		const dataPageOffset = fileOffset + compressedSize;
+		if (options.dataPageVersion === "2.0") {
+			// v2 pages: levels stay uncompressed ahead of the values, no prefix
+			addPage(
+				compressPage(
+					{
+						type: PageType.DATA_PAGE_V2,
+						data_page_header_v2: {
+							num_values: this.rowCount,
+							num_nulls: this.rowCount - this.valueCount,
+							num_rows: this.rowCount,
+							encoding: dataEncoding,
+							definition_levels_byte_length: levels.length,
+							repetition_levels_byte_length: 0,
+							is_compressed: codec !== CompressionCodec.UNCOMPRESSED,
+						},
+					},
+					valueBytes,
+					codec,
+					levels,
+				),
+				levels.length + valueBytes.length,
+			);
+		} else {
+			// v1 pages: 4-byte length prefix + RLE hybrid levels, all compressed
+			let body = valueBytes;
+			if (this.defLevels !== null) {
+				body = new Uint8Array(4 + levels.length + valueBytes.length);
+				new DataView(body.buffer).setUint32(0, levels.length, true);
+				body.set(levels, 4);
+				body.set(valueBytes, 4 + levels.length);
+			}
+			addPage(
+				compressPage(
+					{
+						type: PageType.DATA_PAGE,
+						data_page_header: {
+							num_values: this.rowCount,
+							encoding: dataEncoding,
+							definition_level_encoding: Encoding.RLE,
+							repetition_level_encoding: Encoding.RLE,
+						},
+					},
+					body,
+					codec,
+				),
+				body.length,
+			);
+		}
+		encodings.push(dataEncoding, Encoding.RLE);
+
+		return {
+			parts,
+			chunk: {
+				file_offset: BigInt(dataPageOffset),
+				meta_data: {
+					type: physical.type,
+					encodings,
+					path_in_schema: [this.def.name],
+					codec,
+					num_values: BigInt(this.rowCount),
+					total_uncompressed_size: BigInt(uncompressedSize),
+					total_compressed_size: BigInt(compressedSize),
+					data_page_offset: BigInt(dataPageOffset),
+					dictionary_page_offset:
+						dictionaryPageOffset === undefined
+							? undefined
+							: BigInt(dictionaryPageOffset),
+					statistics: options.statistics
+						? this.computeStatistics(values, dictionary)
+						: undefined,
+				},
+			},
+		};
+	}
+
+	private computeStatistics(
+		values: TypedArray,
+		dictionary: Dictionary | null,
+	): Statistics {
+		const kind = this.def.dtype.kind;
+		const stats: Statistics = {
+			null_count: BigInt(this.rowCount - this.valueCount),
+		};
+
+		let min: number | bigint | undefined;
+		let max: number | bigint | undefined;
+		if (isDictionaryKind(kind)) {
+			if (!dictionary) return stats;
+			for (let i = 0; i < values.length; i++) {
+				const v = values[i] as number;
+				if (min === undefined || dictionary.compare(v, min as number) < 0)
+					min = v;
+				if (max === undefined || dictionary.compare(v, max as number) > 0)
+					max = v;
+			}
+		} else {
+			for (let i = 0; i < values.length; i++) {
+				const v = values[i]!;
+				if (typeof v === "number" && Number.isNaN(v)) continue;
+				if (min === undefined || v < min) min = v;
+				if (max === undefined || v > max) max = v;
+			}
+		}
+
+		if (min !== undefined && max !== undefined) {
+			stats.min_value = encodeStatValue(kind, min, dictionary);
+			stats.max_value = encodeStatValue(kind, max, dictionary);
+		}
+		return stats;
+	}
+}
+
+/**
+ * Map values to dense dictionary indices in first-seen order.
+ */
+function buildLocalDictionary(values: TypedArray): {
+	distinct: TypedArray;
+	indices: Uint32Array;
+} | null {
+	const lookup = new Map<number | bigint, number>();
+	const indices = new Uint32Array(values.length);
+	const order: number[] = [];
+
+	for (let i = 0; i < values.length; i++) {
+		const v = values[i]!;
+		let idx = lookup.get(v);
+		if (idx === undefined) {
+			idx = lookup.size;
+			if (idx >= MAX_DICTIONARY_SIZE) return null;
+			lookup.set(v, idx);
+			order.push(i);
+		}
+		indices[i] = idx;
+	}
+
+	const Constructor = values.constructor as new (n: number) => TypedArray;
+	const distinct = new Constructor(order.length);
+	for (let i = 0; i < order.length; i++) {
+		(distinct as TypedArray)[i] = values[order[i]!]! as never;
+	}
+	return { distinct, indices };
+}
+
+/**
+ * Convert stored column values to the physical representation.
+ */
+function toPhysical(
+	kind: DTypeKind,
+	values: TypedArray,
+	dictionary: Dictionary | null,
+): PlainValues {
+	switch (kind) {
+		case DTypeKind.Int8:
+		case DTypeKind.Int16:
+		case DTypeKind.UInt8:
+		case DTypeKind.UInt16:
+		case DTypeKind.UInt32:
+			return Int32Array.from(values as ArrayLike<number>);
+		case DTypeKind.UInt64:
+			return new BigInt64Array(values.buffer, values.byteOffset, values.length);
+		case DTypeKind.String:
+		case DTypeKind.List: {
+			if (!dictionary) throw new Error("String column without dictionary");
+			const out: Uint8Array[] = new Array(values.length);
+			for (let i = 0; i < values.length; i++) {
+				out[i] = dictionary.getBytes(values[i] as number) ?? new Uint8Array(0);
+			}
+			return out;
+		}
+		default:
+			return values as PlainValues;
+	}
+}
+
+/**
+ * Encode a single statistics value as its PLAIN bytes (no length prefix).
+ */
+function encodeStatValue(
+	kind: DTypeKind,
+	value: number | bigint,
+	dictionary: Dictionary | null,
+): Uint8Array {
+	const physical = PHYSICAL_TYPES[kind];
+	switch (physical.type) {
+		case Type.BYTE_ARRAY:
+			return new Uint8Array(dictionary!.getBytes(value as number)!);
+		case Type.BOOLEAN:
+			return new Uint8Array([value ? 1 : 0]);
+		default: {
+			const Constructor = DTYPE_ARRAY_CONSTRUCTORS[kind];
+			const single = new Constructor(1);
+			(single as TypedArray)[0] = value as never;
+			return writePlain(physical.name, toPhysical(kind, single, dictionary));
+		}
+	}
+}
+
+/**
+ * Compress a page body and serialize its header.
+ * `levels` (v2 pages) are prepended to the compressed body as-is.
+ */
+function compressPage(
+	header: Omit<PageHeader, "uncompressed_page_size" | "compressed_page_size">,
+	body: Uint8Array,
+	codec: CompressionCodec,
+	levels: Uint8Array = new Uint8Array(0),
+): { header: Uint8Array; body: Uint8Array } {
+	let compressed = compress(codec, body);
+	if (levels.length > 0) {
+		const page = new Uint8Array(levels.length + compressed.length);
+		page.set(levels);
+		page.set(compressed, levels.length);
+		compressed = page;
+	}
+
+	const metaWriter = new ThriftMetadataWriter();
+	metaWriter.writePageHeader({
+		...header,
+		uncompressed_page_size: levels.length + body.length,
+		compressed_page_size: compressed.length,
+	});
+	return { header: metaWriter.toBytes(), body: compressed };
+}
@@ -0,0 +1,306 @@
+/**
+ * Hive-partitioned writer.
+ *
+ * Splits rows by the values of the partition columns and writes each
+ * group under `dir/key=value/...`, leaving the partition columns out of
+ * the files themselves (readDataset adds them back from the path).
+ * Every partition keeps one open file writer; a new file is started when
+ * maxRowsPerFile is reached. Overwrites are written to a staging directory
+ * that replaces `dir` on close, so the old dataset stays readable (and
+ * intact, if the write fails) until then.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by the schema */
+
+import { mkdirSync, readdirSync, renameSync, rmSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { Chunk } from "../buffer/chunk.ts";
+import type { DictIndex, Dictionary } from "../buffer/dictionary.ts";
+import { DTypeKind } from "../types/dtypes.ts";
+import { ErrorCode } from "../types/error.ts";
+import { dropColumns, type Schema } from "../types/schema.ts";
+import { type CsvWriteOptions, CsvWriter } from "./csv-writer.ts";
+import { type ParquetWriteOptions, ParquetWriter } from "./parquet/writer.ts";
+
+export interface PartitionedWriteOptions {
+	/** File format (default: "parquet") */
+	format?: "parquet" | "csv";
+	/** Start a new file once a partition file holds this many rows */
+	maxRowsPerFile?: number;
+	/**
+	 * "overwrite" replaces `dir` once every file is written; "append" adds
+	 * new files next to existing ones (default: "overwrite")
+	 */
+	mode?: "overwrite" | "append";
+	/** Options for each Parquet file */
+	parquet?: ParquetWriteOptions;
+	/** Options for each CSV file */
+	csv?: CsvWriteOptions;
+}
+
+/** Value Hive reads back as a null partition value */
+const HIVE_NULL = "__HIVE_DEFAULT_PARTITION__";
+const MILLIS_PER_DAY = 86400000;
+
+/** Writer of one output file */
+interface FileWriter {
+	write(chunk: Chunk): Promise<void>;
+	close(): Promise<void>;
+	abort(): Promise<void>;
+}
+
+/** Open output of one partition */
+interface Partition {
+	dir: string;
+	writer: FileWriter | null;
+	/** Rows in the current file */
+	rows: number;
+	/** Index of the next file to create */
+	nextFile: number;
+}
+
+export class PartitionedWriter {
+	/** Directory the dataset ends up in */
+	private readonly target: string;
+	/** Directory files are written to: `target`, or its staging directory */
+	private readonly dir: string;
+	private readonly keyIndices: number[];
+	private readonly keyNames: string[];
+	private readonly dataIndices: number[];
+	private readonly dataSchema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly options: PartitionedWriteOptions;
+	private readonly maxRowsPerFile: number;
+	private readonly partitions = new Map<string, Partition>();
+
+	constructor(
+		dir: string,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		partitionBy: readonly string[],
+		options?: PartitionedWriteOptions,
+	) {
+		if (partitionBy.length === 0) {
+			throw new Error("writePartitioned needs at least one partition column");
+		}
+		const keyIndices: number[] = [];
+		for (const name of partitionBy) {
+			const index = schema.columnMap.get(name);
+			if (index === undefined) {
+				throw new Error(`Partition column '${name}' not found`);
+			}
+			keyIndices.push(index);
+		}
+		const dataSchema = dropColumns(schema, [...partitionBy]);
+		if (dataSchema.error !== ErrorCode.None) {
+			throw new Error("writePartitioned needs at least one data column");
+		}
+
+		this.target = resolve(dir);
+		this.dir =
+			(options?.mode ?? "overwrite") === "overwrite"
+				? `${this.target}.${process.pid}.tmp`
+				: this.target;
+		this.keyIndices = keyIndices;
+		this.keyNames = [...partitionBy];
+		this.dataIndices = schema.columns
+			.map((_, i) => i)
+			.filter((i) => !keyIndices.includes(i));
+		this.dataSchema = dataSchema.value;
+		this.dictionary = dictionary;
+		this.options = options ?? {};
+		this.maxRowsPerFile = options?.maxRowsPerFile ?? Number.POSITIVE_INFINITY;
+		if (this.maxRowsPerFile <= 0) {
+			throw new Error("Invalid maxRowsPerFile");
+		}
+
+		if (this.dir !== this.target) {
+			rmSync(this.dir, { recursive: true, force: true });
+		}
+		mkdirSync(this.dir, { recursive: true });
+	}
+
+	/**
+	 * Route each row of a chunk to its partition's file.
+	 */
+	async write(chunk: Chunk): Promise<void> {
+		const dictionary = chunk.dictionary ?? this.dictionary;
+		const groups = new Map<string, number[]>();
+		for (let r = 0; r < chunk.rowCount; r++) {
+			const path = this.partitionPath(chunk, r, dictionary);
+			let rows = groups.get(path);
+			if (!rows) {
+				rows = [];
+				groups.set(path, rows);
+			}
+			rows.push(chunk.physicalIndex(r));
+		}
+
+		const columns = chunk.getColumns();
+		const dataColumns = this.dataIndices.map((i) => columns[i]!);
+		for (const [path, rows] of groups) {
+			const partition = this.partition(path);
+			let start = 0;
+			while (start < rows.length) {
+				if (partition.rows >= this.maxRowsPerFile) {
+					await partition.writer?.close();
+					partition.writer = null;
+				}
+				if (partition.writer === null) {
+					partition.writer = this.openFile(partition);
+					partition.rows = 0;
+				}
+
+				const take = Math.min(
+					rows.length - start,
+					this.maxRowsPerFile - partition.rows,
+				);
+				const selection = Uint32Array.from(rows.slice(start, start + take));
+				const part = new Chunk(this.dataSchema, dataColumns, chunk.dictionary);
+				part.applySelection(selection, take);
+				await partition.writer.write(part);
+				partition.rows += take;
+				start += take;
+			}
+		}
+	}
+
+	/** Close every open file and move an overwrite into place */
+	async close(): Promise<void> {
+		for (const partition of this.partitions.values()) {
+			await partition.writer?.close();
+			partition.writer = null;
+		}
+		if (this.dir !== this.target) {
+			rmSync(this.target, { recursive: true, force: true });
+			renameSync(this.dir, this.target);
+		}
+	}
+
+	/** Discard open files (and an unfinished overwrite) after a failure */
+	async abort(): Promise<void> {
+		for (const partition of this.partitions.values()) {
+			await partition.writer?.abort();
+			partition.writer = null;
+		}
+		if (this.dir !== this.target) {
+			rmSync(this.dir, { recursive: true, force: true });
+		}
+	}
+
+	/** Relative directory of a row, e.g. "date=2026-10-01/hour=3" */
+	private partitionPath(
+		chunk: Chunk,
+		row: number,
+		dictionary: Dictionary | null,
+	): string {
+		const segments: string[] = [];
+		for (let k = 0; k < this.keyIndices.length; k++) {
+			const index = this.keyIndices[k]!;
+			const name = this.keyNames[k]!;
+			if (chunk.isNull(index, row)) {
+				segments.push(`${name}=${HIVE_NULL}`);
+				continue;
+			}
+			const value = chunk.getValue(index, row)!;
+			const kind = chunk.schema.columns[index]!.dtype.kind;
+			segments.push(
+				`${name}=${encodeURIComponent(formatKey(kind, value, dictionary))}`,
+			);
+		}
+		return segments.join("/");
+	}
+
+	private partition(path: string): Partition {
+		let partition = this.partitions.get(path);
+		if (!partition) {
+			const dir = join(this.dir, path);
+			mkdirSync(dir, { recursive: true });
+			partition = { dir, writer: null, rows: 0, nextFile: nextFileIndex(dir) };
+			this.partitions.set(path, partition);
+		}
+		return partition;
+	}
+
+	private openFile(partition: Partition): FileWriter {
+		const format = this.options.format ?? "parquet";
+		const name = `part-${String(partition.nextFile++).padStart(5, "0")}.${format}`;
+		const path = join(partition.dir, name);
+		if (format === "csv") {
+			return new CsvFileWriter(
+				path,
+				this.dataSchema,
+				this.dictionary,
+				this.options.csv,
+			);
+		}
+		return new ParquetWriter(
+			path,
+			this.dataSchema,
+			this.dictionary,
+			this.options.parquet,
+		);
+	}
+}
+
+/** Streams chunks into one CSV file */
+class CsvFileWriter implements FileWriter {
+	private readonly path: string;
+	private readonly encoder: CsvWriter;
+	private readonly sink: Bun.FileSink;
+
+	constructor(
+		path: string,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: CsvWriteOptions,
+	) {
+		this.path = path;
+		this.encoder = new CsvWriter(schema, dictionary, options);
+		this.sink = Bun.file(path).writer();
+		this.sink.write(this.encoder.header());
+	}
+
+	async write(chunk: Chunk): Promise<void> {
+		this.sink.write(this.encoder.encodeChunk(chunk));
+		await this.sink.flush();
+	}
+
+	async close(): Promise<void> {
+		await this.sink.end();
+	}
+
+	async abort(): Promise<void> {
+		await this.sink.end();
+		rmSync(this.path, { force: true });
+	}
+}
+
+/** Text of a partition value */
+function formatKey(
+	kind: DTypeKind,
+	value: number | bigint,
+	dictionary: Dictionary | null,
+): string {
+	switch (kind) {
+		case DTypeKind.String:
+			return dictionary?.getString(value as DictIndex) ?? "";
+		case DTypeKind.Boolean:
+			return value ? "true" : "false";
+		case DTypeKind.Date:
+			return new Date(Number(value) * MILLIS_PER_DAY)
+				.toISOString()
+				.slice(0, 10);
+		default:
+			return String(value);
+	}
+}
+
+/** First unused part number in a partition directory (for append mode) */
+function nextFileIndex(dir: string): number {
+	let next = 0;
+	for (const name of readdirSync(dir)) {
+		const match = /^part-(\d+)\./.exec(name);
+		if (match) next = Math.max(next, Number(match[1]) + 1);
+	}
+	return next;
+}
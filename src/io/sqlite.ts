@@ -0,0 +1,426 @@
+/**
+ * SQLite reader and writer (bun:sqlite).
+ *
+ * Query results are read row by row from the statement into chunks.
+ * Column types come from the declared types of the result columns, using
+ * SQLite's affinity rules; expression columns without a declared type
+ * take the type of their first non-null value. Every column is nullable.
+ *
+ * Dates and timestamps are stored as ISO-8601 text, which SQLite's date
+ * functions understand; numeric values are read as Unix seconds.
+ */
+/** biome-ignore-all lint/style/noNonNullAssertion: Indices bounded by the schema */
+
+import { Database, type SQLQueryBindings, type Statement } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { Chunk } from "../buffer/chunk.ts";
+import { ColumnBuffer } from "../buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../buffer/dictionary.ts";
+import { DataFrame } from "../dataframe/core.ts";
+import { DType, DTypeKind } from "../types/dtypes.ts";
+import { ErrorCode } from "../types/error.ts";
+import { createSchema, type Schema } from "../types/schema.ts";
+import { compileDateFormat, millisToDays } from "./date-format.ts";
+
+/** SQLite reading options */
+export interface SqliteReadOptions {
+	/** Values bound to the query's `?` or `$name` parameters */
+	params?: SQLQueryBindings[];
+	/** Column types to use instead of the declared ones */
+	schema?: Record<string, DType>;
+	/** Rows per chunk (default: 16384) */
+	chunkSize?: number;
+}
+
+/** SQLite writing options */
+export interface SqliteWriteOptions {
+	/**
+	 * "create" fails if the table exists, "append" inserts into it
+	 * (creating it if missing) and "replace" drops it first
+	 * (default: "create")
+	 */
+	mode?: "create" | "append" | "replace";
+	/** Rows queued before they are inserted (default: 10000) */
+	batchSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 16384;
+const DEFAULT_BATCH_SIZE = 10000;
+const MS_PER_DAY = 86_400_000;
+
+const parseIso = compileDateFormat("iso").value!;
+const encoder = new TextEncoder();
+
+/**
+ * Run a query and read its result as a DataFrame.
+ */
+export async function readSqlite(
+	dbPath: string,
+	query: string,
+	options?: SqliteReadOptions,
+): Promise<DataFrame> {
+	if (dbPath !== ":memory:" && !existsSync(dbPath)) {
+		throw new Error(`SQLite database not found: ${dbPath}`);
+	}
+	const db = new Database(dbPath, { readonly: true, safeIntegers: true });
+	try {
+		return readStatement(db.query(query), options);
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Read all rows of a statement into chunks. Rows of the first chunk are
+ * held as values until the types of undeclared columns are known.
+ */
+function readStatement(
+	statement: Statement,
+	options?: SqliteReadOptions,
+): DataFrame {
+	const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const names = statement.columnNames;
+	const dictionary = createDictionary();
+	const chunks: Chunk[] = [];
+	let declared: (DType | null)[] | null = null;
+	let schema: Schema | null = null;
+	let pending: unknown[][] = [];
+
+	const params = options?.params ?? [];
+	const rows = statement.iterate(...params) as Iterable<
+		Record<string, unknown>
+	>;
+	for (const row of rows) {
+		// Declared types are available once the statement has run
+		declared ??= declaredTypes(statement, names, options?.schema);
+		pending.push(names.map((name) => row[name]));
+		if (pending.length >= chunkSize) {
+			schema ??= buildSchema(names, resolveTypes(declared, pending));
+			chunks.push(toChunk(schema, pending, dictionary));
+			pending = [];
+		}
+	}
+	declared ??= declaredTypes(statement, names, options?.schema);
+	schema ??= buildSchema(names, resolveTypes(declared, pending));
+	if (pending.length > 0) chunks.push(toChunk(schema, pending, dictionary));
+
+	return chunks.length === 0
+		? DataFrame.empty(schema, dictionary)
+		: DataFrame.fromChunks(chunks, schema, dictionary);
+}
+
+/** Types from the declared column types; null where there is none */
+function declaredTypes(
+	statement: Statement,
+	names: string[],
+	overrides: Record<string, DType> | undefined,
+): (DType | null)[] {
+	const declared = statement.declaredTypes;
+	return names.map((name, i) => {
+		const override = overrides?.[name];
+		if (override) return override;
+		const type = declared[i];
+		return type ? affinityType(type) : null;
+	});
+}
+
+/**
+ * DType of a declared SQLite type. BOOLEAN, DATE and DATETIME/TIMESTAMP
+ * are recognized by name; everything else follows column affinity.
+ */
+export function affinityType(declared: string): DType {
+	const type = declared.toUpperCase();
+	if (type.startsWith("BOOL")) return DType.nullable.boolean;
+	if (type === "DATE") return DType.nullable.date;
+	if (type === "DATETIME" || type.startsWith("TIMESTAMP")) {
+		return DType.nullable.timestamp;
+	}
+	if (type.includes("INT")) return DType.nullable.int64;
+	if (type.includes("CHAR") || type.includes("CLOB") || type.includes("TEXT")) {
+		return DType.nullable.string;
+	}
+	if (type.includes("BLOB")) {
+		throw new Error(`SQLite type '${declared}' has no DType`);
+	}
+	// REAL and NUMERIC affinity
+	return DType.nullable.float64;
+}
+
+/** Fill undeclared column types from their first non-null value */
+function resolveTypes(types: (DType | null)[], rows: unknown[][]): DType[] {
+	return types.map((type, c) => {
+		if (type !== null) return type;
+		const value = rows.find((row) => row[c] !== null)?.[c];
+		if (typeof value === "bigint") return DType.nullable.int64;
+		if (typeof value === "number") return DType.nullable.float64;
+		if (value instanceof Uint8Array) {
+			throw new Error("SQLite BLOB values have no DType");
+		}
+		return DType.nullable.string;
+	});
+}
+
+function buildSchema(names: string[], types: DType[]): Schema {
+	const spec: Record<string, DType> = {};
+	for (let i = 0; i < names.length; i++) spec[names[i]!] = types[i]!;
+	const result = createSchema(spec);
+	if (result.error !== ErrorCode.None) {
+		throw new Error(`Invalid SQLite result columns: ${names.join(", ")}`);
+	}
+	return result.value;
+}
+
+function toChunk(
+	schema: Schema,
+	rows: unknown[][],
+	dictionary: Dictionary,
+): Chunk {
+	const columns = schema.columns.map((def, c) => {
+		const buffer = new ColumnBuffer(def.dtype.kind, rows.length, true);
+		for (const row of rows) {
+			const value = row[c];
+			if (value === null || value === undefined) {
+				buffer.appendNull();
+				continue;
+			}
+			const converted = convertValue(value, def.dtype.kind, dictionary);
+			if (converted === null) {
+				throw new Error(
+					`Cannot read SQLite value ${JSON.stringify(String(value))} in column '${def.name}' as ${DTypeKind[def.dtype.kind]}`,
+				);
+			}
+			buffer.append(converted as never);
+		}
+		return buffer;
+	});
+	return new Chunk(schema, columns, dictionary);
+}
+
+/** Stored value of a SQLite value, null if it does not convert */
+function convertValue(
+	value: unknown,
+	kind: DTypeKind,
+	dictionary: Dictionary,
+): number | bigint | null {
+	switch (kind) {
+		case DTypeKind.String:
+			return dictionary.internString(
+				value instanceof Uint8Array
+					? new TextDecoder().decode(value)
+					: String(value),
+			);
+		case DTypeKind.Boolean:
+			if (typeof value === "string") {
+				const text = value.toLowerCase();
+				if (text === "true" || text === "1") return 1;
+				if (text === "false" || text === "0") return 0;
+				return null;
+			}
+			return Number(value) !== 0 ? 1 : 0;
+		case DTypeKind.Int64:
+		case DTypeKind.UInt64:
+			try {
+				return typeof value === "number"
+					? BigInt(Math.trunc(value))
+					: BigInt(value as string | bigint);
+			} catch {
+				return null;
+			}
+		case DTypeKind.Date: {
+			const millis = temporalMillis(value);
+			return Number.isNaN(millis) ? null : millisToDays(millis);
+		}
+		case DTypeKind.Timestamp: {
+			const millis = temporalMillis(value);
+			return Number.isNaN(millis) ? null : BigInt(millis);
+		}
+		default: {
+			const number = Number(value);
+			return Number.isNaN(number) && value !== "NaN" ? null : number;
+		}
+	}
+}
+
+/** Epoch milliseconds of ISO-8601 text or Unix seconds */
+function temporalMillis(value: unknown): number {
+	if (typeof value === "string") {
+		const bytes = encoder.encode(value);
+		return parseIso(bytes, 0, bytes.length);
+	}
+	return Math.floor(Number(value) * 1000);
+}
+
+/**
+ * SQLite table writer. Rows are inserted with one prepared statement in
+ * batches of `batchSize` rows. Creating (or replacing) the table and every
+ * batch run in one transaction: call write() for each chunk, then close()
+ * to commit, or abort() to roll all of it back.
+ */
+export class SqliteWriter {
+	private readonly db: Database;
+	private readonly schema: Schema;
+	private readonly dictionary: Dictionary | null;
+	private readonly insert: Statement;
+	private readonly batchSize: number;
+	private batch: SQLQueryBindings[][] = [];
+
+	constructor(
+		dbPath: string,
+		table: string,
+		schema: Schema,
+		dictionary: Dictionary | null,
+		options?: SqliteWriteOptions,
+	) {
+		this.schema = schema;
+		this.dictionary = dictionary;
+		this.batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+		this.db = new Database(dbPath, { create: true });
+
+		try {
+			this.db.run("BEGIN IMMEDIATE");
+			const mode = options?.mode ?? "create";
+			const name = quoteIdentifier(table);
+			const exists =
+				this.db
+					.query(
+						"SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?",
+					)
+					.get(table) !== null;
+			if (mode === "create" && exists) {
+				throw new Error(`SQLite table '${table}' already exists`);
+			}
+			if (mode === "replace") {
+				this.db.run(`DROP TABLE IF EXISTS ${name}`);
+			}
+			if (mode !== "append" || !exists) {
+				const columns = schema.columns.map(
+					(c) =>
+						`${quoteIdentifier(c.name)} ${sqliteType(c.dtype)}${c.dtype.nullable ? "" : " NOT NULL"}`,
+				);
+				this.db.run(`CREATE TABLE ${name} (${columns.join(", ")})`);
+			}
+
+			const names = schema.columns.map((c) => quoteIdentifier(c.name));
+			const slots = schema.columns.map(() => "?");
+			this.insert = this.db.prepare(
+				`INSERT INTO ${name} (${names.join(", ")}) VALUES (${slots.join(", ")})`,
+			);
+		} catch (error) {
+			if (this.db.inTransaction) this.db.run("ROLLBACK");
+			this.db.close();
+			throw error;
+		}
+	}
+
+	/**
+	 * Queue the selected rows of a chunk, inserting full batches.
+	 */
+	async write(chunk: Chunk): Promise<void> {
+		const dictionary = chunk.dictionary ?? this.dictionary;
+		const columns = chunk.getColumns();
+		const kinds = this.schema.columns.map((c) => c.dtype.kind);
+		const selection = chunk.getSelection();
+
+		for (let r = 0; r < chunk.rowCount; r++) {
+			const row = selection === null ? r : selection[r]!;
+			const values: SQLQueryBindings[] = new Array(kinds.length);
+			for (let c = 0; c < kinds.length; c++) {
+				const column = columns[c]!;
+				values[c] = column.isNull(row)
+					? null
+					: sqliteValue(column.data[row]!, kinds[c]!, dictionary);
+			}
+			this.batch.push(values);
+			if (this.batch.length >= this.batchSize) this.flush();
+		}
+	}
+
+	/**
+	 * Insert the remaining rows, commit and close the database.
+	 */
+	async close(): Promise<void> {
+		try {
+			this.flush();
+			this.db.run("COMMIT");
+		} finally {
+			this.finish();
+		}
+	}
+
+	/**
+	 * Roll back the table changes and every inserted row, then close the
+	 * database.
+	 */
+	async abort(): Promise<void> {
+		this.batch = [];
+		this.finish();
+	}
+
+	/** Insert queued rows; a failing batch is undone as a whole */
+	private flush(): void {
+		if (this.batch.length === 0) return;
+		const rows = this.batch;
+		this.batch = [];
+		this.db.run("SAVEPOINT batch");
+		try {
+			for (const values of rows) this.insert.run(...values);
+			this.db.run("RELEASE batch");
+		} catch (error) {
+			this.db.run("ROLLBACK TO batch");
+			this.db.run("RELEASE batch");
+			throw error;
+		}
+	}
+
+	private finish(): void {
+		this.insert.finalize();
+		if (this.db.inTransaction) this.db.run("ROLLBACK");
+		this.db.close();
+	}
+}
+
+/** Declared SQLite type for a DType, read back as the same DType */
+function sqliteType(dtype: DType): string {
+	switch (dtype.kind) {
+		case DTypeKind.Float32:
+		case DTypeKind.Float64:
+			return "REAL";
+		case DTypeKind.String:
+		case DTypeKind.List:
+			return "TEXT";
+		case DTypeKind.Boolean:
+			return "BOOLEAN";
+		case DTypeKind.Date:
+			return "DATE";
+		case DTypeKind.Timestamp:
+			return "TIMESTAMP";
+		default:
+			return "INTEGER";
+	}
+}
+
+function sqliteValue(
+	value: number | bigint,
+	kind: DTypeKind,
+	dictionary: Dictionary | null,
+): SQLQueryBindings {
+	switch (kind) {
+		case DTypeKind.String:
+		case DTypeKind.List:
+			return dictionary?.getString(value as number) ?? null;
+		case DTypeKind.Date:
+			return new Date(Number(value) * MS_PER_DAY).toISOString().slice(0, 10);
+		case DTypeKind.Timestamp:
+			return new Date(Number(value)).toISOString();
+		case DTypeKind.Float32:
+		case DTypeKind.Float64:
+			// SQLite has no NaN; it is stored as NULL
+			return Number.isNaN(value) ? null : value;
+		default:
+			return value;
+	}
+}
+
+function quoteIdentifier(name: string): string {
+	return `"${name.replaceAll('"', '""')}"`;
+}
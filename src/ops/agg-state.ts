@@ -236,6 +236,20 @@ export function createAggState(aggType: AggType, inputDType?: DType): AggState {
 	}
 }
 
+/** Output type of an aggregation, without creating its state */
+export function aggOutputDType(aggType: AggType, inputDType?: DType): DType {
+	switch (aggType) {
+		case AggType.Sum:
+		case AggType.Avg:
+			return DTypeFactory.float64;
+		case AggType.Count:
+		case AggType.CountAll:
+			return DTypeFactory.int64;
+		default:
+			return inputDType ?? DTypeFactory.float64;
+	}
+}
+
 /** Aggregation types */
 export enum AggType {
 	Sum = 0,
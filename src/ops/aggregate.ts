@@ -15,7 +15,12 @@ import { inferExprType } from "../expr/types.ts";
 import type { DType } from "../types/dtypes.ts";
 import { ErrorCode, err, ok, type Result } from "../types/error.ts";
 import { createSchema, type Schema, type SchemaSpec } from "../types/schema.ts";
-import { type AggState, AggType, createAggState } from "./agg-state.ts";
+import {
+	type AggState,
+	AggType,
+	aggOutputDType,
+	createAggState,
+} from "./agg-state.ts";
 import {
 	type Operator,
 	type OperatorResult,
@@ -87,14 +92,18 @@ export class AggregateOperator implements Operator {
 				return err(compiled.error);
 			}
 
+			const state = createAggState(
+				compiled.value.aggType,
+				compiled.value.inputDType,
+			);
 			aggs.push({
 				name: spec.name,
-				state: compiled.value.state,
+				state,
 				valueExpr: compiled.value.valueExpr,
 				isCountAll: compiled.value.isCountAll,
 			});
 
-			outputSpec[spec.name] = compiled.value.state.outputDType;
+			outputSpec[spec.name] = state.outputDType;
 		}
 
 		const schemaResult = createSchema(outputSpec);
@@ -176,7 +185,8 @@ function compileAggExpr(
 	expr: Expr,
 	schema: Schema,
 ): Result<{
-	state: AggState;
+	aggType: AggType;
+	inputDType: DType | undefined;
 	valueExpr: CompiledValue | null;
 	isCountAll: boolean;
 }> {
@@ -240,8 +250,38 @@ function compileAggExpr(
 		valueExpr = valueResult.value;
 	}
 
-	const state = createAggState(aggType, inputDType);
-	return ok({ state, valueExpr, isCountAll });
+	return ok({ aggType, inputDType, valueExpr, isCountAll });
+}
+
+/**
+ * Output schema of an aggregation, checked without creating agg states.
+ */
+export function aggregateSchema(
+	inputSchema: Schema,
+	specs: readonly AggSpec[],
+): Result<Schema> {
+	if (specs.length === 0) {
+		return err(ErrorCode.EmptySchema);
+	}
+
+	const outputSpec: SchemaSpec = {};
+	const seen = new Set<string>();
+	for (const spec of specs) {
+		if (seen.has(spec.name)) {
+			return err(ErrorCode.DuplicateColumn);
+		}
+		seen.add(spec.name);
+
+		const compiled = compileAggExpr(spec.expr, inputSchema);
+		if (compiled.error !== ErrorCode.None) {
+			return err(compiled.error);
+		}
+		outputSpec[spec.name] = aggOutputDType(
+			compiled.value.aggType,
+			compiled.value.inputDType,
+		);
+	}
+	return createSchema(outputSpec);
 }
 
 /**
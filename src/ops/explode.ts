@@ -0,0 +1,182 @@
+/**
+ * Explode operator.
+ *
+ * Turns each element of a List column into its own row, repeating the
+ * other columns. Null and empty lists produce a single row with a null
+ * element, so no input row disappears.
+ */
+
+import { Chunk } from "../buffer/chunk.ts";
+import { ColumnBuffer } from "../buffer/column-buffer.ts";
+import type { DictIndex, Dictionary } from "../buffer/dictionary.ts";
+import { type DType, DTypeKind, toNullable } from "../types/dtypes.ts";
+import { ErrorCode, err, ok, type Result, unwrap } from "../types/error.ts";
+import {
+	createSchema,
+	getColumn,
+	getColumnIndex,
+	type Schema,
+} from "../types/schema.ts";
+import {
+	type OperatorResult,
+	opEmpty,
+	opResult,
+	SimpleOperator,
+} from "./operator.ts";
+
+/**
+ * Explode operator that flattens one List column.
+ */
+export class ExplodeOperator extends SimpleOperator {
+	readonly name = "Explode";
+	readonly outputSchema: Schema;
+
+	private readonly columnIndex: number;
+	private readonly element: DType;
+
+	private constructor(
+		outputSchema: Schema,
+		columnIndex: number,
+		element: DType,
+	) {
+		super();
+		this.outputSchema = outputSchema;
+		this.columnIndex = columnIndex;
+		this.element = element;
+	}
+
+	/**
+	 * Create an explode operator for a List column.
+	 */
+	static create(inputSchema: Schema, column: string): Result<ExplodeOperator> {
+		const schema = explodeSchema(inputSchema, column);
+		if (schema.error !== ErrorCode.None) return err(schema.error);
+		const index = getColumnIndex(inputSchema, column);
+		if (index.error !== ErrorCode.None) return err(index.error);
+		const element = unwrap(getColumn(schema.value, column)).dtype;
+
+		return ok(new ExplodeOperator(schema.value, index.value, element));
+	}
+
+	process(chunk: Chunk): Result<OperatorResult> {
+		const rowCount = chunk.rowCount;
+		if (rowCount === 0) {
+			return ok(opEmpty());
+		}
+		const dictionary = chunk.dictionary;
+		const lists = chunk.getColumn(this.columnIndex);
+		if (dictionary === null || lists === undefined) {
+			return err(ErrorCode.InvalidOperand);
+		}
+
+		// Parse every list up front to size the output
+		const elements: (unknown[] | null)[] = new Array(rowCount);
+		let outputRows = 0;
+		for (let row = 0; row < rowCount; row++) {
+			const idx = chunk.physicalIndex(row);
+			const text = lists.isNull(idx)
+				? undefined
+				: dictionary.getString(lists.get(idx) as DictIndex);
+			const list = text === undefined ? null : JSON.parse(text);
+			elements[row] = Array.isArray(list) && list.length > 0 ? list : null;
+			outputRows += elements[row]?.length ?? 1;
+		}
+
+		const columns: ColumnBuffer[] = [];
+		for (let c = 0; c < this.outputSchema.columnCount; c++) {
+			const dtype = this.outputSchema.columns[c]?.dtype as DType;
+			const output = new ColumnBuffer(dtype.kind, outputRows, dtype.nullable);
+			if (c === this.columnIndex) {
+				for (const list of elements) {
+					if (list === null) {
+						output.appendNull();
+						continue;
+					}
+					for (const value of list) {
+						this.appendElement(output, value, dictionary);
+					}
+				}
+			} else {
+				const input = chunk.getColumn(c);
+				if (input === undefined) return err(ErrorCode.InvalidOffset);
+				for (let row = 0; row < rowCount; row++) {
+					const idx = chunk.physicalIndex(row);
+					const repeat = elements[row]?.length ?? 1;
+					for (let r = 0; r < repeat; r++) {
+						if (input.isNull(idx)) output.appendNull();
+						else output.append(input.get(idx));
+					}
+				}
+			}
+			columns.push(output);
+		}
+
+		return ok(opResult(new Chunk(this.outputSchema, columns, dictionary)));
+	}
+
+	/** Store a parsed element in the column's physical representation */
+	private appendElement(
+		output: ColumnBuffer,
+		value: unknown,
+		dictionary: Dictionary,
+	): void {
+		if (value === null || value === undefined) {
+			output.appendNull();
+			return;
+		}
+		switch (this.element.kind) {
+			case DTypeKind.String:
+				output.append(
+					dictionary.internString(
+						typeof value === "string" ? value : JSON.stringify(value),
+					),
+				);
+				break;
+			case DTypeKind.List:
+				output.append(dictionary.internString(JSON.stringify(value)));
+				break;
+			case DTypeKind.Int64:
+			case DTypeKind.UInt64:
+			case DTypeKind.Timestamp:
+				output.append(BigInt(value as number | string) as never);
+				break;
+			case DTypeKind.Boolean:
+				output.append(value ? 1 : 0);
+				break;
+			default:
+				output.append(Number(value));
+		}
+	}
+}
+
+/**
+ * Output schema of exploding a List column: its elements, made nullable.
+ */
+export function explodeSchema(
+	inputSchema: Schema,
+	column: string,
+): Result<Schema> {
+	const def = getColumn(inputSchema, column);
+	if (def.error !== ErrorCode.None) return err(def.error);
+	const inner = def.value.dtype.inner;
+	if (def.value.dtype.kind !== DTypeKind.List || inner === undefined) {
+		return err(ErrorCode.TypeMismatch);
+	}
+
+	const element = toNullable(inner);
+	const spec: Record<string, DType> = {};
+	for (const c of inputSchema.columns) {
+		spec[c.name] = c.name === column ? element : c.dtype;
+	}
+	return createSchema(spec);
+}
+
+/**
+ * Create an explode operator for a List column.
+ */
+export function explode(
+	inputSchema: Schema,
+	column: string,
+): Result<ExplodeOperator> {
+	return ExplodeOperator.create(inputSchema, column);
+}
@@ -97,20 +97,34 @@ export class FilterOperator extends SimpleOperator {
 			return ok(opResult(chunk));
 		}
 
-		// Apply the new selection to the chunk
-		// Instead of slicing (which allocates), we release the old buffer
-		// and acquire a new one of the exact size needed
+		// Apply the new selection to the chunk. A chunk without a selection
+		// keeps a view of our buffer instead of a copy, so it takes ownership
+		// and we acquire a fresh buffer for the next chunk. Releasing it to
+		// the pool here would let the next acquire zero the chunk's rows.
+		const ownsBuffer = !chunk.hasSelection();
 		const selection = this.selectionBuffer.subarray(0, selectedCount);
 		chunk.applySelection(selection, selectedCount);
 
-		// Release the buffer back to pool and acquire fresh one for next chunk
-		selectionPool.release(this.selectionBuffer);
-		this.selectionBuffer = selectionPool.acquire(this.maxChunkSize);
+		if (ownsBuffer) {
+			this.selectionBuffer = selectionPool.acquire(this.maxChunkSize);
+		}
 
 		return ok(opResult(chunk));
 	}
 }
 
+/**
+ * Output schema of a filter (its input). The predicate is checked, but no
+ * selection buffer is taken.
+ */
+export function filterSchema(schema: Schema, expr: Expr): Result<Schema> {
+	const predicate = compilePredicate(expr, schema);
+	if (predicate.error !== ErrorCode.None) {
+		return err(predicate.error);
+	}
+	return ok(schema);
+}
+
 /**
  * Create a filter operator from an expression.
  */
@@ -16,11 +16,12 @@ import { type DType, DTypeKind } from "../types/dtypes.ts";
 import { ErrorCode, err, ok, type Result } from "../types/error.ts";
 import {
 	createSchema,
+	getColumn,
 	getColumnIndex,
 	type Schema,
 	type SchemaSpec,
 } from "../types/schema.ts";
-import { AggType, createAggState } from "./agg-state.ts";
+import { AggType, aggOutputDType } from "./agg-state.ts";
 import type { AggSpec } from "./aggregate.ts";
 import { KeyHashTable } from "./key-hasher.ts";
 import {
@@ -139,10 +140,10 @@ export class GroupByOperator implements Operator {
 				valueExpr: compiled.value.valueExpr,
 			});
 
-			outputSpec[spec.name] = createAggState(
+			outputSpec[spec.name] = aggOutputDType(
 				compiled.value.aggType,
 				compiled.value.inputDType,
-			).outputDType;
+			);
 		}
 
 		const schemaResult = createSchema(outputSpec);
@@ -373,6 +374,50 @@ function compileGroupAggExpr(
 	return ok({ aggType, valueExpr, innerExpr, inputDType, isCountAll });
 }
 
+/**
+ * Output schema of a grouping, checked without building group tables.
+ */
+export function groupBySchema(
+	inputSchema: Schema,
+	keyColumns: readonly string[],
+	aggSpecs: readonly AggSpec[],
+): Result<Schema> {
+	if (keyColumns.length === 0) {
+		return err(ErrorCode.EmptySchema);
+	}
+
+	const outputSpec: SchemaSpec = {};
+	const seen = new Set<string>();
+	for (const name of keyColumns) {
+		const def = getColumn(inputSchema, name);
+		if (def.error !== ErrorCode.None) {
+			return err(ErrorCode.UnknownColumn);
+		}
+		if (seen.has(name)) {
+			return err(ErrorCode.DuplicateColumn);
+		}
+		seen.add(name);
+		outputSpec[name] = def.value.dtype;
+	}
+
+	for (const spec of aggSpecs) {
+		if (seen.has(spec.name)) {
+			return err(ErrorCode.DuplicateColumn);
+		}
+		seen.add(spec.name);
+
+		const compiled = compileGroupAggExpr(spec.expr, inputSchema);
+		if (compiled.error !== ErrorCode.None) {
+			return err(compiled.error);
+		}
+		outputSpec[spec.name] = aggOutputDType(
+			compiled.value.aggType,
+			compiled.value.inputDType,
+		);
+	}
+	return createSchema(outputSpec);
+}
+
 /**
  * Create a GroupBy operator.
  */
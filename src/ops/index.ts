@@ -46,6 +46,8 @@ export {
 	fillNullColumn,
 	fillNullForward,
 } from "./fill-null.ts";
+// Explode
+export { ExplodeOperator, explode } from "./explode.ts";
 // Filter
 export { FilterOperator, filter } from "./filter.ts";
 // GroupBy operator
@@ -56,6 +58,7 @@ export {
 	innerJoin,
 	type JoinConfig,
 	JoinType,
+	joinSchema,
 	leftJoin,
 	crossProduct,
 } from "./join.ts";
@@ -77,6 +80,45 @@ export {
 	type PipelineResult,
 	pipeline,
 } from "./pipeline.ts";
+// Logical plan
+export {
+	createOperator,
+	instantiatePlan,
+	type PlanNode,
+	type PlanStep,
+	planStep,
+} from "./plan.ts";
+export {
+	buildLogicalPlan,
+	formatPlan,
+	isPlanSource,
+	isScanSource,
+	type JoinNode,
+	type LogicalPlan,
+	type PlanSource,
+	planSchema,
+	type ScanNode,
+	type ScanOptions,
+	type ScanSource,
+	type UnaryNode,
+} from "./logical.ts";
+export {
+	executePlan,
+	JoinSource,
+	lowerPlan,
+	type PhysicalPlan,
+} from "./lowering.ts";
+// Optimizer
+export {
+	constantFolding,
+	defaultRules,
+	filterMerging,
+	limitPushdown,
+	type OptimizerRule,
+	optimize,
+	predicatePushdown,
+	projectionPruning,
+} from "./optimizer.ts";
 // Project
 export {
 	ProjectOperator,
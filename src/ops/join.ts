@@ -234,6 +234,42 @@ function processCrossChunk(
 	return new Chunk(outputSchema, columns, leftChunk.dictionary);
 }
 
+/**
+ * Output schema of a join, checking that both key columns exist.
+ * Cross joins ignore the keys and keep every column of both sides.
+ */
+export function joinSchema(
+	leftSchema: Schema,
+	rightSchema: Schema,
+	config: JoinConfig,
+	cross = false,
+): Result<Schema> {
+	if (cross) {
+		return buildJoinSchema(
+			leftSchema,
+			rightSchema,
+			"",
+			"",
+			config.suffix || "_right",
+			JoinType.Inner,
+		);
+	}
+	if (
+		getColumnIndex(leftSchema, config.leftKey).error !== ErrorCode.None ||
+		getColumnIndex(rightSchema, config.rightKey).error !== ErrorCode.None
+	) {
+		return err(ErrorCode.UnknownColumn);
+	}
+	return buildJoinSchema(
+		leftSchema,
+		rightSchema,
+		config.leftKey,
+		config.rightKey,
+		config.suffix ?? "_right",
+		config.joinType ?? JoinType.Inner,
+	);
+}
+
 /**
  * Build output schema for join.
  * For left joins, right columns become nullable.
@@ -0,0 +1,225 @@
+/**
+ * Logical plan trees.
+ *
+ * A DataFrame's plan steps sit on top of a leaf: a scan of its source, or
+ * a join of two other plans. The tree is what the optimizer rewrites;
+ * operators are only instantiated when an optimized tree is lowered.
+ */
+
+import type { Chunk } from "../buffer/chunk.ts";
+import { type Expr, formatExpr } from "../expr/ast.ts";
+import { ErrorCode, unwrap } from "../types/error.ts";
+import { getColumnNames, type Schema, selectColumns } from "../types/schema.ts";
+import type { JoinType } from "./join.ts";
+import { nodeSchema, type PlanNode, type PlanStep } from "./plan.ts";
+
+/** What a source is asked to produce */
+export interface ScanOptions {
+	/** Columns to read, in source schema order (default: all) */
+	columns?: readonly string[];
+	/**
+	 * Filters over source columns. Sources may use them to skip rows that
+	 * cannot match; the filters still run afterwards.
+	 */
+	filters?: readonly Expr[];
+}
+
+/**
+ * Chunk source that can skip columns and rows.
+ * Scanned chunks contain only the requested columns, in source order.
+ */
+export interface ScanSource extends AsyncIterable<Chunk> {
+	scan(options: ScanOptions): AsyncIterable<Chunk>;
+	/** One-line description of a scan for explain() */
+	describeScan?(options: ScanOptions): string;
+}
+
+export function isScanSource(source: unknown): source is ScanSource {
+	return (
+		typeof source === "object" &&
+		source !== null &&
+		typeof (source as ScanSource).scan === "function" &&
+		Symbol.asyncIterator in source
+	);
+}
+
+/** Read a source, optionally narrowed to some columns */
+export interface ScanNode {
+	readonly type: "scan";
+	readonly source: Iterable<Chunk> | AsyncIterable<Chunk>;
+	/** Full source schema */
+	readonly schema: Schema;
+	/** Columns to read, in source order (null: all) */
+	readonly columns: readonly string[] | null;
+	/** Filters the source may use to skip rows; they still run above */
+	readonly filters: readonly Expr[];
+}
+
+/** Join two plans; "cross" pairs every row of both sides */
+export interface JoinNode {
+	readonly type: "join";
+	readonly left: LogicalPlan;
+	readonly right: LogicalPlan;
+	readonly joinType: JoinType | "cross";
+	readonly leftKey: string;
+	readonly rightKey: string;
+	readonly suffix: string | undefined;
+	/** Output schema */
+	readonly schema: Schema;
+}
+
+/** A plan step applied to an input plan */
+export type UnaryNode = PlanNode & { readonly input: LogicalPlan };
+
+export type LogicalPlan = ScanNode | JoinNode | UnaryNode;
+
+/**
+ * Source that stands for a whole plan rather than raw chunks (e.g. a
+ * join). Plans built over it start from its plan instead of a scan.
+ */
+export interface PlanSource extends AsyncIterable<Chunk> {
+	readonly plan: LogicalPlan;
+}
+
+export function isPlanSource(source: unknown): source is PlanSource {
+	return (
+		typeof source === "object" &&
+		source !== null &&
+		typeof (source as PlanSource).plan === "object" &&
+		Symbol.asyncIterator in source
+	);
+}
+
+/**
+ * Output schemas of plan nodes. Nodes are never mutated, so each node's
+ * schema is derived once, however often the optimizer asks for it.
+ */
+const nodeSchemas = new WeakMap<LogicalPlan, Schema>();
+
+/**
+ * Logical plan for plan steps over a source. The steps' checked output
+ * schemas are kept for the nodes built from them.
+ */
+export function buildLogicalPlan(
+	source: Iterable<Chunk> | AsyncIterable<Chunk>,
+	schema: Schema,
+	steps: readonly PlanStep[],
+): LogicalPlan {
+	let plan: LogicalPlan = isPlanSource(source)
+		? source.plan
+		: { type: "scan", source, schema, columns: null, filters: [] };
+	for (const step of steps) {
+		plan = { ...step.node, input: plan };
+		nodeSchemas.set(plan, step.outputSchema);
+	}
+	return plan;
+}
+
+/** Output schema of a scan */
+export function scanSchema(scan: ScanNode): Schema {
+	if (scan.columns === null) return scan.schema;
+	const narrowed = selectColumns(scan.schema, [...scan.columns]);
+	return narrowed.error === ErrorCode.None ? narrowed.value : scan.schema;
+}
+
+/** Output schema of a plan */
+export function planSchema(plan: LogicalPlan): Schema {
+	switch (plan.type) {
+		case "scan":
+			return scanSchema(plan);
+		case "join":
+			return plan.schema;
+		default: {
+			let schema = nodeSchemas.get(plan);
+			if (schema === undefined) {
+				schema = unwrap(nodeSchema(plan, planSchema(plan.input)));
+				nodeSchemas.set(plan, schema);
+			}
+			return schema;
+		}
+	}
+}
+
+/** Direct inputs of a plan node */
+export function planInputs(plan: LogicalPlan): LogicalPlan[] {
+	switch (plan.type) {
+		case "scan":
+			return [];
+		case "join":
+			return [plan.left, plan.right];
+		default:
+			return [plan.input];
+	}
+}
+
+/** One-line description of a plan node */
+export function describeNode(plan: LogicalPlan): string {
+	switch (plan.type) {
+		case "scan": {
+			const columns = plan.columns ?? getColumnNames(plan.schema);
+			let line = `Scan [${columns.join(", ")}]`;
+			if (plan.filters.length > 0) {
+				line += ` filters: ${plan.filters.map(formatExpr).join(", ")}`;
+			}
+			return line;
+		}
+		case "join":
+			return plan.joinType === "cross"
+				? "CrossJoin"
+				: `Join [${plan.joinType}] ${plan.leftKey} = ${plan.rightKey}`;
+		case "filter":
+			return `Filter ${formatExpr(plan.expr)}`;
+		case "project":
+			return `Project [${plan.specs
+				.map((s) =>
+					s.target && s.target !== s.source
+						? `${s.source} as ${s.target}`
+						: s.source,
+				)
+				.join(", ")}]`;
+		case "transform":
+			return `Transform [${plan.columns
+				.map((c) => `${c.name} = ${formatExpr(c.expr)}`)
+				.join(", ")}]`;
+		case "explode":
+			return `Explode ${plan.column}`;
+		case "sort":
+			return `Sort [${plan.keys
+				.map((k) =>
+					typeof k === "string"
+						? k
+						: `${k.column}${k.descending ? " desc" : ""}`,
+				)
+				.join(", ")}]`;
+		case "limit":
+			return plan.offset > 0
+				? `Limit ${plan.count} offset ${plan.offset}`
+				: `Limit ${plan.count}`;
+		case "aggregate":
+			return `Aggregate [${plan.specs
+				.map((s) => `${s.name} = ${formatExpr(s.expr)}`)
+				.join(", ")}]`;
+		case "groupBy":
+			return `GroupBy [${plan.keys.join(", ")}] [${plan.specs
+				.map((s) => `${s.name} = ${formatExpr(s.expr)}`)
+				.join(", ")}]`;
+	}
+}
+
+/**
+ * Render a plan as an indented tree, one node per line.
+ */
+export function formatPlan(plan: LogicalPlan): string {
+	const lines: string[] = [];
+	const walk = (node: LogicalPlan, indent: string, last: boolean) => {
+		lines.push(`${indent}${last ? "└─" : "├─"} ${describeNode(node)}`);
+		const inputs = planInputs(node);
+		const childIndent = indent + (last ? "   " : "│  ");
+		for (let i = 0; i < inputs.length; i++) {
+			const input = inputs[i];
+			if (input) walk(input, childIndent, i === inputs.length - 1);
+		}
+	};
+	walk(plan, "", true);
+	return lines.join("\n");
+}
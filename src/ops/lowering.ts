@@ -0,0 +1,137 @@
+/**
+ * Lowering: turn an optimized logical plan into a source and a chain of
+ * fresh physical operators for the Pipeline.
+ */
+
+import type { Chunk } from "../buffer/chunk.ts";
+import { ErrorCode, unwrap } from "../types/error.ts";
+import { crossProduct, hashJoin } from "./join.ts";
+import {
+	describeNode,
+	isScanSource,
+	type JoinNode,
+	type LogicalPlan,
+	type PlanSource,
+	planSchema,
+	type ScanNode,
+	type ScanOptions,
+	type UnaryNode,
+} from "./logical.ts";
+import type { Operator } from "./operator.ts";
+import { optimize } from "./optimizer.ts";
+import { Pipeline } from "./pipeline.ts";
+import { createOperator } from "./plan.ts";
+
+/** Source and operators that execute a plan */
+export interface PhysicalPlan {
+	source: Iterable<Chunk> | AsyncIterable<Chunk>;
+	operators: Operator[];
+	/** Options the source is scanned with, for scannable sources */
+	scan: ScanOptions | null;
+}
+
+/**
+ * Lower a logical plan. The plan's steps above its leaf become operators,
+ * bound to the leaf's (possibly narrowed) schema.
+ */
+export function lowerPlan(plan: LogicalPlan): PhysicalPlan {
+	const steps: UnaryNode[] = [];
+	let leaf = plan;
+	while (leaf.type !== "scan" && leaf.type !== "join") {
+		steps.unshift(leaf);
+		leaf = leaf.input;
+	}
+
+	let schema = planSchema(leaf);
+	const operators: Operator[] = [];
+	for (const step of steps) {
+		const operator = unwrap(createOperator(step, schema));
+		operators.push(operator);
+		schema = operator.outputSchema;
+	}
+
+	if (leaf.type === "join") {
+		return { source: new JoinSource(leaf), operators, scan: null };
+	}
+	return { ...lowerScan(leaf), operators };
+}
+
+function lowerScan(scan: ScanNode): Omit<PhysicalPlan, "operators"> {
+	if (isScanSource(scan.source)) {
+		const options: ScanOptions = {
+			columns: scan.columns ?? undefined,
+			filters: scan.filters,
+		};
+		return { source: scan.source.scan(options), scan: options };
+	}
+	// Operators narrow chunk selections in place; in-memory chunks are
+	// handed out as views so every execution starts from them
+	const source = Array.isArray(scan.source)
+		? (scan.source as Chunk[]).map((chunk) => chunk.view())
+		: scan.source;
+	return { source, scan: null };
+}
+
+/**
+ * Run a plan to completion.
+ */
+export async function executePlan(plan: LogicalPlan): Promise<Chunk[]> {
+	const { source, operators } = lowerPlan(plan);
+	if (operators.length === 0) {
+		const chunks: Chunk[] = [];
+		for await (const chunk of source) chunks.push(chunk);
+		return chunks;
+	}
+	const pipeline = new Pipeline(operators);
+	const result =
+		Symbol.asyncIterator in source
+			? await pipeline.executeAsync(source as AsyncIterable<Chunk>)
+			: pipeline.execute(source as Iterable<Chunk>);
+	return unwrap(result).chunks;
+}
+
+/**
+ * Source producing the rows of a join. Both sides are optimized and run
+ * to completion each time it is iterated; the right side is the build
+ * side of the hash join.
+ */
+export class JoinSource implements PlanSource {
+	constructor(readonly plan: JoinNode) {}
+
+	/** One-line description for explain() */
+	describe(): string {
+		return describeNode(this.plan);
+	}
+
+	async *[Symbol.asyncIterator](): AsyncGenerator<Chunk> {
+		const { left, right, joinType } = this.plan;
+		const leftChunks = await executePlan(optimize(left));
+		const rightChunks = await executePlan(optimize(right));
+		const leftSchema = planSchema(left);
+		const rightSchema = planSchema(right);
+
+		const result =
+			joinType === "cross"
+				? crossProduct(
+						leftChunks,
+						leftSchema,
+						rightChunks,
+						rightSchema,
+						this.plan.suffix,
+					)
+				: hashJoin(leftChunks, leftSchema, rightChunks, rightSchema, {
+						leftKey: this.plan.leftKey,
+						rightKey: this.plan.rightKey,
+						joinType,
+						suffix: this.plan.suffix,
+					});
+		if (result.error !== ErrorCode.None) {
+			throw new Error(
+				joinType === "cross"
+					? `CrossJoin error: ${result.error}`
+					: `Join error (${joinType}): ${result.error}`,
+			);
+		}
+		yield* result.value.chunks;
+	}
+}
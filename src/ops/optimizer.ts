@@ -0,0 +1,620 @@
+/**
+ * Rule-based plan optimizer.
+ *
+ * Each rule rewrites a logical plan into an equivalent one that is
+ * cheaper to run. Rules keep untouched expressions as the same objects,
+ * so optimizing an already optimized plan gives the same plan.
+ */
+
+import {
+	type Expr,
+	ExprType,
+	exprColumns,
+	type LiteralExpr,
+} from "../expr/ast.ts";
+import { inferExprType } from "../expr/types.ts";
+import { ErrorCode } from "../types/error.ts";
+import { getColumnNames, type Schema } from "../types/schema.ts";
+import { JoinType } from "./join.ts";
+import {
+	isScanSource,
+	type JoinNode,
+	type LogicalPlan,
+	planSchema,
+	type ScanNode,
+} from "./logical.ts";
+
+/** A plan rewrite */
+export interface OptimizerRule {
+	readonly name: string;
+	apply(plan: LogicalPlan): LogicalPlan;
+}
+
+/**
+ * Evaluate operations on literals once, at planning time. Filters that
+ * fold to `true` are dropped.
+ */
+export const constantFolding: OptimizerRule = {
+	name: "ConstantFolding",
+	apply: function fold(plan) {
+		const node = mapInputs(plan, fold);
+		if (node.type === "filter") {
+			const expr = foldExpr(node.expr, planSchema(node.input), true);
+			if (isBooleanLiteral(expr, true)) return node.input;
+			return expr === node.expr ? node : { ...node, expr };
+		}
+		if (node.type === "transform") {
+			const schema = planSchema(node.input);
+			const columns = node.columns.map((c) => {
+				const expr = foldExpr(c.expr, schema, false);
+				return expr === c.expr ? c : { ...c, expr };
+			});
+			return columns.every((c, i) => c === node.columns[i])
+				? node
+				: { ...node, columns };
+		}
+		return node;
+	},
+};
+
+/**
+ * Combine adjacent filters into one conjunction.
+ */
+export const filterMerging: OptimizerRule = {
+	name: "FilterMerging",
+	apply: function merge(plan) {
+		const node = mapInputs(plan, merge);
+		if (node.type !== "filter" || node.input.type !== "filter") return node;
+		return {
+			...node.input,
+			expr: conjoin([...conjuncts(node.input.expr), ...conjuncts(node.expr)]),
+		};
+	},
+};
+
+/**
+ * Move filter conjuncts below the operators they commute with, as close
+ * to the data as possible. Conjuncts that reach a scannable source are
+ * also handed to the scan so it can skip rows.
+ */
+export const predicatePushdown: OptimizerRule = {
+	name: "PredicatePushdown",
+	apply: function pushdown(plan) {
+		const node = mapInputs(plan, pushdown);
+		if (node.type !== "filter") return node;
+		return pushFilter(node.input, conjuncts(node.expr));
+	},
+};
+
+/**
+ * Move limits below per-row operators and merge stacked limits.
+ */
+export const limitPushdown: OptimizerRule = {
+	name: "LimitPushdown",
+	apply: function pushdown(plan): LogicalPlan {
+		if (plan.type === "limit") {
+			const input = plan.input;
+			if (input.type === "project" || input.type === "transform") {
+				return { ...input, input: pushdown({ ...plan, input: input.input }) };
+			}
+			if (input.type === "limit") {
+				const skipped = Math.max(0, input.count - plan.offset);
+				return pushdown({
+					type: "limit",
+					count: Math.min(plan.count, skipped),
+					offset: input.offset + plan.offset,
+					input: input.input,
+				});
+			}
+		}
+		return mapInputs(plan, pushdown);
+	},
+};
+
+/**
+ * Read only the source columns the plan needs.
+ */
+export const projectionPruning: OptimizerRule = {
+	name: "ProjectionPruning",
+	apply: (plan) => prune(plan, null),
+};
+
+/** Rules in the order the optimizer applies them */
+export const defaultRules: readonly OptimizerRule[] = [
+	constantFolding,
+	filterMerging,
+	predicatePushdown,
+	limitPushdown,
+	projectionPruning,
+];
+
+/**
+ * Apply optimizer rules to a plan.
+ */
+export function optimize(
+	plan: LogicalPlan,
+	rules: readonly OptimizerRule[] = defaultRules,
+): LogicalPlan {
+	let optimized = plan;
+	for (const rule of rules) {
+		optimized = rule.apply(optimized);
+	}
+	return optimized;
+}
+
+/* PLAN HELPERS
+/*-----------------------------------------------------
+/* ==================================================== */
+
+/** Rewrite the inputs of a node, keeping it as-is if none change */
+function mapInputs(
+	plan: LogicalPlan,
+	fn: (input: LogicalPlan) => LogicalPlan,
+): LogicalPlan {
+	switch (plan.type) {
+		case "scan":
+			return plan;
+		case "join": {
+			const left = fn(plan.left);
+			const right = fn(plan.right);
+			return left === plan.left && right === plan.right
+				? plan
+				: { ...plan, left, right };
+		}
+		default: {
+			const input = fn(plan.input);
+			return input === plan.input ? plan : { ...plan, input };
+		}
+	}
+}
+
+function withFilter(plan: LogicalPlan, predicates: Expr[]): LogicalPlan {
+	if (predicates.length === 0) return plan;
+	return { type: "filter", expr: conjoin(predicates), input: plan };
+}
+
+function referencesOnly(expr: Expr, names: ReadonlySet<string>): boolean {
+	for (const name of exprColumns(expr)) {
+		if (!names.has(name)) return false;
+	}
+	return true;
+}
+
+function referencesNone(expr: Expr, names: ReadonlySet<string>): boolean {
+	for (const name of exprColumns(expr)) {
+		if (names.has(name)) return false;
+	}
+	return true;
+}
+
+/** Split predicates by whether they can move below a node */
+function partition(
+	predicates: Expr[],
+	canPush: (expr: Expr) => boolean,
+): [pushed: Expr[], kept: Expr[]] {
+	const pushed: Expr[] = [];
+	const kept: Expr[] = [];
+	for (const expr of predicates) {
+		(canPush(expr) ? pushed : kept).push(expr);
+	}
+	return [pushed, kept];
+}
+
+function pushFilter(plan: LogicalPlan, predicates: Expr[]): LogicalPlan {
+	switch (plan.type) {
+		case "filter":
+			return pushFilter(plan.input, [...conjuncts(plan.expr), ...predicates]);
+		case "sort":
+			return { ...plan, input: pushFilter(plan.input, predicates) };
+		case "project": {
+			const sources = new Map(
+				plan.specs.map((s) => [s.target ?? s.source, s.source]),
+			);
+			const renamed = predicates.map((e) => renameColumns(e, sources));
+			return { ...plan, input: pushFilter(plan.input, renamed) };
+		}
+		case "transform": {
+			const computed = new Set(plan.columns.map((c) => c.name));
+			const [pushed, kept] = partition(predicates, (e) =>
+				referencesNone(e, computed),
+			);
+			return withFilter(
+				{ ...plan, input: pushFilter(plan.input, pushed) },
+				kept,
+			);
+		}
+		case "explode": {
+			const exploded = new Set([plan.column]);
+			const [pushed, kept] = partition(predicates, (e) =>
+				referencesNone(e, exploded),
+			);
+			return withFilter(
+				{ ...plan, input: pushFilter(plan.input, pushed) },
+				kept,
+			);
+		}
+		case "groupBy": {
+			const keys = new Set(plan.keys);
+			const [pushed, kept] = partition(predicates, (e) =>
+				referencesOnly(e, keys),
+			);
+			return withFilter(
+				{ ...plan, input: pushFilter(plan.input, pushed) },
+				kept,
+			);
+		}
+		case "join":
+			return pushJoinFilter(plan, predicates);
+		case "scan":
+			return withFilter(scanWithFilters(plan, predicates), predicates);
+		default:
+			// Limits and aggregates depend on every input row
+			return withFilter(plan, predicates);
+	}
+}
+
+/** Join types whose output keeps exactly the matching rows of a side */
+const LEFT_FILTERABLE = new Set<JoinNode["joinType"]>([
+	JoinType.Inner,
+	JoinType.Left,
+	JoinType.Semi,
+	JoinType.Anti,
+	"cross",
+]);
+const RIGHT_FILTERABLE = new Set<JoinNode["joinType"]>([
+	JoinType.Inner,
+	"cross",
+]);
+
+function pushJoinFilter(join: JoinNode, predicates: Expr[]): LogicalPlan {
+	const leftNames = new Set(getColumnNames(planSchema(join.left)));
+	const rightNames = joinRightColumns(join, leftNames);
+
+	const [toLeft, rest] = partition(
+		predicates,
+		(e) => LEFT_FILTERABLE.has(join.joinType) && referencesOnly(e, leftNames),
+	);
+	const outputNames = new Set(rightNames.keys());
+	const [toRight, kept] = partition(
+		rest,
+		(e) =>
+			RIGHT_FILTERABLE.has(join.joinType) && referencesOnly(e, outputNames),
+	);
+
+	const left = toLeft.length > 0 ? pushFilter(join.left, toLeft) : join.left;
+	const right =
+		toRight.length > 0
+			? pushFilter(
+					join.right,
+					toRight.map((e) => renameColumns(e, rightNames)),
+				)
+			: join.right;
+	return withFilter({ ...join, left, right }, kept);
+}
+
+/**
+ * Output names of the right side's columns in a join, mapped to their
+ * names on the right side. Mirrors the naming of the join schema.
+ */
+function joinRightColumns(
+	join: JoinNode,
+	leftNames: ReadonlySet<string>,
+): Map<string, string> {
+	const names = new Map<string, string>();
+	if (join.joinType === JoinType.Semi || join.joinType === JoinType.Anti) {
+		return names;
+	}
+	const cross = join.joinType === "cross";
+	const suffix = cross ? join.suffix || "_right" : (join.suffix ?? "_right");
+	for (const name of getColumnNames(planSchema(join.right))) {
+		if (!cross && name === join.rightKey && join.leftKey === join.rightKey) {
+			continue;
+		}
+		names.set(leftNames.has(name) ? name + suffix : name, name);
+	}
+	return names;
+}
+
+/** Hand predicates to a source that can use them to skip rows */
+function scanWithFilters(scan: ScanNode, predicates: Expr[]): ScanNode {
+	if (!isScanSource(scan.source)) return scan;
+	const added = predicates.filter((e) => !scan.filters.includes(e));
+	if (added.length === 0) return scan;
+	return { ...scan, filters: [...scan.filters, ...added] };
+}
+
+/**
+ * Narrow scans to the columns that `required` (null: every column of the
+ * node's output) depends on.
+ */
+function prune(plan: LogicalPlan, required: Set<string> | null): LogicalPlan {
+	switch (plan.type) {
+		case "scan":
+			return pruneScan(plan, required);
+		case "join":
+			// Join output names depend on both sides' full schemas
+			return mapInputs(plan, (input) => prune(input, null));
+		case "filter":
+			return {
+				...plan,
+				input: prune(plan.input, required && exprColumns(plan.expr, required)),
+			};
+		case "project":
+			return {
+				...plan,
+				input: prune(plan.input, new Set(plan.specs.map((s) => s.source))),
+			};
+		case "transform": {
+			if (required === null) {
+				return { ...plan, input: prune(plan.input, null) };
+			}
+			for (const c of plan.columns) required.delete(c.name);
+			for (const c of plan.columns) exprColumns(c.expr, required);
+			return { ...plan, input: prune(plan.input, required) };
+		}
+		case "explode":
+			return {
+				...plan,
+				input: prune(
+					plan.input,
+					required === null ? null : required.add(plan.column),
+				),
+			};
+		case "sort": {
+			if (required !== null) {
+				for (const k of plan.keys) {
+					required.add(typeof k === "string" ? k : k.column);
+				}
+			}
+			return { ...plan, input: prune(plan.input, required) };
+		}
+		case "limit":
+			return { ...plan, input: prune(plan.input, required) };
+		case "aggregate":
+		case "groupBy": {
+			const needed = new Set(plan.type === "groupBy" ? plan.keys : []);
+			for (const s of plan.specs) exprColumns(s.expr, needed);
+			return { ...plan, input: prune(plan.input, needed) };
+		}
+	}
+}
+
+function pruneScan(scan: ScanNode, required: Set<string> | null): ScanNode {
+	if (required === null || !isScanSource(scan.source)) return scan;
+	const names = getColumnNames(scan.schema);
+	let columns: string[] | null = names.filter((n) => required.has(n));
+	if (columns.length === names.length) {
+		columns = null;
+	} else if (columns.length === 0 && names[0] !== undefined) {
+		// Chunks take their row count from the first column, so keep one
+		columns = [names[0]];
+	}
+	const current = scan.columns;
+	if (
+		columns === current ||
+		(columns !== null &&
+			current !== null &&
+			columns.length === current.length &&
+			columns.every((n, i) => n === current[i]))
+	) {
+		return scan;
+	}
+	return { ...scan, columns };
+}
+
+/* EXPRESSION HELPERS
+/*-----------------------------------------------------
+/* ==================================================== */
+
+function conjuncts(expr: Expr): Expr[] {
+	return expr.type === ExprType.And ? expr.exprs.flatMap(conjuncts) : [expr];
+}
+
+function conjoin(exprs: Expr[]): Expr {
+	if (exprs.length === 1 && exprs[0] !== undefined) return exprs[0];
+	return { type: ExprType.And, exprs };
+}
+
+/** Rewrite the sub-expressions of an expression, keeping it if none change */
+function mapChildren(expr: Expr, fn: (e: Expr) => Expr): Expr {
+	switch (expr.type) {
+		case ExprType.Column:
+		case ExprType.Literal:
+			return expr;
+		case ExprType.Eq:
+		case ExprType.Neq:
+		case ExprType.Lt:
+		case ExprType.Lte:
+		case ExprType.Gt:
+		case ExprType.Gte:
+		case ExprType.Add:
+		case ExprType.Sub:
+		case ExprType.Mul:
+		case ExprType.Div:
+		case ExprType.Mod: {
+			const left = fn(expr.left);
+			const right = fn(expr.right);
+			return left === expr.left && right === expr.right
+				? expr
+				: { ...expr, left, right };
+		}
+		case ExprType.Between: {
+			const inner = fn(expr.expr);
+			const low = fn(expr.low);
+			const high = fn(expr.high);
+			return inner === expr.expr && low === expr.low && high === expr.high
+				? expr
+				: { ...expr, expr: inner, low, high };
+		}
+		case ExprType.And:
+		case ExprType.Or:
+		case ExprType.Coalesce: {
+			const exprs = expr.exprs.map(fn);
+			return exprs.every((e, i) => e === expr.exprs[i])
+				? expr
+				: { ...expr, exprs };
+		}
+		case ExprType.Count: {
+			if (expr.expr === null) return expr;
+			const inner = fn(expr.expr);
+			return inner === expr.expr ? expr : { ...expr, expr: inner };
+		}
+		default: {
+			const inner = fn(expr.expr);
+			return inner === expr.expr ? expr : { ...expr, expr: inner };
+		}
+	}
+}
+
+function renameColumns(expr: Expr, names: ReadonlyMap<string, string>): Expr {
+	if (expr.type === ExprType.Column) {
+		const name = names.get(expr.name) ?? expr.name;
+		return name === expr.name ? expr : { ...expr, name };
+	}
+	return mapChildren(expr, (e) => renameColumns(e, names));
+}
+
+function isBooleanLiteral(expr: Expr, value: boolean): boolean {
+	return expr.type === ExprType.Literal && expr.value === value;
+}
+
+function literal(value: LiteralExpr["value"], like?: Expr, schema?: Schema) {
+	const result: LiteralExpr = { type: ExprType.Literal, value };
+	if (like === undefined || schema === undefined) return result;
+	// Keep the type the folded expression would have had
+	const inferred = inferExprType(like, schema);
+	return inferred.error === ErrorCode.None
+		? { ...result, dtype: inferred.value.dtype.kind }
+		: result;
+}
+
+/**
+ * Fold literal sub-expressions. `predicate` allows dropping `true`
+ * operands of and/or, which only preserves meaning in a filter.
+ */
+function foldExpr(expr: Expr, schema: Schema, predicate: boolean): Expr {
+	const node = mapChildren(expr, (e) => foldExpr(e, schema, predicate));
+	switch (node.type) {
+		case ExprType.And:
+		case ExprType.Or: {
+			const absorbing = node.type === ExprType.Or;
+			if (node.exprs.some((e) => isBooleanLiteral(e, absorbing))) {
+				return literal(absorbing);
+			}
+			if (!predicate && !node.exprs.every((e) => e.type === ExprType.Literal)) {
+				return node;
+			}
+			const exprs = node.exprs.filter((e) => !isBooleanLiteral(e, !absorbing));
+			if (exprs.length === node.exprs.length) return node;
+			if (exprs.length === 0) return literal(!absorbing);
+			return exprs.length === 1 && exprs[0] !== undefined
+				? exprs[0]
+				: { ...node, exprs };
+		}
+		case ExprType.Not:
+			return node.expr.type === ExprType.Literal &&
+				typeof node.expr.value === "boolean"
+				? literal(!node.expr.value)
+				: node;
+		case ExprType.Neg: {
+			if (node.expr.type !== ExprType.Literal) return node;
+			const value = node.expr.value;
+			if (typeof value === "number") return literal(-value, node, schema);
+			if (typeof value === "bigint") return literal(-value, node, schema);
+			return node;
+		}
+		case ExprType.Eq:
+		case ExprType.Neq:
+		case ExprType.Lt:
+		case ExprType.Lte:
+		case ExprType.Gt:
+		case ExprType.Gte: {
+			const operands = literalOperands(node.left, node.right);
+			if (operands === null || typeof operands[0] === "boolean") return node;
+			const [l, r] = operands as [number, number];
+			return literal(compare(node.type, l, r));
+		}
+		case ExprType.Add:
+		case ExprType.Sub:
+		case ExprType.Mul:
+		case ExprType.Div:
+		case ExprType.Mod: {
+			const operands = literalOperands(node.left, node.right);
+			if (operands === null) return node;
+			const [l, r] = operands;
+			if (typeof l === "number" && typeof r === "number") {
+				if (
+					r === 0 &&
+					(node.type === ExprType.Div || node.type === ExprType.Mod)
+				)
+					return node;
+				return literal(arithmetic(node.type, l, r), node, schema);
+			}
+			if (typeof l === "bigint" && typeof r === "bigint") {
+				if (
+					r === 0n &&
+					(node.type === ExprType.Div || node.type === ExprType.Mod)
+				)
+					return node;
+				return literal(arithmetic(node.type, l, r), node, schema);
+			}
+			return node;
+		}
+		default:
+			return node;
+	}
+}
+
+/** Values of two non-null literals of the same JS type */
+function literalOperands(
+	left: Expr,
+	right: Expr,
+):
+	| [number | bigint | string | boolean, number | bigint | string | boolean]
+	| null {
+	if (left.type !== ExprType.Literal || right.type !== ExprType.Literal) {
+		return null;
+	}
+	const l = left.value;
+	const r = right.value;
+	if (l === null || r === null || typeof l !== typeof r) return null;
+	return [l, r];
+}
+
+function compare<V extends number | bigint | string>(
+	type: ExprType,
+	l: V,
+	r: V,
+): boolean {
+	switch (type) {
+		case ExprType.Eq:
+			return l === r;
+		case ExprType.Neq:
+			return l !== r;
+		case ExprType.Lt:
+			return l < r;
+		case ExprType.Lte:
+			return l <= r;
+		case ExprType.Gt:
+			return l > r;
+		default:
+			return l >= r;
+	}
+}
+
+function arithmetic<V extends number | bigint>(type: ExprType, l: V, r: V): V {
+	const a = l as number;
+	const b = r as number;
+	switch (type) {
+		case ExprType.Add:
+			return (a + b) as V;
+		case ExprType.Sub:
+			return (a - b) as V;
+		case ExprType.Mul:
+			return (a * b) as V;
+		case ExprType.Div:
+			return (a / b) as V;
+		default:
+			return (a % b) as V;
+	}
+}
@@ -102,8 +102,6 @@ export class Pipeline {
 
 		// Process all input chunks
 		for (const chunk of chunks) {
-			if (pipelineDone) break;
-
 			rowsIn += chunk.rowCount;
 
 			const result = this.executeChunk(chunk);
@@ -116,7 +114,9 @@ export class Pipeline {
 				outputChunks.push(outChunk);
 			}
 
+			// Stop pulling input as soon as the pipeline is done
 			pipelineDone = result.value.done;
+			if (pipelineDone) break;
 		}
 
 		// Finish all operators (for buffering operators like aggregate, sort)
@@ -172,8 +172,6 @@ export class Pipeline {
 		let pipelineDone = false;
 
 		for await (const chunk of chunks) {
-			if (pipelineDone) break;
-
 			rowsIn += chunk.rowCount;
 
 			const result = this.executeChunk(chunk);
@@ -186,7 +184,9 @@ export class Pipeline {
 				outputChunks.push(outChunk);
 			}
 
+			// Stop pulling input as soon as the pipeline is done
 			pipelineDone = result.value.done;
+			if (pipelineDone) break;
 		}
 
 		// Finish all operators (for buffering operators like aggregate, sort)
@@ -227,6 +227,50 @@ export class Pipeline {
 		});
 	}
 
+	/**
+	 * Execute pipeline lazily, yielding output chunks as they are produced.
+	 * Used by writers that must not materialize the whole result.
+	 * Throws on operator error since generators cannot return a Result.
+	 */
+	async *stream(
+		chunks: Iterable<Chunk> | AsyncIterable<Chunk>,
+	): AsyncGenerator<Chunk> {
+		for await (const chunk of chunks) {
+			const result = this.executeChunk(chunk);
+			if (result.error !== ErrorCode.None) {
+				throw new Error(`Pipeline error: ${result.error}`);
+			}
+
+			for (const outChunk of result.value.chunks) {
+				yield outChunk;
+			}
+
+			if (result.value.done) break;
+		}
+
+		// Finish all operators, passing buffered output downstream
+		for (let i = 0; i < this.operators.length; i++) {
+			const op = this.operators[i]!;
+			const result = op.finish();
+			if (result.error !== ErrorCode.None) {
+				throw new Error(`Pipeline error: ${result.error}`);
+			}
+
+			let chunk: Chunk | null = result.value.chunk;
+			for (let j = i + 1; j < this.operators.length && chunk !== null; j++) {
+				const downstreamResult = this.operators[j]!.process(chunk);
+				if (downstreamResult.error !== ErrorCode.None) {
+					throw new Error(`Pipeline error: ${downstreamResult.error}`);
+				}
+				chunk = downstreamResult.value.chunk;
+			}
+
+			if (chunk !== null) {
+				yield chunk;
+			}
+		}
+	}
+
 	/**
 	 * Reset all operators for reuse.
 	 */
@@ -0,0 +1,140 @@
+/**
+ * Logical plans.
+ *
+ * A DataFrame describes its transformations as plan nodes: plain data
+ * naming an operation and its arguments. Physical operators keep state
+ * while they run (sort buffers, group tables, limit counters), so a fresh
+ * set is instantiated from the nodes for every execution. Frames derived
+ * from each other share nodes, never operators.
+ */
+
+import type { Expr } from "../expr/ast.ts";
+import { ErrorCode, err, ok, type Result, unwrap } from "../types/error.ts";
+import type { Schema } from "../types/schema.ts";
+import { type AggSpec, aggregate, aggregateSchema } from "./aggregate.ts";
+import { explode, explodeSchema } from "./explode.ts";
+import { filter, filterSchema } from "./filter.ts";
+import { groupBy, groupBySchema } from "./groupby.ts";
+import { limit } from "./limit.ts";
+import type { Operator } from "./operator.ts";
+import {
+	type ProjectSpec,
+	projectSchema,
+	projectWithRename,
+} from "./project.ts";
+import { type SortKey, sort, sortSchema } from "./sort.ts";
+import {
+	type ComputedColumn,
+	transform,
+	transformSchema,
+} from "./transform.ts";
+
+/** One logical operation */
+export type PlanNode =
+	| { readonly type: "filter"; readonly expr: Expr }
+	| { readonly type: "project"; readonly specs: readonly ProjectSpec[] }
+	| {
+			readonly type: "transform";
+			readonly columns: readonly ComputedColumn[];
+	  }
+	| { readonly type: "explode"; readonly column: string }
+	| { readonly type: "sort"; readonly keys: readonly (string | SortKey)[] }
+	| {
+			readonly type: "limit";
+			readonly count: number;
+			readonly offset: number;
+	  }
+	| { readonly type: "aggregate"; readonly specs: readonly AggSpec[] }
+	| {
+			readonly type: "groupBy";
+			readonly keys: readonly string[];
+			readonly specs: readonly AggSpec[];
+	  };
+
+/** A plan node with the schemas it was checked against */
+export interface PlanStep {
+	readonly node: PlanNode;
+	readonly inputSchema: Schema;
+	readonly outputSchema: Schema;
+}
+
+/**
+ * Instantiate the physical operator for a node.
+ */
+export function createOperator(
+	node: PlanNode,
+	inputSchema: Schema,
+): Result<Operator> {
+	switch (node.type) {
+		case "filter":
+			return filter(inputSchema, node.expr);
+		case "project":
+			return projectWithRename(inputSchema, [...node.specs]);
+		case "transform":
+			return transform(inputSchema, [...node.columns]);
+		case "explode":
+			return explode(inputSchema, node.column);
+		case "sort":
+			return sort(inputSchema, ...node.keys);
+		case "limit":
+			return ok(limit(inputSchema, node.count, node.offset));
+		case "aggregate":
+			return aggregate(inputSchema, [...node.specs]);
+		case "groupBy":
+			return groupBy(inputSchema, [...node.keys], [...node.specs]);
+		default:
+			return err(ErrorCode.InvalidPipeline);
+	}
+}
+
+/**
+ * Check a node against its input schema and derive its output schema.
+ * Nothing is instantiated: planning allocates no execution state.
+ */
+export function nodeSchema(
+	node: PlanNode,
+	inputSchema: Schema,
+): Result<Schema> {
+	switch (node.type) {
+		case "filter":
+			return filterSchema(inputSchema, node.expr);
+		case "project":
+			return projectSchema(inputSchema, node.specs);
+		case "transform":
+			return transformSchema(inputSchema, node.columns);
+		case "explode":
+			return explodeSchema(inputSchema, node.column);
+		case "sort":
+			return sortSchema(inputSchema, node.keys);
+		case "limit":
+			return ok(inputSchema);
+		case "aggregate":
+			return aggregateSchema(inputSchema, node.specs);
+		case "groupBy":
+			return groupBySchema(inputSchema, node.keys, node.specs);
+		default:
+			return err(ErrorCode.InvalidPipeline);
+	}
+}
+
+/**
+ * Check a node against its input schema, returning the step with the
+ * node's output schema.
+ */
+export function planStep(
+	inputSchema: Schema,
+	node: PlanNode,
+): Result<PlanStep> {
+	const outputSchema = nodeSchema(node, inputSchema);
+	if (outputSchema.error !== ErrorCode.None) return err(outputSchema.error);
+	return ok({ node, inputSchema, outputSchema: outputSchema.value });
+}
+
+/**
+ * Fresh physical operators for one execution of a plan.
+ */
+export function instantiatePlan(steps: readonly PlanStep[]): Operator[] {
+	return steps.map((step) =>
+		unwrap(createOperator(step.node, step.inputSchema)),
+	);
+}
@@ -10,6 +10,7 @@ import type { ColumnBuffer } from "../buffer/column-buffer.ts";
 import { ErrorCode, err, ok, type Result } from "../types/error.ts";
 import {
 	createSchema,
+	getColumn,
 	getColumnIndex,
 	type Schema,
 	type SchemaSpec,
@@ -149,6 +150,35 @@ export function project(
 	return ProjectOperator.create(inputSchema, columns);
 }
 
+/**
+ * Output schema of a projection, checked without building the operator.
+ */
+export function projectSchema(
+	inputSchema: Schema,
+	specs: readonly ProjectSpec[],
+): Result<Schema> {
+	if (specs.length === 0) {
+		return err(ErrorCode.EmptySchema);
+	}
+
+	const outputSpec: SchemaSpec = {};
+	const seen = new Set<string>();
+	for (const spec of specs) {
+		const def = getColumn(inputSchema, spec.source);
+		if (def.error !== ErrorCode.None) {
+			return err(ErrorCode.UnknownColumn);
+		}
+
+		const targetName = spec.target ?? spec.source;
+		if (seen.has(targetName)) {
+			return err(ErrorCode.DuplicateColumn);
+		}
+		seen.add(targetName);
+		outputSpec[targetName] = def.value.dtype;
+	}
+	return createSchema(outputSpec);
+}
+
 /**
  * Create a project operator with rename support.
  */
@@ -197,6 +197,25 @@ export function sort(
 	return SortOperator.create(schema, sortKeys);
 }
 
+/**
+ * Output schema of a sort (its input), checked without building the operator.
+ */
+export function sortSchema(
+	schema: Schema,
+	keys: readonly (string | SortKey)[],
+): Result<Schema> {
+	if (keys.length === 0) {
+		return err(ErrorCode.InvalidExpression);
+	}
+	for (const key of keys) {
+		const column = typeof key === "string" ? key : key.column;
+		if (getColumnIndex(schema, column).error !== ErrorCode.None) {
+			return err(ErrorCode.UnknownColumn);
+		}
+	}
+	return ok(schema);
+}
+
 /**
  * Create an ascending sort key.
  */
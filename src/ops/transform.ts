@@ -196,6 +196,38 @@ function createColumnForDType(dtype: DType, capacity: number): ColumnBuffer {
 	return new ColumnBuffer(dtype.kind, capacity, dtype.nullable);
 }
 
+/**
+ * Output schema of a transform, checked without building the operator.
+ */
+export function transformSchema(
+	inputSchema: Schema,
+	columns: readonly ComputedColumn[],
+): Result<Schema> {
+	let currentSchema = inputSchema;
+	for (const col of columns) {
+		const typeResult = inferExprType(col.expr, inputSchema);
+		if (typeResult.error !== ErrorCode.None) {
+			return err(typeResult.error);
+		}
+
+		const valueResult = compileValue(col.expr, inputSchema);
+		if (valueResult.error !== ErrorCode.None) {
+			return err(valueResult.error);
+		}
+
+		const schemaResult = addColumn(
+			currentSchema,
+			col.name,
+			typeResult.value.dtype,
+		);
+		if (schemaResult.error !== ErrorCode.None) {
+			return err(schemaResult.error);
+		}
+		currentSchema = schemaResult.value;
+	}
+	return ok(currentSchema);
+}
+
 /**
  * Create a transform operator for adding computed columns.
  */
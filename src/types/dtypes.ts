@@ -4,6 +4,7 @@
  * Each DType maps to a specific binary representation:
  * - Fixed-size types use TypedArrays directly
  * - Strings use dictionary encoding (uint32 index into string table)
+ * - Lists store the JSON text of each list in the same dictionary
  * - Nullable types use a separate null bitmap
  */
 
@@ -22,6 +23,7 @@ export enum DTypeKind {
 	String = 11,
 	Date = 12, // Days since epoch (int32)
 	Timestamp = 13, // Milliseconds since epoch (int64)
+	List = 14, // Dictionary index of the list's JSON text (uint32)
 }
 
 /** Byte sizes for each DType. String returns 4 (dictionary index size). */
@@ -40,6 +42,7 @@ export const DTYPE_SIZES: Record<DTypeKind, number> = {
 	[DTypeKind.String]: 4, // Dictionary index (uint32)
 	[DTypeKind.Date]: 4, // Days since epoch (int32)
 	[DTypeKind.Timestamp]: 8, // Milliseconds since epoch (int64)
+	[DTypeKind.List]: 4, // Dictionary index (uint32)
 };
 
 /** TypedArray constructor for each numeric DType */
@@ -58,6 +61,7 @@ export const DTYPE_ARRAY_CONSTRUCTORS = {
 	[DTypeKind.String]: Uint32Array, // Dictionary indices
 	[DTypeKind.Date]: Int32Array,
 	[DTypeKind.Timestamp]: BigInt64Array,
+	[DTypeKind.List]: Uint32Array, // Dictionary indices
 } as const;
 
 /** Type-level mapping from DTypeKind to TypeScript primitive type */
@@ -78,12 +82,16 @@ export type DTypeToTS<T extends DTypeKind> = T extends
 						? string
 						: T extends DTypeKind.Date
 							? Date
-							: never;
+							: T extends DTypeKind.List
+								? unknown[]
+								: never;
 
 /** DType descriptor with nullable flag */
 export interface DType<K extends DTypeKind = DTypeKind> {
 	readonly kind: K;
 	readonly nullable: boolean;
+	/** Element type of List columns */
+	readonly inner?: DType;
 }
 
 /** Create a non-nullable DType */
@@ -139,6 +147,14 @@ export const DType = {
 	},
 } as const;
 
+/**
+ * Nullable list of `inner` elements.
+ * Element structs are held as JSON objects and surface as string elements.
+ */
+export function listOf(inner: DType): DType<DTypeKind.List> {
+	return { kind: DTypeKind.List, nullable: true, inner };
+}
+
 /** Check if a DType is numeric (supports arithmetic) */
 export function isNumericDType(dtype: DType): boolean {
 	const kind = dtype.kind;
@@ -203,6 +219,8 @@ export function getDTypeName(kind: DTypeKind): string {
 			return "Date";
 		case DTypeKind.Timestamp:
 			return "Timestamp";
+		case DTypeKind.List:
+			return "List";
 		default:
 			return "Unknown";
 	}
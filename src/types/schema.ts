@@ -83,8 +83,9 @@ function isValidColumnName(name: string): boolean {
 	if (name.length === 0 || name.length > 256) {
 		return false;
 	}
-	// Allow alphanumeric, underscore, and common chars
-	return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
+	// Allow alphanumeric, underscore, and common chars.
+	// Dotted paths name flattened struct fields ("user.address.city")
+	return /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*$/.test(name);
 }
 
 /** Get column definition by name */
@@ -240,6 +241,7 @@ const DTYPE_KIND_NAMES: Record<DTypeKind, string> = {
 	[DTypeKind.String]: "String",
 	[DTypeKind.Date]: "Date",
 	[DTypeKind.Timestamp]: "Timestamp",
+	[DTypeKind.List]: "List",
 };
 
 /** Format schema as string for debugging */
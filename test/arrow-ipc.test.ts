@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { col, fromCsvString, readArrow } from "../src/dataframe/dataframe.ts";
+import { ArrowReader } from "../src/io/index.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-arrow-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function sample() {
+	const lines = ["id,name,score,flag,day,big"];
+	for (let i = 0; i < 100; i++) {
+		const score = i % 10 === 0 ? "" : String(i / 2);
+		lines.push(
+			`${i},name_${i % 30},${score},${i % 2 === 0},2024-01-0${(i % 9) + 1},${i * 1e10}`,
+		);
+	}
+	// Small chunks so later batches carry dictionary deltas
+	return fromCsvString(
+		lines.join("\n"),
+		{
+			id: DType.int32,
+			name: DType.string,
+			score: DType.nullable.float64,
+			flag: DType.boolean,
+			day: DType.date,
+			big: DType.int64,
+		},
+		{ chunkSize: 16 },
+	);
+}
+
+describe("Arrow IPC", () => {
+	for (const format of ["file", "stream"] as const) {
+		it(`round-trips the ${format} format`, async () => {
+			const path = join(dir, `data.${format}.arrow`);
+			const df = sample();
+			await df.writeArrow(path, { format });
+
+			const expected = await df.toArray();
+			const result = await (await readArrow(path)).toArray();
+			expect(result).toEqual(expected);
+			expect(result[10]?.score).toBeNull();
+			expect(result[29]?.name).toBe("name_29");
+		});
+	}
+
+	it("writes one record batch per chunk and reads the schema", async () => {
+		const path = join(dir, "batches.arrow");
+		await sample().writeArrow(path);
+
+		const header = new Uint8Array(
+			await Bun.file(path).slice(0, 6).arrayBuffer(),
+		);
+		expect(new TextDecoder().decode(header)).toBe("ARROW1");
+
+		const reader = new ArrowReader(path);
+		const schema = await reader.readSchema();
+		expect(schema.columns.map((c) => c.dtype.kind)).toEqual([
+			DTypeKind.Int32,
+			DTypeKind.String,
+			DTypeKind.Float64,
+			DTypeKind.Boolean,
+			DTypeKind.Date,
+			DTypeKind.Int64,
+		]);
+		expect(schema.columns[2]?.dtype.nullable).toBe(true);
+
+		const sizes: number[] = [];
+		for await (const chunk of reader.stream()) sizes.push(chunk.rowCount);
+		expect(sizes).toEqual([16, 16, 16, 16, 16, 16, 4]);
+	});
+
+	it("writes only selected rows of a pipeline", async () => {
+		const path = join(dir, "limited.arrow");
+		await sample().select("id", "name").limit(20).writeArrow(path, {
+			format: "stream",
+		});
+
+		const result = await (await readArrow(path)).toArray();
+		expect(result.length).toBe(20);
+		expect(result[19]).toEqual({ id: 19, name: "name_19" });
+	});
+
+	it("writes only the dictionary entries the rows reference", async () => {
+		const path = join(dir, "filtered.arrow");
+		await sample().filter(col("id").gt(94)).writeArrow(path);
+
+		const strings = new Set<string>();
+		for await (const chunk of new ArrowReader(path).stream()) {
+			const dictionary = chunk.dictionary;
+			if (dictionary === null) continue;
+			for (let i = 0; i < dictionary.size; i++) {
+				strings.add(dictionary.getString(i) ?? "");
+			}
+		}
+		const names = ["name_5", "name_6", "name_7", "name_8", "name_9"];
+		expect([...strings].sort()).toEqual(names);
+		const result = await (await readArrow(path)).toArray();
+		expect(result.map((row) => row.name)).toEqual(names);
+	});
+});
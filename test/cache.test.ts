@@ -0,0 +1,222 @@
+import { describe, expect, it } from "bun:test";
+import { existsSync } from "node:fs";
+import type { Chunk } from "../src/buffer/chunk.ts";
+import {
+	col,
+	DataFrame,
+	fromCsvString,
+	sum,
+} from "../src/dataframe/dataframe.ts";
+import { CachedSource } from "../src/io/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+
+const CSV = `id,city,amount
+1,Lisbon,10
+2,Porto,20
+3,Lisbon,30
+4,Faro,40
+5,Porto,50
+`;
+
+const schema = {
+	id: DType.int32,
+	city: DType.string,
+	amount: DType.float64,
+};
+
+/** A frame over a source that counts how often it is read */
+function countedFrame() {
+	const base = fromCsvString(CSV, schema);
+	const chunks = base.source as Chunk[];
+	let reads = 0;
+	const source = {
+		async *[Symbol.asyncIterator]() {
+			reads++;
+			yield* chunks;
+		},
+	};
+	const df = DataFrame.fromStream(source, base._schema, base._dictionary);
+	return { df, reads: () => reads };
+}
+
+function stats(df: DataFrame) {
+	if (!(df.source instanceof CachedSource)) throw new Error("Not cached");
+	return df.source.stats();
+}
+
+describe("cache()", () => {
+	it("runs the plan once for every later action and branch", async () => {
+		const { df, reads } = countedFrame();
+		const cached = df.filter(col("amount").gt(15)).cache();
+		expect(reads()).toBe(0);
+
+		expect(await cached.count()).toBe(4);
+		expect(await cached.toArray()).toHaveLength(4);
+		const lisbon = await cached.filter(col("city").eq("Lisbon")).toArray();
+		const porto = await cached.filter(col("city").eq("Porto")).count();
+
+		expect(lisbon).toEqual([{ id: 3, city: "Lisbon", amount: 30 }]);
+		expect(porto).toBe(2);
+		expect(reads()).toBe(1);
+		expect(stats(cached)).toMatchObject({
+			level: "memory",
+			state: "cached",
+			chunks: 1,
+			rows: 4,
+			hits: 3,
+		});
+	});
+
+	it("keeps cached chunks intact when branches filter them", async () => {
+		const { df } = countedFrame();
+		const cached = df.cache();
+		expect(await cached.filter(col("id").lt(3)).count()).toBe(2);
+		expect(await cached.limit(1).toArray()).toEqual([
+			{ id: 1, city: "Lisbon", amount: 10 },
+		]);
+		expect(await cached.count()).toBe(5);
+		expect((await cached.toArray()).map((r) => r.id)).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it("caches aggregates with their own dictionary", async () => {
+		const { df, reads } = countedFrame();
+		const totals = df
+			.groupBy("city")
+			.agg([{ name: "total", expr: sum(col("amount")) }])
+			.cache();
+		const expected = [
+			{ city: "Faro", total: 40 },
+			{ city: "Lisbon", total: 40 },
+			{ city: "Porto", total: 70 },
+		];
+		expect(await totals.sort("city").toArray()).toEqual(expected);
+		expect(await totals.sort("city").toArray()).toEqual(expected);
+		expect(reads()).toBe(1);
+	});
+
+	it("retries the plan after a failed first load", async () => {
+		const base = fromCsvString(CSV, schema);
+		const chunks = base.source as Chunk[];
+		let reads = 0;
+		const source = {
+			async *[Symbol.asyncIterator]() {
+				reads++;
+				if (reads === 1) throw new Error("source unavailable");
+				yield* chunks;
+			},
+		};
+		const cached = DataFrame.fromStream(
+			source,
+			base._schema,
+			base._dictionary,
+		).cache();
+
+		await expect(cached.count()).rejects.toThrow("source unavailable");
+		expect(cached.explain()).toContain("Cache [memory, pending]");
+		expect(await cached.count()).toBe(5);
+		expect(stats(cached)).toMatchObject({ state: "cached", rows: 5 });
+		expect(reads).toBe(2);
+	});
+
+	it("reports the cache in explain()", async () => {
+		const { df } = countedFrame();
+		const cached = df.cache();
+		expect(cached.explain()).toContain("Cache [memory, pending]");
+
+		await cached.count();
+		await cached.count();
+		const plan = cached.filter(col("id").gt(1)).explain();
+		expect(plan).toContain("├─ Cache [memory, 1 chunks, 5 rows, ");
+		expect(plan).toContain("1 hits]");
+		expect(plan).toContain("└─ Filter");
+	});
+});
+
+describe("persist()", () => {
+	it("spills to a native file on disk", async () => {
+		const { df, reads } = countedFrame();
+		const persisted = df.select("city", "amount").persist("disk");
+
+		const rows = await persisted.toArray();
+		expect(rows).toHaveLength(5);
+		expect(rows[3]).toEqual({ city: "Faro", amount: 40 });
+		expect(await persisted.filter(col("amount").gte(30)).count()).toBe(3);
+		expect(reads()).toBe(1);
+
+		const { path, bytes, state } = stats(persisted);
+		expect(state).toBe("cached");
+		expect(path?.endsWith(".mornye")).toBe(true);
+		expect(existsSync(path ?? "")).toBe(true);
+		expect(bytes).toBeGreaterThan(0);
+		expect(persisted.explain()).toContain("Cache [disk, 1 chunks, 5 rows");
+	});
+
+	it("releases the cache on unpersist()", async () => {
+		const { df, reads } = countedFrame();
+		const persisted = df.persist("disk");
+		await persisted.count();
+		const path = stats(persisted).path ?? "";
+		expect(existsSync(path)).toBe(true);
+
+		expect(persisted.unpersist()).toBe(persisted);
+		expect(existsSync(path)).toBe(false);
+		expect(stats(persisted).state).toBe("released");
+		expect(persisted.explain()).toContain("Cache [disk, released]");
+
+		// Later actions read from the source again
+		expect(await persisted.count()).toBe(5);
+		expect(reads()).toBe(2);
+	});
+
+	it("deletes the spill file of a load released mid-flight", async () => {
+		const base = fromCsvString(CSV, schema);
+		const started = Promise.withResolvers<void>();
+		const gate = Promise.withResolvers<void>();
+		const source = {
+			async *[Symbol.asyncIterator]() {
+				started.resolve();
+				await gate.promise;
+				yield* base.source as Chunk[];
+			},
+		};
+		const persisted = DataFrame.fromStream(
+			source,
+			base._schema,
+			base._dictionary,
+		).persist("disk");
+
+		const pending = persisted.count();
+		await started.promise;
+		persisted.unpersist();
+		gate.resolve();
+		expect(await pending).toBe(5);
+		await Bun.sleep(0);
+
+		const { path, state, chunks } = stats(persisted);
+		expect(state).toBe("released");
+		expect(chunks).toBe(0);
+		expect(path?.endsWith(".mornye")).toBe(true);
+		expect(existsSync(path ?? "")).toBe(false);
+	});
+
+	it("only releases the cache from the persisted frame", async () => {
+		const { df, reads } = countedFrame();
+		const persisted = df.persist();
+		const derived = persisted.filter(col("amount").gt(15));
+		await persisted.count();
+
+		expect(derived.unpersist()).toBe(derived);
+		expect(stats(persisted).state).toBe("cached");
+		expect(await derived.count()).toBe(4);
+		expect(reads()).toBe(1);
+
+		persisted.unpersist();
+		expect(stats(derived).state).toBe("released");
+	});
+
+	it("leaves uncached frames alone on unpersist()", async () => {
+		const df = fromCsvString(CSV, schema);
+		expect(df.unpersist()).toBe(df);
+		expect(await df.count()).toBe(5);
+	});
+});
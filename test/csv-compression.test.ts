@@ -0,0 +1,91 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readCsv, readDataset } from "../src/dataframe/dataframe.ts";
+import { detectCompression } from "../src/io/compression.ts";
+import { CsvSource } from "../src/io/csv-source.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-csv-compression-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = { id: DType.int32, name: DType.string };
+const CSV = "id,name\n1,a\n2,b\n3,c\n";
+const ROWS = [
+	{ id: 1, name: "a" },
+	{ id: 2, name: "b" },
+	{ id: 3, name: "c" },
+];
+
+describe("compressed CSV input", () => {
+	it("reads .csv.gz and .csv.zst files", async () => {
+		const gz = join(dir, "data.csv.gz");
+		const zst = join(dir, "data.csv.zst");
+		await Bun.write(gz, Bun.gzipSync(CSV));
+		await Bun.write(zst, Bun.zstdCompressSync(CSV));
+
+		expect(await (await readCsv(gz, schema)).toArray()).toEqual(ROWS);
+		expect(await (await readCsv(zst, schema)).toArray()).toEqual(ROWS);
+	});
+
+	it("detects compression from magic bytes without an extension", async () => {
+		const gz = join(dir, "gzip-data");
+		const zst = join(dir, "zstd-data");
+		const plain = join(dir, "plain-data");
+		await Bun.write(gz, Bun.gzipSync(CSV));
+		await Bun.write(zst, Bun.zstdCompressSync(CSV));
+		await Bun.write(plain, CSV);
+
+		expect(await detectCompression(gz)).toBe("gzip");
+		expect(await detectCompression(zst)).toBe("zstd");
+		expect(await detectCompression(plain)).toBe("none");
+		expect(await (await readCsv(zst, schema)).toArray()).toEqual(ROWS);
+	});
+
+	it("honours an explicit compression option", async () => {
+		const path = join(dir, "export.dat");
+		await Bun.write(path, Bun.gzipSync(CSV));
+
+		const df = await readCsv(path, schema, { compression: "gzip" });
+		expect(await df.toArray()).toEqual(ROWS);
+		expect(await detectCompression(join(dir, "x.gz"), "none")).toBe("none");
+	});
+
+	it("decompresses large files block by block", async () => {
+		const lines = ["id,name"];
+		for (let i = 0; i < 50_000; i++) lines.push(`${i},row${i % 7}`);
+		const path = join(dir, "large.csv.gz");
+		await Bun.write(path, Bun.gzipSync(lines.join("\n")));
+
+		const df = await readCsv(path, schema);
+		expect(await df.count()).toBe(50_000);
+		expect(await df.limit(2).toArray()).toEqual([
+			{ id: 0, name: "row0" },
+			{ id: 1, name: "row1" },
+		]);
+	});
+
+	it("infers the schema of a compressed file", async () => {
+		const path = join(dir, "infer.csv.gz");
+		await Bun.write(path, Bun.gzipSync("id,score\n1,0.5\n2,1.5\n"));
+
+		const source = unwrap(await CsvSource.inferFromFile(path));
+		expect(source.getSchema().columns.map((c) => c.dtype.kind)).toEqual([
+			DType.int32.kind,
+			DType.float64.kind,
+		]);
+	});
+
+	it("lists compressed shards in CSV datasets", async () => {
+		const logs = join(dir, "logs");
+		mkdirSync(join(logs, "day=1"), { recursive: true });
+		mkdirSync(join(logs, "day=2"), { recursive: true });
+		await Bun.write(join(logs, "day=1/part-0.csv.gz"), Bun.gzipSync(CSV));
+		await Bun.write(join(logs, "day=2/part-0.csv"), "id,name\n4,d\n");
+
+		const df = await readDataset(logs, { format: "csv", schema });
+		expect((await df.toArray()).map((row) => row.id)).toEqual([1, 2, 3, 4]);
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import { fromCsvString } from "../src/dataframe/dataframe.ts";
+import { compileDateFormat } from "../src/io/date-format.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { ErrorCode, unwrap } from "../src/types/error.ts";
+
+const encoder = new TextEncoder();
+
+function parse(format: string, text: string): number {
+	const bytes = encoder.encode(text);
+	return unwrap(compileDateFormat(format))(bytes, 0, bytes.length);
+}
+
+describe("compileDateFormat", () => {
+	it("parses ISO-8601 dates and date-times", () => {
+		expect(parse("iso", "2026-10-19")).toBe(Date.UTC(2026, 9, 19));
+		expect(parse("iso", "2026-10-19T08:30")).toBe(Date.UTC(2026, 9, 19, 8, 30));
+		expect(parse("iso", "2026-10-19 08:30:15.25Z")).toBe(
+			Date.UTC(2026, 9, 19, 8, 30, 15, 250),
+		);
+		expect(parse("iso", "2026-10-19T08:30:00+02:00")).toBe(
+			Date.UTC(2026, 9, 19, 6, 30),
+		);
+		expect(parse("iso", "1969-12-31")).toBe(-86400000);
+	});
+
+	it("rejects malformed and out-of-range ISO values", () => {
+		for (const text of [
+			"2026-13-01",
+			"2026-02-29",
+			"2026-10-1",
+			"19/10/2026",
+		]) {
+			expect(parse("iso", text)).toBeNaN();
+		}
+		expect(parse("iso", "2024-02-29")).toBe(Date.UTC(2024, 1, 29));
+	});
+
+	it("parses strftime-like patterns", () => {
+		expect(parse("%d/%m/%Y", "19/10/2026")).toBe(Date.UTC(2026, 9, 19));
+		expect(parse("%d %b %y %H:%M", "5 Oct 26 7:05")).toBe(
+			Date.UTC(2026, 9, 5, 7, 5),
+		);
+		expect(parse("%F %T.%f%z", "2026-10-19 08:30:15.123456-0100")).toBe(
+			Date.UTC(2026, 9, 19, 9, 30, 15, 123),
+		);
+		expect(parse("%d/%m/%Y", "19/10/2026 ")).toBeNaN();
+	});
+
+	it("parses epoch seconds and milliseconds", () => {
+		expect(parse("epoch_s", "1760862600")).toBe(1760862600000);
+		expect(parse("epoch_s", "-1.5")).toBe(-1500);
+		expect(parse("epoch_ms", "1760862600123")).toBe(1760862600123);
+		expect(parse("epoch_ms", "12ab")).toBeNaN();
+	});
+
+	it("rejects unknown directives", () => {
+		expect(compileDateFormat("%Q").error).toBe(ErrorCode.InvalidDate);
+	});
+});
+
+describe("CSV date columns", () => {
+	it("reads dates and timestamps with per-column formats", async () => {
+		const df = fromCsvString(
+			'day,at,seen\n19/10/2026,1760862600,2025-10-19T08:30:00Z\n"01/01/1970",0,',
+			{
+				day: DType.date,
+				at: DType.timestamp,
+				seen: DType.nullable.timestamp,
+			},
+			{
+				dateFormat: "%d/%m/%Y",
+				timestampFormat: { at: "epoch_s" },
+			},
+		);
+		expect(await df.toArray()).toEqual([
+			{ day: 20745, at: 1760862600000n, seen: 1760862600000n },
+			{ day: 0, at: 0n, seen: null },
+		]);
+	});
+
+	it("fails with the line and column of an invalid date", () => {
+		expect(() =>
+			fromCsvString("id,day\n1,2026-10-19\n2,2026-10-32", {
+				id: DType.int32,
+				day: DType.date,
+			}),
+		).toThrow(`CSV line 3: Invalid date format in column 'day' ("2026-10-32")`);
+	});
+
+	it("rejects an invalid format pattern", () => {
+		expect(() =>
+			fromCsvString(
+				"day\n2026-10-19",
+				{ day: DType.date },
+				{ dateFormat: "%Q" },
+			),
+		).toThrow("Invalid date format '%Q'");
+	});
+});
@@ -0,0 +1,129 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fromCsvString, readCsv } from "../src/dataframe/dataframe.ts";
+import { createCsvParser } from "../src/io/csv-parser.ts";
+import { CsvSource } from "../src/io/csv-source.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { ErrorCode, unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-csv-errors-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = { id: DType.int32, score: DType.float64, name: DType.string };
+const CSV = [
+	"id,score,name",
+	"1,0.5,a",
+	"2,oops,b",
+	"3,1.5,c,extra",
+	"",
+	"x4,2.5,d",
+	"5,3.5,e",
+].join("\n");
+
+describe("CSV onError", () => {
+	it("fails on the first bad row by default", () => {
+		expect(() => fromCsvString(CSV, schema)).toThrow(
+			`CSV line 3: Invalid number format in column 'score' ("oops")`,
+		);
+		expect(() =>
+			fromCsvString("id,score,name\n1,2,a,b", schema, { onError: "fail" }),
+		).toThrow("CSV line 2: Too many columns in row");
+	});
+
+	it("skips bad rows and blank lines", async () => {
+		const df = fromCsvString(CSV, schema, { onError: "skip" });
+		expect(await df.toArray()).toEqual([
+			{ id: 1, score: 0.5, name: "a" },
+			{ id: 5, score: 3.5, name: "e" },
+		]);
+	});
+
+	it("collects bad rows with line, offset, text and error code", async () => {
+		const source = unwrap(
+			CsvSource.fromString(CSV, schema, { onError: "collect" }),
+		);
+		expect(source.parseSync().reduce((n, c) => n + c.rowCount, 0)).toBe(2);
+
+		const rejected = await source.getRejected().toArray();
+		expect(rejected).toEqual([
+			{
+				line: 3,
+				offset: 22n,
+				text: "2,oops,b",
+				error: ErrorCode.InvalidNumber,
+				column: "score",
+			},
+			{
+				line: 4,
+				offset: 31n,
+				text: "3,1.5,c,extra",
+				error: ErrorCode.TooManyColumns,
+				column: null,
+			},
+			{
+				line: 6,
+				offset: 46n,
+				text: "x4,2.5,d",
+				error: ErrorCode.InvalidNumber,
+				column: "id",
+			},
+		]);
+		expect(CSV.slice(22, 30)).toBe("2,oops,b");
+	});
+
+	it("reports an unterminated quote at the end of input", async () => {
+		const source = unwrap(
+			CsvSource.fromString('id,score,name\n1,2,"abc', schema, {
+				onError: "collect",
+			}),
+		);
+		source.parseSync();
+		const rejected = await source.getRejected().toArray();
+		expect(rejected.map((r) => [r.line, r.error, r.text])).toEqual([
+			[2, ErrorCode.UnterminatedQuote, '1,2,"abc'],
+		]);
+	});
+
+	it("fails once maxErrors is exceeded", () => {
+		expect(() =>
+			fromCsvString(CSV, schema, { onError: "skip", maxErrors: 2 }),
+		).toThrow("CSV line 6: Invalid number format; more than 2 bad rows");
+		expect(() =>
+			fromCsvString(CSV, schema, { onError: "skip", maxErrors: 3 }),
+		).not.toThrow();
+	});
+
+	it("keeps raw text of rows split across input blocks", () => {
+		const parser = createCsvParser(unwrap(createSchema(schema)), {
+			onError: "collect",
+		});
+		const bytes = new TextEncoder().encode(CSV.replaceAll("\n", "\r\n"));
+		let rows = 0;
+		for (let i = 0; i < bytes.length; i += 5) {
+			for (const chunk of parser.parse(bytes.subarray(i, i + 5))) {
+				rows += chunk.rowCount;
+			}
+		}
+		rows += parser.finish()?.rowCount ?? 0;
+
+		expect(rows).toBe(2);
+		expect(parser.getRejected().map((r) => [r.line, r.text])).toEqual([
+			[3, "2,oops,b"],
+			[4, "3,1.5,c,extra"],
+			[6, "x4,2.5,d"],
+		]);
+	});
+
+	it("exposes rejected rows of a streamed file through its source", async () => {
+		const path = join(dir, "data.csv");
+		await Bun.write(path, CSV);
+
+		const df = await readCsv(path, schema, { onError: "collect" });
+		expect(await df.count()).toBe(2);
+		const rejected = await (df.source as CsvSource).getRejected().toArray();
+		expect(rejected.map((r) => r.line)).toEqual([3, 4, 6]);
+	});
+});
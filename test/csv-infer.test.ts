@@ -0,0 +1,126 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fromCsvString, readCsv } from "../src/dataframe/dataframe.ts";
+import { inferCsvSchema } from "../src/io/csv-parser.ts";
+import { CsvSource } from "../src/io/csv-source.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { ErrorCode, unwrap } from "../src/types/error.ts";
+import type { Schema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-csv-infer-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const CSV = [
+	"id,big,price,active,day,at,name,note",
+	"1,3000000000,1.5,true,2026-10-01,2026-10-01T12:00:00Z,a,",
+	'2,4,2,FALSE,2026-10-02,2026-10-02 08:30,"b, c",x',
+].join("\n");
+
+function kinds(schema: Schema): [string, DTypeKind, boolean][] {
+	return schema.columns.map((c) => [c.name, c.dtype.kind, c.dtype.nullable]);
+}
+
+function sample(text: string): Uint8Array {
+	return new TextEncoder().encode(text);
+}
+
+describe("inferCsvSchema", () => {
+	it("detects column types and nullability", () => {
+		const schema = unwrap(inferCsvSchema(sample(CSV)));
+		expect(kinds(schema)).toEqual([
+			["id", DTypeKind.Int32, false],
+			["big", DTypeKind.Int64, false],
+			["price", DTypeKind.Float64, false],
+			["active", DTypeKind.Boolean, false],
+			["day", DTypeKind.Date, false],
+			["at", DTypeKind.Timestamp, false],
+			["name", DTypeKind.String, false],
+			["note", DTypeKind.String, true],
+		]);
+	});
+
+	it("widens mixed columns and names headerless columns", () => {
+		const schema = unwrap(
+			inferCsvSchema(sample("1,2026-10-01,x\n2.5,2026-10-01T00:00,\n"), {
+				hasHeader: false,
+			}),
+		);
+		expect(kinds(schema)).toEqual([
+			["column_1", DTypeKind.Float64, false],
+			["column_2", DTypeKind.Timestamp, false],
+			["column_3", DTypeKind.String, true],
+		]);
+	});
+
+	it("keeps impossible calendar dates as strings", async () => {
+		const text = "a,b\n1,2024-02-28\n2,2024-02-30\n3,2024-13-01T10:00\n";
+		const schema = unwrap(inferCsvSchema(sample(text)));
+		expect(kinds(schema)).toEqual([
+			["a", DTypeKind.Int32, false],
+			["b", DTypeKind.String, false],
+		]);
+		expect((await fromCsvString(text).toArray()).map((r) => r.b)).toEqual([
+			"2024-02-28",
+			"2024-02-30",
+			"2024-13-01T10:00",
+		]);
+	});
+
+	it("samples only inferSchemaLength rows", () => {
+		const schema = unwrap(
+			inferCsvSchema(sample("v\n1\n2\nnot a number"), {
+				inferSchemaLength: 2,
+			}),
+		);
+		expect(kinds(schema)).toEqual([["v", DTypeKind.Int32, false]]);
+	});
+
+	it("applies overrides and rejects unknown ones", () => {
+		const schema = unwrap(
+			inferCsvSchema(sample(CSV), undefined, { id: DType.string }),
+		);
+		expect(schema.columns[0]?.dtype.kind).toBe(DTypeKind.String);
+		expect(
+			inferCsvSchema(sample(CSV), undefined, { nope: DType.string }).error,
+		).toBe(ErrorCode.UnknownColumn);
+	});
+});
+
+describe("CSV readers without a schema", () => {
+	it("parses a string with the inferred schema", async () => {
+		const df = fromCsvString(CSV);
+		const rows = await df.select("id", "big", "day", "name", "note").toArray();
+		expect(rows).toEqual([
+			{ id: 1, big: 3000000000n, day: 20727, name: "a", note: null },
+			{ id: 2, big: 4n, day: 20728, name: "b, c", note: "x" },
+		]);
+	});
+
+	it("exposes the inferred schema before streaming a file", async () => {
+		const path = join(dir, "data.csv");
+		await Bun.write(path, CSV);
+
+		const source = unwrap(
+			await CsvSource.inferFromFile(path, { price: DType.float32 }),
+		);
+		expect(source.getSchema().columns[2]?.dtype.kind).toBe(DTypeKind.Float32);
+
+		const df = await readCsv(path, { id: DType.int64 }, { inferSchema: true });
+		expect(kinds(df.schema).slice(0, 3)).toEqual([
+			["id", DTypeKind.Int64, false],
+			["big", DTypeKind.Int64, false],
+			["price", DTypeKind.Float64, false],
+		]);
+		expect(await df.select("id", "price").toArray()).toEqual([
+			{ id: 1n, price: 1.5 },
+			{ id: 2n, price: 2 },
+		]);
+	});
+
+	it("fails for a missing file", async () => {
+		const result = await CsvSource.inferFromFile(join(dir, "missing.csv"));
+		expect(result.error).toBe(ErrorCode.FileNotFound);
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "bun:test";
+import { fromCsvString } from "../src/dataframe/dataframe.ts";
+import { inferCsvSchema } from "../src/io/csv-parser.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+
+describe("CSV null values", () => {
+	const csv = 'a,b,c\n1,NA,x\nNULL,2,\\N\n-,"NA",-';
+
+	it("reads global null tokens as missing", async () => {
+		const df = fromCsvString(
+			csv,
+			{
+				a: DType.nullable.int32,
+				b: DType.nullable.int32,
+				c: DType.nullable.string,
+			},
+			{ nullValues: ["NA", "NULL", "\\N", "-"] },
+		);
+		expect(await df.toArray()).toEqual([
+			{ a: 1, b: null, c: "x" },
+			{ a: null, b: 2, c: null },
+			{ a: null, b: null, c: null },
+		]);
+	});
+
+	it("applies per-column null tokens only to their column", async () => {
+		const df = fromCsvString(
+			csv,
+			{
+				a: DType.nullable.string,
+				b: DType.nullable.string,
+				c: DType.nullable.string,
+			},
+			{ nullValues: { a: ["NULL", "-"], c: ["\\N"] } },
+		);
+		expect(await df.toArray()).toEqual([
+			{ a: "1", b: "NA", c: "x" },
+			{ a: null, b: "2", c: null },
+			{ a: null, b: "NA", c: "-" },
+		]);
+	});
+
+	it("uses the type default for non-nullable columns", async () => {
+		const df = fromCsvString(
+			"a\n1\nNA",
+			{ a: DType.int32 },
+			{ nullValues: ["NA"] },
+		);
+		expect(await df.toArray()).toEqual([{ a: 1 }, { a: 0 }]);
+	});
+});
+
+describe("CSV boolean values", () => {
+	const csv = 'flag\nja\nnein\n"ja"\nvielleicht';
+
+	it("matches trueValues and falseValues, other values are missing", async () => {
+		const df = fromCsvString(
+			csv,
+			{ flag: DType.nullable.boolean },
+			{ trueValues: ["ja"], falseValues: ["nein"] },
+		);
+		const flags = (await df.toArray()).map((row) => row.flag);
+		expect(flags).toEqual([1, 0, 1, null]);
+	});
+
+	it("reads anything outside trueValues as false", async () => {
+		const df = fromCsvString(
+			csv,
+			{ flag: DType.boolean },
+			{ trueValues: ["ja"] },
+		);
+		const flags = (await df.toArray()).map((row) => row.flag);
+		expect(flags).toEqual([1, 0, 1, 0]);
+	});
+});
+
+describe("CSV decimal separator", () => {
+	it("parses European floats", async () => {
+		const df = fromCsvString(
+			'price;qty\n1,5;2\n-0,25;3\n"1,5e3";1',
+			{ price: DType.float64, qty: DType.int32 },
+			{ delimiter: ";", decimalSeparator: "," },
+		);
+		expect(await df.toArray()).toEqual([
+			{ price: 1.5, qty: 2 },
+			{ price: -0.25, qty: 3 },
+			{ price: 1500, qty: 1 },
+		]);
+	});
+});
+
+describe("inference with parse options", () => {
+	it("honours null tokens, boolean values and the decimal separator", () => {
+		const sample = new TextEncoder().encode(
+			"n;ok;price\n1;Y;1,5\nNA;N;2\n3;Y;NA",
+		);
+		const schema = unwrap(
+			inferCsvSchema(sample, {
+				delimiter: ";",
+				decimalSeparator: ",",
+				nullValues: ["NA"],
+				trueValues: ["Y"],
+				falseValues: ["N"],
+			}),
+		);
+		expect(
+			schema.columns.map((c) => [c.name, c.dtype.kind, c.dtype.nullable]),
+		).toEqual([
+			["n", DTypeKind.Int32, true],
+			["ok", DTypeKind.Boolean, false],
+			["price", DTypeKind.Float64, true],
+		]);
+	});
+});
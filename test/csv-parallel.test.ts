@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Chunk } from "../src/buffer/chunk.ts";
+import {
+	DataFrame,
+	fromCsvString,
+	readCsv,
+} from "../src/dataframe/dataframe.ts";
+import { parseParallel, splitRanges } from "../src/io/csv-parallel.ts";
+import {
+	type CsvOptions,
+	type CsvParser,
+	createCsvParser,
+} from "../src/io/csv-parser.ts";
+import { CsvSource } from "../src/io/csv-source.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-csv-parallel-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = {
+	id: DType.int32,
+	name: DType.string,
+	score: DType.nullable.float64,
+};
+
+/** About 3 MB of rows, with quoted delimiters and line breaks */
+function makeCsv(rows: number): string {
+	const lines = ["id,name,score"];
+	for (let i = 0; i < rows; i++) {
+		const name = i % 5 === 0 ? `"multi\nline, ""${i % 13}"""` : `name${i % 13}`;
+		lines.push(`${i},${name},${i % 7 === 0 ? "" : i / 4}`);
+	}
+	return lines.join("\n");
+}
+
+const CSV = makeCsv(120_000);
+const path = join(dir, "data.csv");
+beforeAll(() => Bun.write(path, CSV));
+
+describe("splitRanges", () => {
+	it("cuts only after row endings outside quotes", () => {
+		const data = new TextEncoder().encode(
+			'a,b\n1,"x\ny"\r\n2,"p""\nq"\n3,z\n4,w',
+		);
+		const { ranges, fields } = splitRanges(data, undefined, 1);
+		expect(fields).toBe(2);
+		expect(ranges.map((r) => r.rows)).toEqual([1, 2, 3, 4]);
+		const text = new TextDecoder();
+		expect(
+			ranges.map((r) => text.decode(data.subarray(r.start, r.end))),
+		).toEqual(['1,"x\ny"\r\n', '2,"p""\nq"\n', "3,z\n", "4,w"]);
+	});
+
+	it("leaves out skipped rows", () => {
+		const data = new TextEncoder().encode("junk\na,b\n1,2\n3,4\n");
+		const { ranges } = splitRanges(data, { skipRows: 1 }, 100);
+		expect(ranges).toEqual([{ start: 9, end: 17, rows: 2 }]);
+	});
+
+	it("stops a window at its last complete row", () => {
+		const data = new TextEncoder().encode('a,b\n1,"x\ny"\r\n2,"p\r');
+		const first = splitRanges(data, undefined, 100, undefined, false);
+		expect(first).toEqual({
+			ranges: [{ start: 4, end: 13, rows: 1 }],
+			fields: 2,
+			rows: 2,
+			end: 13,
+		});
+
+		// A CR at the end of a window may be the first half of a CRLF
+		const crlf = new TextEncoder().encode("3,z\r");
+		const second = splitRanges(crlf, undefined, 100, first, false);
+		expect(second.ranges).toEqual([]);
+		expect(second.end).toBe(0);
+		expect(splitRanges(crlf, undefined, 100, first).ranges).toEqual([
+			{ start: 0, end: 4, rows: 2 },
+		]);
+	});
+});
+
+describe("parallel CSV parsing", () => {
+	it("matches single-threaded parsing in order", async () => {
+		const expected = await fromCsvString(CSV, schema).toArray();
+		const df = await readCsv(path, schema, { workers: 3 });
+		const rows = await df.toArray();
+		expect(rows.length).toBe(120_000);
+		expect(rows).toEqual(expected);
+	});
+
+	it("yields every row when order is not preserved", async () => {
+		const source = unwrap(
+			CsvSource.fromString(CSV, schema, { workers: 3, preserveOrder: false }),
+		);
+		const ids: number[] = [];
+		for await (const chunk of source) {
+			const column = chunk.getColumn(0);
+			for (let i = 0; i < chunk.rowCount; i++) {
+				ids.push(column?.get(i) as number);
+			}
+		}
+		ids.sort((a, b) => a - b);
+		expect(ids.length).toBe(120_000);
+		expect(ids.every((id, i) => id === i)).toBe(true);
+	});
+
+	it("reads compressed files with projection", async () => {
+		const gz = join(dir, "data.csv.gz");
+		await Bun.write(gz, Bun.gzipSync(CSV));
+
+		const df = await readCsv(gz, schema, { workers: 2, projection: [1] });
+		const rows = await df.toArray();
+		expect(rows.length).toBe(120_000);
+		expect(rows[1]).toEqual({ name: "name1" });
+		expect(rows[5]).toEqual({ name: 'multi\nline, "5"' });
+	});
+
+	it("reports the global line of a bad row", async () => {
+		const bad = join(dir, "bad.csv");
+		await Bun.write(bad, `${CSV}\nlast,x,1`);
+		const df = await readCsv(bad, schema, { workers: 2 });
+		await expect(df.toArray()).rejects.toThrow(
+			`CSV line 120002: Invalid number format in column 'id' ("last")`,
+		);
+	});
+
+	it("collects rejected rows with their line and offset", async () => {
+		const bad = CSV.replace("\n50000,", "\nx50000,");
+		const sequential = unwrap(
+			CsvSource.fromString(bad, schema, { onError: "collect" }),
+		);
+		await sequential.collectChunks();
+		const parallel = unwrap(
+			CsvSource.fromString(bad, schema, { onError: "collect", workers: 2 }),
+		);
+		const chunks = unwrap(await parallel.collectChunks());
+
+		expect(chunks.reduce((n, c) => n + c.rowCount, 0)).toBe(119_999);
+		expect(await parallel.getRejected().toArray()).toEqual(
+			await sequential.getRejected().toArray(),
+		);
+	});
+
+	it("reads the input in windows of shared memory", async () => {
+		const bad = CSV.replace("\n50000,", "\nx50000,");
+		const options: CsvOptions = { onError: "collect", workers: 3 };
+		const read = async (
+			parser: CsvParser,
+			chunks: AsyncIterable<Chunk> | Chunk[],
+		) => {
+			const all = await Array.fromAsync(chunks);
+			return DataFrame.fromChunks(
+				all,
+				parser.getSchema(),
+				parser.getDictionary(),
+			).toArray();
+		};
+
+		const sequential = createCsvParser(unwrap(createSchema(schema)), options);
+		const bytes = new TextEncoder().encode(bad);
+		const expected = await read(
+			sequential,
+			[...sequential.parse(bytes), sequential.finish() ?? []].flat(),
+		);
+
+		// Windows of 64 KiB cut through rows and quoted line breaks
+		const parser = createCsvParser(unwrap(createSchema(schema)), options);
+		let offset = 0;
+		const stream = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (offset >= bytes.length) return controller.close();
+				controller.enqueue(bytes.slice(offset, offset + 4096));
+				offset += 4096;
+			},
+		});
+		const rows = await read(
+			parser,
+			parseParallel(stream, parser, options, 64 * 1024),
+		);
+		expect(rows.length).toBe(119_999);
+		expect(rows).toEqual(expected);
+		expect(parser.getRejected()).toEqual(sequential.getRejected());
+	});
+});
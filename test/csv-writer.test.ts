@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame, fromCsvString } from "../src/dataframe/dataframe.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-csv-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("CSV writer", () => {
+	const schema = unwrap(
+		createSchema({
+			id: DType.int32,
+			name: DType.nullable.string,
+			score: DType.nullable.float64,
+			ok: DType.boolean,
+			day: DType.date,
+			at: DType.timestamp,
+		}),
+	);
+	const dictionary = createDictionary();
+	const values = [
+		[1, "plain", 1.5, 1, 0, 0n],
+		[2, 'say "hi"', null, 0, 19000, 1_700_000_000_123n],
+		[3, "a,b", -2, 1, -1, -1000n],
+		[4, "line\nbreak", 0.25, 0, 1, 86_400_000n],
+		[5, null, 3, 1, 2, 1n],
+	] as const;
+
+	const columns = schema.columns.map((def, c) => {
+		const buffer = new ColumnBuffer(
+			def.dtype.kind,
+			values.length,
+			def.dtype.nullable,
+		);
+		for (const row of values) {
+			const value = row[c];
+			if (value === null) buffer.appendNull();
+			else if (def.dtype.kind === DTypeKind.String)
+				buffer.append(dictionary.internString(value as string));
+			else buffer.append(value as never);
+		}
+		return buffer;
+	});
+	const df = DataFrame.fromChunks(
+		[new Chunk(schema, columns, dictionary)],
+		schema,
+		dictionary,
+	);
+
+	it("quotes fields and formats dates by default", async () => {
+		expect(await df.toCsvString()).toBe(
+			[
+				"id,name,score,ok,day,at",
+				"1,plain,1.5,true,1970-01-01,1970-01-01T00:00:00.000Z",
+				'2,"say ""hi""",,false,2022-01-08,2023-11-14T22:13:20.123Z',
+				'3,"a,b",-2,true,1969-12-31,1969-12-31T23:59:59.000Z',
+				'4,"line\nbreak",0.25,false,1970-01-02,1970-01-02T00:00:00.000Z',
+				"5,,3,true,1970-01-03,1970-01-01T00:00:00.001Z",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("honors delimiter, null value, quote style and epoch formats", async () => {
+		const csv = await df.select("id", "name", "day", "at").toCsvString({
+			delimiter: ";",
+			quote: "'",
+			hasHeader: false,
+			nullValue: "NULL",
+			quoteStyle: "always",
+			dateFormat: "epoch",
+			timestampFormat: "epoch",
+			lineTerminator: "\r\n",
+		});
+		expect(csv.split("\r\n")[1]).toBe(
+			"'2';'say \"hi\"';'19000';'1700000000123'",
+		);
+		expect(csv.split("\r\n")[4]).toBe("'5';NULL;'2';'1'");
+	});
+
+	it("streams to a file that round-trips through the parser", async () => {
+		const source = fromCsvString(
+			"id,name,score\n1,alpha,0.5\n2,beta,1.5\n3,gamma,2.5",
+			{ id: DType.int32, name: DType.string, score: DType.float64 },
+		);
+		const path = join(dir, "out.csv");
+		await source.limit(2).writeCsv(path);
+
+		expect(await Bun.file(path).text()).toBe(
+			"id,name,score\n1,alpha,0.5\n2,beta,1.5\n",
+		);
+	});
+
+	it("leaves no file behind when the upstream stream fails", async () => {
+		const base = fromCsvString("id,name\n1,alpha\n2,beta", {
+			id: DType.int32,
+			name: DType.string,
+		});
+		const source = {
+			async *[Symbol.asyncIterator]() {
+				yield* base.source as Chunk[];
+				throw new Error("source unavailable");
+			},
+		};
+		const df = DataFrame.fromStream(source, base._schema, base._dictionary);
+		const path = join(dir, "failed.csv");
+
+		await expect(df.writeCsv(path)).rejects.toThrow("source unavailable");
+		expect(existsSync(path)).toBe(false);
+		expect(readdirSync(dir).filter((f) => f.startsWith("failed"))).toEqual([]);
+	});
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame, readDataset } from "../src/dataframe/dataframe.ts";
+import { and, col } from "../src/expr/builders.ts";
+import { parsePartitions } from "../src/io/dataset.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-dataset-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+/** Write one Parquet file from column values */
+async function writeParquet(
+	path: string,
+	columns: Record<
+		string,
+		{ dtype: DType; values: (number | bigint | string)[] }
+	>,
+): Promise<void> {
+	mkdirSync(join(path, ".."), { recursive: true });
+	const spec: Record<string, DType> = {};
+	const buffers: ColumnBuffer[] = [];
+	const dictionary = createDictionary();
+	for (const [name, { dtype, values }] of Object.entries(columns)) {
+		spec[name] = dtype;
+		const buffer = new ColumnBuffer(dtype.kind, values.length, false);
+		for (const value of values) {
+			buffer.append(
+				(typeof value === "string"
+					? dictionary.internString(value)
+					: value) as never,
+			);
+		}
+		buffers.push(buffer);
+	}
+	const schema = unwrap(createSchema(spec));
+	await DataFrame.fromChunks(
+		[new Chunk(schema, buffers, dictionary)],
+		schema,
+		dictionary,
+	).writeParquet(path);
+}
+
+const events = join(dir, "events");
+
+beforeAll(async () => {
+	await writeParquet(join(events, "date=2026-10-01/hour=1/part-0.parquet"), {
+		id: { dtype: DType.int32, values: [1, 2] },
+		name: { dtype: DType.string, values: ["a", "b"] },
+	});
+	// Wider id type and an extra column
+	await writeParquet(join(events, "date=2026-10-01/hour=2/part-0.parquet"), {
+		id: { dtype: DType.int64, values: [3n] },
+		name: { dtype: DType.string, values: ["c"] },
+		score: { dtype: DType.float64, values: [0.5] },
+	});
+	await writeParquet(join(events, "date=2026-10-02/hour=1/part-0.parquet"), {
+		id: { dtype: DType.int32, values: [4, 5] },
+		name: { dtype: DType.string, values: ["b", "d"] },
+	});
+	await Bun.write(join(events, "_SUCCESS"), "");
+
+	const logs = join(dir, "logs");
+	await Bun.write(join(logs, "region=eu/part-0.csv"), "id,msg\n1,x\n2,y");
+	await Bun.write(join(logs, "region=us/part-0.csv"), "id,msg\n3,z");
+});
+
+describe("parsePartitions", () => {
+	it("reads key=value directories and Hive nulls", () => {
+		const partitions = parsePartitions(
+			"date=2026-10-01/city=New%20York/hour=__HIVE_DEFAULT_PARTITION__/part-0.parquet",
+		);
+		expect([...partitions]).toEqual([
+			["date", "2026-10-01"],
+			["city", "New York"],
+			["hour", null],
+		]);
+	});
+});
+
+describe("readDataset", () => {
+	it("unifies file schemas and adds typed partition columns", async () => {
+		const df = await readDataset(events);
+		const kinds = df.schema.columns.map((c) => [c.name, c.dtype.kind]);
+		expect(kinds).toEqual([
+			["id", DTypeKind.Int64],
+			["name", DTypeKind.String],
+			["score", DTypeKind.Float64],
+			["date", DTypeKind.String],
+			["hour", DTypeKind.Int32],
+		]);
+		expect(df.schema.columns[2]?.dtype.nullable).toBe(true);
+
+		expect(await df.toArray()).toEqual([
+			{ id: 1n, name: "a", score: null, date: "2026-10-01", hour: 1 },
+			{ id: 2n, name: "b", score: null, date: "2026-10-01", hour: 1 },
+			{ id: 3n, name: "c", score: 0.5, date: "2026-10-01", hour: 2 },
+			{ id: 4n, name: "b", score: null, date: "2026-10-02", hour: 1 },
+			{ id: 5n, name: "d", score: null, date: "2026-10-02", hour: 1 },
+		]);
+	});
+
+	it("prunes partitions from the path before opening files", async () => {
+		const df = await readDataset(events);
+		const filtered = df
+			.filter(and(col("date").eq("2026-10-01"), col("hour").gt(1)))
+			.select("id", "hour");
+		expect(filtered.explain()).toContain("files: 1/3 (2 pruned)");
+		expect(await filtered.toArray()).toEqual([{ id: 3n, hour: 2 }]);
+	});
+
+	it("never opens pruned files while scanning", async () => {
+		const copy = join(dir, "copy");
+		await writeParquet(join(copy, "k=1/a.parquet"), {
+			v: { dtype: DType.int32, values: [1] },
+		});
+		await writeParquet(join(copy, "k=2/a.parquet"), {
+			v: { dtype: DType.int32, values: [2] },
+		});
+		const df = await readDataset(copy, { format: "parquet" });
+		rmSync(join(copy, "k=1"), { recursive: true });
+
+		const rows = await df.filter(col("k").eq(2)).toArray();
+		expect(rows).toEqual([{ v: 2, k: 2 }]);
+	});
+
+	it("reads a glob of CSV shards with a schema", async () => {
+		const df = await readDataset(join(dir, "logs/*/*.csv"), {
+			format: "csv",
+			schema: { id: DType.int32, msg: DType.string },
+		});
+		expect(await df.toArray()).toEqual([
+			{ id: 1, msg: "x", region: "eu" },
+			{ id: 2, msg: "y", region: "eu" },
+			{ id: 3, msg: "z", region: "us" },
+		]);
+	});
+
+	it("rejects mixed formats unless one is chosen", async () => {
+		const mixed = join(dir, "mixed");
+		await writeParquet(join(mixed, "part-0.parquet"), {
+			id: { dtype: DType.int32, values: [1, 2] },
+		});
+		await Bun.write(join(mixed, "part-1.csv"), "id\n3");
+
+		await expect(readDataset(mixed)).rejects.toThrow(
+			"mixes CSV and Parquet files",
+		);
+		const parquet = await readDataset(mixed, { format: "parquet" });
+		expect(await parquet.toArray()).toEqual([{ id: 1 }, { id: 2 }]);
+		const csv = await readDataset(mixed, {
+			format: "csv",
+			schema: { id: DType.int32 },
+		});
+		expect(await csv.toArray()).toEqual([{ id: 3 }]);
+	});
+
+	it("rejects CSV datasets without a schema", async () => {
+		await expect(
+			readDataset(join(dir, "logs"), { format: "csv" }),
+		).rejects.toThrow("CSV datasets need a schema");
+	});
+});
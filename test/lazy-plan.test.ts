@@ -0,0 +1,118 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { col, fromCsvString, sum } from "../src/dataframe/dataframe.ts";
+import { FilterOperator } from "../src/ops/filter.ts";
+import { desc } from "../src/ops/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+
+const CSV = `id,city,amount
+1,Lisbon,10
+2,Porto,20
+3,Lisbon,30
+4,Faro,40
+5,Porto,50
+`;
+
+const schema = {
+	id: DType.int32,
+	city: DType.string,
+	amount: DType.float64,
+};
+
+describe("lazy plans", () => {
+	it("records plan nodes as plain data", () => {
+		const df = fromCsvString(CSV, schema)
+			.filter(col("amount").gt(15))
+			.select("id", "amount")
+			.limit(2);
+
+		expect(df.plan.map((step) => step.node.type)).toEqual([
+			"filter",
+			"project",
+			"limit",
+		]);
+		expect(df.plan[2]?.node).toEqual({ type: "limit", count: 2, offset: 0 });
+	});
+
+	it("plans steps without instantiating operators", async () => {
+		const create = spyOn(FilterOperator, "create");
+		try {
+			const df = fromCsvString(CSV, schema)
+				.filter(col("amount").gt(15))
+				.withColumn("double", col("amount").mul(2))
+				.filter(col("double").lt(90));
+			expect(df.plan.map((step) => step.outputSchema.columns.length)).toEqual([
+				3, 4, 4,
+			]);
+			expect(create).not.toHaveBeenCalled();
+
+			expect((await df.toArray()).map((r) => r.id)).toEqual([2, 3, 4]);
+			expect(create).toHaveBeenCalled();
+		} finally {
+			create.mockRestore();
+		}
+	});
+
+	it("checks steps when they are planned", () => {
+		const base = fromCsvString(CSV, schema);
+		expect(() => base.filter(col("nope").gt(1))).toThrow("Filter error");
+		expect(() => base.select("id", "nope")).toThrow();
+		expect(() => base.sort("nope")).toThrow();
+	});
+
+	it("re-executes a grouped frame", async () => {
+		const df = fromCsvString(CSV, schema)
+			.groupBy("city")
+			.agg([{ name: "total", expr: sum(col("amount")) }])
+			.sort("city");
+
+		const first = await df.toArray();
+		const second = await df.toArray();
+		expect(first).toEqual([
+			{ city: "Faro", total: 40 },
+			{ city: "Lisbon", total: 40 },
+			{ city: "Porto", total: 70 },
+		]);
+		expect(second).toEqual(first);
+	});
+
+	it("re-executes limits and slices", async () => {
+		const base = fromCsvString(CSV, schema);
+		const limited = base.limit(2);
+		const sliced = base.slice(1, 2);
+
+		expect(await limited.count()).toBe(2);
+		expect(await limited.count()).toBe(2);
+		expect((await sliced.toArray()).map((r) => r.id)).toEqual([2, 3]);
+		expect((await sliced.toArray()).map((r) => r.id)).toEqual([2, 3]);
+	});
+
+	it("keeps parent frames intact when branching", async () => {
+		const base = fromCsvString(CSV, schema);
+		const lisbon = base.filter(col("city").eq("Lisbon"));
+		const large = base.filter(col("amount").gt(25));
+		const largeLisbon = lisbon.filter(col("amount").gt(25));
+
+		expect(await largeLisbon.count()).toBe(1);
+		expect(await lisbon.count()).toBe(2);
+		expect(await large.count()).toBe(3);
+		expect(await base.count()).toBe(5);
+		expect(base.plan).toHaveLength(0);
+		expect(lisbon.plan).toHaveLength(1);
+	});
+
+	it("runs the same frame concurrently", async () => {
+		const df = fromCsvString(CSV, schema)
+			.filter(col("amount").gt(15))
+			.sort([desc("amount")])
+			.limit(3);
+
+		const results = await Promise.all([
+			df.toArray(),
+			df.toArray(),
+			df.toArray(),
+		]);
+		for (const rows of results) {
+			expect(rows.map((r) => r.id)).toEqual([5, 4, 3]);
+		}
+	});
+});
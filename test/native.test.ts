@@ -0,0 +1,134 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	col,
+	fromCsvString,
+	readCsv,
+	readNative,
+} from "../src/dataframe/dataframe.ts";
+import { desc } from "../src/ops/sort.ts";
+import { DType } from "../src/types/dtypes.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-native-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = {
+	id: DType.int32,
+	name: DType.nullable.string,
+	big: DType.nullable.int64,
+	score: DType.nullable.float64,
+	ok: DType.nullable.boolean,
+	day: DType.nullable.date,
+	at: DType.nullable.timestamp,
+	small: DType.uint8,
+};
+
+const CSV = `id,name,big,score,ok,day,at,small
+1,alpha,9007199254740993,0.5,true,2026-10-19,2026-10-19T08:30:00Z,7
+2,,,,,,,8
+3,beta,-1,1e300,false,1970-01-01,1970-01-01T00:00:00Z,255
+4,alpha,0,2.25,true,1999-12-31,2000-01-01T00:00:00.123Z,0
+`;
+
+describe("native format", () => {
+	it("round-trips every column type with nulls", async () => {
+		const df = fromCsvString(CSV, schema);
+		const path = join(dir, "all.mornye");
+		await df.writeNative(path);
+
+		const back = await readNative(path);
+		expect(back.schema.columns).toEqual(df.schema.columns);
+		expect(await back.toArray()).toEqual(await df.toArray());
+	});
+
+	it("keeps chunk boundaries and reads without mapping", async () => {
+		const lines = ["id,name"];
+		for (let i = 0; i < 1000; i++) lines.push(`${i},n${i % 10}`);
+		const csv = join(dir, "many.csv");
+		await Bun.write(csv, lines.join("\n"));
+		const df = await readCsv(
+			csv,
+			{ id: DType.int32, name: DType.string },
+			{ chunkSize: 300 },
+		);
+		const path = join(dir, "many.mornye");
+		await df.writeNative(path);
+
+		for (const mmap of [true, false]) {
+			const back = await readNative(path, { mmap });
+			expect((await back.toChunks()).map((c) => c.rowCount)).toEqual([
+				300, 300, 300, 100,
+			]);
+			expect(await back.toArray()).toEqual(await df.toArray());
+		}
+	});
+
+	it("writes selected rows with only the strings they reference", async () => {
+		const df = fromCsvString(CSV, schema)
+			.filter(col("id").gt(2))
+			.select("id", "name");
+		const path = join(dir, "filtered.mornye");
+		await df.writeNative(path);
+
+		const back = await readNative(path);
+		expect(await back.toArray()).toEqual([
+			{ id: 3, name: "beta" },
+			{ id: 4, name: "alpha" },
+		]);
+		expect(back._dictionary?.size).toBe(2);
+	});
+
+	it("supports operators on mapped columns", async () => {
+		const path = join(dir, "all.mornye");
+		const back = await readNative(path);
+		const rows = await back
+			.filter(col("small").gte(7))
+			.sort([desc("small")])
+			.select("id")
+			.toArray();
+		expect(rows).toEqual([{ id: 3 }, { id: 2 }, { id: 1 }]);
+		// Reading again sees the unchanged file
+		expect(await (await readNative(path)).count()).toBe(4);
+	});
+
+	it("writes empty frames", async () => {
+		const df = fromCsvString("id,name\n", {
+			id: DType.int32,
+			name: DType.string,
+		});
+		const path = join(dir, "empty.mornye");
+		await df.writeNative(path);
+		const back = await readNative(path);
+		expect(await back.count()).toBe(0);
+		expect(back.columnNames).toEqual(["id", "name"]);
+	});
+
+	it("replaces an existing file only when the write completes", async () => {
+		const path = join(dir, "replace.mornye");
+		await fromCsvString(CSV, schema).writeNative(path);
+		const mapped = await readNative(path);
+
+		await fromCsvString("id,name\n9,z\n", {
+			id: DType.int32,
+			name: DType.string,
+		}).writeNative(path);
+		expect(await (await readNative(path)).toArray()).toEqual([
+			{ id: 9, name: "z" },
+		]);
+		// The earlier mapping still reads the replaced file
+		expect(await mapped.count()).toBe(4);
+		expect(readdirSync(dir).some((f) => f.endsWith(".tmp"))).toBe(false);
+	});
+
+	it("rejects missing and foreign files", async () => {
+		await expect(readNative(join(dir, "missing.mornye"))).rejects.toThrow(
+			"Native file not found",
+		);
+		const csv = join(dir, "plain.csv");
+		await Bun.write(csv, CSV);
+		expect(existsSync(csv)).toBe(true);
+		await expect(readNative(csv)).rejects.toThrow("Not a mornye file");
+	});
+});
@@ -0,0 +1,113 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fromNdjsonString, readNdjson } from "../src/dataframe/dataframe.ts";
+import { inferNdjsonSchema } from "../src/io/index.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-ndjson-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const LOG = [
+	'{"level":"info","code":200,"latency":1.5,"ok":true,"day":"2024-01-02"}',
+	'{"level":"warn","code":404,"ok":false,"day":"2024-01-03","extra":{"a":1}}',
+	"",
+	'{"level":"info","code":3000000000,"latency":2,"ok":true,"day":"2024-01-04"}',
+].join("\n");
+
+describe("NDJSON reader", () => {
+	it("infers schema with nullability from missing keys", () => {
+		const schema = unwrap(inferNdjsonSchema(LOG.split("\n")));
+		const dtypes = Object.fromEntries(
+			schema.columns.map((c) => [c.name, c.dtype]),
+		);
+		expect(dtypes.level).toEqual(DType.string);
+		expect(dtypes.code).toEqual(DType.int64);
+		expect(dtypes.latency).toEqual(DType.nullable.float64);
+		expect(dtypes.ok).toEqual(DType.boolean);
+		expect(dtypes.day?.kind).toBe(DTypeKind.Date);
+		expect(dtypes.extra).toEqual(DType.nullable.string);
+	});
+
+	it("parses values and treats missing keys as null", async () => {
+		const rows = await fromNdjsonString(LOG).toArray();
+		expect(rows.length).toBe(3);
+		expect(rows[1]).toEqual({
+			level: "warn",
+			code: 404n,
+			latency: null,
+			ok: 0,
+			day: 19725,
+			extra: '{"a":1}',
+		});
+		expect(rows[2]?.code).toBe(3000000000n);
+	});
+
+	it("reads dates and timestamps without an offset as UTC", async () => {
+		const rows = await fromNdjsonString(
+			[
+				'{"d":"2024-01-01","t":"2024-01-01T10:00:00"}',
+				'{"d":"1969-12-31","t":"2024-01-01T10:00:00+02:00"}',
+			].join("\n"),
+			{ d: DType.date, t: DType.timestamp },
+		).toArray();
+		expect(rows).toEqual([
+			{ d: 19723, t: 1704103200000n },
+			{ d: -1, t: 1704096000000n },
+		]);
+		expect(() =>
+			fromNdjsonString('{"d":"2024-02-30"}', { d: DType.date }),
+		).toThrow("NDJSON line 1: Invalid date format in column 'd'");
+	});
+
+	it("reports coercion errors with line numbers", () => {
+		expect(() =>
+			fromNdjsonString('{"n":1}\n{"n":"x"}', { n: DType.int32 }),
+		).toThrow("NDJSON line 2: Invalid number format in column 'n'");
+		expect(() =>
+			fromNdjsonString('{"n":1}\n\n{"n":1', { n: DType.int32 }),
+		).toThrow("NDJSON line 3: Malformed data");
+		expect(() =>
+			fromNdjsonString('{"n":1}\n{"m":2}', { n: DType.int32 }),
+		).toThrow("NDJSON line 2: Type mismatch in column 'n'");
+		expect(() => fromNdjsonString('{"n":300}', { n: DType.int8 })).toThrow(
+			"NDJSON line 1: Value overflow during cast in column 'n'",
+		);
+	});
+
+	it("streams files in chunks and round-trips through writeNdjson", async () => {
+		const lines: string[] = [];
+		for (let i = 0; i < 5000; i++) {
+			lines.push(
+				JSON.stringify({
+					id: i,
+					tag: `t${i % 3}`,
+					v: i % 4 === 0 ? null : i / 2,
+				}),
+			);
+		}
+		const input = join(dir, "in.ndjson");
+		await Bun.write(input, `${lines.join("\n")}\n`);
+
+		const df = await readNdjson(input, undefined, { chunkSize: 1024 });
+		expect(await df.count()).toBe(5000);
+
+		const output = join(dir, "out.ndjson");
+		await df.writeNdjson(output);
+		expect(await Bun.file(output).text()).toBe(`${lines.join("\n")}\n`);
+	});
+
+	it("leaves no file behind when the input fails mid-stream", async () => {
+		const input = join(dir, "bad.ndjson");
+		const lines = Array.from({ length: 100 }, (_, i) => `{"n":${i}}`);
+		await Bun.write(input, `${lines.join("\n")}\n{"n":"x"}\n`);
+		const df = await readNdjson(input, { n: DType.int32 }, { chunkSize: 10 });
+		const output = join(dir, "failed.ndjson");
+
+		await expect(df.writeNdjson(output)).rejects.toThrow("NDJSON line 101");
+		expect(existsSync(output)).toBe(false);
+		expect(readdirSync(dir).filter((f) => f.startsWith("failed"))).toEqual([]);
+	});
+});
@@ -0,0 +1,297 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import type { Chunk } from "../src/buffer/chunk.ts";
+import {
+	add,
+	col,
+	DataFrame,
+	fromCsvString,
+	lit,
+	sum,
+} from "../src/dataframe/dataframe.ts";
+import { formatExpr } from "../src/expr/ast.ts";
+import { and, not } from "../src/expr/builders.ts";
+import { FilterOperator } from "../src/ops/filter.ts";
+import {
+	formatPlan,
+	type LogicalPlan,
+	optimize,
+	type ScanNode,
+	type ScanOptions,
+} from "../src/ops/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+
+const CSV = `id,city,amount
+1,Lisbon,10
+2,Porto,20
+3,Lisbon,30
+4,Faro,40
+5,Porto,50
+`;
+
+const schema = {
+	id: DType.int32,
+	city: DType.string,
+	amount: DType.float64,
+};
+
+const countries = () =>
+	fromCsvString("city,country\nLisbon,PT\nPorto,PT\nMadrid,ES\n", {
+		city: DType.string,
+		country: DType.string,
+	});
+
+/** Node types from the root down the first input of each node */
+function spine(plan: LogicalPlan): string[] {
+	const types: string[] = [plan.type];
+	let node = plan;
+	while (node.type !== "scan" && node.type !== "join") {
+		node = node.input;
+		types.push(node.type);
+	}
+	return types;
+}
+
+function leafScan(plan: LogicalPlan): ScanNode {
+	let node = plan;
+	while (node.type !== "scan") {
+		node = node.type === "join" ? node.left : node.input;
+	}
+	return node;
+}
+
+/** A scannable source that is only planned, never read */
+function scanFrame() {
+	const base = fromCsvString(CSV, schema);
+	const source = {
+		scan(_options: ScanOptions): AsyncIterable<Chunk> {
+			throw new Error("not read");
+		},
+		async *[Symbol.asyncIterator](): AsyncGenerator<Chunk> {},
+	};
+	return DataFrame.fromStream(source, base._schema, base._dictionary);
+}
+
+describe("constant folding", () => {
+	it("folds literal arithmetic in filters", async () => {
+		const df = fromCsvString(CSV, schema).filter(col("amount").gt(add(10, 15)));
+		const plan = formatPlan(optimize(df.logicalPlan()));
+		expect(plan).toContain('(col("amount") gt lit(25))');
+		expect((await df.toArray()).map((r) => r.id)).toEqual([3, 4, 5]);
+	});
+
+	it("drops filters that are always true", async () => {
+		const df = fromCsvString(CSV, schema).filter(
+			and(not(lit(false)), lit(true)),
+		);
+		expect(spine(optimize(df.logicalPlan()))).toEqual(["scan"]);
+		expect(await df.count()).toBe(5);
+		expect(await df.toArray()).toHaveLength(5);
+	});
+});
+
+describe("filter merging and predicate pushdown", () => {
+	it("merges stacked filters", () => {
+		const df = fromCsvString(CSV, schema)
+			.filter(col("amount").gt(15))
+			.filter(col("city").eq("Porto"));
+		const plan = optimize(df.logicalPlan());
+		expect(spine(plan)).toEqual(["filter", "scan"]);
+		expect(formatPlan(plan)).toContain(
+			'((col("amount") gt lit(15)) and (col("city") eq lit("Porto")))',
+		);
+	});
+
+	it("pushes filters below computed columns and renames", async () => {
+		const df = fromCsvString(CSV, schema)
+			.withColumn("double", col("amount").mul(2))
+			.rename({ amount: "value" })
+			.filter(col("value").gt(25))
+			.filter(col("double").lt(100));
+
+		const plan = optimize(df.logicalPlan());
+		expect(spine(plan)).toEqual([
+			"project",
+			"filter",
+			"transform",
+			"filter",
+			"scan",
+		]);
+		expect(formatPlan(plan)).toContain('Filter (col("amount") gt lit(25))');
+		expect((await df.toArray()).map((r) => r.id)).toEqual([3, 4]);
+	});
+
+	it("pushes filters on group keys below the grouping", async () => {
+		const df = fromCsvString(CSV, schema)
+			.groupBy("city")
+			.agg([{ name: "total", expr: sum(col("amount")) }])
+			.filter(col("city").neq("Faro"))
+			.filter(col("total").gt(50));
+
+		expect(spine(optimize(df.logicalPlan()))).toEqual([
+			"filter",
+			"groupBy",
+			"filter",
+			"scan",
+		]);
+		expect(await df.toArray()).toEqual([{ city: "Porto", total: 70 }]);
+	});
+
+	it("keeps filters above limits", () => {
+		const df = fromCsvString(CSV, schema).limit(3).filter(col("amount").gt(15));
+		expect(spine(optimize(df.logicalPlan()))).toEqual([
+			"filter",
+			"limit",
+			"scan",
+		]);
+	});
+
+	it("hands pushed filters to scannable sources", () => {
+		const df = scanFrame()
+			.select("city", "amount")
+			.filter(col("amount").gt(15));
+		const scan = leafScan(optimize(df.logicalPlan()));
+		expect(scan.filters.map(formatExpr)).toEqual([
+			'(col("amount") gt lit(15))',
+		]);
+	});
+});
+
+describe("limit pushdown", () => {
+	it("moves limits below per-row steps and merges them", async () => {
+		const df = fromCsvString(CSV, schema)
+			.withColumn("double", col("amount").mul(2))
+			.select("id", "double")
+			.slice(1, 3)
+			.slice(1, 5);
+
+		const plan = optimize(df.logicalPlan());
+		expect(spine(plan)).toEqual(["project", "transform", "limit", "scan"]);
+		expect(formatPlan(plan)).toContain("Limit 2 offset 2");
+		expect(await df.toArray()).toEqual([
+			{ id: 3, double: 60 },
+			{ id: 4, double: 80 },
+		]);
+	});
+});
+
+describe("projection pruning", () => {
+	it("reads only the columns the plan needs", () => {
+		const df = scanFrame()
+			.filter(col("id").gt(1))
+			.withColumn("double", col("amount").mul(2))
+			.select("double");
+		expect(leafScan(optimize(df.logicalPlan())).columns).toEqual([
+			"id",
+			"amount",
+		]);
+	});
+
+	it("reads the grouping and aggregated columns", () => {
+		const df = scanFrame()
+			.groupBy("city")
+			.agg([{ name: "total", expr: sum(col("amount")) }]);
+		expect(leafScan(optimize(df.logicalPlan())).columns).toEqual([
+			"city",
+			"amount",
+		]);
+	});
+
+	it("reads every column when nothing narrows the output", () => {
+		const df = scanFrame().filter(col("id").gt(1)).limit(2);
+		expect(leafScan(optimize(df.logicalPlan())).columns).toBeNull();
+	});
+});
+
+describe("joins", () => {
+	it("pushes filters into the matching side of an inner join", async () => {
+		const joined = await fromCsvString(CSV, schema).innerJoin(
+			countries(),
+			"city",
+		);
+		const df = joined
+			.filter(col("country").eq("PT"))
+			.filter(col("amount").gt(15));
+
+		const plan = optimize(df.logicalPlan());
+		expect(plan.type).toBe("join");
+		if (plan.type !== "join") return;
+		expect(spine(plan.left)).toEqual(["filter", "scan"]);
+		expect(spine(plan.right)).toEqual(["filter", "scan"]);
+		expect((await df.toArray()).map((r) => r.id)).toEqual([2, 3, 5]);
+		expect(await df.count()).toBe(3);
+	});
+
+	it("keeps filters on the optional side of a left join", async () => {
+		const joined = await fromCsvString(CSV, schema).leftJoin(
+			countries(),
+			"city",
+		);
+		const df = joined.filter(col("country").isNull());
+
+		expect(spine(optimize(df.logicalPlan()))).toEqual(["filter", "join"]);
+		expect(await df.toArray()).toEqual([
+			{ id: 4, city: "Faro", amount: 40, country: null },
+		]);
+	});
+
+	it("checks join keys when the join is planned", async () => {
+		await expect(
+			fromCsvString(CSV, schema).innerJoin(countries(), "nope"),
+		).rejects.toThrow("Join error (inner)");
+	});
+});
+
+describe("optimize()", () => {
+	it("is stable on an optimized plan", () => {
+		const df = scanFrame()
+			.filter(col("amount").gt(add(1, 2)))
+			.select("id", "amount")
+			.filter(col("id").lt(4))
+			.limit(2);
+		const once = optimize(df.logicalPlan());
+		expect(formatPlan(optimize(once))).toBe(formatPlan(once));
+		expect(leafScan(optimize(once)).filters).toHaveLength(2);
+	});
+
+	it("derives schemas without instantiating operators", () => {
+		let df = scanFrame();
+		for (let i = 0; i < 50; i++) {
+			df = df
+				.filter(col("amount").gt(i))
+				.withColumn(`c${i}`, col("amount").mul(2));
+		}
+		const create = spyOn(FilterOperator, "create");
+		try {
+			const plan = optimize(df.logicalPlan());
+			expect(leafScan(plan).filters).toHaveLength(50);
+			expect(create).not.toHaveBeenCalled();
+		} finally {
+			create.mockRestore();
+		}
+	});
+});
+
+describe("explain()", () => {
+	it("prints the logical and the optimized plan", () => {
+		const plan = fromCsvString(CSV, schema)
+			.filter(col("amount").gt(15))
+			.select("id")
+			.filter(col("id").lt(4))
+			.explain();
+
+		const logical = plan.slice(
+			plan.indexOf("Logical Plan:"),
+			plan.indexOf("Optimized Plan:"),
+		);
+		const optimized = plan.slice(
+			plan.indexOf("Optimized Plan:"),
+			plan.indexOf("Execution Plan:"),
+		);
+		expect(logical).toContain('└─ Filter (col("id") lt lit(4))');
+		expect(logical).toContain("Scan [id, city, amount]");
+		expect(optimized).toContain("└─ Project [id]");
+		expect(optimized).toContain(
+			'Filter ((col("amount") gt lit(15)) and (col("id") lt lit(4)))',
+		);
+	});
+});
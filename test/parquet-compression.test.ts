@@ -0,0 +1,114 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import { compress, decompress } from "../src/io/parquet/compression/index.ts";
+import { CompressionCodec } from "../src/io/parquet/types.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-codec-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function sampleFrame(): DataFrame {
+	const schema = unwrap(
+		createSchema({ id: DType.int32, name: DType.nullable.string }),
+	);
+	const dictionary = createDictionary();
+	const id = new ColumnBuffer(DType.int32.kind, 500, false);
+	const name = new ColumnBuffer(DType.string.kind, 500, true);
+	for (let i = 0; i < 500; i++) {
+		id.append(i);
+		if (i % 9 === 0) name.appendNull();
+		else name.append(dictionary.internString(`name_${i % 17}`));
+	}
+	return DataFrame.fromChunks(
+		[new Chunk(schema, [id, name], dictionary)],
+		schema,
+		dictionary,
+	);
+}
+
+describe("Parquet compression codecs", () => {
+	for (const compression of ["gzip", "zstd"] as const) {
+		it(`round-trips ${compression} pages through ParquetReader`, async () => {
+			const path = join(dir, `${compression}.parquet`);
+			await sampleFrame().writeParquet(path, { compression });
+
+			const reader = new ParquetReader(path);
+			const meta = await reader.readMetadata();
+			const codec = meta.row_groups[0]?.columns[0]?.meta_data?.codec;
+			expect(codec).toBe(
+				compression === "gzip" ? CompressionCodec.GZIP : CompressionCodec.ZSTD,
+			);
+
+			const rows = await (await reader.read()).toArray();
+			expect(rows.length).toBe(500);
+			expect(rows[0]).toEqual({ id: 0, name: null });
+			expect(rows[20]).toEqual({ id: 20, name: "name_3" });
+		});
+	}
+
+	it("decodes LZ4_RAW blocks with overlapping matches", () => {
+		// token: 3 literals + match of 9 at offset 3, then 1 trailing literal
+		const block = new Uint8Array([
+			0x35, 0x61, 0x62, 0x63, 0x03, 0x00, 0x10, 0x78,
+		]);
+		const out = decompress(CompressionCodec.LZ4_RAW, block, 13);
+		expect(decoder.decode(out)).toBe("abcabcabcabcx");
+	});
+
+	it("decodes LZ4_RAW extended literal lengths", () => {
+		const text = "0123456789abcdefghij";
+		const block = new Uint8Array([0xf0, 0x05, ...encoder.encode(text)]);
+		const out = decompress(CompressionCodec.LZ4_RAW, block, text.length);
+		expect(decoder.decode(out)).toBe(text);
+	});
+
+	it("decodes Hadoop-framed LZ4", () => {
+		const block = new Uint8Array([
+			0x35, 0x61, 0x62, 0x63, 0x03, 0x00, 0x10, 0x78,
+		]);
+		const framed = new Uint8Array(8 + block.length);
+		const view = new DataView(framed.buffer);
+		view.setUint32(0, 13, false);
+		view.setUint32(4, block.length, false);
+		framed.set(block, 8);
+		const out = decompress(CompressionCodec.LZ4, framed, 13);
+		expect(decoder.decode(out)).toBe("abcabcabcabcx");
+	});
+
+	it("round-trips GZIP and ZSTD through the registry", () => {
+		const input = encoder.encode("mornye ".repeat(100));
+		for (const codec of [CompressionCodec.GZIP, CompressionCodec.ZSTD]) {
+			const packed = compress(codec, input);
+			expect(packed.length).toBeLessThan(input.length);
+			expect(decompress(codec, packed, input.length)).toEqual(input);
+		}
+	});
+
+	it("fails explicitly on unsupported codecs", () => {
+		expect(() =>
+			decompress(CompressionCodec.LZO, new Uint8Array(4), 4),
+		).toThrow("Unsupported Parquet compression codec: LZO");
+		expect(() =>
+			decompress(99 as CompressionCodec, new Uint8Array(0), 0),
+		).toThrow("Unsupported Parquet compression codec: codec 99");
+	});
+
+	it("rejects LZ4_RAW offsets before the start of output", () => {
+		const block = new Uint8Array([0x10, 0x61, 0x05, 0x00]);
+		expect(() => decompress(CompressionCodec.LZ4_RAW, block, 10)).toThrow(
+			"invalid lz4 offset",
+		);
+	});
+});
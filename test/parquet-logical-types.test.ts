@@ -0,0 +1,302 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { asyncBufferFromFile, parquetMetadataAsync } from "hyparquet";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import { col } from "../src/expr/builders.ts";
+import { ParquetReader, readParquet } from "../src/index.ts";
+import { convertColumn } from "../src/io/parquet/convert.ts";
+import { int96ToMillis } from "../src/io/parquet/logical.ts";
+import { ThriftMetadataReader } from "../src/io/parquet/metadata_reader.ts";
+import { ThriftMetadataWriter } from "../src/io/parquet/metadata_writer.ts";
+import { readPlain } from "../src/io/parquet/plain.ts";
+import {
+	ConvertedType,
+	type FileMetaData,
+	type SchemaElement,
+	Type,
+} from "../src/io/parquet/types.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema, type Schema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-parquet-logical-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+let fileCount = 0;
+
+/** Write one chunk with the given columns and return the file path */
+async function writeFile(
+	columns: Record<string, { dtype: DType; values: (number | bigint)[] }>,
+): Promise<string> {
+	const path = join(dir, `file-${fileCount++}.parquet`);
+	const spec: Record<string, DType> = {};
+	const buffers: ColumnBuffer[] = [];
+	for (const [name, { dtype, values }] of Object.entries(columns)) {
+		spec[name] = dtype;
+		const buffer = new ColumnBuffer(dtype.kind, values.length, false);
+		for (const value of values) buffer.append(value as never);
+		buffers.push(buffer);
+	}
+	const schema: Schema = unwrap(createSchema(spec));
+	const dictionary = createDictionary();
+	await DataFrame.fromChunks(
+		[new Chunk(schema, buffers, dictionary)],
+		schema,
+		dictionary,
+	).writeParquet(path);
+	return path;
+}
+
+/** Rewrite the footer of a file after editing its leaf schema elements */
+async function patchSchema(
+	path: string,
+	patch: Record<string, Partial<SchemaElement>>,
+): Promise<void> {
+	const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+	const view = new DataView(bytes.buffer);
+	const footerLength = view.getUint32(bytes.length - 8, true);
+	const footerStart = bytes.length - 8 - footerLength;
+	const meta: FileMetaData = new ThriftMetadataReader(
+		bytes.subarray(footerStart, bytes.length - 8),
+	).readFileMetaData();
+
+	for (const element of meta.schema) {
+		const changes = patch[element.name];
+		if (changes) Object.assign(element, changes);
+	}
+
+	const writer = new ThriftMetadataWriter();
+	writer.writeFileMetaData(meta);
+	const footer = writer.toBytes();
+	const tail = new Uint8Array(8);
+	new DataView(tail.buffer).setUint32(0, footer.length, true);
+	tail.set(new TextEncoder().encode("PAR1"), 4);
+	await Bun.write(path, [bytes.subarray(0, footerStart), footer, tail]);
+}
+
+function kinds(df: DataFrame): Record<string, DTypeKind> {
+	const out: Record<string, DTypeKind> = {};
+	for (const column of df.schema.columns) out[column.name] = column.dtype.kind;
+	return out;
+}
+
+describe("Parquet converted types", () => {
+	it("round-trips small, unsigned and temporal columns", async () => {
+		const path = await writeFile({
+			i8: { dtype: DType.int8, values: [-128, 0, 127] },
+			i16: { dtype: DType.int16, values: [-32768, 1, 32767] },
+			u8: { dtype: DType.uint8, values: [0, 200, 255] },
+			u16: { dtype: DType.uint16, values: [0, 60000, 65535] },
+			u32: { dtype: DType.uint32, values: [0, 4000000000, 4294967295] },
+			u64: { dtype: DType.uint64, values: [0n, 1n, 18446744073709551615n] },
+			d: { dtype: DType.date, values: [-1, 0, 19675] },
+			ts: { dtype: DType.timestamp, values: [-1500n, 0n, 1700000000123n] },
+		});
+
+		const df = await readParquet(path);
+		expect(kinds(df)).toEqual({
+			i8: DTypeKind.Int8,
+			i16: DTypeKind.Int16,
+			u8: DTypeKind.UInt8,
+			u16: DTypeKind.UInt16,
+			u32: DTypeKind.UInt32,
+			u64: DTypeKind.UInt64,
+			d: DTypeKind.Date,
+			ts: DTypeKind.Timestamp,
+		});
+		const rows = await df.toArray();
+		expect(rows[0]).toEqual({
+			i8: -128,
+			i16: -32768,
+			u8: 0,
+			u16: 0,
+			u32: 0,
+			u64: 0n,
+			d: -1,
+			ts: -1500n,
+		});
+		expect(rows[2]).toEqual({
+			i8: 127,
+			i16: 32767,
+			u8: 255,
+			u16: 65535,
+			u32: 4294967295,
+			u64: 18446744073709551615n,
+			d: 19675,
+			ts: 1700000000123n,
+		});
+	});
+
+	it("normalizes TIMESTAMP_MICROS to milliseconds", async () => {
+		const path = await writeFile({
+			ts: { dtype: DType.int64, values: [0n, 1700000000123456n, -1500000n] },
+		});
+		await patchSchema(path, {
+			ts: { converted_type: ConvertedType.TIMESTAMP_MICROS },
+		});
+
+		const df = await readParquet(path);
+		expect(kinds(df)).toEqual({ ts: DTypeKind.Timestamp });
+		const rows = await df.toArray();
+		expect(rows.map((row) => row.ts)).toEqual([0n, 1700000000123n, -1500n]);
+	});
+
+	it("compares unsigned statistics as unsigned", async () => {
+		const path = await writeFile({
+			u: { dtype: DType.uint32, values: [3000000000, 4000000000] },
+		});
+		const reader = new ParquetReader(path);
+		await reader.readMetadata();
+		const df = DataFrame.fromStream(
+			reader,
+			reader.getSchema(),
+			reader.getDictionary(),
+		);
+
+		const kept = df.filter(col("u").gt(3500000000));
+		expect(kept.explain()).toContain("row groups: 1/1");
+		expect((await kept.toArray()).map((row) => row.u)).toEqual([4000000000]);
+		expect(df.filter(col("u").lt(5)).explain()).toContain("(1 pruned)");
+	});
+});
+
+describe("Parquet logical types", () => {
+	it("maps TIMESTAMP units and normalizes to milliseconds", async () => {
+		const path = await writeFile({
+			millis: { dtype: DType.int64, values: [1700000000123n, -2n] },
+			micros: { dtype: DType.int64, values: [1700000000123456n, -1500n] },
+			nanos: { dtype: DType.int64, values: [1700000000123456789n, -1000001n] },
+		});
+		const timestamp = (unit: "MILLIS" | "MICROS" | "NANOS") => ({
+			logical_type: {
+				type: "TIMESTAMP" as const,
+				isAdjustedToUTC: true,
+				unit,
+			},
+		});
+		await patchSchema(path, {
+			millis: timestamp("MILLIS"),
+			micros: timestamp("MICROS"),
+			nanos: timestamp("NANOS"),
+		});
+
+		const df = await readParquet(path);
+		expect(kinds(df)).toEqual({
+			millis: DTypeKind.Timestamp,
+			micros: DTypeKind.Timestamp,
+			nanos: DTypeKind.Timestamp,
+		});
+		// Instants before the epoch round down to the earlier millisecond
+		expect(await df.toArray()).toEqual([
+			{ millis: 1700000000123n, micros: 1700000000123n, nanos: 1700000000123n },
+			{ millis: -2n, micros: -2n, nanos: -2n },
+		]);
+	});
+
+	it("prunes timestamp row groups in milliseconds", async () => {
+		const path = await writeFile({
+			ts: { dtype: DType.int64, values: [1000000n, 2000000n] },
+		});
+		await patchSchema(path, {
+			ts: {
+				logical_type: {
+					type: "TIMESTAMP",
+					isAdjustedToUTC: false,
+					unit: "MICROS",
+				},
+			},
+		});
+		const reader = new ParquetReader(path);
+		await reader.readMetadata();
+		const df = DataFrame.fromStream(
+			reader,
+			reader.getSchema(),
+			reader.getDictionary(),
+		);
+		// Raw statistics are 1e6..2e6 micros, i.e. 1000..2000 ms
+		expect(df.filter(col("ts").gt(2500)).explain()).toContain("(1 pruned)");
+		expect(df.filter(col("ts").gte(2000)).explain()).toContain("(0 pruned)");
+	});
+
+	it("maps DATE and INTEGER widths", async () => {
+		const path = await writeFile({
+			d: { dtype: DType.int32, values: [19675] },
+			u8: { dtype: DType.int32, values: [-1] },
+			i16: { dtype: DType.int32, values: [-2] },
+			u64: { dtype: DType.int64, values: [-1n] },
+		});
+		await patchSchema(path, {
+			d: { logical_type: { type: "DATE" } },
+			u8: { logical_type: { type: "INTEGER", bitWidth: 8, isSigned: false } },
+			i16: { logical_type: { type: "INTEGER", bitWidth: 16, isSigned: true } },
+			u64: {
+				logical_type: { type: "INTEGER", bitWidth: 64, isSigned: false },
+			},
+		});
+
+		const df = await readParquet(path);
+		expect(kinds(df)).toEqual({
+			d: DTypeKind.Date,
+			u8: DTypeKind.UInt8,
+			i16: DTypeKind.Int16,
+			u64: DTypeKind.UInt64,
+		});
+		expect(await df.toArray()).toEqual([
+			{ d: 19675, u8: 255, i16: -2, u64: 18446744073709551615n },
+		]);
+	});
+
+	it("writes logical types other readers understand", async () => {
+		const path = await writeFile({ ts: { dtype: DType.int64, values: [1n] } });
+		await patchSchema(path, {
+			ts: {
+				logical_type: {
+					type: "TIMESTAMP",
+					isAdjustedToUTC: true,
+					unit: "NANOS",
+				},
+			},
+		});
+
+		const meta = await parquetMetadataAsync(await asyncBufferFromFile(path));
+		expect(meta.schema[1]?.logical_type).toEqual({
+			type: "TIMESTAMP",
+			isAdjustedToUTC: true,
+			unit: "NANOS",
+		});
+	});
+});
+
+describe("INT96 timestamps", () => {
+	// 2023-11-14T22:13:20.123Z: Julian day 2460263, 80000.123 s into the day
+	const nanosOfDay = 80000123000000n;
+	const julianDay = 2460263;
+	const millis = 1700000000123n;
+
+	it("converts Julian day and nanoseconds to milliseconds", () => {
+		expect(int96ToMillis((BigInt(julianDay) << 64n) | nanosOfDay)).toBe(millis);
+		expect(int96ToMillis(2440588n << 64n)).toBe(0n);
+	});
+
+	it("decodes PLAIN INT96 values as timestamps", () => {
+		const bytes = new Uint8Array(24);
+		const view = new DataView(bytes.buffer);
+		view.setBigUint64(0, nanosOfDay, true);
+		view.setInt32(8, julianDay, true);
+		// Nanoseconds with the top bit set must not be read as negative
+		view.setBigUint64(12, 0x8000000000000000n, true);
+		view.setInt32(20, 2440588, true);
+
+		const raw = readPlain({ view, offset: 0 }, "INT96", 2) as bigint[];
+		const element: SchemaElement = { name: "t", type: Type.INT96 };
+		expect(convertColumn(raw, element)).toEqual([
+			millis,
+			0x8000000000000000n / 1000000n,
+		]);
+	});
+});
@@ -0,0 +1,360 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ParquetReader, readParquet } from "../src/index.ts";
+import { ThriftMetadataWriter } from "../src/io/parquet/metadata_writer.ts";
+import { schemaColumns } from "../src/io/parquet/nested.ts";
+import {
+	type ColumnChunk,
+	CompressionCodec,
+	ConvertedType,
+	Encoding,
+	FieldRepetitionType,
+	PageType,
+	type SchemaElement,
+	Type,
+} from "../src/io/parquet/types.ts";
+import { DTypeKind } from "../src/types/dtypes.ts";
+
+const { REQUIRED, OPTIONAL, REPEATED } = FieldRepetitionType;
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-parquet-nested-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+/** One leaf column chunk: [repetition level, definition level, value?] */
+interface Leaf {
+	path: string[];
+	type: Type;
+	maxDef: number;
+	maxRep: number;
+	entries: [number, number, (number | string)?][];
+}
+
+/**
+ * Schema of the test file:
+ *   id: required int32
+ *   tags: optional 3-level LIST of optional int32
+ *   attrs: optional MAP<string, optional int32>
+ *   user: optional struct { name: optional string, age: required int32 }
+ */
+const SCHEMA: SchemaElement[] = [
+	{ name: "schema", num_children: 4 },
+	{ name: "id", type: Type.INT32, repetition_type: REQUIRED },
+	{
+		name: "tags",
+		repetition_type: OPTIONAL,
+		num_children: 1,
+		converted_type: ConvertedType.LIST,
+	},
+	{ name: "list", repetition_type: REPEATED, num_children: 1 },
+	{ name: "element", type: Type.INT32, repetition_type: OPTIONAL },
+	{
+		name: "attrs",
+		repetition_type: OPTIONAL,
+		num_children: 1,
+		converted_type: ConvertedType.MAP,
+	},
+	{ name: "key_value", repetition_type: REPEATED, num_children: 2 },
+	{
+		name: "key",
+		type: Type.BYTE_ARRAY,
+		repetition_type: REQUIRED,
+		converted_type: ConvertedType.UTF8,
+	},
+	{ name: "value", type: Type.INT32, repetition_type: OPTIONAL },
+	{ name: "user", repetition_type: OPTIONAL, num_children: 2 },
+	{
+		name: "name",
+		type: Type.BYTE_ARRAY,
+		repetition_type: OPTIONAL,
+		converted_type: ConvertedType.UTF8,
+	},
+	{ name: "age", type: Type.INT32, repetition_type: REQUIRED },
+];
+
+/**
+ * Rows:
+ *   1, [1, 2],     {a: 1, b: null}, {name: "x", age: 3}
+ *   2, [],         null,            null
+ *   3, null,       {},              {name: null, age: 5}
+ *   4, [null, 5],  {c: 7},          {name: "z", age: 6}
+ */
+const LEAVES: Leaf[] = [
+	{
+		path: ["id"],
+		type: Type.INT32,
+		maxDef: 0,
+		maxRep: 0,
+		entries: [
+			[0, 0, 1],
+			[0, 0, 2],
+			[0, 0, 3],
+			[0, 0, 4],
+		],
+	},
+	{
+		path: ["tags", "list", "element"],
+		type: Type.INT32,
+		maxDef: 3,
+		maxRep: 1,
+		entries: [
+			[0, 3, 1],
+			[1, 3, 2],
+			[0, 1],
+			[0, 0],
+			[0, 2],
+			[1, 3, 5],
+		],
+	},
+	{
+		path: ["attrs", "key_value", "key"],
+		type: Type.BYTE_ARRAY,
+		maxDef: 2,
+		maxRep: 1,
+		entries: [
+			[0, 2, "a"],
+			[1, 2, "b"],
+			[0, 0],
+			[0, 1],
+			[0, 2, "c"],
+		],
+	},
+	{
+		path: ["attrs", "key_value", "value"],
+		type: Type.INT32,
+		maxDef: 3,
+		maxRep: 1,
+		entries: [
+			[0, 3, 1],
+			[1, 2],
+			[0, 0],
+			[0, 1],
+			[0, 3, 7],
+		],
+	},
+	{
+		path: ["user", "name"],
+		type: Type.BYTE_ARRAY,
+		maxDef: 2,
+		maxRep: 0,
+		entries: [
+			[0, 2, "x"],
+			[0, 0],
+			[0, 1],
+			[0, 2, "z"],
+		],
+	},
+	{
+		path: ["user", "age"],
+		type: Type.INT32,
+		maxDef: 1,
+		maxRep: 0,
+		entries: [
+			[0, 1, 3],
+			[0, 0],
+			[0, 1, 5],
+			[0, 1, 6],
+		],
+	},
+];
+
+/** RLE/bit-packed hybrid levels as one RLE run per entry, length-prefixed */
+function encodeLevels(levels: number[], max: number): Uint8Array {
+	if (max === 0) return new Uint8Array(0);
+	const width = Math.ceil(Math.log2(max + 1) / 8);
+	const out = new Uint8Array(4 + levels.length * (1 + width));
+	new DataView(out.buffer).setUint32(0, levels.length * (1 + width), true);
+	levels.forEach((level, i) => {
+		out[4 + i * (1 + width)] = 1 << 1;
+		out[5 + i * (1 + width)] = level;
+	});
+	return out;
+}
+
+function encodeValues(type: Type, values: (number | string)[]): Uint8Array {
+	const parts: number[] = [];
+	for (const value of values) {
+		const bytes =
+			type === Type.INT32
+				? new Uint8Array(new Int32Array([value as number]).buffer)
+				: new TextEncoder().encode(value as string);
+		if (type === Type.BYTE_ARRAY) {
+			parts.push(...new Uint8Array(new Uint32Array([bytes.length]).buffer));
+		}
+		parts.push(...bytes);
+	}
+	return new Uint8Array(parts);
+}
+
+/** Hand-built file: one row group, one uncompressed PLAIN page per leaf */
+async function writeNestedFile(): Promise<string> {
+	const path = join(dir, "nested.parquet");
+	const parts: Uint8Array[] = [new TextEncoder().encode("PAR1")];
+	let offset = 4;
+	const columns: ColumnChunk[] = [];
+
+	for (const leaf of LEAVES) {
+		const values = leaf.entries
+			.map(([, , value]) => value)
+			.filter((value) => value !== undefined);
+		const body = new Uint8Array([
+			...encodeLevels(
+				leaf.entries.map(([rep]) => rep),
+				leaf.maxRep,
+			),
+			...encodeLevels(
+				leaf.entries.map(([, def]) => def),
+				leaf.maxDef,
+			),
+			...encodeValues(leaf.type, values),
+		]);
+		const header = new ThriftMetadataWriter();
+		header.writePageHeader({
+			type: PageType.DATA_PAGE,
+			uncompressed_page_size: body.length,
+			compressed_page_size: body.length,
+			data_page_header: {
+				num_values: leaf.entries.length,
+				encoding: Encoding.PLAIN,
+				definition_level_encoding: Encoding.RLE,
+				repetition_level_encoding: Encoding.RLE,
+			},
+		});
+		const headerBytes = header.toBytes();
+		const size = BigInt(headerBytes.length + body.length);
+		columns.push({
+			file_offset: BigInt(offset),
+			meta_data: {
+				type: leaf.type,
+				encodings: [Encoding.PLAIN, Encoding.RLE],
+				path_in_schema: leaf.path,
+				codec: CompressionCodec.UNCOMPRESSED,
+				num_values: BigInt(leaf.entries.length),
+				total_uncompressed_size: size,
+				total_compressed_size: size,
+				data_page_offset: BigInt(offset),
+			},
+		});
+		parts.push(headerBytes, body);
+		offset += Number(size);
+	}
+
+	const footer = new ThriftMetadataWriter();
+	footer.writeFileMetaData({
+		version: 1,
+		schema: SCHEMA,
+		num_rows: 4n,
+		row_groups: [
+			{ columns, total_byte_size: BigInt(offset - 4), num_rows: 4n },
+		],
+	});
+	const footerBytes = footer.toBytes();
+	const tail = new Uint8Array(8);
+	new DataView(tail.buffer).setUint32(0, footerBytes.length, true);
+	tail.set(new TextEncoder().encode("PAR1"), 4);
+	await Bun.write(path, [...parts, footerBytes, tail]);
+	return path;
+}
+
+describe("nested Parquet schemas", () => {
+	it("maps LIST and MAP to List columns and flattens structs", () => {
+		const columns = schemaColumns(SCHEMA);
+		expect(columns.map((c) => [c.name, c.dtype.kind])).toEqual([
+			["id", DTypeKind.Int32],
+			["tags", DTypeKind.List],
+			["attrs", DTypeKind.List],
+			["user.name", DTypeKind.String],
+			["user.age", DTypeKind.Int32],
+		]);
+		expect(columns[1]?.dtype.inner?.kind).toBe(DTypeKind.Int32);
+		// Map entries are structs, exposed as JSON strings when exploded
+		expect(columns[2]?.dtype.inner?.kind).toBe(DTypeKind.String);
+		expect(columns[3]?.leaves[0]?.maxDef).toBe(2);
+	});
+
+	it("treats legacy two-level lists as lists of the repeated field", () => {
+		const columns = schemaColumns([
+			{ name: "schema", num_children: 1 },
+			{
+				name: "points",
+				repetition_type: OPTIONAL,
+				num_children: 1,
+				converted_type: ConvertedType.LIST,
+			},
+			{ name: "array", repetition_type: REPEATED, num_children: 1 },
+			{ name: "x", type: Type.INT32, repetition_type: REQUIRED },
+		]);
+		const shape = columns[0]?.shape;
+		expect(shape?.kind).toBe("list");
+		expect(shape?.kind === "list" && shape.element.kind).toBe("struct");
+	});
+});
+
+describe("reading nested Parquet", () => {
+	it("assembles lists, maps and struct fields from levels", async () => {
+		const df = await readParquet(await writeNestedFile());
+		expect(await df.toArray()).toEqual([
+			{
+				id: 1,
+				tags: [1, 2],
+				attrs: [
+					{ key: "a", value: 1 },
+					{ key: "b", value: null },
+				],
+				"user.name": "x",
+				"user.age": 3,
+			},
+			{ id: 2, tags: [], attrs: null, "user.name": null, "user.age": null },
+			{ id: 3, tags: null, attrs: [], "user.name": null, "user.age": 5 },
+			{
+				id: 4,
+				tags: [null, 5],
+				attrs: [{ key: "c", value: 7 }],
+				"user.name": "z",
+				"user.age": 6,
+			},
+		]);
+	});
+
+	it("projects a nested column without its siblings", async () => {
+		const reader = new ParquetReader(await writeNestedFile(), {
+			columns: ["tags", "user.age"],
+		});
+		const chunks = [];
+		for await (const chunk of reader) chunks.push(chunk);
+		expect(chunks[0]?.columnCount).toBe(2);
+		expect(chunks[0]?.rowCount).toBe(4);
+	});
+
+	it("explodes a list column into one row per element", async () => {
+		const df = await readParquet(await writeNestedFile());
+		const exploded = df.select("id", "tags").explode("tags");
+		expect(exploded.schema.columns[1]?.dtype.kind).toBe(DTypeKind.Int32);
+		expect(await exploded.toArray()).toEqual([
+			{ id: 1, tags: 1 },
+			{ id: 1, tags: 2 },
+			{ id: 2, tags: null },
+			{ id: 3, tags: null },
+			{ id: 4, tags: null },
+			{ id: 4, tags: 5 },
+		]);
+	});
+
+	it("explodes map entries as JSON strings", async () => {
+		const df = await readParquet(await writeNestedFile());
+		const rows = await df.select("id", "attrs").explode("attrs").toArray();
+		expect(rows.map((r) => r.attrs)).toEqual([
+			'{"key":"a","value":1}',
+			'{"key":"b","value":null}',
+			null,
+			null,
+			'{"key":"c","value":7}',
+		]);
+	});
+
+	it("rejects exploding a non-list column", async () => {
+		const df = await readParquet(await writeNestedFile());
+		expect(() => df.explode("id")).toThrow("Explode error");
+	});
+});
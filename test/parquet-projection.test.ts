@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import { col } from "../src/expr/builders.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-projection-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = unwrap(
+	createSchema({
+		a: DType.int32,
+		b: DType.float64,
+		c: DType.nullable.string,
+		d: DType.int64,
+		e: DType.int32,
+	}),
+);
+const ROWS = 300;
+
+beforeAll(async () => {
+	const dictionary = createDictionary();
+	const columns = schema.columns.map(
+		(def) => new ColumnBuffer(def.dtype.kind, ROWS, def.dtype.nullable),
+	);
+	const [a, b, c, d, e] = columns;
+	for (let i = 0; i < ROWS; i++) {
+		a?.append(i);
+		b?.append(i / 2);
+		if (i % 3 === 0) c?.appendNull();
+		else c?.append(dictionary.internString(`s${i % 5}`));
+		d?.append(BigInt(i) * 10n);
+		e?.append(-i);
+	}
+	const df = DataFrame.fromChunks(
+		[new Chunk(schema, columns, dictionary)],
+		schema,
+		dictionary,
+	);
+	await df.writeParquet(join(dir, "multi.parquet"), { rowGroupSize: 100 });
+	await df.writeParquet(join(dir, "single.parquet"));
+});
+
+/** Open a reader that records which column chunks are fetched */
+async function tracedReader(
+	file: string,
+): Promise<{ reader: ParquetReader; fetched: number[] }> {
+	const reader = new ParquetReader(join(dir, file));
+	const meta = await reader.readMetadata();
+	const starts = new Map<number, number>();
+	for (const rg of meta.row_groups) {
+		rg.columns.forEach((chunk, i) => {
+			const offset =
+				chunk.meta_data?.dictionary_page_offset ??
+				chunk.meta_data?.data_page_offset;
+			starts.set(Number(offset), i);
+		});
+	}
+
+	const fetched: number[] = [];
+	const handle = reader as unknown as {
+		file: { slice(start: number, end: number): Blob };
+	};
+	const file_ = handle.file;
+	const slice = file_.slice.bind(file_);
+	handle.file = {
+		...file_,
+		slice(start: number, end: number) {
+			const column = starts.get(start);
+			if (column !== undefined) fetched.push(column);
+			return slice(start, end);
+		},
+	};
+	return { reader, fetched };
+}
+
+function frameOf(reader: ParquetReader): DataFrame {
+	return DataFrame.fromStream(
+		reader,
+		reader.getSchema(),
+		reader.getDictionary(),
+	);
+}
+
+describe("ParquetReader column projection", () => {
+	it("reads only the requested columns in file order", async () => {
+		const reader = new ParquetReader(join(dir, "multi.parquet"), {
+			columns: ["d", "a"],
+		});
+		const df = await reader.read();
+		expect(df.columnNames).toEqual(["a", "d"]);
+		const rows = await df.toArray();
+		expect(rows.length).toBe(ROWS);
+		expect(rows[7]).toEqual({ a: 7, d: 70n });
+	});
+
+	it("rejects unknown columns", async () => {
+		const reader = new ParquetReader(join(dir, "multi.parquet"), {
+			columns: ["a", "zzz"],
+		});
+		await expect(reader.read()).rejects.toThrow(
+			"Column 'zzz' not found in Parquet file",
+		);
+	});
+
+	it("pushes select() down to the column chunks that are fetched", async () => {
+		const { reader, fetched } = await tracedReader("multi.parquet");
+		const rows = await frameOf(reader).select("d", "b").toArray();
+
+		expect(rows.length).toBe(ROWS);
+		expect(rows[299]).toEqual({ d: 2990n, b: 149.5 });
+		// 3 row groups x columns b and d
+		expect(fetched.sort()).toEqual([1, 1, 1, 3, 3, 3]);
+	});
+
+	it("keeps columns read by filter predicates", async () => {
+		const { reader, fetched } = await tracedReader("single.parquet");
+		const rows = await frameOf(reader)
+			.filter(col("e").gt(-5))
+			.select("c")
+			.toArray();
+
+		expect(rows).toEqual([
+			{ c: null },
+			{ c: "s1" },
+			{ c: "s2" },
+			{ c: null },
+			{ c: "s4" },
+		]);
+		expect(fetched.sort()).toEqual([2, 4]);
+	});
+
+	it("keeps columns read by computed column expressions", async () => {
+		const { reader, fetched } = await tracedReader("single.parquet");
+		const rows = await frameOf(reader)
+			.withColumn("twice", col("a").mul(2))
+			.select("twice", "b")
+			.limit(2)
+			.toArray();
+
+		expect(rows).toEqual([
+			{ twice: 0, b: 0 },
+			{ twice: 2, b: 0.5 },
+		]);
+		expect(fetched.sort()).toEqual([0, 1]);
+	});
+
+	it("reads every column when nothing narrows the schema", async () => {
+		const { reader, fetched } = await tracedReader("single.parquet");
+		await frameOf(reader).limit(1).toArray();
+		expect(fetched.sort()).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	it("narrows the scan only when the plan drops columns", async () => {
+		const { reader } = await tracedReader("single.parquet");
+		const filtered = frameOf(reader).filter(col("a").gt(1));
+		expect(filtered.physicalPlan().scan?.columns).toBeUndefined();
+		expect(filtered.explain()).toContain("ParquetScan [*]");
+
+		const projected = filtered.select("b");
+		expect(projected.physicalPlan().scan?.columns).toEqual(["a", "b"]);
+		expect(projected.explain()).toContain("ParquetScan [a, b]");
+	});
+});
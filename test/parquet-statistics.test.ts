@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import type { Expr } from "../src/expr/ast.ts";
+import { and, col, lit, or } from "../src/expr/builders.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import {
+	type ColumnStatistics,
+	mayMatch,
+} from "../src/io/parquet/statistics.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-stats-"));
+const path = join(dir, "groups.parquet");
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = unwrap(
+	createSchema({
+		a: DType.int32,
+		g: DType.string,
+		n: DType.nullable.float64,
+	}),
+);
+
+// 5 row groups of 100 rows: a is sorted, g names the group, n is null in group 2
+beforeAll(async () => {
+	const dictionary = createDictionary();
+	const a = new ColumnBuffer(DType.int32.kind, 500, false);
+	const g = new ColumnBuffer(DType.string.kind, 500, false);
+	const n = new ColumnBuffer(DType.float64.kind, 500, true);
+	for (let i = 0; i < 500; i++) {
+		const group = Math.floor(i / 100);
+		a.append(i);
+		g.append(dictionary.internString(`group_${group}`));
+		if (group === 2) n.appendNull();
+		else n.append(i / 10);
+	}
+	await DataFrame.fromChunks(
+		[new Chunk(schema, [a, g, n], dictionary)],
+		schema,
+		dictionary,
+	).writeParquet(path, { rowGroupSize: 100 });
+});
+
+/** Open a lazy frame that records which row groups have chunks fetched */
+async function tracedFrame(): Promise<{ df: DataFrame; groups: Set<number> }> {
+	const reader = new ParquetReader(path);
+	const meta = await reader.readMetadata();
+	const owners = new Map<number, number>();
+	meta.row_groups.forEach((rg, r) => {
+		for (const chunk of rg.columns) {
+			const offset =
+				chunk.meta_data?.dictionary_page_offset ??
+				chunk.meta_data?.data_page_offset;
+			owners.set(Number(offset), r);
+		}
+	});
+
+	const groups = new Set<number>();
+	const handle = reader as unknown as {
+		file: { slice(start: number, end: number): Blob };
+	};
+	const file = handle.file;
+	const slice = file.slice.bind(file);
+	handle.file = {
+		...file,
+		slice(start: number, end: number) {
+			const owner = owners.get(start);
+			if (owner !== undefined) groups.add(owner);
+			return slice(start, end);
+		},
+	};
+	const df = DataFrame.fromStream(
+		reader,
+		reader.getSchema(),
+		reader.getDictionary(),
+	);
+	return { df, groups };
+}
+
+async function run(
+	predicate: Expr,
+): Promise<{ values: unknown[]; groups: number[] }> {
+	const { df, groups } = await tracedFrame();
+	const rows = await df.filter(predicate).select("a").toArray();
+	return {
+		values: rows.map((row) => row.a),
+		groups: [...groups].sort(),
+	};
+}
+
+describe("Parquet row-group pruning", () => {
+	it("skips row groups outside a comparison range", async () => {
+		const { values, groups } = await run(col("a").gte(350));
+		expect(values.length).toBe(150);
+		expect(values[0]).toBe(350);
+		expect(groups).toEqual([3, 4]);
+	});
+
+	it("handles between and literal-first comparisons", async () => {
+		const between = await run(col("a").between(120, 180));
+		expect(between.values.length).toBe(61);
+		expect(between.groups).toEqual([1]);
+
+		const flipped = await run({
+			type: "gt" as Expr["type"],
+			left: lit(50),
+			right: col("a").toExpr(),
+		} as Expr);
+		expect(flipped.values.length).toBe(50);
+		expect(flipped.groups).toEqual([0]);
+	});
+
+	it("uses string min/max statistics", async () => {
+		const { values, groups } = await run(col("g").eq("group_3"));
+		expect(values.length).toBe(100);
+		expect(groups).toEqual([3]);
+	});
+
+	it("uses null counts for isNull and isNotNull", async () => {
+		const nulls = await run(col("n").isNull());
+		expect(nulls.values.length).toBe(100);
+		expect(nulls.groups).toEqual([2]);
+
+		const small = await run(and(col("n").isNotNull(), col("a").lt(250)));
+		expect(small.values.length).toBe(200);
+		expect(small.groups).toEqual([0, 1]);
+	});
+
+	it("keeps a row group when any branch of an or can match", async () => {
+		const { values, groups } = await run(or(col("a").lt(10), col("a").gt(489)));
+		expect(values.length).toBe(20);
+		expect(groups).toEqual([0, 4]);
+	});
+
+	it("reports pruned row groups in explain()", async () => {
+		const { df } = await tracedFrame();
+		const plan = df.filter(col("a").lt(150)).select("a").explain();
+		expect(plan).toContain("ParquetScan [a] row groups: 2/5 (3 pruned)");
+		expect(plan).toContain("Filter");
+	});
+
+	it("does not prune past a limit", async () => {
+		const { df, groups } = await tracedFrame();
+		const rows = await df.limit(150).filter(col("a").gte(120)).toArray();
+		expect(rows.length).toBe(30);
+		expect(groups.has(0)).toBe(true);
+	});
+});
+
+describe("mayMatch", () => {
+	const stats = (column: ColumnStatistics) => () => column;
+
+	it("keeps groups without statistics", () => {
+		expect(mayMatch(col("x").eq(1), () => undefined)).toBe(true);
+		expect(mayMatch(col("x").isNull(), stats({ numRows: 10n }))).toBe(true);
+	});
+
+	it("prunes comparisons on all-null groups", () => {
+		const allNull = stats({ nullCount: 10n, numRows: 10n });
+		expect(mayMatch(col("x").neq(1), allNull)).toBe(false);
+		expect(mayMatch(col("x").isNotNull(), allNull)).toBe(false);
+	});
+
+	it("compares bigint statistics with number literals", () => {
+		const big = stats({ min: 10n, max: 20n, nullCount: 0n, numRows: 5n });
+		expect(mayMatch(col("x").gt(19.5), big)).toBe(true);
+		expect(mayMatch(col("x").gt(20), big)).toBe(false);
+		expect(mayMatch(col("x").lt(10.5), big)).toBe(true);
+		expect(mayMatch(col("x").lt(10), big)).toBe(false);
+		expect(mayMatch(col("x").neq(15), big)).toBe(true);
+	});
+});
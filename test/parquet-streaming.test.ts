@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame, readParquet } from "../src/dataframe/dataframe.ts";
+import { col, sum } from "../src/expr/builders.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-parquet-streaming-"));
+const path = join(dir, "groups.parquet");
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const ROWS = 300;
+const ROW_GROUP_SIZE = 100;
+
+beforeAll(async () => {
+	const schema = unwrap(createSchema({ id: DType.int32, key: DType.string }));
+	const dictionary = createDictionary();
+	const id = new ColumnBuffer(DType.int32.kind, ROWS, false);
+	const key = new ColumnBuffer(DType.string.kind, ROWS, false);
+	for (let i = 0; i < ROWS; i++) {
+		id.append(i);
+		key.append(dictionary.internString(`k${i % 3}`));
+	}
+	await DataFrame.fromChunks(
+		[new Chunk(schema, [id, key], dictionary)],
+		schema,
+		dictionary,
+	).writeParquet(path, { rowGroupSize: ROW_GROUP_SIZE });
+});
+
+/** Open a frame that records which row groups are fetched */
+async function tracedFrame(): Promise<{ df: DataFrame; fetched: number[] }> {
+	const df = await readParquet(path);
+	const reader = df.source as ParquetReader;
+	const meta = await reader.readMetadata();
+	const groups = new Map<number, number>();
+	meta.row_groups.forEach((rg, r) => {
+		for (const chunk of rg.columns) {
+			const offset =
+				chunk.meta_data?.dictionary_page_offset ??
+				chunk.meta_data?.data_page_offset;
+			groups.set(Number(offset), r);
+		}
+	});
+
+	const fetched: number[] = [];
+	const handle = reader as unknown as {
+		file: { slice(start: number, end: number): Blob };
+	};
+	const file = handle.file;
+	const slice = file.slice.bind(file);
+	handle.file = {
+		...file,
+		slice(start: number, end: number) {
+			const group = groups.get(start);
+			if (group !== undefined && !fetched.includes(group)) fetched.push(group);
+			return slice(start, end);
+		},
+	};
+	return { df, fetched };
+}
+
+describe("lazy readParquet", () => {
+	it("reads only the footer until the frame runs", async () => {
+		const { df, fetched } = await tracedFrame();
+		expect(df.source).toBeInstanceOf(ParquetReader);
+		expect(df.columnNames).toEqual(["id", "key"]);
+		expect(fetched).toEqual([]);
+	});
+
+	it("stops reading row groups once a limit is satisfied", async () => {
+		const { df, fetched } = await tracedFrame();
+		const rows = await df.limit(5).toArray();
+		expect(rows.map((r) => r.id)).toEqual([0, 1, 2, 3, 4]);
+		expect(fetched).toEqual([0]);
+	});
+
+	it("aggregates across row groups with one dictionary", async () => {
+		const { df, fetched } = await tracedFrame();
+		const grouped = df
+			.groupBy("key")
+			.agg([{ name: "total", expr: sum(col("id")) }])
+			.sort("key");
+		const rows = await grouped.toArray();
+		expect(rows).toEqual([
+			{ key: "k0", total: 14850 },
+			{ key: "k1", total: 14950 },
+			{ key: "k2", total: 15050 },
+		]);
+		expect(fetched).toEqual([0, 1, 2]);
+	});
+
+	it("streams every row through toArray", async () => {
+		const df = await readParquet(path);
+		const rows = await df.toArray();
+		expect(rows.length).toBe(ROWS);
+		expect(rows[ROWS - 1]).toEqual({ id: ROWS - 1, key: "k2" });
+		expect(await df.count()).toBe(ROWS);
+	});
+});
@@ -0,0 +1,193 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import {
+	readDeltaBinaryPacked,
+	readDeltaByteArray,
+	readDeltaLengthByteArray,
+} from "../src/io/parquet/encoding/delta.ts";
+import type { DataReader } from "../src/io/parquet/encoding/rle.ts";
+import { PageType } from "../src/io/parquet/types.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-parquet-v2-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function readerOf(bytes: number[]): DataReader {
+	return { view: new DataView(new Uint8Array(bytes).buffer), offset: 0 };
+}
+
+const decoder = new TextDecoder();
+
+describe("DELTA encodings", () => {
+	it("decodes DELTA_BINARY_PACKED with a constant delta", () => {
+		// block 128, 4 miniblocks, 5 values, first 1, min delta 1, widths 0
+		const reader = readerOf([
+			0x80, 0x01, 0x04, 0x05, 0x02, 0x02, 0x00, 0x00, 0x00, 0x00,
+		]);
+		const out = new Int32Array(5);
+		readDeltaBinaryPacked(reader, 5, out);
+		expect(Array.from(out)).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it("decodes DELTA_BINARY_PACKED bit-packed miniblocks", () => {
+		// 7,5,3,1,2,3,4,5: min delta -2, relative deltas 0,0,0,3,3,3,3 at width 2
+		const reader = readerOf([
+			0x80, 0x01, 0x04, 0x08, 0x0e, 0x03, 0x02, 0x00, 0x00, 0x00, 0xc0, 0x3f,
+			0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xff,
+		]);
+		const out = new BigInt64Array(8);
+		readDeltaBinaryPacked(reader, 8, out);
+		expect(Array.from(out)).toEqual([7n, 5n, 3n, 1n, 2n, 3n, 4n, 5n]);
+		// padding of the partially used miniblock is consumed
+		expect(reader.offset).toBe(18);
+	});
+
+	it("decodes DELTA_LENGTH_BYTE_ARRAY", () => {
+		const reader = readerOf([
+			0x80,
+			0x01,
+			0x04,
+			0x04,
+			0x0a,
+			0x00,
+			0x01,
+			0x00,
+			0x00,
+			0x00,
+			0x02,
+			0x00,
+			0x00,
+			0x00,
+			...new TextEncoder().encode("HelloWorldFoobarABCDEF"),
+		]);
+		const out: Uint8Array[] = [];
+		readDeltaLengthByteArray(reader, 4, out);
+		expect(out.map((b) => decoder.decode(b))).toEqual([
+			"Hello",
+			"World",
+			"Foobar",
+			"ABCDEF",
+		]);
+	});
+
+	it("decodes DELTA_BYTE_ARRAY prefixes and suffixes", () => {
+		const zeros = new Array(10).fill(0);
+		const reader = readerOf([
+			// prefix lengths 0,2,0,3
+			0x80,
+			0x01,
+			0x04,
+			0x04,
+			0x00,
+			0x03,
+			0x03,
+			0x00,
+			0x00,
+			0x00,
+			0x44,
+			0x01,
+			...zeros,
+			// suffix lengths 4,2,6,5
+			0x80,
+			0x01,
+			0x04,
+			0x04,
+			0x08,
+			0x03,
+			0x03,
+			0x00,
+			0x00,
+			0x00,
+			0x70,
+			0x00,
+			...zeros,
+			...new TextEncoder().encode("axislebabbleyhood"),
+		]);
+		const out: Uint8Array[] = [];
+		readDeltaByteArray(reader, 4, out);
+		expect(out.map((b) => decoder.decode(b))).toEqual([
+			"axis",
+			"axle",
+			"babble",
+			"babyhood",
+		]);
+	});
+});
+
+describe("DATA_PAGE_V2", () => {
+	const schema = unwrap(
+		createSchema({
+			id: DType.int32,
+			score: DType.nullable.float64,
+			name: DType.nullable.string,
+		}),
+	);
+	const rows = Array.from({ length: 400 }, (_, i) => ({
+		id: i,
+		score: i % 6 === 0 ? null : i * 1.5,
+		name: i % 4 === 0 ? null : `name_${i % 9}`,
+	}));
+
+	function frame(): DataFrame {
+		const dictionary = createDictionary();
+		const id = new ColumnBuffer(DType.int32.kind, rows.length, false);
+		const score = new ColumnBuffer(DType.float64.kind, rows.length, true);
+		const name = new ColumnBuffer(DType.string.kind, rows.length, true);
+		for (const row of rows) {
+			id.append(row.id);
+			if (row.score === null) score.appendNull();
+			else score.append(row.score);
+			if (row.name === null) name.appendNull();
+			else name.append(dictionary.internString(row.name));
+		}
+		return DataFrame.fromChunks(
+			[new Chunk(schema, [id, score, name], dictionary)],
+			schema,
+			dictionary,
+		);
+	}
+
+	for (const compression of ["uncompressed", "snappy", "zstd"] as const) {
+		it(`round-trips ${compression} v2 pages`, async () => {
+			const path = join(dir, `v2-${compression}.parquet`);
+			await frame().writeParquet(path, {
+				compression,
+				dataPageVersion: "2.0",
+				dictionary: compression !== "zstd",
+			});
+
+			const df = await new ParquetReader(path).read();
+			expect(await df.toArray()).toEqual(rows);
+		});
+	}
+
+	it("writes v2 page headers readable by hyparquet", async () => {
+		const path = join(dir, "v2-hyparquet.parquet");
+		await frame().writeParquet(path, { dataPageVersion: "2.0" });
+
+		const file = Bun.file(path);
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		const meta = await new ParquetReader(path).readMetadata();
+		const offset = Number(
+			meta.row_groups[0]?.columns[0]?.meta_data?.data_page_offset,
+		);
+		// PageHeader field 1 (type) is the first zigzag varint after 0x15
+		expect(bytes[offset]).toBe(0x15);
+		expect(bytes[offset + 1]).toBe(PageType.DATA_PAGE_V2 * 2);
+
+		const result = await parquetReadObjects({
+			file: await asyncBufferFromFile(path),
+		});
+		expect(result).toEqual(rows);
+	});
+});
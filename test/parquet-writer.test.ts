@@ -0,0 +1,187 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary, type Dictionary } from "../src/buffer/dictionary.ts";
+import { DataFrame } from "../src/dataframe/dataframe.ts";
+import { ParquetReader } from "../src/io/index.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema, type Schema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-parquet-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+/** Build a single-chunk DataFrame from row objects (null = missing value). */
+function frame(
+	schema: Schema,
+	rows: Record<string, number | bigint | string | boolean | null>[],
+	dictionary: Dictionary,
+): DataFrame {
+	const columns = schema.columns.map((def) => {
+		const buffer = new ColumnBuffer(
+			def.dtype.kind,
+			Math.max(rows.length, 1),
+			def.dtype.nullable,
+		);
+		for (const row of rows) {
+			const value = row[def.name];
+			if (value === null || value === undefined) {
+				buffer.appendNull();
+			} else if (def.dtype.kind === DTypeKind.String) {
+				buffer.append(dictionary.internString(value as string));
+			} else if (def.dtype.kind === DTypeKind.Boolean) {
+				buffer.append(value ? 1 : 0);
+			} else {
+				buffer.append(value as never);
+			}
+		}
+		return buffer;
+	});
+	return DataFrame.fromChunks(
+		[new Chunk(schema, columns, dictionary)],
+		schema,
+		dictionary,
+	);
+}
+
+async function readBack(path: string): Promise<Record<string, unknown>[]> {
+	return parquetReadObjects({ file: await asyncBufferFromFile(path) });
+}
+
+function int32(bytes: Uint8Array | undefined): number | undefined {
+	if (!bytes) return undefined;
+	return new DataView(bytes.buffer, bytes.byteOffset).getInt32(0, true);
+}
+
+describe("ParquetWriter", () => {
+	const schema = unwrap(
+		createSchema({
+			id: DType.int32,
+			score: DType.nullable.float64,
+			name: DType.nullable.string,
+			big: DType.int64,
+		}),
+	);
+	const rows = Array.from({ length: 1000 }, (_, i) => ({
+		id: i,
+		score: i % 7 === 0 ? null : i / 4,
+		name: i % 5 === 0 ? null : `name_${i % 13}`,
+		big: BigInt(i) * 1_000_000_000n,
+	}));
+
+	it("round-trips through hyparquet with dictionary and snappy", async () => {
+		const path = join(dir, "basic.parquet");
+		await frame(schema, rows, createDictionary()).writeParquet(path, {
+			rowGroupSize: 300,
+		});
+
+		const result = await readBack(path);
+		expect(result.length).toBe(1000);
+		expect(result).toEqual(rows);
+	});
+
+	it("round-trips plain uncompressed pages through ParquetReader", async () => {
+		const path = join(dir, "plain.parquet");
+		await frame(schema, rows, createDictionary()).writeParquet(path, {
+			compression: "uncompressed",
+			dictionary: false,
+		});
+
+		const reader = new ParquetReader(path);
+		const meta = await reader.readMetadata();
+		expect(meta.row_groups.length).toBe(1);
+
+		const df = await reader.read();
+		const result = await df.toArray();
+		expect(result.length).toBe(1000);
+		expect(result[3]).toEqual({
+			id: 3,
+			score: 0.75,
+			name: "name_3",
+			big: 3_000_000_000n,
+		});
+		expect(result[0]?.score).toBeNull();
+		expect(result[5]?.name).toBeNull();
+	});
+
+	it("writes row groups with statistics", async () => {
+		const path = join(dir, "stats.parquet");
+		await frame(schema, rows, createDictionary()).writeParquet(path, {
+			rowGroupSize: 250,
+		});
+
+		const meta = await new ParquetReader(path).readMetadata();
+		expect(meta.row_groups.length).toBe(4);
+		expect(meta.num_rows).toBe(1000n);
+
+		const idStats = meta.row_groups[1]?.columns[0]?.meta_data?.statistics;
+		expect(int32(idStats?.min_value)).toBe(250);
+		expect(int32(idStats?.max_value)).toBe(499);
+
+		const nameStats = meta.row_groups[0]?.columns[2]?.meta_data?.statistics;
+		expect(nameStats?.null_count).toBe(50n);
+		expect(new TextDecoder().decode(nameStats?.min_value)).toBe("name_0");
+		expect(new TextDecoder().decode(nameStats?.max_value)).toBe("name_9");
+	});
+
+	it("writes booleans, dates and timestamps", async () => {
+		const typed = unwrap(
+			createSchema({
+				flag: DType.nullable.boolean,
+				day: DType.date,
+				at: DType.timestamp,
+			}),
+		);
+		const path = join(dir, "typed.parquet");
+		await frame(
+			typed,
+			[
+				{ flag: true, day: 0, at: 0n },
+				{ flag: null, day: 19000, at: 1_700_000_000_123n },
+				{ flag: false, day: -1, at: -1000n },
+			],
+			createDictionary(),
+		).writeParquet(path);
+
+		const result = await readBack(path);
+		expect(result.map((r) => r.flag)).toEqual([true, null, false]);
+		expect((result[1]?.day as Date).toISOString()).toBe(
+			"2022-01-08T00:00:00.000Z",
+		);
+		expect((result[1]?.at as Date).getTime()).toBe(1_700_000_000_123);
+		expect((result[2]?.at as Date).getTime()).toBe(-1000);
+	});
+
+	it("streams filtered and projected pipelines", async () => {
+		const path = join(dir, "projected.parquet");
+		await frame(schema, rows, createDictionary())
+			.select("id", "name")
+			.limit(10)
+			.writeParquet(path);
+
+		const result = await readBack(path);
+		expect(result.length).toBe(10);
+		expect(Object.keys(result[0] ?? {})).toEqual(["id", "name"]);
+		expect(result[9]).toEqual({ id: 9, name: "name_9" });
+	});
+
+	it("leaves no file behind when the upstream stream fails", async () => {
+		const path = join(dir, "failed.parquet");
+		const base = frame(schema, rows, createDictionary());
+		const source = {
+			async *[Symbol.asyncIterator]() {
+				yield* base.source as Chunk[];
+				throw new Error("source unavailable");
+			},
+		};
+		const df = DataFrame.fromStream(source, base._schema, base._dictionary);
+
+		await expect(df.writeParquet(path)).rejects.toThrow("source unavailable");
+		expect(existsSync(path)).toBe(false);
+		expect(readdirSync(dir).filter((f) => f.startsWith("failed"))).toEqual([]);
+	});
+});
@@ -0,0 +1,180 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Chunk } from "../src/buffer/chunk.ts";
+import { ColumnBuffer } from "../src/buffer/column-buffer.ts";
+import { createDictionary } from "../src/buffer/dictionary.ts";
+import { col, DataFrame, readDataset } from "../src/dataframe/dataframe.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+import { createSchema } from "../src/types/schema.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-partitioned-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = unwrap(
+	createSchema({
+		id: DType.int32,
+		date: DType.nullable.string,
+		hour: DType.int32,
+	}),
+);
+
+/** Rows as [id, date, hour], split into chunks of two rows */
+function frame(rows: [number, string | null, number][]): DataFrame {
+	const dictionary = createDictionary();
+	const chunks: Chunk[] = [];
+	for (let start = 0; start < rows.length; start += 2) {
+		const part = rows.slice(start, start + 2);
+		const id = new ColumnBuffer(DType.int32.kind, part.length, false);
+		const date = new ColumnBuffer(DType.string.kind, part.length, true);
+		const hour = new ColumnBuffer(DType.int32.kind, part.length, false);
+		for (const [i, d, h] of part) {
+			id.append(i);
+			if (d === null) date.appendNull();
+			else date.append(dictionary.internString(d));
+			hour.append(h);
+		}
+		chunks.push(new Chunk(schema, [id, date, hour], dictionary));
+	}
+	return DataFrame.fromChunks(chunks, schema, dictionary);
+}
+
+const ROWS: [number, string | null, number][] = [
+	[1, "2026-10-01", 1],
+	[2, "2026-10-02", 1],
+	[3, "2026-10-01", 2],
+	[4, "2026-10-01", 1],
+	[5, null, 1],
+];
+
+function files(path: string): string[] {
+	return readdirSync(path, { recursive: true })
+		.map(String)
+		.filter((name) => name.endsWith(".parquet") || name.endsWith(".csv"))
+		.sort();
+}
+
+async function sortedRows(df: DataFrame): Promise<Record<string, unknown>[]> {
+	const rows = await df.toArray();
+	return rows.sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+describe("writePartitioned", () => {
+	it("writes a Hive layout that readDataset reads back", async () => {
+		const out = join(dir, "parquet");
+		await frame(ROWS).writePartitioned(out, ["date", "hour"]);
+
+		expect(files(out)).toEqual([
+			"date=2026-10-01/hour=1/part-00000.parquet",
+			"date=2026-10-01/hour=2/part-00000.parquet",
+			"date=2026-10-02/hour=1/part-00000.parquet",
+			"date=__HIVE_DEFAULT_PARTITION__/hour=1/part-00000.parquet",
+		]);
+
+		const back = await readDataset(out);
+		expect(back.columnNames).toEqual(["id", "date", "hour"]);
+		expect(await sortedRows(back)).toEqual([
+			{ id: 1, date: "2026-10-01", hour: 1 },
+			{ id: 2, date: "2026-10-02", hour: 1 },
+			{ id: 3, date: "2026-10-01", hour: 2 },
+			{ id: 4, date: "2026-10-01", hour: 1 },
+			{ id: 5, date: null, hour: 1 },
+		]);
+	});
+
+	it("starts a new file when maxRowsPerFile is reached", async () => {
+		const out = join(dir, "split");
+		await frame(ROWS).writePartitioned(out, "hour", { maxRowsPerFile: 2 });
+		expect(files(out)).toEqual([
+			"hour=1/part-00000.parquet",
+			"hour=1/part-00001.parquet",
+			"hour=2/part-00000.parquet",
+		]);
+		expect(await (await readDataset(out)).count()).toBe(5);
+	});
+
+	it("appends next to existing files or overwrites them", async () => {
+		const out = join(dir, "modes");
+		await frame(ROWS.slice(0, 2)).writePartitioned(out, "hour");
+		await frame(ROWS.slice(2, 4)).writePartitioned(out, "hour", {
+			mode: "append",
+		});
+		expect(files(out)).toEqual([
+			"hour=1/part-00000.parquet",
+			"hour=1/part-00001.parquet",
+			"hour=2/part-00000.parquet",
+		]);
+		expect(await (await readDataset(out)).count()).toBe(4);
+
+		await frame(ROWS.slice(4)).writePartitioned(out, "hour", {
+			mode: "overwrite",
+		});
+		expect(files(out)).toEqual(["hour=1/part-00000.parquet"]);
+	});
+
+	it("overwrites the dataset it reads from", async () => {
+		const out = join(dir, "rewrite");
+		await frame(ROWS.slice(0, 4)).writePartitioned(out, "hour");
+		const source = await readDataset(out);
+		await source.filter(col("id").gt(1)).writePartitioned(out, "hour");
+
+		expect(files(out)).toEqual([
+			"hour=1/part-00000.parquet",
+			"hour=2/part-00000.parquet",
+		]);
+		expect(await (await readDataset(out)).count()).toBe(3);
+		expect(readdirSync(dir).filter((name) => name.endsWith(".tmp"))).toEqual(
+			[],
+		);
+	});
+
+	it("keeps the old files when a write fails", async () => {
+		const out = join(dir, "failed");
+		await frame(ROWS).writePartitioned(out, "hour", { format: "csv" });
+		const base = frame(ROWS.slice(0, 2));
+		const failing = DataFrame.fromStream(
+			{
+				async *[Symbol.asyncIterator]() {
+					yield* base.stream();
+					throw new Error("source failed");
+				},
+			},
+			schema,
+			base._dictionary,
+		);
+
+		for (const mode of ["overwrite", "append"] as const) {
+			await expect(
+				failing.writePartitioned(out, "hour", { format: "csv", mode }),
+			).rejects.toThrow("source failed");
+		}
+		expect(files(out)).toEqual([
+			"hour=1/part-00000.csv",
+			"hour=2/part-00000.csv",
+		]);
+		const back = await readDataset(out, {
+			format: "csv",
+			schema: { id: DType.int32, date: DType.nullable.string },
+		});
+		expect(await back.count()).toBe(5);
+	});
+
+	it("writes CSV partitions", async () => {
+		const out = join(dir, "csv");
+		await frame(ROWS.slice(0, 3)).writePartitioned(out, "date", {
+			format: "csv",
+		});
+		const text = await Bun.file(
+			join(out, "date=2026-10-01/part-00000.csv"),
+		).text();
+		expect(text).toBe("id,hour\n1,1\n3,2\n");
+	});
+
+	it("rejects unknown partition columns", async () => {
+		await expect(
+			frame(ROWS).writePartitioned(join(dir, "bad"), "nope"),
+		).rejects.toThrow("Partition column 'nope' not found");
+	});
+});
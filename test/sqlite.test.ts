@@ -0,0 +1,240 @@
+import { Database } from "bun:sqlite";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	DataFrame,
+	fromRecords,
+	readSqlite,
+} from "../src/dataframe/dataframe.ts";
+import { affinityType } from "../src/io/sqlite.ts";
+import { DType, DTypeKind } from "../src/types/dtypes.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-sqlite-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const dbPath = join(dir, "ref.db");
+
+beforeAll(() => {
+	const db = new Database(dbPath, { create: true });
+	db.run(`CREATE TABLE city (
+		id INTEGER PRIMARY KEY,
+		name VARCHAR(40),
+		population BIGINT,
+		area REAL,
+		density NUMERIC,
+		capital BOOLEAN,
+		founded DATE,
+		updated TIMESTAMP
+	)`);
+	const insert = db.prepare("INSERT INTO city VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+	insert.run(
+		1,
+		"Lisbon",
+		545923,
+		100.05,
+		5456.4,
+		1,
+		"1147-10-25",
+		"2026-10-19T08:30:00Z",
+	);
+	insert.run(2, "Porto", 231800, 41.42, null, 0, null, 1760862600);
+	insert.run(3, null, null, null, 12, null, null, null);
+	db.close();
+});
+
+function kinds(df: DataFrame): DTypeKind[] {
+	return df.schema.columns.map((c) => c.dtype.kind);
+}
+
+describe("readSqlite", () => {
+	it("maps declared types by affinity", () => {
+		expect(affinityType("VARCHAR(40)")).toEqual(DType.nullable.string);
+		expect(affinityType("unsigned big int")).toEqual(DType.nullable.int64);
+		expect(affinityType("DOUBLE PRECISION")).toEqual(DType.nullable.float64);
+		expect(affinityType("DECIMAL(10,5)")).toEqual(DType.nullable.float64);
+		expect(affinityType("DATETIME")).toEqual(DType.nullable.timestamp);
+		expect(() => affinityType("BLOB")).toThrow(
+			"SQLite type 'BLOB' has no DType",
+		);
+	});
+
+	it("reads a table with typed, nullable columns", async () => {
+		const df = await readSqlite(dbPath, "SELECT * FROM city ORDER BY id");
+		expect(kinds(df)).toEqual([
+			DTypeKind.Int64,
+			DTypeKind.String,
+			DTypeKind.Int64,
+			DTypeKind.Float64,
+			DTypeKind.Float64,
+			DTypeKind.Boolean,
+			DTypeKind.Date,
+			DTypeKind.Timestamp,
+		]);
+		const rows = await df.toArray();
+		expect(rows[0]).toEqual({
+			id: 1n,
+			name: "Lisbon",
+			population: 545923n,
+			area: 100.05,
+			density: 5456.4,
+			capital: 1,
+			founded: Math.floor(Date.UTC(1147, 9, 25) / 86_400_000),
+			updated: BigInt(Date.UTC(2026, 9, 19, 8, 30)),
+		});
+		expect(rows[1]?.updated).toBe(1760862600000n);
+		expect(rows[2]).toEqual({
+			id: 3n,
+			name: null,
+			population: null,
+			area: null,
+			density: 12,
+			capital: null,
+			founded: null,
+			updated: null,
+		});
+	});
+
+	it("types expression columns from their values and binds parameters", async () => {
+		const df = await readSqlite(
+			dbPath,
+			"SELECT count(*) AS n, avg(area) AS mean, upper(name) AS label FROM city WHERE id <= ? GROUP BY name ORDER BY name",
+			{ params: [2], schema: { n: DType.int32 } },
+		);
+		expect(kinds(df)).toEqual([
+			DTypeKind.Int32,
+			DTypeKind.Float64,
+			DTypeKind.String,
+		]);
+		expect(await df.toArray()).toEqual([
+			{ n: 1, mean: 100.05, label: "LISBON" },
+			{ n: 1, mean: 41.42, label: "PORTO" },
+		]);
+	});
+
+	it("splits large results into chunks", async () => {
+		const df = await readSqlite(dbPath, "SELECT id FROM city", {
+			chunkSize: 2,
+		});
+		expect((await df.toChunks()).map((c) => c.rowCount)).toEqual([2, 1]);
+	});
+
+	it("returns an empty frame with the declared schema", async () => {
+		const df = await readSqlite(dbPath, "SELECT id, name FROM city WHERE 0");
+		expect(await df.count()).toBe(0);
+		expect(kinds(df)).toEqual([DTypeKind.Int64, DTypeKind.String]);
+	});
+
+	it("fails on a missing database", async () => {
+		await expect(
+			readSqlite(join(dir, "missing.db"), "SELECT 1"),
+		).rejects.toThrow("SQLite database not found");
+	});
+});
+
+describe("writeSqlite", () => {
+	const out = join(dir, "out.db");
+	const df = fromRecords(
+		[
+			{
+				id: 1,
+				name: "a",
+				score: 0.5,
+				ok: true,
+				day: "2026-10-19",
+				at: "2025-10-19T08:30:00Z",
+			},
+			{ id: 2, name: null, score: null, ok: false, day: null, at: null },
+			{
+				id: 3,
+				name: "c",
+				score: 2.5,
+				ok: null,
+				day: "1970-01-01",
+				at: "1970-01-01T00:00:00Z",
+			},
+		],
+		{
+			id: DType.int32,
+			name: DType.nullable.string,
+			score: DType.nullable.float64,
+			ok: DType.nullable.boolean,
+			day: DType.nullable.date,
+			at: DType.nullable.timestamp,
+		},
+	);
+
+	it("creates a table that reads back with the same types", async () => {
+		await df.writeSqlite(out, "items", { batchSize: 2 });
+
+		const back = await readSqlite(out, "SELECT * FROM items", {
+			schema: { id: DType.int32 },
+		});
+		expect(kinds(back)).toEqual(kinds(df));
+		expect(await back.toArray()).toEqual(await df.toArray());
+
+		const db = new Database(out, { readonly: true });
+		const sql = db
+			.query("SELECT sql FROM sqlite_master WHERE name = 'items'")
+			.get() as { sql: string };
+		db.close();
+		expect(sql.sql).toContain('"id" INTEGER NOT NULL');
+		expect(sql.sql).toContain('"day" DATE');
+	});
+
+	it("refuses to overwrite with create, appends and replaces", async () => {
+		await expect(df.writeSqlite(out, "items")).rejects.toThrow(
+			"SQLite table 'items' already exists",
+		);
+
+		await df.writeSqlite(out, "items", { mode: "append" });
+		expect(await (await readSqlite(out, "SELECT id FROM items")).count()).toBe(
+			6,
+		);
+
+		await df.limit(1).writeSqlite(out, "items", { mode: "replace" });
+		expect(await (await readSqlite(out, "SELECT id FROM items")).count()).toBe(
+			1,
+		);
+	});
+
+	it("rolls back a failed write, including the replaced table", async () => {
+		const failing = DataFrame.fromStream(
+			{
+				async *[Symbol.asyncIterator]() {
+					yield* df.stream();
+					throw new Error("source failed");
+				},
+			},
+			df._schema,
+			df._dictionary,
+		);
+
+		await expect(
+			failing.writeSqlite(out, "items", { mode: "replace", batchSize: 1 }),
+		).rejects.toThrow("source failed");
+		expect(await (await readSqlite(out, "SELECT id FROM items")).count()).toBe(
+			1,
+		);
+
+		await expect(
+			failing.writeSqlite(out, "partial", { batchSize: 1 }),
+		).rejects.toThrow("source failed");
+		const db = new Database(out, { readonly: true });
+		const table = db
+			.query("SELECT 1 FROM sqlite_master WHERE name = 'partial'")
+			.get();
+		db.close();
+		expect(table).toBeNull();
+	});
+
+	it("quotes table and column names", async () => {
+		const odd = fromRecords([{ "user.id": 1 }], {
+			"user.id": DType.int32,
+		});
+		await odd.writeSqlite(out, "odd table");
+		const back = await readSqlite(out, 'SELECT * FROM "odd table"');
+		expect(await back.toArray()).toEqual([{ "user.id": 1n }]);
+	});
+});
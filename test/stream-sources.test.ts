@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	fromCsvString,
+	readCsv,
+	readParquet,
+} from "../src/dataframe/dataframe.ts";
+import { CsvSource, ParquetReader } from "../src/io/index.ts";
+import { DType } from "../src/types/dtypes.ts";
+import { unwrap } from "../src/types/error.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "mornye-stream-sources-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const schema = { id: DType.int32, name: DType.string };
+const CSV = "id,name\n1,a\n2,b\n3,c\n";
+const ROWS = [
+	{ id: 1, name: "a" },
+	{ id: 2, name: "b" },
+	{ id: 3, name: "c" },
+];
+
+/** A stream delivering `bytes` in small blocks, like a network body */
+function blockStream(bytes: Uint8Array, size = 5): ReadableStream<Uint8Array> {
+	let offset = 0;
+	return new ReadableStream({
+		pull(controller) {
+			if (offset >= bytes.length) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(bytes.slice(offset, offset + size));
+			offset += size;
+		},
+	});
+}
+
+describe("CSV from byte sources", () => {
+	it("reads a ReadableStream such as Response.body", async () => {
+		const response = new Response(CSV);
+		const df = await readCsv(
+			response.body ?? blockStream(new Uint8Array()),
+			schema,
+		);
+		expect(await df.toArray()).toEqual(ROWS);
+	});
+
+	it("infers the schema from a stream and keeps the sampled rows", async () => {
+		const bytes = new TextEncoder().encode(CSV);
+		const df = await readCsv(blockStream(bytes), undefined, {
+			inferSchemaLength: 1,
+		});
+		expect(df.schema.columns.map((c) => c.dtype.kind)).toEqual([
+			DType.int32.kind,
+			DType.string.kind,
+		]);
+		expect(await df.toArray()).toEqual(ROWS);
+	});
+
+	it("decompresses gzip streams by their magic bytes", async () => {
+		const df = await readCsv(blockStream(Bun.gzipSync(CSV), 7), schema);
+		expect(await df.toArray()).toEqual(ROWS);
+	});
+
+	it("reads streams only once", async () => {
+		const df = await readCsv(new Response(CSV).body ?? new Blob(), schema);
+		await df.toArray();
+		await expect(df.toArray()).rejects.toThrow(
+			"A CSV stream source can only be read once",
+		);
+	});
+
+	it("re-reads Blobs and buffers", async () => {
+		const buffer = new TextEncoder().encode(CSV).buffer;
+		for (const input of [new Blob([CSV]), buffer]) {
+			const df = await readCsv(input);
+			expect(await df.toArray()).toEqual(ROWS);
+			expect(await df.count()).toBe(3);
+		}
+	});
+
+	it("parses byte sources on workers", async () => {
+		const source = unwrap(
+			await CsvSource.fromStream(new Blob([CSV]), schema, { workers: 2 }),
+		);
+		const chunks = unwrap(await source.collectChunks());
+		expect(chunks.reduce((n, c) => n + c.rowCount, 0)).toBe(3);
+	});
+
+	it("reads Bun.stdin", async () => {
+		const script = join(dir, "stdin.ts");
+		await Bun.write(
+			script,
+			`import { readCsv } from ${JSON.stringify(join(import.meta.dir, "../src/dataframe/dataframe.ts"))};
+const df = await readCsv(Bun.stdin);
+console.log(JSON.stringify(await df.toArray()));`,
+		);
+		const proc = Bun.spawn([process.execPath, script], {
+			stdin: new Blob([CSV]),
+			stdout: "pipe",
+		});
+		const output = await new Response(proc.stdout).text();
+		expect(await proc.exited).toBe(0);
+		expect(JSON.parse(output)).toEqual(ROWS);
+	});
+});
+
+describe("Parquet from byte sources", () => {
+	const path = join(dir, "data.parquet");
+	beforeAll(() => fromCsvString(CSV, schema).writeParquet(path));
+
+	it("reads an ArrayBuffer and a Blob", async () => {
+		const buffer = await Bun.file(path).arrayBuffer();
+		expect(await (await readParquet(buffer)).toArray()).toEqual(ROWS);
+
+		const reader = new ParquetReader(new Blob([buffer]), { columns: ["name"] });
+		expect(await (await reader.read()).toArray()).toEqual(
+			ROWS.map(({ name }) => ({ name })),
+		);
+	});
+
+	it("reads a stream into memory", async () => {
+		const bytes = await Bun.file(path).bytes();
+		const df = await readParquet(blockStream(bytes, 64));
+		expect(await df.toArray()).toEqual(ROWS);
+	});
+});